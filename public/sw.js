@@ -0,0 +1,68 @@
+/* Service worker: keeps the app shell available offline and relays
+ * Background Sync to the open window, which owns the Supabase session
+ * and flushes the offline daily entry queue (src/hooks/useOfflineQueue.ts). */
+
+const CACHE_NAME = "tkjd-shell-v1";
+const SHELL = ["/", "/manifest.json", "/favicon.png", "/logo-192.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls (Supabase) are never cached; the offline queue handles writes
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // SPA navigation: network first, fall back to the cached shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put("/", copy));
+          return response;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  // Hashed build assets never change: cache first
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+            return response;
+          })
+      )
+    );
+    return;
+  }
+
+  event.respondWith(fetch(request).catch(() => caches.match(request)));
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== "daily-entries") return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: "sync-daily-entries" })))
+  );
+});
@@ -7,6 +7,7 @@ import { AuthProvider } from "@/hooks/useAuth";
 import { AppLayout } from "@/components/layout/AppLayout";
 import Auth from "./pages/Auth";
 import ResetPassword from "./pages/ResetPassword";
+import ClientSignoff from "./pages/ClientSignoff";
 import Dashboard from "./pages/Dashboard";
 import DailyEntry from "./pages/DailyEntry";
 import WeeklyClosings from "./pages/WeeklyClosings";
@@ -22,6 +23,7 @@ import Employees from "./pages/Employees";
 import Sanctions from "./pages/Sanctions";
 import Equipment from "./pages/Equipment";
 import CalendarPage from "./pages/Calendar";
+import AuditLog from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -36,6 +38,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Auth />} />
             <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/sign/:token" element={<ClientSignoff />} />
             <Route element={<AppLayout />}>
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/daily-entry" element={<DailyEntry />} />
@@ -52,6 +55,7 @@ const App = () => (
               <Route path="/sanctions" element={<Sanctions />} />
               <Route path="/equipment" element={<Equipment />} />
               <Route path="/calendar" element={<CalendarPage />} />
+              <Route path="/audit-log" element={<AuditLog />} />
             </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
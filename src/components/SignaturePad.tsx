@@ -6,13 +6,74 @@ import { Loader2, Trash2, Save, PenTool } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
-interface SignaturePadProps {
-  userId: string;
+interface SignaturePadBaseProps {
   currentSignatureUrl: string | null;
   onSignatureSaved: (url: string) => void;
+  title?: string;
+  description?: string;
+  saveLabel?: string;
 }
 
-export function SignaturePad({ userId, currentSignatureUrl, onSignatureSaved }: SignaturePadProps) {
+type SignaturePadProps = SignaturePadBaseProps &
+  (
+    | { userId: string; onSave?: never }
+    | {
+        userId?: never;
+        /** Store the drawn PNG data URL elsewhere than the user's profile; resolves to the URL to display */
+        onSave: (dataUrl: string) => Promise<string>;
+      }
+  );
+
+/** Upload the signature to the signatures bucket and reference it from the profile */
+async function saveProfileSignature(userId: string, dataUrl: string): Promise<string> {
+  // Convert data URL to blob
+  const response = await fetch(dataUrl);
+  const blob = await response.blob();
+
+  // Create file path
+  const fileName = `${userId}/signature.png`;
+
+  // Delete existing signature if present
+  await supabase.storage.from("signatures").remove([fileName]);
+
+  // Upload new signature
+  const { error: uploadError } = await supabase.storage
+    .from("signatures")
+    .upload(fileName, blob, {
+      contentType: "image/png",
+      upsert: true,
+    });
+
+  if (uploadError) throw uploadError;
+
+  // Store the file path (not public URL) - we'll generate signed URLs when needed
+  const signaturePath = fileName;
+
+  // Update profile with signature path (stored as signature_url for compatibility)
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({ signature_url: signaturePath })
+    .eq("user_id", userId);
+
+  if (updateError) throw updateError;
+
+  // Generate a signed URL for immediate display
+  const { data: signedUrlData } = await supabase.storage
+    .from("signatures")
+    .createSignedUrl(signaturePath, 3600); // 1 hour expiry
+
+  return signedUrlData?.signedUrl || signaturePath;
+}
+
+export function SignaturePad({
+  userId,
+  onSave,
+  currentSignatureUrl,
+  onSignatureSaved,
+  title = "Digitálny podpis",
+  description = "Nakreslite svoj podpis pre faktúry",
+  saveLabel = "Uložiť podpis",
+}: SignaturePadProps) {
   const sigCanvas = useRef<SignatureCanvas>(null);
   const [saving, setSaving] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -38,49 +99,17 @@ export function SignaturePad({ userId, currentSignatureUrl, onSignatureSaved }:
     try {
       // Get signature as PNG data URL
       const dataUrl = sigCanvas.current.toDataURL("image/png");
-      
-      // Convert data URL to blob
-      const response = await fetch(dataUrl);
-      const blob = await response.blob();
-      
-      // Create file path
-      const fileName = `${userId}/signature.png`;
-      
-      // Delete existing signature if present
-      await supabase.storage.from("signatures").remove([fileName]);
-      
-      // Upload new signature
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("signatures")
-        .upload(fileName, blob, {
-          contentType: "image/png",
-          upsert: true,
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Store the file path (not public URL) - we'll generate signed URLs when needed
-      const signaturePath = fileName;
 
-      // Update profile with signature path (stored as signature_url for compatibility)
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ signature_url: signaturePath })
-        .eq("user_id", userId);
+      if (onSave) {
+        onSignatureSaved(await onSave(dataUrl));
+      } else {
+        onSignatureSaved(await saveProfileSignature(userId, dataUrl));
 
-      if (updateError) throw updateError;
-
-      // Generate a signed URL for immediate display
-      const { data: signedUrlData } = await supabase.storage
-        .from("signatures")
-        .createSignedUrl(signaturePath, 3600); // 1 hour expiry
-
-      onSignatureSaved(signedUrlData?.signedUrl || signaturePath);
-      
-      toast({
-        title: "Podpis uložený",
-        description: "Váš digitálny podpis bol úspešne uložený.",
-      });
+        toast({
+          title: "Podpis uložený",
+          description: "Váš digitálny podpis bol úspešne uložený.",
+        });
+      }
     } catch (error: any) {
       console.error("Error saving signature:", error);
       toast({
@@ -98,10 +127,10 @@ export function SignaturePad({ userId, currentSignatureUrl, onSignatureSaved }:
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <PenTool className="h-5 w-5" />
-          Digitálny podpis
+          {title}
         </CardTitle>
         <CardDescription>
-          Nakreslite svoj podpis pre faktúry
+          {description}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -160,7 +189,7 @@ export function SignaturePad({ userId, currentSignatureUrl, onSignatureSaved }:
                 ) : (
                   <>
                     <Save className="mr-2 h-4 w-4" />
-                    Uložiť podpis
+                    {saveLabel}
                   </>
                 )}
               </Button>
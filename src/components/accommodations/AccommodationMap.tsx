@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
 import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
 import L from "leaflet";
+import { geocodeAddress } from "@/lib/geocoding";
 
 interface Accommodation {
   id: string;
@@ -100,25 +101,12 @@ function MapInner({ accommodations, selectedId, onSelect }: Props) {
         if (acc.lat != null && acc.lng != null && acc.lat !== 0 && acc.lng !== 0) {
           resolved.push({ ...acc, resolvedLat: acc.lat, resolvedLng: acc.lng });
         } else if (acc.address) {
-          try {
-            const q = encodeURIComponent(`${acc.address}${acc.city ? ", " + acc.city : ""}`);
-            const res = await fetch(
-              `https://nominatim.openstreetmap.org/search?format=json&q=${q}&limit=1`,
-              { headers: { "Accept-Language": "en" } }
-            );
-            const data = await res.json();
-            if (data?.[0]) {
-              resolved.push({
-                ...acc,
-                resolvedLat: parseFloat(data[0].lat),
-                resolvedLng: parseFloat(data[0].lon),
-              });
-            }
-            // Nominatim rate limit: 1 req/sec
-            await new Promise((r) => setTimeout(r, 1100));
-          } catch (e) {
-            console.warn("Geocoding failed for", acc.address, e);
+          const point = await geocodeAddress(`${acc.address}${acc.city ? ", " + acc.city : ""}`);
+          if (point) {
+            resolved.push({ ...acc, resolvedLat: point.lat, resolvedLng: point.lng });
           }
+          // Nominatim rate limit: 1 req/sec
+          await new Promise((r) => setTimeout(r, 1100));
         }
       }
 
@@ -0,0 +1,209 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Euro, Loader2 } from "lucide-react";
+import { useAccommodationPayments, PAYMENT_FREQUENCY_LABELS } from "@/hooks/useAccommodationPayments";
+import { useAccommodationCostLedger } from "@/hooks/useAccommodationCostLedger";
+import { format, subMonths } from "date-fns";
+import { sk } from "date-fns/locale";
+
+interface Props {
+  /** Called after a payment is settled so the accommodation list picks up the new next_payment_date */
+  onPaid?: () => void;
+}
+
+const formatAmount = (amt: number) =>
+  new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+const formatDate = (dateStr: string) => format(new Date(dateStr), "d.M.yyyy");
+
+export default function AccommodationPaymentsPanel({ onPaid }: Props) {
+  const paidSince = useMemo(() => format(subMonths(new Date(), 2), "yyyy-MM-dd"), []);
+  const { payments, loading, processingId, markPaid } = useAccommodationPayments(paidSince);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const { rows, loading: ledgerLoading } = useAccommodationCostLedger(year);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const yearOptions = Array.from({ length: 3 }, (_, i) => new Date().getFullYear() - i);
+
+  const totals = rows.reduce(
+    (acc, row) => ({ cost: acc.cost + row.cost, collected: acc.collected + row.collected }),
+    { cost: 0, collected: 0 }
+  );
+
+  const handleMarkPaid = async (payment: (typeof payments)[number]) => {
+    await markPaid(payment);
+    onPaid?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Euro className="h-5 w-5" />
+          Platby za ubytovanie
+        </CardTitle>
+        <CardDescription>Splátkový kalendár prenajímateľom a náklady oproti zrážkam z faktúr</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="schedule" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="schedule">Splátkový kalendár</TabsTrigger>
+            <TabsTrigger value="ledger">Náklady</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="schedule">
+            {loading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : payments.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Žiadne platby – nastavte ubytovaniu frekvenciu a dátum najbližšej platby
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ubytovanie</TableHead>
+                    <TableHead>Obdobie</TableHead>
+                    <TableHead>Splatnosť</TableHead>
+                    <TableHead className="text-right">Suma</TableHead>
+                    <TableHead>Stav</TableHead>
+                    <TableHead className="text-right">Akcie</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map((payment) => {
+                    const isOverdue = payment.status === "pending" && payment.due_date < today;
+                    return (
+                      <TableRow key={payment.id}>
+                        <TableCell>
+                          <div className="font-medium">{payment.accommodation?.name || payment.accommodation?.address || "—"}</div>
+                          {payment.accommodation?.payment_frequency && (
+                            <div className="text-xs text-muted-foreground">
+                              {PAYMENT_FREQUENCY_LABELS[payment.accommodation.payment_frequency] ?? payment.accommodation.payment_frequency}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(payment.period_start)} – {formatDate(payment.period_end)}
+                        </TableCell>
+                        <TableCell>{formatDate(payment.due_date)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatAmount(Number(payment.amount))}</TableCell>
+                        <TableCell>
+                          {payment.status === "paid" ? (
+                            <Badge variant="secondary">
+                              Zaplatené {payment.paid_at && formatDate(payment.paid_at)}
+                            </Badge>
+                          ) : isOverdue ? (
+                            <Badge variant="destructive">Po splatnosti</Badge>
+                          ) : (
+                            <Badge variant="outline">Čaká</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {payment.status === "pending" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-xs border-green-500 text-green-700 hover:bg-green-50 dark:text-green-400 dark:hover:bg-green-950"
+                              onClick={() => handleMarkPaid(payment)}
+                              disabled={processingId === payment.id}
+                            >
+                              {processingId === payment.id ? (
+                                <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                              ) : (
+                                <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                              )}
+                              Zaplatené
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="ledger" className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                Nájomné podľa splatnosti oproti zrážkam za ubytovanie z faktúr subdodávateľov
+              </p>
+              <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {yearOptions.map((y) => (
+                    <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {ledgerLoading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Žiadne náklady v roku {year}</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ubytovanie</TableHead>
+                    <TableHead>Mesiac</TableHead>
+                    <TableHead className="text-right">Nájomné</TableHead>
+                    <TableHead className="text-right">Zrážky</TableHead>
+                    <TableHead className="text-right">Rozdiel</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const diff = row.collected - row.cost;
+                    return (
+                      <TableRow key={`${row.accommodationId}-${row.month}`}>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="capitalize">
+                          {format(new Date(year, row.month - 1, 1), "LLLL", { locale: sk })}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(row.cost)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.collected)}</TableCell>
+                        <TableCell className={`text-right font-medium ${diff < 0 ? "text-destructive" : "text-green-600"}`}>
+                          {formatAmount(diff)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow className="font-bold">
+                    <TableCell colSpan={2}>Spolu {year}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.cost)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.collected)}</TableCell>
+                    <TableCell
+                      className={`text-right ${totals.collected - totals.cost < 0 ? "text-destructive" : "text-green-600"}`}
+                    >
+                      {formatAmount(totals.collected - totals.cost)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
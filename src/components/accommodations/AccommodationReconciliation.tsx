@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Loader2, Scale, Wrench, X } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { sk } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { getISOWeekLocal, getISOWeekYear, getMondayAfterWeek, parseLocalDate } from "@/lib/dateUtils";
+import type { NightCheck, NightStatus } from "@/lib/accommodationReconciliation";
+import { useAccommodationReconciliation, type ReconciliationRow } from "@/hooks/useAccommodationReconciliation";
+
+const STATUS_STYLES: Record<NightStatus, { label: string; className: string }> = {
+  ok: { label: "V poriadku", className: "bg-green-500/15 text-green-700 dark:text-green-400" },
+  not_claimed: { label: "Chýba v zázname", className: "bg-amber-500/20 text-amber-700 dark:text-amber-400" },
+  not_assigned: { label: "Bez priradenia", className: "bg-orange-500/20 text-orange-700 dark:text-orange-400" },
+  different: { label: "Iné ubytovanie", className: "bg-destructive/15 text-destructive" },
+  duplicate: { label: "Viac záznamov", className: "bg-destructive/15 text-destructive" },
+};
+
+const formatAmount = (amt: number) =>
+  new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+/** The week before the current one – the week that is usually being invoiced */
+function previousWeek() {
+  const date = addDays(new Date(), -7);
+  return { year: getISOWeekYear(date), week: getISOWeekLocal(date) };
+}
+
+export default function AccommodationReconciliation() {
+  const [period, setPeriod] = useState(previousWeek);
+  const { rows, accommodationNames, loading, processingUserId, fixEntries, saveOverride, removeOverride } =
+    useAccommodationReconciliation(period.year, period.week);
+  const [editing, setEditing] = useState<ReconciliationRow | null>(null);
+  const [overrideAmount, setOverrideAmount] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const monday = addDays(getMondayAfterWeek(period.week, period.year), -7);
+  const shiftWeek = (days: number) => {
+    const date = addDays(monday, days);
+    setPeriod({ year: getISOWeekYear(date), week: getISOWeekLocal(date) });
+  };
+
+  const nameOf = (id: string | null) => (id ? accommodationNames.get(id) || "Ubytovanie" : "—");
+
+  const nightTitle = (night: NightCheck) =>
+    `${format(parseLocalDate(night.date), "EEEE d.M.", { locale: sk })}: ${STATUS_STYLES[night.status].label}\n` +
+    `Priradené: ${nameOf(night.assignedAccommodationId)}\n` +
+    `V zázname: ${night.claimedAccommodationIds.map(nameOf).join(", ") || "—"}`;
+
+  const openOverride = (row: ReconciliationRow) => {
+    setEditing(row);
+    setOverrideAmount(String(row.override?.amount ?? row.companyCost));
+    setOverrideReason(row.override?.reason ?? "");
+  };
+
+  const handleSaveOverride = async () => {
+    if (!editing) return;
+    const amount = Number(overrideAmount.replace(",", "."));
+    if (isNaN(amount) || amount < 0) return;
+    if (await saveOverride(editing.userId, amount, overrideReason)) {
+      setEditing(null);
+    }
+  };
+
+  const mismatchCount = rows.filter((r) => r.mismatches > 0).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Zúčtovanie ubytovania
+            </CardTitle>
+            <CardDescription>
+              Priradené noci oproti nociam v denných záznamoch • KW {period.week}/{period.year} (
+              {format(monday, "d.M.")} – {format(addDays(monday, 6), "d.M.yyyy")})
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="icon" onClick={() => shiftWeek(-7)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setPeriod(previousWeek())}>
+              Minulý týždeň
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => shiftWeek(7)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Žiadne ubytovanie v tomto týždni</div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-3">
+              {mismatchCount === 0
+                ? "Všetky priradenia zodpovedajú denným záznamom."
+                : `Nezhody u ${mismatchCount} montérov.`}
+            </p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Montér</TableHead>
+                    <TableHead>Noci</TableHead>
+                    <TableHead className="text-right">Náklad firmy</TableHead>
+                    <TableHead className="text-right">Zrážka</TableHead>
+                    <TableHead className="text-right">Rozdiel</TableHead>
+                    <TableHead className="text-right">Akcie</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const deduction = row.override ? row.override.amount : row.deduction;
+                    const diff = deduction - row.companyCost;
+                    const isProcessing = processingUserId === row.userId;
+                    return (
+                      <TableRow key={row.userId}>
+                        <TableCell>
+                          <div className="font-medium">{row.userName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {row.assignedNights} priradených • {row.claimedNights} v záznamoch
+                          </div>
+                          {row.invoiceNumber && (
+                            <Badge variant="secondary" className="mt-1 text-[10px]">
+                              Fakturované {row.invoiceNumber}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-0.5">
+                            {row.nights.map((night) => (
+                              <div
+                                key={night.date}
+                                className={cn(
+                                  "w-7 h-7 rounded text-[10px] flex items-center justify-center",
+                                  night.assignedAccommodationId || night.claimedAccommodationIds.length > 0
+                                    ? STATUS_STYLES[night.status].className
+                                    : "bg-muted text-muted-foreground"
+                                )}
+                                title={nightTitle(night)}
+                              >
+                                {format(parseLocalDate(night.date), "EEEEEE", { locale: sk })}
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(row.companyCost)}</TableCell>
+                        <TableCell className="text-right">
+                          {row.override ? (
+                            <div>
+                              <span className="font-medium">{formatAmount(row.override.amount)}</span>
+                              <div className="text-xs text-muted-foreground line-through">{formatAmount(row.deduction)}</div>
+                            </div>
+                          ) : (
+                            formatAmount(row.deduction)
+                          )}
+                        </TableCell>
+                        <TableCell className={cn("text-right font-medium", diff < 0 ? "text-destructive" : "text-green-600")}>
+                          {formatAmount(diff)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {row.fixes.length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-xs"
+                                disabled={isProcessing || !!row.invoiceNumber}
+                                onClick={() => fixEntries(row)}
+                                title="Nastaviť v denných záznamoch priradené ubytovanie"
+                              >
+                                {isProcessing ? (
+                                  <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                                ) : (
+                                  <Wrench className="h-3.5 w-3.5 mr-1" />
+                                )}
+                                Opraviť záznamy
+                              </Button>
+                            )}
+                            {(row.mismatches > 0 || row.override) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-xs"
+                                disabled={isProcessing || !!row.invoiceNumber}
+                                onClick={() => openOverride(row)}
+                              >
+                                Upraviť zrážku
+                              </Button>
+                            )}
+                            {row.override && !row.invoiceNumber && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                disabled={isProcessing}
+                                onClick={() => removeOverride(row)}
+                                title="Zrušiť úpravu zrážky"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3 text-xs">
+              {Object.entries(STATUS_STYLES).map(([status, style]) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className={cn("inline-block w-3 h-3 rounded", style.className)} />
+                  {style.label}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Zrážka za ubytovanie – {editing?.userName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Podľa záznamov {formatAmount(editing?.deduction ?? 0)}, podľa priradení {formatAmount(editing?.companyCost ?? 0)}.
+              Faktúra za KW {period.week} použije zadanú sumu.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="override-amount">Suma (€)</Label>
+              <Input
+                id="override-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={overrideAmount}
+                onChange={(e) => setOverrideAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-reason">Dôvod</Label>
+              <Input
+                id="override-reason"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="napr. víkend na ubytovaní bez záznamu"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Zrušiť
+            </Button>
+            <Button onClick={handleSaveOverride} disabled={processingUserId === editing?.userId}>
+              {processingUserId === editing?.userId && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Uložiť
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,16 +1,29 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { CalendarIcon, Loader2 } from "lucide-react";
-import { format } from "date-fns";
+import { AlertTriangle, BedDouble, CalendarIcon, Loader2 } from "lucide-react";
+import { addDays, format } from "date-fns";
 import { sk } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { fetchPlannableAccommodations, fetchStays, resolveProjectLocation } from "@/hooks/useOccupancy";
+import { parseLocalDate } from "@/lib/dateUtils";
+import {
+  findCapacityConflicts,
+  nightsOf,
+  suggestFreeBeds,
+  type GeoPoint,
+  type PlannableAccommodation,
+  type Stay,
+} from "@/lib/occupancy";
 
 interface Props {
   open: boolean;
@@ -24,40 +37,110 @@ interface Profile {
   full_name: string;
 }
 
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const NO_PROJECT = "none";
+
 export default function AssignSubcontractorModal({ open, onOpenChange, accommodationId, onAssigned }: Props) {
   const { toast } = useToast();
+  const { isAdmin } = useUserRole();
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [accommodations, setAccommodations] = useState<PlannableAccommodation[]>([]);
   const [selectedUserId, setSelectedUserId] = useState("");
+  const [selectedProjectId, setSelectedProjectId] = useState(NO_PROJECT);
+  const [targetAccommodationId, setTargetAccommodationId] = useState(accommodationId);
   const [checkIn, setCheckIn] = useState<Date | undefined>();
   const [checkOut, setCheckOut] = useState<Date | undefined>();
+  const [stays, setStays] = useState<Stay[]>([]);
+  const [projectLocation, setProjectLocation] = useState<GeoPoint | null>(null);
+  const [allowOverbooking, setAllowOverbooking] = useState(false);
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (!open) return;
     setSelectedUserId("");
+    setSelectedProjectId(NO_PROJECT);
+    setTargetAccommodationId(accommodationId);
     setCheckIn(undefined);
     setCheckOut(undefined);
+    setStays([]);
+    setProjectLocation(null);
+    setAllowOverbooking(false);
 
-    const fetchProfiles = async () => {
+    const fetchOptions = async () => {
       setLoading(true);
-      const { data } = await supabase.rpc("get_team_profiles_safe");
+      const [{ data }, { data: projectData }, accs] = await Promise.all([
+        supabase.rpc("get_team_profiles_safe"),
+        supabase.from("projects").select("id, name").eq("is_active", true).is("deleted_at", null).order("name"),
+        fetchPlannableAccommodations().catch(() => [] as PlannableAccommodation[]),
+      ]);
       setProfiles(
         (data || [])
           .filter((p: any) => p.is_active)
           .map((p: any) => ({ user_id: p.user_id, full_name: p.full_name }))
           .sort((a: Profile, b: Profile) => a.full_name.localeCompare(b.full_name))
       );
+      setProjects(projectData || []);
+      setAccommodations(accs);
       setLoading(false);
     };
-    fetchProfiles();
-  }, [open]);
+    fetchOptions();
+  }, [open, accommodationId]);
+
+  const checkInStr = checkIn ? format(checkIn, "yyyy-MM-dd") : null;
+  const checkOutStr = checkOut ? format(checkOut, "yyyy-MM-dd") : null;
+
+  // Load every stay overlapping the requested period to check capacity
+  useEffect(() => {
+    if (!open || !checkInStr) return;
+    const nights = nightsOf(checkInStr, checkOutStr);
+    const periodEnd = format(addDays(parseLocalDate(nights[nights.length - 1] ?? checkInStr), 1), "yyyy-MM-dd");
+    fetchStays(checkInStr, periodEnd)
+      .then(setStays)
+      .catch((error) => console.warn("Could not load stays:", error));
+  }, [open, checkInStr, checkOutStr]);
+
+  useEffect(() => {
+    if (selectedProjectId === NO_PROJECT) {
+      setProjectLocation(null);
+      return;
+    }
+    resolveProjectLocation(selectedProjectId).then(setProjectLocation);
+  }, [selectedProjectId]);
+
+  const target = accommodations.find((a) => a.id === targetAccommodationId);
+
+  const conflicts = useMemo(
+    () =>
+      checkInStr && target
+        ? findCapacityConflicts(stays, target.id, target.capacity, checkInStr, checkOutStr)
+        : [],
+    [stays, target, checkInStr, checkOutStr]
+  );
+
+  const suggestions = useMemo(() => {
+    if (!checkInStr) return [];
+    // Without a project, look around the accommodation being booked
+    const origin = projectLocation
+      ?? (target?.lat != null && target?.lng != null ? { lat: Number(target.lat), lng: Number(target.lng) } : null);
+    return suggestFreeBeds(accommodations, stays, checkInStr, checkOutStr, origin)
+      .filter((s) => s.accommodation.id !== targetAccommodationId)
+      .slice(0, 3);
+  }, [accommodations, stays, checkInStr, checkOutStr, projectLocation, target, targetAccommodationId]);
+
+  const isBlocked = conflicts.length > 0 && !allowOverbooking;
 
   const handleSave = async () => {
     if (!selectedUserId || !checkIn) {
       toast({ title: "Chyba", description: "Vyberte montéra a dátum príchodu.", variant: "destructive" });
       return;
     }
+    if (isBlocked) return;
 
     setSaving(true);
 
@@ -65,14 +148,15 @@ export default function AssignSubcontractorModal({ open, onOpenChange, accommoda
     const { data: accData } = await supabase
       .from("accommodations")
       .select("default_price_per_night")
-      .eq("id", accommodationId)
+      .eq("id", targetAccommodationId)
       .single();
 
     const pricePerNight = accData?.default_price_per_night ?? 0;
 
     const { error } = await supabase.from("accommodation_assignments").insert({
-      accommodation_id: accommodationId,
+      accommodation_id: targetAccommodationId,
       user_id: selectedUserId,
+      project_id: selectedProjectId === NO_PROJECT ? null : selectedProjectId,
       check_in: format(checkIn, "yyyy-MM-dd"),
       check_out: checkOut ? format(checkOut, "yyyy-MM-dd") : null,
       price_per_night: pricePerNight,
@@ -91,7 +175,7 @@ export default function AssignSubcontractorModal({ open, onOpenChange, accommoda
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Priradiť montéra</DialogTitle>
+          <DialogTitle>Priradiť montéra{target ? ` – ${target.name || target.address}` : ""}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 pt-2">
           <div className="space-y-2">
@@ -148,7 +232,70 @@ export default function AssignSubcontractorModal({ open, onOpenChange, accommoda
             </div>
           </div>
 
-          <Button onClick={handleSave} disabled={saving} className="w-full">
+          <div className="space-y-2">
+            <Label>Projekt</Label>
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PROJECT}>Bez projektu</SelectItem>
+                {projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {conflicts.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>
+                  Kapacita {target?.capacity} lôžok bude prekročená v {conflicts.length}{" "}
+                  {conflicts.length === 1 ? "noci" : "nociach"} (od {format(parseLocalDate(conflicts[0].date), "d.M.yyyy")},
+                  obsadenosť {Math.max(...conflicts.map((c) => c.occupied))}).
+                </p>
+                {isAdmin && (
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox checked={allowOverbooking} onCheckedChange={(c) => setAllowOverbooking(c === true)} />
+                    Priradiť aj napriek prekročeniu kapacity
+                  </label>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {checkIn && suggestions.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">
+                Voľné lôžka {projectLocation ? "najbližšie k projektu" : "v okolí"}
+              </Label>
+              {suggestions.map((s) => (
+                <button
+                  key={s.accommodation.id}
+                  type="button"
+                  onClick={() => {
+                    setTargetAccommodationId(s.accommodation.id);
+                    setAllowOverbooking(false);
+                  }}
+                  className="w-full flex items-center justify-between rounded-lg border p-2 text-left text-sm hover:bg-muted"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <BedDouble className="h-4 w-4 shrink-0 text-primary" />
+                    <span className="truncate">{s.accommodation.name || s.accommodation.address}</span>
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {s.freeBeds} voľné{s.distanceKm != null && ` • ${s.distanceKm.toFixed(1)} km`}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={saving || isBlocked} className="w-full">
             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
             Priradiť montéra
           </Button>
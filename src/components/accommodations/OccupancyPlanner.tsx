@@ -0,0 +1,242 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2, BedDouble } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, isWeekend, startOfWeek } from "date-fns";
+import { sk } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { formatDateString, parseLocalDate } from "@/lib/dateUtils";
+import { occupancyOn } from "@/lib/occupancy";
+import { useOccupancy, type PlannerStay } from "@/hooks/useOccupancy";
+
+interface Props {
+  /** Whether stays can be extended by dragging */
+  canManage: boolean;
+}
+
+const DAYS = 28;
+const CELL_WIDTH = 32;
+const LABEL_WIDTH = 200;
+
+interface DragState {
+  stay: PlannerStay;
+  startX: number;
+  /** Window index of the first day after the stay when the drag started */
+  originalEnd: number;
+  currentEnd: number;
+}
+
+export default function OccupancyPlanner({ canManage }: Props) {
+  const [from, setFrom] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const { accommodations, stays, loading, changeCheckOut } = useOccupancy(from, DAYS);
+  const [drag, setDragState] = useState<DragState | null>(null);
+  // Pointer handlers read the latest drag without re-subscribing on every move
+  const dragRef = useRef<DragState | null>(null);
+  const setDrag = useCallback((next: DragState | null) => {
+    dragRef.current = next;
+    setDragState(next);
+  }, []);
+
+  const days = useMemo(() => Array.from({ length: DAYS }, (_, i) => addDays(from, i)), [from]);
+  const dayKeys = useMemo(() => days.map(formatDateString), [days]);
+  const today = formatDateString(new Date());
+
+  const indexOf = (date: string) => differenceInCalendarDays(parseLocalDate(date), from);
+
+  const staysByAccommodation = useMemo(() => {
+    const map = new Map<string, PlannerStay[]>();
+    for (const stay of [...stays].sort((a, b) => a.check_in.localeCompare(b.check_in))) {
+      const list = map.get(stay.accommodation_id) || [];
+      list.push(stay);
+      map.set(stay.accommodation_id, list);
+    }
+    return map;
+  }, [stays]);
+
+  // Latest window position and save handler for the pointer listeners below
+  const dragHandlersRef = useRef({ indexOf, changeCheckOut, from });
+  dragHandlersRef.current = { indexOf, changeCheckOut, from };
+
+  // Follow the pointer while a stay is being extended
+  const dragStayId = drag?.stay.id;
+  useEffect(() => {
+    if (!dragStayId) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const delta = Math.round((e.clientX - current.startX) / CELL_WIDTH);
+      const minEnd = Math.max(dragHandlersRef.current.indexOf(current.stay.check_in) + 1, 1);
+      setDrag({ ...current, currentEnd: Math.max(minEnd, current.originalEnd + delta) });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (current && current.currentEnd !== current.originalEnd) {
+        const { changeCheckOut, from } = dragHandlersRef.current;
+        changeCheckOut(current.stay, formatDateString(addDays(from, current.currentEnd)));
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [dragStayId, setDrag]);
+
+  const renderStayBar = (stay: PlannerStay) => {
+    const start = Math.max(0, indexOf(stay.check_in));
+    const naturalEnd = stay.check_out ? indexOf(stay.check_out) : DAYS;
+    const end = drag?.stay.id === stay.id ? drag.currentEnd : naturalEnd;
+    const visibleEnd = Math.min(DAYS, end);
+    if (visibleEnd <= start) return null;
+
+    const isDragging = drag?.stay.id === stay.id;
+    return (
+      <div
+        className={cn(
+          "absolute top-1 bottom-1 rounded-md bg-primary/80 text-primary-foreground text-xs flex items-center px-2 select-none",
+          !stay.check_out && !isDragging && "bg-gradient-to-r from-primary/80 to-primary/30",
+          isDragging && "ring-2 ring-primary"
+        )}
+        style={{ left: start * CELL_WIDTH, width: (visibleEnd - start) * CELL_WIDTH }}
+        title={`${stay.user_name}: ${format(parseLocalDate(stay.check_in), "d.M.yyyy")} – ${
+          stay.check_out ? format(parseLocalDate(stay.check_out), "d.M.yyyy") : "otvorené"
+        }`}
+      >
+        <span className="truncate">{stay.user_name}</span>
+        {canManage && (
+          <div
+            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r-md bg-primary hover:bg-primary/60"
+            onPointerDown={(e) => {
+              e.preventDefault();
+              setDrag({ stay, startX: e.clientX, originalEnd: naturalEnd, currentEnd: naturalEnd });
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BedDouble className="h-5 w-5" />
+              Obsadenosť
+            </CardTitle>
+            <CardDescription>
+              {format(days[0], "d. MMM", { locale: sk })} – {format(days[DAYS - 1], "d. MMM yyyy", { locale: sk })}
+              {canManage && " • Pobyt predĺžite potiahnutím pravého okraja"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="icon" onClick={() => setFrom(addDays(from, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setFrom(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+              Dnes
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setFrom(addDays(from, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <div style={{ minWidth: LABEL_WIDTH + DAYS * CELL_WIDTH }}>
+              {/* Day header */}
+              <div className="flex border-b bg-muted/50">
+                <div className="sticky left-0 z-10 bg-muted px-3 py-2 text-xs font-medium" style={{ width: LABEL_WIDTH, flexShrink: 0 }}>
+                  Ubytovanie
+                </div>
+                {days.map((day, i) => (
+                  <div
+                    key={dayKeys[i]}
+                    className={cn(
+                      "text-center text-[10px] py-1 border-l",
+                      isWeekend(day) && "bg-muted",
+                      dayKeys[i] === today && "bg-primary/10 font-bold"
+                    )}
+                    style={{ width: CELL_WIDTH, flexShrink: 0 }}
+                  >
+                    <div>{format(day, "EEEEEE", { locale: sk })}</div>
+                    <div>{format(day, "d.M.")}</div>
+                  </div>
+                ))}
+              </div>
+
+              {accommodations.length === 0 && (
+                <div className="text-center py-8 text-sm text-muted-foreground">Žiadne aktívne ubytovania</div>
+              )}
+
+              {accommodations.map((acc) => {
+                const accStays = staysByAccommodation.get(acc.id) || [];
+                return (
+                  <div key={acc.id} className="border-b last:border-b-0">
+                    {/* Occupancy summary */}
+                    <div className="flex">
+                      <div
+                        className="sticky left-0 z-10 bg-background px-3 py-2 text-sm font-medium truncate"
+                        style={{ width: LABEL_WIDTH, flexShrink: 0 }}
+                        title={acc.address}
+                      >
+                        {acc.name || acc.address}
+                        <span className="ml-1 text-xs text-muted-foreground">({acc.capacity ?? "?"} lôžok)</span>
+                      </div>
+                      {dayKeys.map((key) => {
+                        const occupied = occupancyOn(stays, acc.id, key);
+                        const capacity = acc.capacity ?? 0;
+                        return (
+                          <div
+                            key={key}
+                            className={cn(
+                              "flex items-center justify-center text-[10px] border-l",
+                              capacity > 0 && occupied > capacity && "bg-destructive text-destructive-foreground font-bold",
+                              capacity > 0 && occupied === capacity && "bg-amber-500/20 text-amber-700 dark:text-amber-400",
+                              occupied > 0 && occupied < capacity && "bg-green-500/10 text-green-700 dark:text-green-400"
+                            )}
+                            style={{ width: CELL_WIDTH, flexShrink: 0 }}
+                            title={`${occupied}/${capacity || "?"}`}
+                          >
+                            {occupied > 0 ? occupied : ""}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {/* One lane per stay */}
+                    {accStays.map((stay) => (
+                      <div key={stay.id} className="flex">
+                        <div
+                          className="sticky left-0 z-10 bg-background pl-6 pr-3 py-1 text-xs text-muted-foreground truncate"
+                          style={{ width: LABEL_WIDTH, flexShrink: 0 }}
+                        >
+                          {stay.user_name}
+                        </div>
+                        <div className="relative h-8" style={{ width: DAYS * CELL_WIDTH, flexShrink: 0 }}>
+                          {renderStayBar(stay)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useCompany, COMPANY_ASSETS_BUCKET } from "@/hooks/useCompany";
+import type { CompanyInput } from "@/lib/company";
+import { Building2, Loader2, Plus, Save, Trash2, Upload } from "lucide-react";
+
+const EMPTY_COMPANY: CompanyInput = {
+  name: "",
+  street: "",
+  country: "Slovenská Republika",
+  ico: null,
+  dic: null,
+  vat_number: null,
+  iban: null,
+  swift_bic: null,
+  is_active: true,
+};
+
+interface CompanyFieldsProps {
+  form: CompanyInput;
+  onChange: (form: CompanyInput) => void;
+}
+
+function CompanyFields({ form, onChange }: CompanyFieldsProps) {
+  // Empty optional inputs are stored as NULL
+  const textField = (key: "ico" | "dic" | "vat_number" | "iban" | "swift_bic") => ({
+    value: form[key] ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+      onChange({ ...form, [key]: e.target.value.trim() ? e.target.value : null }),
+  });
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2 sm:col-span-2">
+        <Label>Názov *</Label>
+        <Input value={form.name} onChange={(e) => onChange({ ...form, name: e.target.value })} />
+      </div>
+      <div className="space-y-2">
+        <Label>Adresa *</Label>
+        <Input
+          value={form.street}
+          onChange={(e) => onChange({ ...form, street: e.target.value })}
+          placeholder="Ulica 1, 12345 Mesto"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Krajina *</Label>
+        <Input value={form.country} onChange={(e) => onChange({ ...form, country: e.target.value })} />
+      </div>
+      <div className="space-y-2">
+        <Label>IČO</Label>
+        <Input {...textField("ico")} />
+      </div>
+      <div className="space-y-2">
+        <Label>DIČ</Label>
+        <Input {...textField("dic")} />
+      </div>
+      <div className="space-y-2 sm:col-span-2">
+        <Label>IČ DPH</Label>
+        <Input {...textField("vat_number")} placeholder="SK1234567890" />
+      </div>
+      <div className="space-y-2">
+        <Label>IBAN</Label>
+        <Input {...textField("iban")} placeholder="SK00 0000 0000 0000 0000 0000" />
+      </div>
+      <div className="space-y-2">
+        <Label>SWIFT/BIC</Label>
+        <Input {...textField("swift_bic")} />
+      </div>
+    </div>
+  );
+}
+
+const isComplete = (form: CompanyInput) => !!form.name.trim() && !!form.street.trim() && !!form.country.trim();
+
+/**
+ * Legal details, bank account and logo of the current company; directors can found sister companies.
+ */
+export function CompanyManagement() {
+  const { toast } = useToast();
+  const { role } = useUserRole();
+  const { company, loading, saving, saveCompany, createCompany, uploadAsset, removeAsset } = useCompany();
+  const [form, setForm] = useState<CompanyInput>(EMPTY_COMPANY);
+  const [newForm, setNewForm] = useState<CompanyInput>(EMPTY_COMPANY);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (!company) return;
+    const { id, is_default, logo_path, signature_path, ...input } = company;
+    setForm(input);
+  }, [company]);
+
+  const logoPath = company?.logo_path ?? null;
+  useEffect(() => {
+    if (!logoPath) {
+      setLogoUrl(null);
+      return;
+    }
+    supabase.storage
+      .from(COMPANY_ASSETS_BUCKET)
+      .createSignedUrl(logoPath, 3600)
+      .then(({ data }) => setLogoUrl(data?.signedUrl || null));
+  }, [logoPath]);
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // jsPDF and exceljs embed the logo as PNG
+    if (file.type !== "image/png") {
+      toast({ variant: "destructive", title: "Chyba", description: "Logo nahrajte vo formáte PNG." });
+      return;
+    }
+    if (file.size > 2 * 1024 * 1024) {
+      toast({ variant: "destructive", title: "Chyba", description: "Maximálna veľkosť súboru je 2 MB." });
+      return;
+    }
+
+    setUploading(true);
+    if (await uploadAsset("logo", file)) {
+      toast({ title: "Logo nahrané", description: "Logo sa zobrazí na exportoch spoločnosti." });
+    }
+    setUploading(false);
+    e.target.value = "";
+  };
+
+  const handleCreate = async () => {
+    if (!isComplete(newForm)) return;
+    if (await createCompany({ ...newForm, name: newForm.name.trim() })) {
+      setCreateOpen(false);
+      setNewForm(EMPTY_COMPANY);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!company) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5 text-primary" />
+              Nastavenia spoločnosti
+            </CardTitle>
+            <CardDescription>
+              Údaje odberateľa na faktúrach subdodávateľov a dodávateľa na faktúrach klientom
+            </CardDescription>
+          </div>
+          {role === "director" && (
+            <Button variant="outline" onClick={() => setCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Nová spoločnosť
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <CompanyFields form={form} onChange={setForm} />
+        <Button onClick={() => saveCompany({ ...form, name: form.name.trim() })} disabled={!isComplete(form) || saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Uložiť
+        </Button>
+
+        <div className="border-t pt-4 space-y-3">
+          <Label>Logo na exportoch (PNG)</Label>
+          {logoUrl ? (
+            <div className="rounded-lg border bg-muted/30 p-4 flex items-center justify-center">
+              <img src={logoUrl} alt="Logo spoločnosti" className="max-h-[60px] max-w-[200px] object-contain" />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {company.is_default ? "Používa sa predvolené logo aplikácie." : "Exporty sa vytvoria bez loga."}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Label htmlFor="company-logo-upload" className="cursor-pointer">
+              <Button variant="outline" size="sm" asChild disabled={uploading}>
+                <span>
+                  {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  {logoUrl ? "Nahradiť" : "Nahrať logo"}
+                </span>
+              </Button>
+            </Label>
+            <Input
+              id="company-logo-upload"
+              type="file"
+              accept="image/png"
+              className="hidden"
+              onChange={handleLogoUpload}
+              disabled={uploading}
+            />
+            {logoUrl && (
+              <Button variant="destructive" size="sm" onClick={() => removeAsset("logo")}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Odstrániť
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nová spoločnosť</DialogTitle>
+            <DialogDescription>
+              Sesterská spoločnosť s vlastnými projektmi, faktúrami a spolupracovníkmi
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <CompanyFields form={newForm} onChange={setNewForm} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Zrušiť
+            </Button>
+            <Button onClick={handleCreate} disabled={!isComplete(newForm) || saving}>
+              Vytvoriť
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
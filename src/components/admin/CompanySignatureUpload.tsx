@@ -6,44 +6,27 @@ import { useToast } from "@/hooks/use-toast";
 import { Loader2, Upload, Trash2, Stamp, CheckCircle } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useCompany, COMPANY_ASSETS_BUCKET } from "@/hooks/useCompany";
 
 export function CompanySignatureUpload() {
   const { toast } = useToast();
+  const { company, loading, uploadAsset, removeAsset } = useCompany();
   const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [signatureUrl, setSignatureUrl] = useState<string | null>(null);
-  const [signaturePath, setSignaturePath] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const signaturePath = company?.signature_path ?? null;
 
   useEffect(() => {
-    loadCurrentSignature();
-  }, []);
-
-  const loadCurrentSignature = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("company_settings")
-        .select("value")
-        .eq("key", "company_signature_path")
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (data?.value) {
-        setSignaturePath(data.value);
-        // Generate signed URL for preview
-        const { data: urlData } = await supabase.storage
-          .from("company-assets")
-          .createSignedUrl(data.value, 3600);
-        setSignatureUrl(urlData?.signedUrl || null);
-      }
-    } catch (error: any) {
-      console.error("Error loading company signature:", error);
-    } finally {
-      setLoading(false);
+    if (!signaturePath) {
+      setSignatureUrl(null);
+      return;
     }
-  };
+    // Generate signed URL for preview
+    supabase.storage
+      .from(COMPANY_ASSETS_BUCKET)
+      .createSignedUrl(signaturePath, 3600)
+      .then(({ data }) => setSignatureUrl(data?.signedUrl || null));
+  }, [signaturePath]);
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -60,41 +43,12 @@ export function CompanySignatureUpload() {
     }
 
     setUploading(true);
-    try {
-      const ext = file.name.split(".").pop() || "png";
-      const filePath = `company-signature.${ext}`;
-
-      // Delete old file if exists
-      if (signaturePath) {
-        await supabase.storage.from("company-assets").remove([signaturePath]);
-      }
-
-      // Upload new file
-      const { error: uploadError } = await supabase.storage
-        .from("company-assets")
-        .upload(filePath, file, { upsert: true });
-
-      if (uploadError) throw uploadError;
-
-      // Save path to settings
-      const { error: settingsError } = await supabase
-        .from("company_settings")
-        .upsert(
-          { key: "company_signature_path", value: filePath },
-          { onConflict: "key" }
-        );
-
-      if (settingsError) throw settingsError;
-
-      await loadCurrentSignature();
+    if (await uploadAsset("signature", file)) {
       toast({ title: "Podpis nahraný", description: "Firemný podpis/pečiatka bola úspešne uložená." });
-    } catch (error: any) {
-      toast({ variant: "destructive", title: "Chyba pri nahrávaní", description: error.message });
-    } finally {
-      setUploading(false);
-      // Reset input
-      e.target.value = "";
     }
+    setUploading(false);
+    // Reset input
+    e.target.value = "";
   };
 
   const handleDelete = async () => {
@@ -103,18 +57,10 @@ export function CompanySignatureUpload() {
     if (!confirmed) return;
 
     setDeleting(true);
-    try {
-      await supabase.storage.from("company-assets").remove([signaturePath]);
-      await supabase.from("company_settings").delete().eq("key", "company_signature_path");
-
-      setSignatureUrl(null);
-      setSignaturePath(null);
+    if (await removeAsset("signature")) {
       toast({ title: "Podpis odstránený", description: "Firemný podpis/pečiatka bola odstránená." });
-    } catch (error: any) {
-      toast({ variant: "destructive", title: "Chyba", description: error.message });
-    } finally {
-      setDeleting(false);
     }
+    setDeleting(false);
   };
 
   return (
@@ -122,10 +68,10 @@ export function CompanySignatureUpload() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Stamp className="h-5 w-5 text-primary" />
-          Nastavenia spoločnosti
+          Podpis a pečiatka
         </CardTitle>
         <CardDescription>
-          Nahrajte firemný podpis/pečiatku, ktorá sa automaticky zobrazí na Stundenzettel a Leistungsnachweis PDF dokumentoch v sekcii "Auftraggeber".
+          Nahrajte podpis/pečiatku spoločnosti {company?.name}, ktorá sa automaticky zobrazí na Stundenzettel a Leistungsnachweis PDF dokumentoch v sekcii "Auftraggeber".
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -0,0 +1,89 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PERMISSIONS, PERMISSION_LABELS, useRolePermissions } from "@/hooks/usePermissions";
+import { useUserRole, type AppRole } from "@/hooks/useUserRole";
+import { KeyRound } from "lucide-react";
+
+const ROLE_COLUMNS: { role: AppRole; label: string }[] = [
+  { role: "monter", label: "Montér" },
+  { role: "manager", label: "Manažér" },
+  { role: "accountant", label: "Účtovník" },
+  { role: "admin", label: "Admin" },
+  { role: "director", label: "Riaditeľ" },
+];
+
+/**
+ * Which permissions each role carries. Directors always hold all of them
+ * and are the only ones who may change the matrix.
+ */
+export function PermissionsManagement() {
+  const { loading, hasGrant, setGrant } = useRolePermissions();
+  const { role: currentRole } = useUserRole();
+  const isDirector = currentRole === "director";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Oprávnenia rolí
+        </CardTitle>
+        <CardDescription>
+          Oprávnenia rolí môže meniť iba riaditeľ. Jednotlivým používateľom možno pridať ďalšie oprávnenia v ich
+          detaile v sekcii Spolupracovníci.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Oprávnenie</TableHead>
+                {ROLE_COLUMNS.map(({ role, label }) => (
+                  <TableHead key={role} className="text-center">
+                    {label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERMISSIONS.map((permission) => (
+                <TableRow key={permission}>
+                  <TableCell className="font-medium">{PERMISSION_LABELS[permission]}</TableCell>
+                  {ROLE_COLUMNS.map(({ role }) => (
+                    <TableCell key={role} className="text-center">
+                      {role === "director" ? (
+                        <Checkbox checked disabled />
+                      ) : (
+                        <Checkbox
+                          checked={hasGrant(role, permission)}
+                          disabled={!isDirector}
+                          onCheckedChange={(checked) => setGrant(role, permission, checked === true)}
+                        />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
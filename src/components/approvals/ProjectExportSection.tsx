@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Select,
@@ -10,10 +11,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { FileSpreadsheet, Loader2, Download } from "lucide-react";
+import { format } from "date-fns";
+import { FileSpreadsheet, Loader2, Download, Link2, CheckCircle } from "lucide-react";
 import { exportMultipleStundenzettelsToExcel, type StundenzettelParams } from "@/lib/stundenzettelExport";
 import { getCompanySignatureBase64 } from "@/hooks/useCompanySignature";
+import { loadWeekSurcharges } from "@/hooks/useSurchargeRules";
 import { parseLocalDate, getISOWeekLocal, getISOWeekYear } from "@/lib/dateUtils";
+import { projectHolidayCalendar } from "@/lib/holidays";
+import { createClientSignoffLink, useWeekClientSignoff } from "@/hooks/useClientSignoff";
+import { clientSignoffForRecords } from "@/lib/clientSignoff";
 
 interface Project {
   id: string;
@@ -21,6 +27,8 @@ interface Project {
   client: string;
   location: string | null;
   address: string | null;
+  holiday_country: string;
+  holiday_region: string | null;
 }
 
 export function ProjectExportSection() {
@@ -31,13 +39,21 @@ export function ProjectExportSection() {
   const [availableWeeks, setAvailableWeeks] = useState<{ week: number; year: number; label: string }[]>([]);
   const [exporting, setExporting] = useState(false);
   const [loadingWeeks, setLoadingWeeks] = useState(false);
+  const [creatingLink, setCreatingLink] = useState(false);
+
+  const [selectedYear, selectedCalendarWeek] = selectedWeek ? selectedWeek.split("-").map(Number) : [0, 0];
+  const { signoff: clientSignoff } = useWeekClientSignoff(
+    selectedWeek ? selectedProjectId : null,
+    selectedYear,
+    selectedCalendarWeek
+  );
 
   // Load active projects
   useEffect(() => {
     async function fetchProjects() {
       const { data } = await supabase
         .from("projects")
-        .select("id, name, client, location, address")
+        .select("id, name, client, location, address, holiday_country, holiday_region")
         .eq("is_active", true)
         .is("deleted_at", null)
         .order("name");
@@ -144,13 +160,14 @@ export function ProjectExportSection() {
       const companySignatureBase64 = await getCompanySignatureBase64();
 
       // Group records by user and build StundenzettelParams[]
-      const workerMap = new Map<string, { workerName: string; records: typeof weekRecords }>();
+      const workerMap = new Map<string, { userId: string; workerName: string; records: typeof weekRecords }>();
       for (const record of weekRecords) {
         const profile = profiles?.find((p) => p.user_id === record.user_id);
         const workerName = profile?.full_name || "Neznámy";
 
         if (!workerMap.has(record.user_id)) {
           workerMap.set(record.user_id, {
+            userId: record.user_id,
             workerName,
             records: [],
           });
@@ -159,28 +176,37 @@ export function ProjectExportSection() {
         workerMap.get(record.user_id)!.records.push(record);
       }
 
-      const sheets: StundenzettelParams[] = Array.from(workerMap.values())
-        .sort((a, b) => a.workerName.localeCompare(b.workerName))
-        .map((worker) => ({
-          records: worker.records.map((r) => ({
-            date: r.date,
-            time_from: r.time_from,
-            time_to: r.time_to,
-            break_start: r.break_start,
-            break_end: r.break_end,
-            break2_start: r.break2_start,
-            break2_end: r.break2_end,
-            total_hours: r.total_hours ?? 0,
-            note: r.note,
-          })),
-          projectName: project.name,
-          projectClient: project.client,
-          projectLocation: project.location,
-          workerName: worker.workerName,
-          calendarWeek,
-          year,
-          companySignatureBase64,
-        }));
+      // Surcharges need the worker's whole week for overtime thresholds; keep this project's lines
+      const workers = Array.from(workerMap.values()).sort((a, b) => a.workerName.localeCompare(b.workerName));
+      const surchargesByWorker = await Promise.all(
+        workers.map(async (worker) =>
+          (await loadWeekSurcharges(worker.userId, calendarWeek, year, 0)).filter((l) => l.projectId === project.id)
+        )
+      );
+
+      const sheets: StundenzettelParams[] = workers.map((worker, index) => ({
+        records: worker.records.map((r) => ({
+          date: r.date,
+          time_from: r.time_from,
+          time_to: r.time_to,
+          break_start: r.break_start,
+          break_end: r.break_end,
+          break2_start: r.break2_start,
+          break2_end: r.break2_end,
+          total_hours: r.total_hours ?? 0,
+          note: r.note,
+        })),
+        projectName: project.name,
+        projectClient: project.client,
+        projectLocation: project.location,
+        holidayCalendar: projectHolidayCalendar(project),
+        surcharges: surchargesByWorker[index],
+        workerName: worker.workerName,
+        calendarWeek,
+        year,
+        companySignatureBase64,
+        clientSignoff: clientSignoffForRecords(clientSignoff, worker.userId, worker.records),
+      }));
 
       await exportMultipleStundenzettelsToExcel(sheets);
 
@@ -199,6 +225,27 @@ export function ProjectExportSection() {
     setExporting(false);
   };
 
+  const handleCreateSignoffLink = async () => {
+    if (!selectedProjectId || !selectedWeek) return;
+
+    setCreatingLink(true);
+    try {
+      const url = await createClientSignoffLink(selectedProjectId, selectedYear, selectedCalendarWeek);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Odkaz skopírovaný",
+        description: `Pošlite stavbyvedúcemu klienta odkaz na podpis KW ${selectedCalendarWeek}/${selectedYear}: ${url}`,
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+    setCreatingLink(false);
+  };
+
   const selectedProject = projects.find((p) => p.id === selectedProjectId);
 
   return (
@@ -259,7 +306,29 @@ export function ProjectExportSection() {
             )}
             Stiahnuť hromadný Excel
           </Button>
+
+          {selectedWeek && !clientSignoff && (
+            <Button
+              variant="outline"
+              onClick={handleCreateSignoffLink}
+              disabled={creatingLink}
+              className="w-full sm:w-auto"
+            >
+              {creatingLink ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <Link2 className="h-4 w-4 mr-2" />
+              )}
+              Odkaz na podpis klienta
+            </Button>
+          )}
         </div>
+        {clientSignoff && (
+          <Badge variant="secondary" className="mt-3 gap-1">
+            <CheckCircle className="h-3 w-3" />
+            Potvrdené klientom: {clientSignoff.signerName}, {format(new Date(clientSignoff.signedAt), "dd.MM.yyyy HH:mm")}
+          </Badge>
+        )}
         {selectedProject && selectedWeek && (
           <p className="text-xs text-muted-foreground mt-2">
             Výstup: {selectedProject.name}_KW{selectedWeek.split("-")[1]}_{selectedWeek.split("-")[0]}.xlsx – jeden hárok pre každého pracovníka.
@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Ban } from "lucide-react";
+import { format } from "date-fns";
+import { sk } from "date-fns/locale";
+import { parseLocalDate } from "@/lib/dateUtils";
+import { RULE_DEFINITIONS, type RuleViolation } from "@/lib/timesheetRules";
+
+interface ValidationIssuesListProps {
+  violations: RuleViolation[];
+  className?: string;
+}
+
+/** Timesheet rule violations, shown to the worker before submitting and to the approver */
+export function ValidationIssuesList({ violations, className }: ValidationIssuesListProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <ul className={`space-y-1.5 ${className ?? ""}`}>
+      {violations.map((v, i) => (
+        <li key={`${v.rule}-${v.date}-${i}`} className="flex items-start gap-2 text-sm">
+          {v.severity === "block" ? (
+            <Ban className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-orange-500" />
+          )}
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium">{RULE_DEFINITIONS[v.rule]?.label ?? v.rule}</span>
+              {v.date && (
+                <span className="text-muted-foreground">
+                  {format(parseLocalDate(v.date), "EEE d. M.", { locale: sk })}
+                </span>
+              )}
+              {v.severity === "block" && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-[10px]">
+                  Blokuje
+                </Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground">{v.message}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
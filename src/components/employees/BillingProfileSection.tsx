@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useBillingProfile,
+  BILLING_MODE_LABELS,
+  type BillingMode,
+} from "@/hooks/useBillingProfile";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Save, Receipt } from "lucide-react";
+
+interface BillingProfileSectionProps {
+  userId: string;
+}
+
+interface InvoiceSeriesOption {
+  code: string;
+  name: string;
+}
+
+/**
+ * Admin editor for a supplier's billing profile (mode, retainer, due days, series).
+ */
+export function BillingProfileSection({ userId }: BillingProfileSectionProps) {
+  const { toast } = useToast();
+  const { billingProfile, loading, refetch } = useBillingProfile(userId);
+  const [seriesOptions, setSeriesOptions] = useState<InvoiceSeriesOption[]>([]);
+  const [mode, setMode] = useState<BillingMode>("hourly");
+  const [retainerHours, setRetainerHours] = useState("");
+  const [retainerAmount, setRetainerAmount] = useState("");
+  const [dueDays, setDueDays] = useState("21");
+  const [series, setSeries] = useState("standard");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from("invoice_series")
+      .select("code, name")
+      .order("code")
+      .then(({ data }) => setSeriesOptions(data || []));
+  }, []);
+
+  useEffect(() => {
+    if (!billingProfile) return;
+    setMode(billingProfile.mode);
+    setRetainerHours(billingProfile.retainer_hours != null ? String(billingProfile.retainer_hours) : "");
+    setRetainerAmount(billingProfile.retainer_amount != null ? String(billingProfile.retainer_amount) : "");
+    setDueDays(String(billingProfile.due_days));
+    setSeries(billingProfile.invoice_series);
+  }, [billingProfile]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("billing_profiles").upsert(
+        {
+          user_id: userId,
+          mode,
+          retainer_hours: mode === "fixed_retainer" && retainerHours ? parseFloat(retainerHours) : null,
+          retainer_amount: mode !== "hourly" && retainerAmount ? parseFloat(retainerAmount) : null,
+          due_days: dueDays ? parseInt(dueDays, 10) : 21,
+          invoice_series: series,
+        },
+        { onConflict: "user_id" }
+      );
+      if (error) throw error;
+
+      toast({ title: "Uložené", description: "Fakturačný profil bol aktualizovaný." });
+      refetch();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa uložiť fakturačný profil.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-1.5 text-base font-medium">
+        <Receipt className="h-4 w-4" />
+        Fakturačný profil
+      </Label>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Režim fakturácie</Label>
+        <Select value={mode} onValueChange={(v) => setMode(v as BillingMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BILLING_MODE_LABELS) as BillingMode[]).map((m) => (
+              <SelectItem key={m} value={m}>
+                {BILLING_MODE_LABELS[m]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode !== "hourly" && (
+        <div className="grid grid-cols-2 gap-2">
+          {mode === "fixed_retainer" && (
+            <div>
+              <Label className="text-xs">Paušál hodín / týždeň</Label>
+              <Input
+                type="number"
+                step="0.5"
+                min="0"
+                value={retainerHours}
+                onChange={(e) => setRetainerHours(e.target.value)}
+                placeholder="50"
+              />
+            </div>
+          )}
+          <div className={mode === "fixed_wage" ? "col-span-2" : undefined}>
+            <Label className="text-xs">Suma za faktúru (€)</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={retainerAmount}
+              onChange={(e) => setRetainerAmount(e.target.value)}
+              placeholder="1000.00"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Splatnosť (dni)</Label>
+          <Input
+            type="number"
+            step="1"
+            min="0"
+            value={dueDays}
+            onChange={(e) => setDueDays(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Číselná séria</Label>
+          <Select value={series} onValueChange={setSeries}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {seriesOptions.map((s) => (
+                <SelectItem key={s.code} value={s.code}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button size="sm" onClick={handleSave} disabled={saving} className="w-full">
+        {saving ? (
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        ) : (
+          <Save className="h-4 w-4 mr-2" />
+        )}
+        Uložiť fakturačný profil
+      </Button>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useAuth } from "@/hooks/useAuth";
+import { useCompany } from "@/hooks/useCompany";
+import { PERMISSIONS, PERMISSION_LABELS, usePermissions, useUserPermissions } from "@/hooks/usePermissions";
 import { AdminAddEntryModal, type EditEntryData } from "./AdminAddEntryModal";
 import { UserRecordsTab } from "./UserRecordsTab";
+import { BillingProfileSection } from "./BillingProfileSection";
 import { useToast } from "@/hooks/use-toast";
+import { findInvoicesAffectedByRate, useRateHistory, type AffectedInvoice } from "@/hooks/useRateHistory";
+import { effectivePeriod, rateAffectsInvoice } from "@/lib/rates";
 import {
   Dialog,
   DialogContent,
@@ -30,6 +35,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -78,6 +91,8 @@ interface UserInvoice {
   total_amount: number;
   status: string;
   hourly_rate: number;
+  delivery_date: string;
+  weekly_closings: { calendar_week: number; year: number } | null;
   projects: { name: string } | null;
 }
 
@@ -115,6 +130,10 @@ export function UserDetailModal({
   const { user } = useAuth();
   const { role } = useUserRole();
   const isPrivileged = role === "admin" || role === "director";
+  const { company, companies } = useCompany();
+  const [movingCompany, setMovingCompany] = useState(false);
+  const { can } = usePermissions();
+  const { granted, setPermission } = useUserPermissions(open ? userId : null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -128,32 +147,34 @@ export function UserDetailModal({
   const [editEntryData, setEditEntryData] = useState<EditEntryData | null>(null);
   
   // Rate history state
-  const [rateHistory, setRateHistory] = useState<Array<{
-    id: string;
-    rate: number;
-    valid_from: string;
-    valid_to: string | null;
-    created_at: string;
-  }>>([]);
+  const { rateHistory, refetch: fetchRateHistory } = useRateHistory(userId, open);
   const [newRateValue, setNewRateValue] = useState("");
   const [newRateFrom, setNewRateFrom] = useState("");
   const [newRateTo, setNewRateTo] = useState("");
   const [savingRate, setSavingRate] = useState(false);
-
-  const fetchRateHistory = useCallback(async () => {
-    if (!userId) return;
-    const { data } = await supabase
-      .from("rate_history")
-      .select("id, rate, valid_from, valid_to, created_at")
-      .eq("user_id", userId)
-      .order("valid_from", { ascending: false });
-    setRateHistory(data || []);
-  }, [userId]);
-
-  useEffect(() => {
-    if (!open || !userId) return;
-    fetchRateHistory();
-  }, [open, userId, fetchRateHistory]);
+  // A backdated rate change touching issued invoices waits for confirmation
+  const [rateConfirm, setRateConfirm] = useState<{
+    deleteId: string | null;
+    invoices: AffectedInvoice[];
+  } | null>(null);
+
+  // Hours recorded and issued invoices within each rate's validity
+  const rateBreakdown = useMemo(() => {
+    const breakdown = new Map<string, { hours: number; invoices: number }>();
+    for (const rh of rateHistory) {
+      breakdown.set(rh.id, {
+        hours: 0,
+        invoices: invoices.filter((inv) => inv.status !== "void" && rateAffectsInvoice(rh, inv)).length,
+      });
+    }
+    let profileRateHours = 0;
+    for (const rec of records) {
+      const period = effectivePeriod(rateHistory, rec.date);
+      if (period?.id) breakdown.get(period.id)!.hours += Number(rec.total_hours) || 0;
+      else profileRateHours += Number(rec.total_hours) || 0;
+    }
+    return { byRate: breakdown, profileRateHours };
+  }, [rateHistory, records, invoices]);
 
   useEffect(() => {
     if (!open || !userId) return;
@@ -176,7 +197,7 @@ export function UserDetailModal({
         supabase
           .from("invoices")
           .select(
-            "id, invoice_number, issue_date, due_date, total_hours, total_amount, subtotal, status, hourly_rate, projects(name)"
+            "id, invoice_number, issue_date, due_date, delivery_date, total_hours, total_amount, subtotal, status, hourly_rate, projects(name), weekly_closings(calendar_week, year)"
           )
           .eq("user_id", userId)
           .is("deleted_at", null)
@@ -219,6 +240,26 @@ export function UserDetailModal({
     }
   };
 
+  /**
+   * Move the user to a sister company; afterwards they drop out of the current company's lists.
+   */
+  const handleMoveCompany = async (companyId: string) => {
+    if (!userId || companyId === company?.id) return;
+    const target = companies.find((c) => c.id === companyId);
+    if (!window.confirm(`Presunúť ${userName} do spoločnosti ${target?.name}?`)) return;
+
+    setMovingCompany(true);
+    const { error } = await supabase.rpc("set_user_company", { p_user_id: userId, p_company_id: companyId });
+    setMovingCompany(false);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    toast({ title: "Presunuté", description: `${userName} patrí do spoločnosti ${target?.name}.` });
+    onProfileUpdated?.();
+    onOpenChange(false);
+  };
+
   const handleSaveWageClick = () => {
     if (editHourlyRate !== originalHourlyRate) {
       setWageConfirmOpen(true);
@@ -267,6 +308,47 @@ export function UserDetailModal({
     }
   };
 
+  /** Ask for confirmation first when the rate's validity covers invoices already issued */
+  const confirmRateChange = async (
+    rate: { valid_from: string; valid_to: string | null },
+    deleteId: string | null,
+    apply: () => void
+  ) => {
+    if (!userId) return;
+    try {
+      const affected = await findInvoicesAffectedByRate(userId, rate);
+      if (affected.length > 0) {
+        setRateConfirm({ deleteId, invoices: affected });
+        return;
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa overiť vystavené faktúry",
+      });
+      return;
+    }
+    apply();
+  };
+
+  const handleAddRateHistoryClick = () => {
+    if (!newRateValue || !newRateFrom) return;
+    confirmRateChange({ valid_from: newRateFrom, valid_to: newRateTo || null }, null, handleAddRateHistory);
+  };
+
+  const handleDeleteRateHistoryClick = (rh: { id: string; valid_from: string; valid_to: string | null }) => {
+    confirmRateChange(rh, rh.id, () => handleDeleteRateHistory(rh.id));
+  };
+
+  const handleConfirmRateChange = () => {
+    const pending = rateConfirm;
+    setRateConfirm(null);
+    if (!pending) return;
+    if (pending.deleteId) handleDeleteRateHistory(pending.deleteId);
+    else handleAddRateHistory();
+  };
+
   const handleAddRateHistory = async () => {
     if (!userId || !newRateValue || !newRateFrom) return;
     setSavingRate(true);
@@ -415,6 +497,49 @@ export function UserDetailModal({
                   <InfoRow label="Fakturačná adresa" value={profile?.billing_address} />
                   <InfoRow icon={<CreditCard className="h-4 w-4" />} label="IBAN" value={profile?.iban} />
                   <InfoRow label="SWIFT/BIC" value={profile?.swift_bic} />
+                  {isPrivileged && company && companies.length > 1 && (
+                    <>
+                      <Separator />
+                      <div className="space-y-2">
+                        <Label>Spoločnosť</Label>
+                        <Select value={company.id} onValueChange={handleMoveCompany} disabled={movingCompany}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {companies.map((c) => (
+                              <SelectItem key={c.id} value={c.id}>
+                                {c.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+                  {can("manage_users") && (
+                    <>
+                      <Separator />
+                      <div className="space-y-2">
+                        <Label>Ďalšie oprávnenia (nad rámec roly)</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Udeliť môžete iba oprávnenia, ktoré sami máte, a nie sebe.
+                        </p>
+                        <div className="grid gap-2 sm:grid-cols-2">
+                          {PERMISSIONS.map((permission) => (
+                            <label key={permission} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={granted.has(permission)}
+                                disabled={userId === user?.id || !can(permission)}
+                                onCheckedChange={(checked) => setPermission(permission, checked === true)}
+                              />
+                              {PERMISSION_LABELS[permission]}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
               </TabsContent>
 
@@ -474,6 +599,14 @@ export function UserDetailModal({
                     )}
                   </Button>
 
+                  {/* Billing Profile Section */}
+                  {isPrivileged && userId && (
+                    <>
+                      <Separator />
+                      <BillingProfileSection userId={userId} />
+                    </>
+                  )}
+
                   {/* Rate History Section */}
                   {isPrivileged && (
                     <>
@@ -517,7 +650,7 @@ export function UserDetailModal({
                         </div>
                         <Button
                           size="sm"
-                          onClick={handleAddRateHistory}
+                          onClick={handleAddRateHistoryClick}
                           disabled={savingRate || !newRateValue || !newRateFrom}
                           className="w-full"
                         >
@@ -538,6 +671,8 @@ export function UserDetailModal({
                                   <TableHead className="text-xs">Sadzba</TableHead>
                                   <TableHead className="text-xs">Od</TableHead>
                                   <TableHead className="text-xs">Do</TableHead>
+                                  <TableHead className="text-xs text-right">Hodiny</TableHead>
+                                  <TableHead className="text-xs text-right">Suma</TableHead>
                                   <TableHead className="text-xs w-10"></TableHead>
                                 </TableRow>
                               </TableHeader>
@@ -550,12 +685,23 @@ export function UserDetailModal({
                                     </TableCell>
                                     <TableCell className="text-sm text-muted-foreground">
                                       {rh.valid_to ? format(new Date(rh.valid_to), "d.M.yyyy") : "—"}
+                                      {(rateBreakdown.byRate.get(rh.id)?.invoices ?? 0) > 0 && (
+                                        <Badge variant="outline" className="ml-1 text-[10px]">
+                                          {rateBreakdown.byRate.get(rh.id)?.invoices} fakt.
+                                        </Badge>
+                                      )}
+                                    </TableCell>
+                                    <TableCell className="text-sm text-right">
+                                      {(rateBreakdown.byRate.get(rh.id)?.hours ?? 0).toFixed(2)} h
+                                    </TableCell>
+                                    <TableCell className="text-sm text-right">
+                                      {((rateBreakdown.byRate.get(rh.id)?.hours ?? 0) * rh.rate).toFixed(2)} €
                                     </TableCell>
                                     <TableCell>
                                       <Button
                                         size="sm"
                                         variant="ghost"
-                                        onClick={() => handleDeleteRateHistory(rh.id)}
+                                        onClick={() => handleDeleteRateHistoryClick(rh)}
                                         className="h-7 w-7 p-0 text-destructive hover:text-destructive"
                                       >
                                         <Trash2 className="h-3.5 w-3.5" />
@@ -567,6 +713,11 @@ export function UserDetailModal({
                             </Table>
                           </div>
                         )}
+                        {rateHistory.length > 0 && rateBreakdown.profileRateHours > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Mimo histórie (sadzba z profilu): {rateBreakdown.profileRateHours.toFixed(2)} h
+                          </p>
+                        )}
                         {rateHistory.length === 0 && (
                           <p className="text-xs text-muted-foreground text-center py-2">
                             Žiadna história sadzieb
@@ -657,6 +808,41 @@ export function UserDetailModal({
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={!!rateConfirm} onOpenChange={(isOpen) => !isOpen && setRateConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Spätná zmena sadzby</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-3">
+                <p>
+                  {rateConfirm?.deleteId ? "Odstránenie sadzby" : "Nová sadzba"} sa týka týždňov, za ktoré už boli
+                  vystavené faktúry:
+                </p>
+                <div className="rounded-lg border p-3 bg-muted/30 space-y-1 text-sm max-h-40 overflow-y-auto">
+                  {rateConfirm?.invoices.map((inv) => (
+                    <p key={inv.id}>
+                      <strong>{inv.invoice_number}</strong> · {format(new Date(inv.issue_date), "d.M.yyyy")}
+                    </p>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  ⚠ Vystavené faktúry sa neprepočítajú. Rozdiel je potrebné vyrovnať dobropisom alebo novou faktúrou.
+                </p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Zrušiť</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmRateChange}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Potvrdiť
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {userId && (
         <AdminAddEntryModal
           open={addEntryOpen}
@@ -29,6 +29,8 @@ import {
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAdvances } from "@/hooks/useAdvances";
+import { repaymentPlanLabel, type RepaymentPlan } from "@/hooks/useDeductions";
+import { getISOWeekLocal, getISOWeekYear } from "@/lib/dateUtils";
 import { supabase } from "@/integrations/supabase/client";
 import { Plus, Trash2, Banknote } from "lucide-react";
 import { format } from "date-fns";
@@ -40,6 +42,8 @@ interface User {
   company_name: string | null;
 }
 
+type RepaymentMode = "once" | "amount" | "percent";
+
 export function AdvancesManagement() {
   const { advances, loading, addAdvance, deleteAdvance } = useAdvances();
   const [users, setUsers] = useState<User[]>([]);
@@ -48,6 +52,10 @@ export function AdvancesManagement() {
   const [amount, setAmount] = useState("");
   const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [note, setNote] = useState("");
+  const [repaymentMode, setRepaymentMode] = useState<RepaymentMode>("once");
+  const [instalment, setInstalment] = useState("");
+  const [startWeek, setStartWeek] = useState(String(getISOWeekLocal(new Date())));
+  const [startYear, setStartYear] = useState(String(getISOWeekYear(new Date())));
 
   useEffect(() => {
     async function fetchUsers() {
@@ -62,14 +70,28 @@ export function AdvancesManagement() {
 
   const handleSubmit = async () => {
     if (!selectedUserId || !amount || !date) return;
-    
-    await addAdvance(selectedUserId, parseFloat(amount), date, note || undefined);
+
+    // Instalments are deducted from each invoice from the start week on
+    const plan: RepaymentPlan | undefined = repaymentMode === "once"
+      ? undefined
+      : {
+          instalment_amount: repaymentMode === "amount" ? parseFloat(instalment) : null,
+          instalment_percent: repaymentMode === "percent" ? parseFloat(instalment) : null,
+          repayment_start_year: parseInt(startYear),
+          repayment_start_week: parseInt(startWeek),
+        };
+
+    await addAdvance(selectedUserId, parseFloat(amount), date, note || undefined, plan);
     setDialogOpen(false);
     setSelectedUserId("");
     setAmount("");
     setNote("");
+    setRepaymentMode("once");
+    setInstalment("");
   };
 
+  const planIncomplete = repaymentMode !== "once" && (!instalment || !startWeek || !startYear);
+
   const formatAmount = (amt: number) => {
     return new Intl.NumberFormat("sk-SK", {
       style: "currency",
@@ -83,8 +105,7 @@ export function AdvancesManagement() {
 
   // Calculate totals
   const totalAdvances = advances.reduce((sum, adv) => sum + Number(adv.amount), 0);
-  const unusedAdvances = advances.filter(adv => !adv.used_in_invoice_id);
-  const totalUnused = unusedAdvances.reduce((sum, adv) => sum + Number(adv.amount), 0);
+  const totalUnused = advances.reduce((sum, adv) => sum + adv.remaining, 0);
 
   if (loading) {
     return (
@@ -174,12 +195,59 @@ export function AdvancesManagement() {
                     placeholder="Napr. Záloha na január 2024"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Splácanie</Label>
+                  <Select value={repaymentMode} onValueChange={(v) => setRepaymentMode(v as RepaymentMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="once">Jednorazovo z najbližšej faktúry</SelectItem>
+                      <SelectItem value="amount">Splátky – pevná suma z každej faktúry</SelectItem>
+                      <SelectItem value="percent">Splátky – percento z každej faktúry</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {repaymentMode !== "once" && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-2">
+                      <Label>{repaymentMode === "amount" ? "Splátka (€)" : "Splátka (%)"}</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max={repaymentMode === "percent" ? "100" : undefined}
+                        value={instalment}
+                        onChange={(e) => setInstalment(e.target.value)}
+                        placeholder={repaymentMode === "amount" ? "300.00" : "20"}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Od KW</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="53"
+                        value={startWeek}
+                        onChange={(e) => setStartWeek(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Rok</Label>
+                      <Input
+                        type="number"
+                        value={startYear}
+                        onChange={(e) => setStartYear(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setDialogOpen(false)}>
                   Zrušiť
                 </Button>
-                <Button onClick={handleSubmit} disabled={!selectedUserId || !amount}>
+                <Button onClick={handleSubmit} disabled={!selectedUserId || !amount || planIncomplete}>
                   Pridať zálohu
                 </Button>
               </DialogFooter>
@@ -195,7 +263,7 @@ export function AdvancesManagement() {
             <div className="text-2xl font-bold">{formatAmount(totalAdvances)}</div>
           </div>
           <div className="rounded-lg border p-4">
-            <div className="text-sm text-muted-foreground">Nepoužité zálohy</div>
+            <div className="text-sm text-muted-foreground">Zostáva splatiť</div>
             <div className="text-2xl font-bold text-primary">{formatAmount(totalUnused)}</div>
           </div>
         </div>
@@ -212,7 +280,8 @@ export function AdvancesManagement() {
                 <TableHead>Dátum</TableHead>
                 <TableHead className="text-right">Suma</TableHead>
                 <TableHead>Poznámka</TableHead>
-                <TableHead>Použité vo faktúre</TableHead>
+                <TableHead>Splátkový plán</TableHead>
+                <TableHead className="text-right">Zostatok</TableHead>
                 <TableHead className="text-right">Akcie</TableHead>
               </TableRow>
             </TableHeader>
@@ -236,11 +305,14 @@ export function AdvancesManagement() {
                   <TableCell className="text-muted-foreground">
                     {advance.note || "—"}
                   </TableCell>
-                  <TableCell>
-                    {advance.used_in_invoice_id ? (
-                      <span className="text-green-600 dark:text-green-400">Áno</span>
+                  <TableCell className="text-muted-foreground">
+                    {repaymentPlanLabel(advance) || "Jednorazovo"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {advance.remaining > 0 ? (
+                      <span className="font-medium">{formatAmount(advance.remaining)}</span>
                     ) : (
-                      <span className="text-muted-foreground">Nie</span>
+                      <span className="text-green-600 dark:text-green-400">Splatené</span>
                     )}
                   </TableCell>
                   <TableCell className="text-right">
@@ -0,0 +1,329 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBankStatementImport } from "@/hooks/useBankStatementImport";
+import type { Invoice } from "@/hooks/useFinancialData";
+import type { MatchCriterion, TransactionMatch } from "@/lib/bankStatementImport";
+import { CheckCircle2, FileUp, Loader2, X } from "lucide-react";
+import { format } from "date-fns";
+
+interface BankStatementImportProps {
+  invoices: Invoice[];
+  onRefresh: () => void;
+}
+
+const CRITERION_LABELS: Record<MatchCriterion, string> = {
+  vs: "VS",
+  amount: "Suma",
+  iban: "IBAN",
+};
+
+const NO_MATCH = "none";
+
+export function BankStatementImport({ invoices, onRefresh }: BankStatementImportProps) {
+  const { matches, fileName, parsing, applying, importStatement, applyPayments, reset } = useBankStatementImport();
+  // Selected invoice per transaction id
+  const [selection, setSelection] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    // Pre-select confident matches; a repeated invoice is left for manual review
+    const initial: Record<string, string | null> = {};
+    const taken = new Set<string>();
+    for (const m of matches) {
+      const invoiceId = m.confidence === "confident" ? m.candidates[0].invoice.id : null;
+      initial[m.transaction.id] = invoiceId && !taken.has(invoiceId) ? invoiceId : null;
+      if (invoiceId) taken.add(invoiceId);
+    }
+    setSelection(initial);
+  }, [matches]);
+
+  const confident = matches.filter((m) => m.confidence === "confident");
+  const ambiguous = matches.filter((m) => m.confidence === "ambiguous");
+  const unmatched = matches.filter((m) => m.confidence === "unmatched");
+
+  // One invoice can only be settled by one bank line
+  const takenInvoiceIds = useMemo(
+    () => new Set(Object.values(selection).filter((id): id is string => !!id)),
+    [selection]
+  );
+
+  const selectedPayments = matches
+    .filter((m) => selection[m.transaction.id])
+    .map((m) => ({ invoiceId: selection[m.transaction.id] as string, bookingDate: m.transaction.bookingDate }));
+
+  const formatAmount = (amt: number) =>
+    new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await importStatement(file, invoices);
+  };
+
+  const handleApply = async () => {
+    const result = await applyPayments(selectedPayments);
+    if (result.success) onRefresh();
+  };
+
+  const renderTransaction = (match: TransactionMatch) => {
+    const { transaction } = match;
+    return (
+      <>
+        <TableCell>{format(new Date(transaction.bookingDate), "d.M.yyyy")}</TableCell>
+        <TableCell>
+          <div className="font-medium">{transaction.counterpartyName ?? "—"}</div>
+          {transaction.counterpartyIban && (
+            <div className="font-mono text-xs text-muted-foreground">{transaction.counterpartyIban}</div>
+          )}
+        </TableCell>
+        <TableCell className="font-mono text-xs">{transaction.variableSymbol ?? "—"}</TableCell>
+        <TableCell
+          className={`text-right font-medium ${transaction.direction === "debit" ? "text-destructive" : "text-green-600"}`}
+        >
+          {transaction.direction === "debit" ? "-" : "+"}
+          {formatAmount(transaction.amount)}
+        </TableCell>
+      </>
+    );
+  };
+
+  const renderCriteria = (matchedOn: MatchCriterion[]) => (
+    <div className="flex gap-1">
+      {matchedOn.map((c) => (
+        <Badge key={c} variant="outline" className="text-[10px] px-1.5 py-0">
+          {CRITERION_LABELS[c]}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              Bankový výpis
+            </CardTitle>
+            <CardDescription>
+              Nahrajte výpis camt.053 (XML) alebo CSV z banky – pohyby sa spárujú s faktúrami podľa VS, sumy a IBAN
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {fileName && (
+              <Button variant="ghost" onClick={reset} disabled={applying}>
+                <X className="mr-2 h-4 w-4" />
+                Zrušiť
+              </Button>
+            )}
+            <Label htmlFor="bank-statement-upload" className="cursor-pointer">
+              <Button variant="outline" asChild disabled={parsing}>
+                <span>
+                  {parsing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileUp className="mr-2 h-4 w-4" />
+                  )}
+                  Nahrať výpis
+                </span>
+              </Button>
+            </Label>
+            <Input
+              id="bank-statement-upload"
+              type="file"
+              accept=".xml,.csv,text/xml,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+              disabled={parsing}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!fileName ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Zatiaľ nebol nahraný žiadny výpis
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Isté zhody</div>
+                <div className="text-2xl font-bold text-green-600">{confident.length}</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Na posúdenie</div>
+                <div className="text-2xl font-bold text-amber-600">{ambiguous.length}</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Bez zhody</div>
+                <div className="text-2xl font-bold text-muted-foreground">{unmatched.length}</div>
+              </div>
+            </div>
+
+            {confident.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Isté zhody</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Dátum</TableHead>
+                      <TableHead>Protistrana</TableHead>
+                      <TableHead>VS</TableHead>
+                      <TableHead className="text-right">Suma</TableHead>
+                      <TableHead>Faktúra</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {confident.map((match) => {
+                      const candidate = match.candidates[0];
+                      return (
+                        <TableRow key={match.transaction.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selection[match.transaction.id] === candidate.invoice.id}
+                              disabled={
+                                selection[match.transaction.id] !== candidate.invoice.id &&
+                                takenInvoiceIds.has(candidate.invoice.id)
+                              }
+                              onCheckedChange={(checked) =>
+                                setSelection((prev) => ({
+                                  ...prev,
+                                  [match.transaction.id]: checked === true ? candidate.invoice.id : null,
+                                }))
+                              }
+                            />
+                          </TableCell>
+                          {renderTransaction(match)}
+                          <TableCell>
+                            <div className="font-medium">{candidate.invoice.invoiceNumber}</div>
+                            <div className="text-xs text-muted-foreground mb-1">{candidate.invoice.supplierName}</div>
+                            {renderCriteria(candidate.matchedOn)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {ambiguous.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Na posúdenie</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Dátum</TableHead>
+                      <TableHead>Protistrana</TableHead>
+                      <TableHead>VS</TableHead>
+                      <TableHead className="text-right">Suma</TableHead>
+                      <TableHead>Faktúra</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ambiguous.map((match) => {
+                      const selected = selection[match.transaction.id];
+                      return (
+                        <TableRow key={match.transaction.id}>
+                          {renderTransaction(match)}
+                          <TableCell className="min-w-[260px]">
+                            <Select
+                              value={selected ?? NO_MATCH}
+                              onValueChange={(value) =>
+                                setSelection((prev) => ({
+                                  ...prev,
+                                  [match.transaction.id]: value === NO_MATCH ? null : value,
+                                }))
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_MATCH}>Nepárovať</SelectItem>
+                                {match.candidates.map((c) => (
+                                  <SelectItem
+                                    key={c.invoice.id}
+                                    value={c.invoice.id}
+                                    disabled={c.invoice.id !== selected && takenInvoiceIds.has(c.invoice.id)}
+                                  >
+                                    {c.invoice.invoiceNumber} • {c.invoice.supplierName} •{" "}
+                                    {formatAmount(c.invoice.payableAmount)} (
+                                    {c.matchedOn.map((m) => CRITERION_LABELS[m]).join(", ")})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {unmatched.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-muted-foreground">Bez zhody</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Dátum</TableHead>
+                      <TableHead>Protistrana</TableHead>
+                      <TableHead>VS</TableHead>
+                      <TableHead className="text-right">Suma</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unmatched.map((match) => (
+                      <TableRow key={match.transaction.id} className="text-muted-foreground">
+                        {renderTransaction(match)}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="text-sm text-muted-foreground">
+                {fileName} • {matches.length} pohybov
+              </div>
+              <Button onClick={handleApply} disabled={selectedPayments.length === 0 || applying}>
+                {applying ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="mr-2 h-4 w-4" />
+                )}
+                Označiť ako uhradené ({selectedPayments.length})
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
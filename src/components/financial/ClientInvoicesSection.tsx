@@ -0,0 +1,226 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useClientInvoices, type ClientInvoice, type ClientInvoiceStatus } from "@/hooks/useClientBilling";
+import { supabase } from "@/integrations/supabase/client";
+import { weekRangeDates } from "@/lib/clientBilling";
+import { getISOWeekLocal, getISOWeekYear, parseLocalDate } from "@/lib/dateUtils";
+import { FileText, Download, CheckCircle, Ban, Loader2 } from "lucide-react";
+import { format, startOfWeek, subWeeks } from "date-fns";
+import { sk } from "date-fns/locale";
+
+interface BillableProject {
+  id: string;
+  name: string;
+  client_hourly_rate: number | null;
+  clients: { name: string } | null;
+}
+
+const STATUS_LABELS: Record<ClientInvoiceStatus, string> = {
+  issued: "Vystavená",
+  paid: "Uhradená",
+  void: "Stornovaná",
+};
+
+const toWeek = (date: string) => {
+  const d = parseLocalDate(date);
+  return { week: getISOWeekLocal(d), year: getISOWeekYear(d) };
+};
+
+interface ClientInvoicesSectionProps {
+  canEdit: boolean;
+}
+
+export function ClientInvoicesSection({ canEdit }: ClientInvoicesSectionProps) {
+  const { invoices, loading, generating, generateClientInvoice, downloadPdf, setStatus } = useClientInvoices();
+  const [projects, setProjects] = useState<BillableProject[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const lastMonday = startOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 });
+  const [from, setFrom] = useState(format(lastMonday, "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(lastMonday, "yyyy-MM-dd"));
+
+  useEffect(() => {
+    async function fetchProjects() {
+      const { data } = await supabase
+        .from("projects")
+        .select("id, name, client_hourly_rate, clients(name)")
+        .not("client_id", "is", null)
+        .is("deleted_at", null)
+        .order("name");
+      if (data) setProjects(data);
+    }
+    fetchProjects();
+  }, []);
+
+  // Client invoices always cover whole ISO weeks
+  const period = useMemo(() => {
+    if (!from || !to || from > to) return null;
+    return weekRangeDates(toWeek(from), toWeek(to));
+  }, [from, to]);
+
+  const selectedProject = projects.find((p) => p.id === projectId);
+
+  const handleGenerate = async () => {
+    if (!projectId || !period) return;
+    await generateClientInvoice(projectId, period.periodFrom, period.periodTo);
+  };
+
+  const formatAmount = (amt: number) =>
+    new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+  const formatDate = (dateStr: string) => format(parseLocalDate(dateStr), "d. MMM yyyy", { locale: sk });
+
+  const statusBadge = (invoice: ClientInvoice) => {
+    if (invoice.status === "paid") return <Badge className="bg-green-600 hover:bg-green-600">{STATUS_LABELS.paid}</Badge>;
+    if (invoice.status === "void") return <Badge variant="outline">{STATUS_LABELS.void}</Badge>;
+    return <Badge variant="secondary">{STATUS_LABELS.issued}</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Odberateľské faktúry
+        </CardTitle>
+        <CardDescription>
+          Fakturácia schválených hodín projektu klientovi podľa sadzby pre klienta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canEdit && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Projekt</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Vyberte projekt" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name} {project.clients && `(${project.clients.name})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Od týždňa</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Do týždňa</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div className="text-sm text-muted-foreground">
+                {period
+                  ? `Obdobie ${formatDate(period.periodFrom)} – ${formatDate(period.periodTo)}`
+                  : "Neplatné obdobie"}
+                {selectedProject &&
+                  (selectedProject.client_hourly_rate
+                    ? ` · sadzba ${formatAmount(Number(selectedProject.client_hourly_rate))}/h`
+                    : " · projekt nemá sadzbu pre klienta")}
+              </div>
+              <Button
+                onClick={handleGenerate}
+                disabled={!projectId || !period || !selectedProject?.client_hourly_rate || generating}
+              >
+                {generating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Vystaviť faktúru
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : invoices.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Žiadne odberateľské faktúry na zobrazenie
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Číslo</TableHead>
+                <TableHead>Klient / Projekt</TableHead>
+                <TableHead>Obdobie</TableHead>
+                <TableHead className="text-right">Hodiny</TableHead>
+                <TableHead className="text-right">Suma</TableHead>
+                <TableHead>Splatnosť</TableHead>
+                <TableHead>Stav</TableHead>
+                <TableHead className="text-right">Akcie</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map((invoice) => (
+                <TableRow key={invoice.id} className={invoice.status === "void" ? "opacity-60" : ""}>
+                  <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{invoice.clients?.name ?? "—"}</div>
+                    <div className="text-xs text-muted-foreground">{invoice.projects?.name ?? "—"}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(invoice.period_from)} – {formatDate(invoice.period_to)}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(invoice.total_hours).toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatAmount(Number(invoice.total_amount))}</TableCell>
+                  <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                  <TableCell>{statusBadge(invoice)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" onClick={() => downloadPdf(invoice)} title="Stiahnuť PDF">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {canEdit && invoice.status === "issued" && (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={() => setStatus(invoice, "paid")} title="Označiť ako uhradenú">
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setStatus(invoice, "void")}
+                          title="Stornovať"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useClients } from "@/hooks/useClientBilling";
+import type { Client, ClientInput } from "@/lib/clientBilling";
+import { Plus, Pencil, Building2 } from "lucide-react";
+
+const EMPTY_CLIENT: ClientInput = {
+  name: "",
+  address: null,
+  country: null,
+  ico: null,
+  dic: null,
+  vat_number: null,
+  email: null,
+  payment_terms_days: 30,
+  is_reverse_charge: true,
+  is_active: true,
+};
+
+interface ClientsManagementProps {
+  canEdit: boolean;
+}
+
+export function ClientsManagement({ canEdit }: ClientsManagementProps) {
+  const { clients, loading, saving, saveClient } = useClients();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | undefined>();
+  const [form, setForm] = useState<ClientInput>(EMPTY_CLIENT);
+
+  const openDialog = (client?: Client) => {
+    if (client) {
+      const { id, ...input } = client;
+      setEditingId(id);
+      setForm(input);
+    } else {
+      setEditingId(undefined);
+      setForm(EMPTY_CLIENT);
+    }
+    setDialogOpen(true);
+  };
+
+  const setField = <K extends keyof ClientInput>(key: K, value: ClientInput[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  // Empty text inputs are stored as NULL
+  const textField = (key: "address" | "country" | "ico" | "dic" | "vat_number" | "email") => ({
+    value: form[key] ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setField(key, e.target.value.trim() ? e.target.value : null),
+  });
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) return;
+    const saved = await saveClient({ ...form, name: form.name.trim() }, editingId);
+    if (saved) setDialogOpen(false);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Klienti
+            </CardTitle>
+            <CardDescription>
+              Odberatelia, ktorým fakturujeme odpracované hodiny na projektoch
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Pridať klienta
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {clients.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Žiadni klienti na zobrazenie
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Názov</TableHead>
+                <TableHead>IČO / IČ DPH</TableHead>
+                <TableHead>Splatnosť</TableHead>
+                <TableHead>DPH</TableHead>
+                <TableHead className="text-right">Akcie</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clients.map((client) => (
+                <TableRow key={client.id} className={client.is_active ? "" : "opacity-60"}>
+                  <TableCell>
+                    <div className="font-medium">{client.name}</div>
+                    {client.address && (
+                      <div className="text-xs text-muted-foreground">
+                        {client.address}
+                        {client.country && `, ${client.country}`}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    <div>{client.ico || "—"}</div>
+                    {client.vat_number && <div className="text-xs">{client.vat_number}</div>}
+                  </TableCell>
+                  <TableCell>{client.payment_terms_days} dní</TableCell>
+                  <TableCell>
+                    {client.is_reverse_charge ? (
+                      <Badge variant="secondary">Prenesená daňová povinnosť</Badge>
+                    ) : (
+                      <Badge variant="outline">20 %</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canEdit && (
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(client)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Upraviť klienta" : "Nový klient"}</DialogTitle>
+            <DialogDescription>Fakturačné údaje odberateľa</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Názov *</Label>
+              <Input value={form.name} onChange={(e) => setField("name", e.target.value)} />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Adresa</Label>
+              <Input {...textField("address")} placeholder="Ulica 1, 12345 Mesto" />
+            </div>
+            <div className="space-y-2">
+              <Label>Krajina</Label>
+              <Input {...textField("country")} placeholder="Deutschland" />
+            </div>
+            <div className="space-y-2">
+              <Label>E-mail</Label>
+              <Input type="email" {...textField("email")} />
+            </div>
+            <div className="space-y-2">
+              <Label>IČO</Label>
+              <Input {...textField("ico")} />
+            </div>
+            <div className="space-y-2">
+              <Label>DIČ</Label>
+              <Input {...textField("dic")} />
+            </div>
+            <div className="space-y-2">
+              <Label>IČ DPH</Label>
+              <Input {...textField("vat_number")} placeholder="DE123456789" />
+            </div>
+            <div className="space-y-2">
+              <Label>Splatnosť (dni)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.payment_terms_days}
+                onChange={(e) => setField("payment_terms_days", parseInt(e.target.value, 10) || 0)}
+              />
+            </div>
+            <div className="flex items-center justify-between sm:col-span-2">
+              <Label>Prenesená daňová povinnosť (bez DPH)</Label>
+              <Switch checked={form.is_reverse_charge} onCheckedChange={(v) => setField("is_reverse_charge", v)} />
+            </div>
+            <div className="flex items-center justify-between sm:col-span-2">
+              <Label>Aktívny</Label>
+              <Switch checked={form.is_active} onCheckedChange={(v) => setField("is_active", v)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Zrušiť
+            </Button>
+            <Button onClick={handleSubmit} disabled={!form.name.trim() || saving}>
+              Uložiť
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
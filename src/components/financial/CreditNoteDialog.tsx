@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useCreditNotes, type CreditNote } from "@/hooks/useCreditNotes";
+import type { Invoice } from "@/hooks/useFinancialData";
+import { Download, FileMinus, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface CreditNoteDialogProps {
+  invoice: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+export function CreditNoteDialog({ invoice, open, onOpenChange, onCreated }: CreditNoteDialogProps) {
+  const { can } = usePermissions();
+  const canManageInvoices = can("manage_invoices");
+  const { toast } = useToast();
+  const { createCreditNote, downloadCreditNotePDF, creating } = useCreditNotes();
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const invoiceSubtotal = Number(invoice?.subtotal || 0);
+  const invoiceVat = Number(invoice?.vat_amount || 0);
+  const remaining = Math.max(0, Math.round((invoiceSubtotal - Number(invoice?.credited_amount || 0)) * 100) / 100);
+  const creditedVat = (invoice?.credit_notes ?? []).reduce((sum, cn) => sum + Number(cn.vat_amount || 0), 0);
+  const remainingVat = Math.max(0, Math.round((invoiceVat - creditedVat) * 100) / 100);
+
+  useEffect(() => {
+    if (open) {
+      setAmount(remaining > 0 ? String(remaining) : "");
+      setReason("");
+    }
+  }, [open, invoice?.id, remaining]);
+
+  if (!invoice) return null;
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(value);
+
+  const creditSubtotal = Math.round((parseFloat(amount) || 0) * 100) / 100;
+  // VAT is credited proportionally to the invoiced base; the credit that uses up
+  // the remaining base takes the remaining VAT, so roundings never overshoot it
+  const creditVat = creditSubtotal >= remaining
+    ? remainingVat
+    : invoiceSubtotal > 0
+    ? Math.min(remainingVat, Math.round((creditSubtotal * invoiceVat / invoiceSubtotal) * 100) / 100)
+    : 0;
+  // A void invoice is no longer owed, so there is nothing left to credit
+  const canCredit = canManageInvoices && remaining > 0 && invoice.status !== "void";
+  const canSubmit = creditSubtotal > 0 && creditSubtotal <= remaining && reason.trim().length > 0;
+
+  const handleCreate = async () => {
+    const result = await createCreditNote({
+      invoiceId: invoice.id,
+      supplierUserId: invoice.user_id,
+      subtotal: creditSubtotal,
+      vatAmount: creditVat,
+      reason,
+    });
+    if (result.success) {
+      onCreated();
+      onOpenChange(false);
+    }
+  };
+
+  const handleDownload = async (creditNote: CreditNote) => {
+    setDownloadingId(creditNote.id);
+    try {
+      await downloadCreditNotePDF(creditNote);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa vygenerovať PDF dobropisu",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Dobropisy k faktúre {invoice.invoice_number}</DialogTitle>
+          <DialogDescription>
+            {invoice.profile?.full_name} • Suma faktúry {formatAmount(invoiceSubtotal)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {invoice.credit_notes.length > 0 ? (
+            <div className="space-y-2">
+              {invoice.credit_notes.map((cn) => (
+                <div key={cn.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">{cn.credit_note_number}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {format(new Date(cn.issue_date), "d.M.yyyy")} • {cn.reason}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-sm font-medium text-destructive">
+                      -{formatAmount(Number(cn.total_amount))}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDownload(cn)}
+                      disabled={downloadingId === cn.id}
+                      title="Stiahnuť PDF"
+                    >
+                      {downloadingId === cn.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-2">
+              K tejto faktúre zatiaľ nebol vystavený dobropis.
+            </p>
+          )}
+
+          {canCredit && (
+            <>
+              <Separator />
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <FileMinus className="h-4 w-4 text-primary" />
+                  <Label className="text-base font-medium">Nový dobropis</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="credit-amount">Suma bez DPH (max. {formatAmount(remaining)})</Label>
+                  <Input
+                    id="credit-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={remaining}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  {creditVat > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      DPH: -{formatAmount(creditVat)} • Spolu: -{formatAmount(creditSubtotal + creditVat)}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="credit-reason">Dôvod opravy</Label>
+                  <Textarea
+                    id="credit-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Napr. chybne vyfakturované hodiny"
+                    rows={2}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Zavrieť
+          </Button>
+          {canCredit && (
+            <Button onClick={handleCreate} disabled={!canSubmit || creating}>
+              {creating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileMinus className="mr-2 h-4 w-4" />
+              )}
+              Vystaviť dobropis
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
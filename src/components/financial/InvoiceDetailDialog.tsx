@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -16,8 +16,12 @@ import { TaxPaymentStatusBadge } from "./TaxPaymentStatusBadge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
-import { Calculator, CheckCircle2, ShieldCheck, BookCheck, BookX, CreditCard } from "lucide-react";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useEInvoiceExport } from "@/hooks/useEInvoiceExport";
+import { verifyInvoiceArchive } from "@/hooks/useInvoiceArchive";
+import type { ArchiveStatus } from "@/lib/invoiceArchive";
+import { INVOICE_SUPPLIER_LABELS, supplierChanges, type InvoiceSupplier, type SupplierChange } from "@/lib/invoiceSupplier";
+import { Calculator, CheckCircle2, ShieldCheck, ShieldAlert, AlertTriangle, BookCheck, BookX, CreditCard, FileCode, Archive, Loader2 } from "lucide-react";
 import { format } from "date-fns";
 import { sk } from "date-fns/locale";
 
@@ -36,8 +40,14 @@ interface Invoice {
   tax_confirmed_at: string | null;
   tax_verified_at: string | null;
   advance_deduction: number;
+  sanctions_deduction?: number;
   accommodation_deduction?: number;
+  surcharge_amount?: number;
   is_accounted?: boolean;
+  pdf_path?: string | null;
+  pdf_sha256?: string | null;
+  pdf_archived_at?: string | null;
+  supplier?: InvoiceSupplier | null;
   profile?: {
     full_name: string;
     company_name: string | null;
@@ -58,13 +68,57 @@ export function InvoiceDetailDialog({
   onUpdate,
 }: InvoiceDetailDialogProps) {
   const { user } = useAuth();
-  const { isAdmin } = useUserRole();
+  const { can } = usePermissions();
+  const canManageInvoices = can("manage_invoices");
   const { toast } = useToast();
   const [taxRate, setTaxRate] = useState(invoice?.transaction_tax_rate ?? 0.4);
   const [updating, setUpdating] = useState(false);
+  const { exportInvoices, exporting } = useEInvoiceExport();
+  const [archiveStatus, setArchiveStatus] = useState<{ invoiceId: string; status: ArchiveStatus } | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [supplierDiff, setSupplierDiff] = useState<SupplierChange[]>([]);
+
+  // Invoice managers see where the supplier's profile has changed since the invoice was issued
+  const invoicedSupplier = invoice?.supplier ?? null;
+  const supplierUserId = invoice?.user_id;
+  useEffect(() => {
+    setSupplierDiff([]);
+    if (!open || !canManageInvoices || !invoicedSupplier || !supplierUserId) return;
+    supabase
+      .from("profiles")
+      .select("full_name, company_name, billing_address, country, ico, dic, iban, swift_bic, is_vat_payer, vat_number, contract_number, signature_url")
+      .eq("user_id", supplierUserId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setSupplierDiff(supplierChanges(invoicedSupplier, data));
+      });
+  }, [open, canManageInvoices, invoicedSupplier, supplierUserId]);
 
   if (!invoice) return null;
 
+  const handleVerifyArchive = async () => {
+    setVerifying(true);
+    try {
+      const status = await verifyInvoiceArchive({
+        id: invoice.id,
+        pdf_path: invoice.pdf_path ?? null,
+        pdf_sha256: invoice.pdf_sha256 ?? null,
+      });
+      setArchiveStatus({ invoiceId: invoice.id, status });
+    } catch (error) {
+      console.error("Error verifying archived PDF:", error);
+      toast({
+        title: "Chyba",
+        description: "Nepodarilo sa overiť archivované PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const verifiedStatus = archiveStatus?.invoiceId === invoice.id ? archiveStatus.status : null;
+
   const formatAmount = (amount: number) => {
     return new Intl.NumberFormat("sk-SK", {
       style: "currency",
@@ -259,7 +313,9 @@ export function InvoiceDetailDialog({
               const grossAmount = Number(invoice.subtotal ?? invoice.total_amount);
               const accommodationDed = Number(invoice.accommodation_deduction || 0);
               const advanceDed = Number(invoice.advance_deduction || 0);
-              const hasDeductions = accommodationDed > 0 || advanceDed > 0;
+              const sanctionsDed = Number(invoice.sanctions_deduction || 0);
+              const surcharges = Number(invoice.surcharge_amount || 0);
+              const hasDeductions = accommodationDed > 0 || advanceDed > 0 || sanctionsDed > 0;
 
               return (
                 <>
@@ -269,12 +325,24 @@ export function InvoiceDetailDialog({
                     </span>
                     <span className="font-semibold">{formatAmount(grossAmount)}</span>
                   </div>
+                  {surcharges > 0 && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>z toho príplatky</span>
+                      <span>{formatAmount(surcharges)}</span>
+                    </div>
+                  )}
                   {advanceDed > 0 && (
                     <div className="flex justify-between text-muted-foreground">
                       <span>Mínus poskytnutá záloha</span>
                       <span>-{formatAmount(advanceDed)}</span>
                     </div>
                   )}
+                  {sanctionsDed > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Mínus sankcie</span>
+                      <span>-{formatAmount(sanctionsDed)}</span>
+                    </div>
+                  )}
                   {accommodationDed > 0 && (
                     <div className="flex justify-between text-destructive">
                       <span>🏠 Zrážka za ubytovanie</span>
@@ -295,6 +363,42 @@ export function InvoiceDetailDialog({
             })()}
           </div>
 
+          {/* Supplier as invoiced */}
+          {invoice.supplier && (
+            <div className="rounded-lg border p-4 space-y-1 text-sm">
+              <Label className="text-base font-medium">Dodávateľ na faktúre</Label>
+              {invoice.supplier.billing_address && <p>{invoice.supplier.billing_address}</p>}
+              <p className="text-muted-foreground">
+                {[
+                  invoice.supplier.ico && `${INVOICE_SUPPLIER_LABELS.ico}: ${invoice.supplier.ico}`,
+                  invoice.supplier.dic && `${INVOICE_SUPPLIER_LABELS.dic}: ${invoice.supplier.dic}`,
+                  invoice.supplier.is_vat_payer && invoice.supplier.vat_number
+                    ? `${INVOICE_SUPPLIER_LABELS.vat_number}: ${invoice.supplier.vat_number}`
+                    : "Neplatiteľ DPH",
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </p>
+              {invoice.supplier.iban && <p className="font-mono text-xs">{invoice.supplier.iban}</p>}
+
+              {supplierDiff.length > 0 && (
+                <div className="mt-3 rounded-md border border-amber-500/30 bg-amber-500/5 p-3 space-y-2">
+                  <p className="flex items-center gap-2 font-medium text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="h-4 w-4" />
+                    Profil dodávateľa sa od vystavenia zmenil
+                  </p>
+                  {supplierDiff.map((change) => (
+                    <div key={change.field} className="grid grid-cols-3 gap-2 text-xs">
+                      <span className="text-muted-foreground">{change.label}</span>
+                      <span className="break-all">{change.invoiced}</span>
+                      <span className="break-all">→ {change.current}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <Separator />
 
           {/* Transaction Tax Calculator */}
@@ -304,7 +408,7 @@ export function InvoiceDetailDialog({
               <Label className="text-base font-medium">Transakčná daň</Label>
             </div>
 
-            {isAdmin && (
+            {canManageInvoices && (
               <div className="flex items-center gap-2">
                 <Input
                   type="number"
@@ -390,9 +494,67 @@ export function InvoiceDetailDialog({
                 : "Táto faktúra nie je započítaná do finančného prehľadu."}
             </p>
           </div>
+          <Separator />
+
+          {/* PDF Archive */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium flex items-center gap-2">
+                <Archive className="h-4 w-4" />
+                Archív PDF
+              </Label>
+              {verifiedStatus === "ok" && (
+                <Badge variant="default" className="bg-green-600 hover:bg-green-700 gap-1">
+                  <ShieldCheck className="h-3 w-3" />
+                  Neporušené
+                </Badge>
+              )}
+              {(verifiedStatus === "mismatch" || verifiedStatus === "missing") && (
+                <Badge variant="destructive" className="gap-1">
+                  <ShieldAlert className="h-3 w-3" />
+                  {verifiedStatus === "mismatch" ? "Nezhoda odtlačku" : "Súbor chýba"}
+                </Badge>
+              )}
+            </div>
+            {invoice.pdf_sha256 ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Archivované: {formatDate(invoice.pdf_archived_at ?? null)}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono break-all">SHA-256: {invoice.pdf_sha256}</p>
+                <Button variant="outline" size="sm" onClick={handleVerifyArchive} disabled={verifying}>
+                  {verifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+                  Overiť integritu
+                </Button>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                PDF zatiaľ nie je archivované. Uloží sa pri najbližšom stiahnutí faktúry.
+              </p>
+            )}
+          </div>
         </div>
 
         <DialogFooter className="flex-col sm:flex-row gap-2">
+          {/* E-invoice export for the accountant's software */}
+          <Button
+            onClick={() => exportInvoices([invoice.id], "isdoc")}
+            disabled={exporting}
+            variant="outline"
+            className="gap-2"
+          >
+            <FileCode className="h-4 w-4" />
+            ISDOC
+          </Button>
+          <Button
+            onClick={() => exportInvoices([invoice.id], "ubl")}
+            disabled={exporting}
+            variant="outline"
+            className="gap-2"
+          >
+            <FileCode className="h-4 w-4" />
+            UBL
+          </Button>
           {/* Mark as Paid button */}
           {!isPaid && (
             <Button
@@ -406,7 +568,7 @@ export function InvoiceDetailDialog({
             </Button>
           )}
           {/* Admin can toggle accounting status */}
-          {isAdmin && (
+          {canManageInvoices && (
             <Button
               onClick={handleToggleAccounted}
               disabled={updating}
@@ -439,7 +601,7 @@ export function InvoiceDetailDialog({
           )}
 
           {/* Admin can verify payment */}
-          {isAdmin && invoice.tax_payment_status === "confirmed" && (
+          {canManageInvoices && invoice.tax_payment_status === "confirmed" && (
             <Button
               onClick={handleVerifyTaxPayment}
               disabled={updating}
@@ -37,21 +37,8 @@ export function InvoicePreviewModal({
   const { toast } = useToast();
   const [marking, setMarking] = useState(false);
   const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
-  const [profileIban, setProfileIban] = useState<string | null>(null);
-
-  // Fetch IBAN from profile when invoice changes
-  useEffect(() => {
-    if (!invoice) { setProfileIban(null); return; }
-    const fetchIban = async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("iban")
-        .eq("user_id", invoice.user_id)
-        .maybeSingle();
-      setProfileIban(data?.iban ?? null);
-    };
-    fetchIban();
-  }, [invoice?.user_id]);
+  // The account the invoice was issued with, not the supplier's current one
+  const supplierIban = invoice?.supplier?.iban ?? null;
 
   const qrMessage = useMemo(() => {
     if (!invoice) return "";
@@ -65,10 +52,10 @@ export function InvoicePreviewModal({
 
   // Generate live QR code
   useEffect(() => {
-    if (!invoice || !profileIban) { setQrDataUrl(null); return; }
+    if (!invoice || !supplierIban) { setQrDataUrl(null); return; }
     const generateQr = async () => {
       try {
-        const cleanIban = profileIban.replace(/\s+/g, "");
+        const cleanIban = supplierIban.replace(/\s+/g, "");
         const amount = Number(invoice.total_amount) || 0;
         const vs = invoice.invoice_number.replace(/\D/g, "");
         const supplierName = invoice.profile?.company_name || invoice.profile?.full_name || "";
@@ -78,7 +65,7 @@ export function InvoicePreviewModal({
       } catch { setQrDataUrl(null); }
     };
     generateQr();
-  }, [invoice, profileIban, qrMessage]);
+  }, [invoice, supplierIban, qrMessage]);
 
   if (!invoice) return null;
 
@@ -218,7 +205,7 @@ export function InvoicePreviewModal({
               ) : (
                 <div className="w-36 h-36 bg-muted rounded-md flex items-center justify-center">
                   <span className="text-xs text-muted-foreground text-center px-2">
-                    Chýba IBAN v profile
+                    Faktúra nemá IBAN dodávateľa
                   </span>
                 </div>
               )}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import {
   Table,
   TableBody,
@@ -11,9 +11,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Skeleton } from "@/components/ui/skeleton";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { TaxPaymentStatusBadge } from "./TaxPaymentStatusBadge";
 import { InvoiceDetailDialog } from "./InvoiceDetailDialog";
 import { InvoicePreviewModal } from "./InvoicePreviewModal";
+import { CreditNoteDialog } from "./CreditNoteDialog";
 import { InvoiceStatusDropdown } from "./InvoiceStatusDropdown";
 import { MobileInvoiceCard } from "@/components/mobile/MobileInvoiceCard";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -28,13 +35,18 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { AlertTriangle, Eye, FileSearch, Lock, Unlock, BookCheck, BookX, RefreshCw, XCircle, Trash2, RotateCcw } from "lucide-react";
+import { AlertTriangle, Eye, FileSearch, Lock, Unlock, BookCheck, BookX, Download, Loader2, XCircle, Trash2, RotateCcw, FileMinus, FileCode } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useEInvoiceExport } from "@/hooks/useEInvoiceExport";
+import { E_INVOICE_FORMAT_LABELS, type EInvoiceFormat } from "@/lib/eInvoiceExport";
 import { format } from "date-fns";
 import { sk } from "date-fns/locale";
-import { generateInvoicePDF } from "@/lib/invoiceGenerator";
+import { downloadInvoicePdf } from "@/hooks/useInvoiceArchive";
+import { INVOICE_LINE_COLUMNS, fromInvoiceLineRows } from "@/lib/invoiceLines";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
 import { getISOWeekLocal } from "@/lib/dateUtils";
 import type { Invoice, ProjectOption } from "@/hooks/useFinancialData";
 
@@ -59,6 +71,10 @@ interface WeekGroup {
   dateRange: string;
 }
 
+// Invoiced amount after credit notes
+const getNetAmount = (invoice: Invoice) =>
+  (Number(invoice.subtotal || invoice.total_amount) || 0) - (Number(invoice.credited_amount) || 0);
+
 function getWeekDateRange(week: number, year: number): string {
   // Build a date from week/year, then get start/end of ISO week
   const jan4 = new Date(year, 0, 4);
@@ -80,16 +96,19 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
   const [previewOpen, setPreviewOpen] = useState(false);
   const [lockingId, setLockingId] = useState<string | null>(null);
   const [accountingId, setAccountingId] = useState<string | null>(null);
-  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
   const [filterProject, setFilterProject] = useState<string>("all");
   const [filterWeek, setFilterWeek] = useState<string>("all");
   const isMobile = useIsMobile();
   const { toast } = useToast();
-  const { isAdmin } = useUserRole();
+  const { can } = usePermissions();
+  const canManageInvoices = can("manage_invoices");
   const [trashView, setTrashView] = useState(false);
   const [trashConfirm, setTrashConfirm] = useState<Invoice | null>(null);
   const [hardDeleteConfirm, setHardDeleteConfirm] = useState<Invoice | null>(null);
   const [trashingId, setTrashingId] = useState<string | null>(null);
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null);
+  const { exportInvoices, exporting } = useEInvoiceExport();
 
   const formatAmount = (amount: number) => {
     const safeAmount = Number(amount) || 0;
@@ -99,6 +118,39 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
     }).format(safeAmount);
   };
 
+  // With a project filter, week totals only count the filtered project's lines
+  const getProjectAmount = useCallback((invoice: Invoice) => {
+    if (filterProject === "all" || trashView || urgentFilterActive || invoice.project_shares.length < 2) {
+      return getNetAmount(invoice);
+    }
+    const share = invoice.project_shares.find((s) =>
+      filterProject === UNASSIGNED_VALUE ? !s.name : s.name === filterProject
+    );
+    return share ? share.amount : 0;
+  }, [filterProject, trashView, urgentFilterActive]);
+
+  const renderAmountCell = (invoice: Invoice) => (
+    <TableCell className="text-right font-medium">
+      {formatAmount(getNetAmount(invoice))}
+      {invoice.credited_amount > 0 && (
+        <div className="text-xs font-normal text-destructive">
+          Dobropis -{formatAmount(invoice.credited_amount)}
+        </div>
+      )}
+    </TableCell>
+  );
+
+  const renderCreditNoteButton = (invoice: Invoice) => (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => setCreditNoteInvoice(invoice)}
+      title="Dobropisy"
+    >
+      <FileMinus className={`h-4 w-4 ${invoice.credit_notes.length > 0 ? "text-destructive" : "text-muted-foreground"}`} />
+    </Button>
+  );
+
   const formatDate = (date: string) => {
     try {
       return format(new Date(date), "d. MMM yyyy", { locale: sk });
@@ -113,10 +165,12 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
     allProjects.forEach((p) => names.add(p.name));
     // Also include any project names found on invoices (in case project is inactive/deleted but invoices exist)
     invoices.forEach((inv) => {
-      if (inv.project?.name) names.add(inv.project.name);
+      inv.project_shares.forEach((share) => {
+        if (share.name) names.add(share.name);
+      });
     });
     const sorted = Array.from(names).sort((a, b) => a.localeCompare(b, "sk"));
-    const hasUnassigned = invoices.some((inv) => !inv.project?.name);
+    const hasUnassigned = invoices.some((inv) => inv.project_shares.some((share) => !share.name));
     return { names: sorted, hasUnassigned };
   }, [allProjects, invoices]);
 
@@ -161,8 +215,8 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
 
     return activeInvoices.filter((inv) => {
       if (filterProject === UNASSIGNED_VALUE) {
-        if (inv.project?.name) return false;
-      } else if (filterProject !== "all" && inv.project?.name !== filterProject) {
+        if (!inv.project_shares.some((share) => !share.name)) return false;
+      } else if (filterProject !== "all" && !inv.project_shares.some((share) => share.name === filterProject)) {
         return false;
       }
       if (filterWeek !== "all") {
@@ -207,12 +261,12 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
       }
       const group = groups.get(key)!;
       group.invoices.push(inv);
-      group.totalAmount += Number(inv.subtotal || inv.total_amount) || 0;
+      group.totalAmount += getProjectAmount(inv);
     });
 
     // Sort groups descending by key (year-week)
     return Array.from(groups.values()).sort((a, b) => b.key.localeCompare(a.key));
-  }, [filteredInvoices]);
+  }, [filteredInvoices, getProjectAmount]);
 
   // The latest week key for default expansion
   const latestWeekKey = weekGroups.length > 0 ? weekGroups[0].key : undefined;
@@ -277,19 +331,14 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
     }
   };
 
-  const handleRegeneratePDF = async (invoice: Invoice) => {
-    setRegeneratingId(invoice.id);
+  const handleDownloadPDF = async (invoice: Invoice) => {
+    setDownloadingId(invoice.id);
     try {
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("user_id", invoice.user_id)
-        .maybeSingle();
-      if (profileError || !profile) throw new Error("Nepodarilo sa načítať profil dodávateľa");
-
       const { data: fullInvoice, error: invError } = await supabase
         .from("invoices")
-        .select("*, weekly_closings(calendar_week, year)")
+        .select(
+          `*, weekly_closings(calendar_week, year), invoice_lines(${INVOICE_LINE_COLUMNS}), companies(${COMPANY_COLUMNS})`
+        )
         .eq("id", invoice.id)
         .single();
       if (invError || !fullInvoice) throw new Error("Nepodarilo sa načítať faktúru");
@@ -297,42 +346,34 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
       const calendarWeek = (fullInvoice as any).weekly_closings?.calendar_week || 0;
       const year = (fullInvoice as any).weekly_closings?.year || new Date().getFullYear();
 
-      await generateInvoicePDF({
+      // Invoices issued before the archive are rendered from their stored data once
+      await downloadInvoicePdf(fullInvoice, async () => ({
         invoiceNumber: fullInvoice.invoice_number,
-        supplierName: profile.full_name,
-        supplierCompany: profile.company_name,
-        supplierAddress: profile.billing_address,
-        supplierCountry: (profile as any).country,
-        supplierIco: profile.ico,
-        supplierDic: profile.dic,
-        supplierIban: profile.iban,
-        supplierSwiftBic: profile.swift_bic,
-        signatureUrl: profile.signature_url,
+        ...supplierInvoiceData(requireInvoiceSupplier(fullInvoice.supplier_snapshot, fullInvoice.invoice_number)),
         hourlyRate: fullInvoice.hourly_rate,
-        contractNumber: profile.contract_number,
-        workerId: profile.contract_number,
-        isVatPayer: profile.is_vat_payer ?? false,
-        vatNumber: profile.vat_number,
         isReverseCharge: fullInvoice.is_reverse_charge ?? false,
         projectName: invoice.project?.name || "Projekt",
         calendarWeek,
         year,
         totalHours: fullInvoice.total_hours,
+        ...fromInvoiceLineRows(fullInvoice.invoice_lines),
         advanceDeduction: fullInvoice.advance_deduction ?? 0,
+        sanctionsDeduction: fullInvoice.sanctions_deduction,
         historicalIssueDate: fullInvoice.issue_date,
         historicalDeliveryDate: fullInvoice.delivery_date,
         historicalDueDate: fullInvoice.due_date,
-      });
+        customer: companyCustomerParty(fullInvoice.companies),
+      }));
 
       toast({
-        title: "PDF regenerované",
-        description: `Faktúra ${invoice.invoice_number} bola znovu vygenerovaná s aktuálnymi údajmi.`,
+        title: "PDF stiahnuté",
+        description: `Faktúra ${invoice.invoice_number} bola stiahnutá z archívu.`,
       });
     } catch (error: any) {
-      console.error("Error regenerating PDF:", error);
-      toast({ variant: "destructive", title: "Chyba pri regenerovaní PDF", description: error.message });
+      console.error("Error downloading PDF:", error);
+      toast({ variant: "destructive", title: "Chyba pri sťahovaní PDF", description: error.message });
     } finally {
-      setRegeneratingId(null);
+      setDownloadingId(null);
     }
   };
 
@@ -430,7 +471,16 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
         </div>
       </TableCell>
       <TableCell>
-        {invoice.project?.name ? (
+        {invoice.project_shares.length > 1 ? (
+          <div className="space-y-0.5">
+            {invoice.project_shares.map((share) => (
+              <div key={share.project_id ?? "none"} className="flex justify-between gap-2 text-sm">
+                <span>{share.name ?? "Bez projektu"}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatAmount(share.amount)}</span>
+              </div>
+            ))}
+          </div>
+        ) : invoice.project?.name ? (
           <div>
             <div>{invoice.project.name}</div>
             {invoice.project?.client && (
@@ -446,7 +496,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
       </TableCell>
       <TableCell>{formatDate(invoice.issue_date)}</TableCell>
       <TableCell>{formatDate(invoice.due_date)}</TableCell>
-      <TableCell className="text-right font-medium">{formatAmount(invoice.subtotal || invoice.total_amount)}</TableCell>
+      {renderAmountCell(invoice)}
       <TableCell>
         <InvoiceStatusDropdown
           invoiceId={invoice.id}
@@ -460,7 +510,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
       </TableCell>
       <TableCell className="text-right">
         <div className="flex items-center justify-end gap-1">
-          {isAdmin && (
+          {canManageInvoices && (
             <Button
               size="sm"
               variant="ghost"
@@ -475,15 +525,20 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
               )}
             </Button>
           )}
-          {isAdmin && (
+          {(canManageInvoices || invoice.credit_notes.length > 0) && renderCreditNoteButton(invoice)}
+          {canManageInvoices && (
             <Button
               size="sm"
               variant="ghost"
-              onClick={() => handleRegeneratePDF(invoice)}
-              disabled={regeneratingId === invoice.id}
-              title="Regenerovať PDF"
+              onClick={() => handleDownloadPDF(invoice)}
+              disabled={downloadingId === invoice.id}
+              title="Stiahnuť PDF z archívu"
             >
-              <RefreshCw className={`h-4 w-4 ${regeneratingId === invoice.id ? "animate-spin" : ""}`} />
+              {downloadingId === invoice.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4" />
+              )}
             </Button>
           )}
           <Button
@@ -521,7 +576,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
           >
             <Eye className="h-4 w-4" />
           </Button>
-          {isAdmin && (
+          {canManageInvoices && (
             <Button
               size="sm"
               variant="ghost"
@@ -552,11 +607,14 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
         <TableCell>
           <div className="font-medium">{invoice.profile?.full_name ?? "—"}</div>
         </TableCell>
-        <TableCell>{invoice.project?.name ?? "—"}</TableCell>
+        <TableCell>
+          {invoice.project_shares.map((share) => share.name).filter(Boolean).join(", ") || "—"}
+        </TableCell>
         <TableCell>{formatDate(invoice.issue_date)}</TableCell>
-        <TableCell className="text-right font-medium">{formatAmount(invoice.subtotal || invoice.total_amount)}</TableCell>
+        {renderAmountCell(invoice)}
         <TableCell className="text-right">
           <div className="flex items-center justify-end gap-1">
+            {(canManageInvoices || invoice.credit_notes.length > 0) && renderCreditNoteButton(invoice)}
             <Button
               size="sm"
               variant="outline"
@@ -567,7 +625,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
               <RotateCcw className="h-4 w-4 mr-1" />
               Obnoviť
             </Button>
-            {isAdmin && (
+            {canManageInvoices && (
               <Button
                 size="sm"
                 variant="destructive"
@@ -670,6 +728,24 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
                   })}
                 </SelectContent>
               </Select>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={exporting || filteredInvoices.length === 0}>
+                    <FileCode className="h-4 w-4 mr-2" />
+                    Export XML ({filteredInvoices.length})
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(Object.keys(E_INVOICE_FORMAT_LABELS) as EInvoiceFormat[]).map((fmt) => (
+                    <DropdownMenuItem
+                      key={fmt}
+                      onClick={() => exportInvoices(filteredInvoices.map((inv) => inv.id), fmt)}
+                    >
+                      {E_INVOICE_FORMAT_LABELS[fmt]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           )}
         </div>
@@ -717,7 +793,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
                       <Button size="sm" variant="outline" onClick={() => handleRestoreInvoice(inv)} disabled={trashingId === inv.id}>
                         <RotateCcw className="h-4 w-4 mr-1" /> Obnoviť
                       </Button>
-                      {isAdmin && (
+                      {canManageInvoices && (
                         <Button size="sm" variant="destructive" onClick={() => setHardDeleteConfirm(inv)} disabled={trashingId === inv.id}>
                           <Trash2 className="h-4 w-4 mr-1" /> Vymazať
                         </Button>
@@ -748,7 +824,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
                     projectName={invoice.project?.name}
                     issueDate={invoice.issue_date}
                     dueDate={invoice.due_date}
-                    totalAmount={invoice.subtotal || invoice.total_amount}
+                    totalAmount={getNetAmount(invoice)}
                     status={invoice.status}
                     taxPaymentStatus={invoice.tax_payment_status || "pending"}
                     onView={(id) => {
@@ -829,7 +905,7 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
                           projectName={invoice.project?.name}
                           issueDate={invoice.issue_date}
                           dueDate={invoice.due_date}
-                          totalAmount={invoice.subtotal || invoice.total_amount}
+                          totalAmount={getNetAmount(invoice)}
                           status={invoice.status}
                           taxPaymentStatus={invoice.tax_payment_status || "pending"}
                           onView={(id) => {
@@ -884,6 +960,13 @@ export function InvoicesTrafficTable({ invoices, allProjects = [], loading, onMa
           }}
         />
 
+        <CreditNoteDialog
+          invoice={creditNoteInvoice}
+          open={!!creditNoteInvoice}
+          onOpenChange={(open) => !open && setCreditNoteInvoice(null)}
+          onCreated={onRefresh}
+        />
+
         <InvoicePreviewModal
           invoice={previewInvoice}
           open={previewOpen}
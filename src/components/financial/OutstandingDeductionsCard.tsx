@@ -0,0 +1,70 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { repaymentPlanLabel, type OutstandingDeduction } from "@/hooks/useDeductions";
+import { format } from "date-fns";
+import { sk } from "date-fns/locale";
+import { getISOWeekLocal, getISOWeekYear, parseLocalDate } from "@/lib/dateUtils";
+import { MinusCircle } from "lucide-react";
+
+interface OutstandingDeductionsCardProps {
+  deductions: OutstandingDeduction[];
+  total: number;
+}
+
+function planLabel(d: OutstandingDeduction) {
+  const start = d.repayment_starts_on ? parseLocalDate(d.repayment_starts_on) : null;
+  return repaymentPlanLabel({
+    instalment_amount: d.instalment_amount,
+    instalment_percent: d.instalment_percent,
+    repayment_start_year: start && getISOWeekYear(start),
+    repayment_start_week: start && getISOWeekLocal(start),
+  });
+}
+
+/**
+ * Open advances and sanctions that the supplier's next invoice will deduct.
+ */
+export function OutstandingDeductionsCard({ deductions, total }: OutstandingDeductionsCardProps) {
+  if (deductions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MinusCircle className="h-5 w-5 text-destructive" />
+          Otvorené zrážky: {total.toFixed(2)} €
+        </CardTitle>
+        <CardDescription>
+          Zrážky sa odpočítajú z najbližšej faktúry, najviac do výšky jej sumy; zvyšok sa prenesie na ďalšiu.
+          Zálohy so splátkovým plánom sa odpočítavajú po splátkach.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deductions.map((d) => (
+          <div key={d.id} className="flex items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <Badge variant={d.kind === "advance" ? "secondary" : "destructive"}>
+                {d.kind === "advance" ? "Záloha" : "Sankcia"}
+              </Badge>
+              <span className="text-muted-foreground shrink-0">
+                {format(parseLocalDate(d.date), "d.M.yyyy", { locale: sk })}
+              </span>
+              <span className="truncate">{d.description}</span>
+              {d.kind === "advance" && planLabel(d) && (
+                <span className="text-xs text-muted-foreground shrink-0">({planLabel(d)})</span>
+              )}
+            </div>
+            <div className="text-right shrink-0">
+              <span className="font-medium">{Number(d.outstanding).toFixed(2)} €</span>
+              {Number(d.settled) > 0 && (
+                <span className="block text-xs text-muted-foreground">
+                  z {Number(d.value).toFixed(2)} €
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,470 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  usePaymentBatches,
+  getCreditorAccountError,
+  getPayableAmount,
+  type DebtorAccount,
+  type PaymentBatch,
+  type PaymentBatchStatus,
+} from "@/hooks/usePaymentBatches";
+import type { Invoice } from "@/hooks/useFinancialData";
+import { isValidBic, isValidIban } from "@/lib/sepaExport";
+import { CheckCircle2, Download, Landmark, Loader2, Save, XCircle } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { sk } from "date-fns/locale";
+
+interface PaymentBatchesManagementProps {
+  invoices: Invoice[];
+  onRefresh: () => void;
+}
+
+const STATUS_LABELS: Record<PaymentBatchStatus, string> = {
+  exported: "Exportovaná",
+  executed: "Vykonaná",
+  cancelled: "Zrušená",
+};
+
+const STATUS_VARIANTS: Record<PaymentBatchStatus, "default" | "secondary" | "outline"> = {
+  exported: "secondary",
+  executed: "default",
+  cancelled: "outline",
+};
+
+export function PaymentBatchesManagement({ invoices, onRefresh }: PaymentBatchesManagementProps) {
+  const { can } = usePermissions();
+  const canManageSettings = can("manage_settings");
+  const { toast } = useToast();
+  const {
+    batches,
+    creditors,
+    defaultDebtor,
+    loading,
+    processing,
+    createBatch,
+    downloadBatch,
+    markBatchExecuted,
+    cancelBatch,
+    saveDefaultDebtor,
+  } = usePaymentBatches();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [debtor, setDebtor] = useState<DebtorAccount>(defaultDebtor);
+  const [executionDate, setExecutionDate] = useState(format(addDays(new Date(), 1), "yyyy-MM-dd"));
+  const [executingBatch, setExecutingBatch] = useState<PaymentBatch | null>(null);
+  const [paidDate, setPaidDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [cancelId, setCancelId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDebtor(defaultDebtor);
+  }, [defaultDebtor]);
+
+  // Invoices already waiting in an exported batch must not be paid twice
+  const batchedInvoiceIds = useMemo(
+    () =>
+      new Set(
+        batches
+          .filter((b) => b.status === "exported")
+          .flatMap((b) => b.items.map((item) => item.invoice_id))
+      ),
+    [batches]
+  );
+
+  const payableInvoices = useMemo(
+    () =>
+      invoices
+        .filter((inv) => inv.status !== "paid" && inv.status !== "void" && !batchedInvoiceIds.has(inv.id))
+        .sort((a, b) => a.due_date.localeCompare(b.due_date)),
+    [invoices, batchedInvoiceIds]
+  );
+
+  const invoiceNumbers = useMemo(
+    () => new Map(invoices.map((inv) => [inv.id, inv.invoice_number])),
+    [invoices]
+  );
+
+  const formatAmount = (amt: number) =>
+    new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+  const formatDate = (dateStr: string) => format(new Date(dateStr), "d. MMM yyyy", { locale: sk });
+
+  const isSelectable = (inv: Invoice) =>
+    !getCreditorAccountError(creditors[inv.user_id]) && getPayableAmount(inv) > 0;
+
+  const selectableInvoices = payableInvoices.filter(isSelectable);
+  const selectedInvoices = payableInvoices.filter((inv) => selectedIds.has(inv.id));
+  const selectedTotal = selectedInvoices.reduce((sum, inv) => sum + getPayableAmount(inv), 0);
+  const allSelected = selectableInvoices.length > 0 && selectableInvoices.every((inv) => selectedIds.has(inv.id));
+
+  const debtorIbanValid = isValidIban(debtor.iban);
+  const debtorBicValid = !debtor.bic || isValidBic(debtor.bic);
+  const canCreate =
+    selectedInvoices.length > 0 && debtor.name.trim().length > 0 && debtorIbanValid && debtorBicValid && !!executionDate;
+
+  const toggleInvoice = (invoiceId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(invoiceId);
+      else next.delete(invoiceId);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableInvoices.map((inv) => inv.id)) : new Set());
+  };
+
+  const handleCreate = async () => {
+    const result = await createBatch(selectedInvoices, debtor, executionDate);
+    if (result.success) setSelectedIds(new Set());
+  };
+
+  const handleSaveDebtor = async () => {
+    try {
+      await saveDefaultDebtor(debtor);
+      toast({ title: "Uložené", description: "Účet platiteľa bol uložený ako predvolený." });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa uložiť účet platiteľa",
+      });
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!executingBatch) return;
+    const result = await markBatchExecuted(executingBatch.id, new Date(`${paidDate}T12:00:00`));
+    if (result.success) {
+      setExecutingBatch(null);
+      onRefresh();
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelId) return;
+    await cancelBatch(cancelId);
+    setCancelId(null);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Nová platobná dávka (SEPA)
+          </CardTitle>
+          <CardDescription>
+            Vyberte neuhradené faktúry a exportujte príkaz na úhradu vo formáte pain.001 pre internet banking
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="debtor-name">Platiteľ</Label>
+              <Input
+                id="debtor-name"
+                value={debtor.name}
+                onChange={(e) => setDebtor({ ...debtor, name: e.target.value })}
+                placeholder="Názov firmy"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debtor-iban">IBAN platiteľa</Label>
+              <Input
+                id="debtor-iban"
+                value={debtor.iban}
+                onChange={(e) => setDebtor({ ...debtor, iban: e.target.value })}
+                placeholder="SK00 0000 0000 0000 0000 0000"
+                className={debtor.iban && !debtorIbanValid ? "border-destructive" : ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debtor-bic">BIC platiteľa</Label>
+              <Input
+                id="debtor-bic"
+                value={debtor.bic}
+                onChange={(e) => setDebtor({ ...debtor, bic: e.target.value })}
+                placeholder="Voliteľné"
+                className={!debtorBicValid ? "border-destructive" : ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="execution-date">Dátum splatnosti príkazu</Label>
+              <Input
+                id="execution-date"
+                type="date"
+                value={executionDate}
+                onChange={(e) => setExecutionDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {canManageSettings && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSaveDebtor}
+              disabled={!debtorIbanValid || !debtorBicValid}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Uložiť ako predvolený účet
+            </Button>
+          )}
+
+          {payableInvoices.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Žiadne neuhradené faktúry mimo existujúcich dávok
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                      disabled={selectableInvoices.length === 0}
+                    />
+                  </TableHead>
+                  <TableHead>Faktúra</TableHead>
+                  <TableHead>Dodávateľ</TableHead>
+                  <TableHead>Splatnosť</TableHead>
+                  <TableHead>Bankový účet</TableHead>
+                  <TableHead className="text-right">Na úhradu</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payableInvoices.map((inv) => {
+                  const account = creditors[inv.user_id];
+                  const accountError = getCreditorAccountError(account);
+                  return (
+                    <TableRow key={inv.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(inv.id)}
+                          onCheckedChange={(checked) => toggleInvoice(inv.id, checked === true)}
+                          disabled={!isSelectable(inv)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{inv.invoice_number}</TableCell>
+                      <TableCell>{inv.profile?.full_name ?? "—"}</TableCell>
+                      <TableCell>{formatDate(inv.due_date)}</TableCell>
+                      <TableCell>
+                        {accountError ? (
+                          <Badge variant="destructive">{accountError}</Badge>
+                        ) : (
+                          <span className="font-mono text-xs">{account?.iban}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatAmount(getPayableAmount(inv))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="text-sm text-muted-foreground">
+              Vybrané: {selectedInvoices.length} • Spolu {formatAmount(selectedTotal)}
+            </div>
+            <Button onClick={handleCreate} disabled={!canCreate || processing}>
+              {processing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Vytvoriť dávku ({selectedInvoices.length})
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Platobné dávky</CardTitle>
+          <CardDescription>
+            Po vykonaní platby v banke označte dávku ako vykonanú – všetky jej faktúry sa označia ako uhradené
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Zatiaľ neboli vytvorené žiadne platobné dávky
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dávka</TableHead>
+                  <TableHead>Vytvorená</TableHead>
+                  <TableHead>Splatnosť</TableHead>
+                  <TableHead>Faktúry</TableHead>
+                  <TableHead className="text-right">Suma</TableHead>
+                  <TableHead>Stav</TableHead>
+                  <TableHead className="text-right">Akcie</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-mono text-xs">{batch.message_id}</TableCell>
+                    <TableCell>{formatDate(batch.created_at)}</TableCell>
+                    <TableCell>{formatDate(batch.requested_execution_date)}</TableCell>
+                    <TableCell className="max-w-[240px] truncate text-muted-foreground">
+                      {batch.items.map((item) => invoiceNumbers.get(item.invoice_id) ?? item.remittance_info).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatAmount(Number(batch.total_amount))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[batch.status]}>{STATUS_LABELS[batch.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => downloadBatch(batch)}
+                          title="Stiahnuť XML"
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {batch.status === "exported" && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setPaidDate(format(new Date(), "yyyy-MM-dd"));
+                                setExecutingBatch(batch);
+                              }}
+                              disabled={processing}
+                              title="Označiť ako vykonanú"
+                            >
+                              <CheckCircle2 className="h-4 w-4 text-green-600" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setCancelId(batch.id)}
+                              disabled={processing}
+                              title="Zrušiť dávku"
+                            >
+                              <XCircle className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!executingBatch} onOpenChange={(open) => !open && setExecutingBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Označiť dávku ako vykonanú</DialogTitle>
+            <DialogDescription>
+              {executingBatch?.item_count} faktúr v sume {formatAmount(Number(executingBatch?.total_amount || 0))} bude
+              označených ako uhradené.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="paid-date">Dátum úhrady</Label>
+            <Input id="paid-date" type="date" value={paidDate} onChange={(e) => setPaidDate(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExecutingBatch(null)}>
+              Zrušiť
+            </Button>
+            <Button onClick={handleExecute} disabled={!paidDate || processing}>
+              {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Označiť ako vykonanú
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!cancelId} onOpenChange={(open) => !open && setCancelId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Zrušiť platobnú dávku?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Použite len ak príkaz nebol v banke zadaný. Faktúry z dávky bude možné zaradiť do novej dávky.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={processing}>Späť</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              disabled={processing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Zrušiť dávku
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
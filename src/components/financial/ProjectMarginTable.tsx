@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useProjectMargins } from "@/hooks/useClientBilling";
+import { TrendingUp } from "lucide-react";
+
+export function ProjectMarginTable() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const { margins, loading } = useProjectMargins(year);
+
+  const formatAmount = (amt: number) =>
+    new Intl.NumberFormat("sk-SK", { style: "currency", currency: "EUR" }).format(amt);
+
+  const totals = margins.reduce(
+    (sum, row) => ({ revenue: sum.revenue + row.revenue, cost: sum.cost + row.cost }),
+    { revenue: 0, cost: 0 }
+  );
+  const totalMargin = totals.revenue - totals.cost;
+
+  const marginClass = (margin: number) =>
+    margin < 0 ? "text-destructive" : "text-green-600 dark:text-green-400";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Marža projektov
+            </CardTitle>
+            <CardDescription>
+              Odberateľské faktúry oproti faktúram subdodávateľov (bez DPH, podľa dátumu vystavenia)
+            </CardDescription>
+          </div>
+          <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[0, 1, 2].map((offset) => (
+                <SelectItem key={offset} value={String(currentYear - offset)}>
+                  {currentYear - offset}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : margins.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Žiadne faktúry v roku {year}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Projekt</TableHead>
+                <TableHead className="text-right">Tržby od klienta</TableHead>
+                <TableHead className="text-right">Náklady subdodávateľov</TableHead>
+                <TableHead className="text-right">Marža</TableHead>
+                <TableHead className="text-right">%</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {margins.map((row) => (
+                <TableRow key={row.projectId}>
+                  <TableCell>
+                    <div className="font-medium">{row.projectName}</div>
+                    {row.clientName && <div className="text-xs text-muted-foreground">{row.clientName}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(row.revenue)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.cost)}</TableCell>
+                  <TableCell className={`text-right font-medium ${marginClass(row.margin)}`}>
+                    {formatAmount(row.margin)}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {row.marginPercent != null ? `${row.marginPercent.toFixed(1)} %` : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-medium">Spolu</TableCell>
+                <TableCell className="text-right">{formatAmount(totals.revenue)}</TableCell>
+                <TableCell className="text-right">{formatAmount(totals.cost)}</TableCell>
+                <TableCell className={`text-right font-medium ${marginClass(totalMargin)}`}>
+                  {formatAmount(totalMargin)}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {totals.revenue > 0 ? `${((totalMargin / totals.revenue) * 100).toFixed(1)} %` : "—"}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
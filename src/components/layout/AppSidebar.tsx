@@ -1,7 +1,8 @@
 import { useLocation } from "react-router-dom";
 import { NavLink } from "@/components/NavLink";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions, type AppPermission } from "@/hooks/usePermissions";
 import { useApprovalCount } from "@/hooks/useApprovalCount";
+import { useCompany } from "@/hooks/useCompany";
 import {
   Building2,
   LayoutDashboard,
@@ -21,6 +22,7 @@ import {
   UserCog,
   PieChart,
   Wrench,
+  History,
 } from "lucide-react";
 import {
   Sidebar,
@@ -35,12 +37,19 @@ import {
   SidebarTrigger,
   useSidebar,
 } from "@/components/ui/sidebar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface NavItem {
   title: string;
   url: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles?: string[];
+  permission?: AppPermission;
   badge?: number;
 }
 
@@ -54,34 +63,33 @@ const mainNavItems: NavItem[] = [
 ];
 
 const managementNavItems: NavItem[] = [
-  { title: "Finančný prehľad", url: "/financial-dashboard", icon: PieChart, roles: ["admin", "director"] },
-  { title: "Spolupracovníci", url: "/employees", icon: Network, roles: ["admin", "director"] },
-  { title: "Schvaľovanie", url: "/approvals", icon: CheckCircle, roles: ["manager", "admin", "director"] },
-  { title: "Všetky uzávierky", url: "/lock-weeks", icon: Lock, roles: ["admin", "director"] },
-  { title: "Správa používateľov", url: "/users", icon: UserCog, roles: ["admin", "director"] },
-  { title: "Všetky projekty", url: "/projects", icon: FolderOpen, roles: ["manager", "admin", "director"] },
-  { title: "Ubytovanie", url: "/accommodations", icon: Home, roles: ["manager", "admin", "director"] },
-  { title: "Sankcie", url: "/sanctions", icon: AlertTriangle, roles: ["admin", "director"] },
-  { title: "Evidencia náradia", url: "/equipment", icon: Wrench, roles: ["manager", "admin", "director"] },
-  { title: "Administrácia", url: "/admin-settings", icon: Settings, roles: ["admin", "director"] },
+  { title: "Finančný prehľad", url: "/financial-dashboard", icon: PieChart, permission: "view_financials" },
+  { title: "Spolupracovníci", url: "/employees", icon: Network, permission: "manage_users" },
+  { title: "Schvaľovanie", url: "/approvals", icon: CheckCircle, permission: "approve_weeks" },
+  { title: "Všetky uzávierky", url: "/lock-weeks", icon: Lock, permission: "lock_weeks" },
+  { title: "Správa používateľov", url: "/users", icon: UserCog, permission: "manage_users" },
+  { title: "Všetky projekty", url: "/projects", icon: FolderOpen, permission: "manage_projects" },
+  { title: "Ubytovanie", url: "/accommodations", icon: Home, permission: "manage_accommodations" },
+  { title: "Sankcie", url: "/sanctions", icon: AlertTriangle, permission: "manage_sanctions" },
+  { title: "Evidencia náradia", url: "/equipment", icon: Wrench, permission: "manage_equipment" },
+  { title: "História zmien", url: "/audit-log", icon: History, permission: "view_audit_log" },
+  { title: "Administrácia", url: "/admin-settings", icon: Settings, permission: "manage_settings" },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
   const collapsed = state === "collapsed";
   const location = useLocation();
-  const { role, loading } = useUserRole();
+  const { can, loading } = usePermissions();
   const approvalCount = useApprovalCount();
+  const { company, companies, switchCompany } = useCompany();
 
-  const filterByRole = (items: NavItem[]) => {
-    if (loading || !role) return [];
-    return items.filter((item) => {
-      if (!item.roles) return true;
-      return item.roles.includes(role);
-    });
+  const filterByPermission = (items: NavItem[]) => {
+    if (loading) return [];
+    return items.filter((item) => !item.permission || can(item.permission));
   };
 
-  const filteredManagementItems = filterByRole(managementNavItems).map((item) => {
+  const filteredManagementItems = filterByPermission(managementNavItems).map((item) => {
     // Attach approval count badge to Schvaľovanie
     if (item.url === "/approvals") {
       return { ...item, badge: approvalCount };
@@ -99,10 +107,25 @@ export function AppSidebar() {
           {!collapsed && (
             <div className="overflow-hidden">
               <h1 className="font-semibold text-sidebar-foreground truncate">TKJD APP</h1>
-              <p className="text-xs text-sidebar-foreground/60 truncate">Evidencia výkonov</p>
+              <p className="text-xs text-sidebar-foreground/60 truncate">{company?.name ?? "Evidencia výkonov"}</p>
             </div>
           )}
         </NavLink>
+        {/* Members of several companies pick the one they work in */}
+        {!collapsed && company && companies.length > 1 && (
+          <Select value={company.id} onValueChange={switchCompany}>
+            <SelectTrigger className="mt-3 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </SidebarHeader>
 
       <SidebarContent>
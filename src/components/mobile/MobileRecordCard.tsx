@@ -3,7 +3,8 @@ import { sk } from "date-fns/locale";
 import { StatusBadge } from "@/components/StatusBadge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Edit, Trash2, Clock, Briefcase } from "lucide-react";
+import { Edit, Trash2, Clock, Briefcase, RefreshCw } from "lucide-react";
+import { SyncStatusBadge, type SyncStatus } from "@/components/mobile/SyncStatusBadge";
 
 interface MobileRecordCardProps {
   id: string;
@@ -14,8 +15,13 @@ interface MobileRecordCardProps {
   totalHours: number;
   status: string;
   note?: string | null;
+  /** Offline queue state; omitted for records that never went through the queue */
+  syncStatus?: SyncStatus;
+  /** Why the server refused a queued record */
+  syncError?: string | null;
   onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onRetry?: (id: string) => void;
   showActions?: boolean;
 }
 
@@ -28,8 +34,11 @@ export function MobileRecordCard({
   totalHours,
   status,
   note,
+  syncStatus,
+  syncError,
   onEdit,
   onDelete,
+  onRetry,
   showActions = false,
 }: MobileRecordCardProps) {
   return (
@@ -42,7 +51,10 @@ export function MobileRecordCard({
               <span className="font-semibold text-base">
                 {format(new Date(date), "EEEE, d. MMM", { locale: sk })}
               </span>
-              <StatusBadge status={status as any} />
+              <div className="flex items-center gap-1">
+                {syncStatus && <SyncStatusBadge status={syncStatus} />}
+                <StatusBadge status={status as any} />
+              </div>
             </div>
             
             {/* Project */}
@@ -66,12 +78,25 @@ export function MobileRecordCard({
                 {note}
               </p>
             )}
+
+            {syncError && <p className="text-xs text-destructive font-medium">⚠ {syncError}</p>}
           </div>
         </div>
         
         {/* Action Buttons */}
-        {showActions && (onEdit || onDelete) && (
+        {showActions && (onEdit || onDelete || onRetry) && (
           <div className="flex gap-2 mt-3 pt-3 border-t border-border">
+            {onRetry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRetry(id)}
+                className="flex-1 h-10 text-base"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Znova
+              </Button>
+            )}
             {onEdit && (
               <Button
                 variant="outline"
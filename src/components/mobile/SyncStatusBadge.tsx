@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CloudOff, CloudUpload, Check } from "lucide-react";
+
+export type SyncStatus = "offline" | "pending" | "synced" | "conflict";
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  className?: string;
+}
+
+const syncConfig: Record<SyncStatus, { label: string; className: string; icon: typeof Check }> = {
+  offline: {
+    label: "Offline",
+    className: "bg-muted text-muted-foreground border-muted-foreground/20",
+    icon: CloudOff,
+  },
+  pending: {
+    label: "Čaká na odoslanie",
+    className: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-400 dark:border-amber-800",
+    icon: CloudUpload,
+  },
+  synced: {
+    label: "Synchronizované",
+    className: "bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-400 dark:border-green-800",
+    icon: Check,
+  },
+  conflict: {
+    label: "Konflikt",
+    className: "bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-400 dark:border-red-800",
+    icon: AlertTriangle,
+  },
+};
+
+export function SyncStatusBadge({ status, className }: SyncStatusBadgeProps) {
+  const config = syncConfig[status];
+  const Icon = config.icon;
+  return (
+    <Badge variant="outline" className={cn("gap-1 font-medium", config.className, className)}>
+      <Icon className="h-3 w-3" />
+      {config.label}
+    </Badge>
+  );
+}
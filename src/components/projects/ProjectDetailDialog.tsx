@@ -6,7 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, MapPin, Building2, Trash2 } from "lucide-react";
+import { Loader2, MapPin, Building2, Trash2, Crosshair } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -27,6 +27,11 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
 import { ProjectAssignments } from "./ProjectAssignments";
+import { ProjectValidationRules } from "./ProjectValidationRules";
+import { ProjectSurchargeRules } from "./ProjectSurchargeRules";
+import { geocodeAddress } from "@/lib/geocoding";
+import { HOLIDAY_COUNTRIES, HOLIDAY_REGIONS, type HolidayCountry } from "@/lib/holidays";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface Project {
   id: string;
@@ -37,8 +42,48 @@ interface Project {
   is_active: boolean;
   created_at: string;
   standard_hours: number | null;
+  lat: number | null;
+  lng: number | null;
+  geofence_radius_m: number | null;
+  holiday_country: string;
+  holiday_region: string | null;
+  client_id: string | null;
+  client_hourly_rate: number | null;
+  default_time_from: string;
+  default_time_to: string | null;
+  default_break_start: string | null;
+  default_break_end: string | null;
+  default_break2_start: string | null;
+  default_break2_end: string | null;
 }
 
+/** Select value for "nationwide holidays only" */
+const NO_REGION = "none";
+
+/** Select value for "no client master data" */
+const NO_CLIENT = "none";
+
+type ShiftTimesForm = Record<
+  "default_time_from" | "default_time_to" | "default_break_start" | "default_break_end" | "default_break2_start" | "default_break2_end",
+  string
+>;
+
+const EMPTY_SHIFT_TIMES: ShiftTimesForm = {
+  default_time_from: "07:00",
+  default_time_to: "",
+  default_break_start: "",
+  default_break_end: "",
+  default_break2_start: "",
+  default_break2_end: "",
+};
+
+/** Shift time inputs, in pairs */
+const SHIFT_TIME_FIELDS: [keyof ShiftTimesForm, keyof ShiftTimesForm, string][] = [
+  ["default_time_from", "default_time_to", "Smena"],
+  ["default_break_start", "default_break_end", "Prestávka"],
+  ["default_break2_start", "default_break2_end", "2. prestávka"],
+];
+
 interface ProjectDetailDialogProps {
   project: Project | null;
   open: boolean;
@@ -65,6 +110,25 @@ export function ProjectDetailDialog({
   const [address, setAddress] = useState("");
   const [isActive, setIsActive] = useState(true);
   const [standardHours, setStandardHours] = useState("");
+  const [shiftTimes, setShiftTimes] = useState<ShiftTimesForm>(EMPTY_SHIFT_TIMES);
+  const [lat, setLat] = useState("");
+  const [lng, setLng] = useState("");
+  const [geofenceRadius, setGeofenceRadius] = useState("");
+  const [geocoding, setGeocoding] = useState(false);
+  const [holidayCountry, setHolidayCountry] = useState<HolidayCountry>("SK");
+  const [holidayRegion, setHolidayRegion] = useState(NO_REGION);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [clientId, setClientId] = useState(NO_CLIENT);
+  const [clientRate, setClientRate] = useState("");
+
+  useEffect(() => {
+    if (!open || !isAdmin) return;
+    supabase
+      .from("clients")
+      .select("id, name")
+      .order("name")
+      .then(({ data }) => setClients(data || []));
+  }, [open, isAdmin]);
 
   useEffect(() => {
     if (project) {
@@ -74,25 +138,70 @@ export function ProjectDetailDialog({
       setAddress(project.address || "");
       setIsActive(project.is_active);
       setStandardHours(project.standard_hours ? String(project.standard_hours) : "");
+      setShiftTimes({
+        default_time_from: project.default_time_from?.slice(0, 5) || EMPTY_SHIFT_TIMES.default_time_from,
+        default_time_to: project.default_time_to?.slice(0, 5) ?? "",
+        default_break_start: project.default_break_start?.slice(0, 5) ?? "",
+        default_break_end: project.default_break_end?.slice(0, 5) ?? "",
+        default_break2_start: project.default_break2_start?.slice(0, 5) ?? "",
+        default_break2_end: project.default_break2_end?.slice(0, 5) ?? "",
+      });
+      setLat(project.lat != null ? String(project.lat) : "");
+      setLng(project.lng != null ? String(project.lng) : "");
+      setGeofenceRadius(project.geofence_radius_m ? String(project.geofence_radius_m) : "");
+      setHolidayCountry((project.holiday_country as HolidayCountry) || "SK");
+      setHolidayRegion(project.holiday_region || NO_REGION);
+      setClientId(project.client_id || NO_CLIENT);
+      setClientRate(project.client_hourly_rate != null ? String(project.client_hourly_rate) : "");
     }
   }, [project]);
 
   if (!project) return null;
 
+  const handleGeocode = async () => {
+    const query = address || location;
+    if (!query) return;
+    setGeocoding(true);
+    const point = await geocodeAddress(query);
+    setGeocoding(false);
+    if (point) {
+      setLat(point.lat.toFixed(6));
+      setLng(point.lng.toFixed(6));
+      if (!geofenceRadius) setGeofenceRadius("300");
+    } else {
+      toast({ variant: "destructive", title: "Adresa nenájdená", description: "Zadajte súradnice ručne." });
+    }
+  };
+
   const handleSave = async () => {
     if (!name.trim()) return;
     setSaving(true);
 
     const parsedHours = standardHours ? parseFloat(standardHours) : null;
+    const selectedClient = clients.find((c) => c.id === clientId);
     const { error } = await supabase
       .from("projects")
       .update({
         name,
-        client,
+        // The free-text client follows the linked client master data
+        client: selectedClient?.name ?? client,
+        client_id: selectedClient?.id ?? null,
+        client_hourly_rate: clientRate ? parseFloat(clientRate) : null,
         location: location || null,
         address: address || null,
         is_active: isActive,
         standard_hours: parsedHours,
+        default_time_from: shiftTimes.default_time_from || EMPTY_SHIFT_TIMES.default_time_from,
+        default_time_to: shiftTimes.default_time_to || null,
+        default_break_start: shiftTimes.default_break_start || null,
+        default_break_end: shiftTimes.default_break_end || null,
+        default_break2_start: shiftTimes.default_break2_start || null,
+        default_break2_end: shiftTimes.default_break2_end || null,
+        lat: lat ? parseFloat(lat) : null,
+        lng: lng ? parseFloat(lng) : null,
+        geofence_radius_m: geofenceRadius ? parseInt(geofenceRadius, 10) : null,
+        holiday_country: holidayCountry,
+        holiday_region: holidayRegion === NO_REGION ? null : holidayRegion,
       })
       .eq("id", project.id);
 
@@ -184,6 +293,138 @@ export function ProjectDetailDialog({
               </div>
             )}
 
+            {isAdmin && (
+              <div className="space-y-2">
+                <Label>Predvolené časy smeny</Label>
+                {SHIFT_TIME_FIELDS.map(([from, to, label]) => (
+                  <div key={from} className="grid grid-cols-[6rem_1fr_1fr] items-center gap-2">
+                    <span className="text-sm text-muted-foreground">{label}</span>
+                    <Input
+                      type="time"
+                      value={shiftTimes[from]}
+                      onChange={(e) => setShiftTimes({ ...shiftTimes, [from]: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      value={shiftTimes[to]}
+                      onChange={(e) => setShiftTimes({ ...shiftTimes, [to]: e.target.value })}
+                    />
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Predvyplnia sa v dennom zázname. Bez konca smeny sa koniec dopočíta z fixných hodín a prestávok.
+                </p>
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="space-y-2">
+                <Label>Klient (fakturácia)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={clientId} onValueChange={setClientId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CLIENT}>{client && client !== "N/A" ? `${client} (bez údajov)` : "Bez klienta"}</SelectItem>
+                      {clients.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={clientRate}
+                    onChange={(e) => setClientRate(e.target.value)}
+                    placeholder="Sadzba €/h"
+                    disabled={clientId === NO_CLIENT}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Hodinová sadzba, za ktorú sa schválené hodiny fakturujú klientovi.
+                </p>
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Stavenisko (geofence)</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleGeocode}
+                    disabled={geocoding || (!address && !location)}
+                  >
+                    {geocoding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Crosshair className="h-4 w-4 mr-1" />}
+                    Z adresy
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input value={lat} onChange={(e) => setLat(e.target.value)} placeholder="Šírka" inputMode="decimal" />
+                  <Input value={lng} onChange={(e) => setLng(e.target.value)} placeholder="Dĺžka" inputMode="decimal" />
+                  <Input
+                    type="number"
+                    min="1"
+                    value={geofenceRadius}
+                    onChange={(e) => setGeofenceRadius(e.target.value)}
+                    placeholder="Polomer (m)"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Smena začatá alebo ukončená ďalej od staveniska sa pri schvaľovaní označí. Bez polomeru sa poloha len uloží.
+                </p>
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="space-y-2">
+                <Label>Kalendár sviatkov</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={holidayCountry}
+                    onValueChange={(value) => {
+                      setHolidayCountry(value as HolidayCountry);
+                      setHolidayRegion(NO_REGION);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOLIDAY_COUNTRIES.map((c) => (
+                        <SelectItem key={c.code} value={c.code}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={holidayRegion}
+                    onValueChange={setHolidayRegion}
+                    disabled={HOLIDAY_REGIONS[holidayCountry].length === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_REGION}>Len celoštátne</SelectItem>
+                      {HOLIDAY_REGIONS[holidayCountry].map((r) => (
+                        <SelectItem key={r.code} value={r.code}>
+                          {r.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
             {isAdmin && (
               <div className="flex items-center justify-between">
                 <Label>Aktívny projekt</Label>
@@ -196,6 +437,10 @@ export function ProjectDetailDialog({
               <>
                 <Separator />
                 <ProjectAssignments projectId={project.id} />
+                <Separator />
+                <ProjectValidationRules projectId={project.id} />
+                <Separator />
+                <ProjectSurchargeRules projectId={project.id} />
               </>
             )}
           </div>
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useProjectSurchargeRules, type SurchargeRuleInput } from "@/hooks/useSurchargeRules";
+import {
+  WEEKDAY_LABELS,
+  describeSurchargeRule,
+  type SurchargeKind,
+  type SurchargeRule,
+} from "@/lib/surcharges";
+
+interface ProjectSurchargeRulesProps {
+  projectId: string;
+}
+
+interface RuleForm {
+  name: string;
+  weekdays: string[];
+  includeHolidays: boolean;
+  timeFrom: string;
+  timeTo: string;
+  threshold: string;
+  kind: SurchargeKind;
+  value: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  weekdays: [],
+  includeHolidays: false,
+  timeFrom: "",
+  timeTo: "",
+  threshold: "",
+  kind: "multiplier",
+  value: "1.25",
+};
+
+const toForm = (rule: SurchargeRule): RuleForm => ({
+  name: rule.name,
+  weekdays: rule.weekdays.map(String),
+  includeHolidays: rule.include_holidays,
+  timeFrom: rule.time_from ?? "",
+  timeTo: rule.time_to ?? "",
+  threshold: rule.weekly_threshold_hours != null ? String(rule.weekly_threshold_hours) : "",
+  kind: rule.kind,
+  value: String(rule.value),
+});
+
+const formatValue = (rule: SurchargeRule) =>
+  rule.kind === "multiplier" ? `× ${rule.value}` : `+ ${rule.value.toFixed(2)} €/h`;
+
+export function ProjectSurchargeRules({ projectId }: ProjectSurchargeRulesProps) {
+  const { rules, loading, saving, saveRule, deleteRule } = useProjectSurchargeRules(projectId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+
+  const openForm = (rule?: SurchargeRule) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const value = form ? parseFloat(form.value) : NaN;
+  const threshold = form?.threshold ? parseFloat(form.threshold) : null;
+  const hasWindow = !!form?.timeFrom && !!form?.timeTo;
+  const formValid =
+    !!form &&
+    form.name.trim() !== "" &&
+    !isNaN(value) &&
+    value >= 0 &&
+    (form.kind === "fixed" || value >= 1) &&
+    (threshold === null || (!isNaN(threshold) && threshold >= 0)) &&
+    (hasWindow || (!form.timeFrom && !form.timeTo));
+
+  const handleSave = async () => {
+    if (!form || !formValid) return;
+    const input: SurchargeRuleInput = {
+      name: form.name.trim(),
+      weekdays: form.weekdays.map(Number).sort((a, b) => a - b),
+      include_holidays: form.includeHolidays,
+      time_from: hasWindow ? form.timeFrom : null,
+      time_to: hasWindow ? form.timeTo : null,
+      weekly_threshold_hours: threshold,
+      kind: form.kind,
+      value,
+      is_active: rules.find((r) => r.id === editingId)?.is_active ?? true,
+    };
+    if (await saveRule(input, editingId ?? undefined)) closeForm();
+  };
+
+  const handleToggleActive = (rule: SurchargeRule, isActive: boolean) => {
+    const { id, project_id: _projectId, ...input } = rule;
+    saveRule({ ...input, is_active: isActive }, id);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-semibold text-foreground">Príplatky</h4>
+          <p className="text-xs text-muted-foreground">
+            Víkendové, nočné a nadčasové hodiny sa na faktúre účtujú ako samostatné položky.
+          </p>
+        </div>
+        {!form && (
+          <Button type="button" variant="outline" size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Pridať
+          </Button>
+        )}
+      </div>
+
+      {rules.length === 0 && !form && (
+        <p className="text-sm text-muted-foreground">Projekt nemá žiadne príplatky.</p>
+      )}
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex items-center gap-3 p-2 rounded-md bg-muted/50">
+          <Switch
+            checked={rule.is_active}
+            onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+            disabled={saving}
+          />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">{rule.name}</p>
+            <p className="text-xs text-muted-foreground">{describeSurchargeRule(rule)}</p>
+          </div>
+          <span className="text-sm font-medium whitespace-nowrap">{formatValue(rule)}</span>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(rule)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive"
+            onClick={() => deleteRule(rule.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {form && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="space-y-1">
+            <Label>Názov na faktúre</Label>
+            <Input
+              value={form.name}
+              placeholder="napr. Sobota"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Dni</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap"
+              value={form.weekdays}
+              onValueChange={(weekdays) => setForm({ ...form, weekdays })}
+            >
+              {WEEKDAY_LABELS.map((day) => (
+                <ToggleGroupItem key={day.value} value={String(day.value)} className="w-9">
+                  {day.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex items-center gap-2 pt-1">
+              <Checkbox
+                id="surcharge-holidays"
+                checked={form.includeHolidays}
+                onCheckedChange={(checked) => setForm({ ...form, includeHolidays: checked === true })}
+              />
+              <Label htmlFor="surcharge-holidays" className="font-normal">
+                Aj štátne sviatky projektu
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">Bez výberu platí pre každý deň.</p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Čas od</Label>
+              <Input type="time" value={form.timeFrom} onChange={(e) => setForm({ ...form, timeFrom: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Čas do</Label>
+              <Input type="time" value={form.timeTo} onChange={(e) => setForm({ ...form, timeTo: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Nad h/týždeň</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.threshold}
+                placeholder="napr. 40"
+                onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Za každý sviatok sa zníži o pätinu.</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label>Typ</Label>
+              <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as SurchargeKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multiplier">Násobok sadzby</SelectItem>
+                  <SelectItem value="fixed">Pevná suma €/h</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{form.kind === "multiplier" ? "Násobok (1.25 = +25 %)" : "Príplatok €/h"}</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.05"
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={closeForm}>
+              Zrušiť
+            </Button>
+            <Button type="button" size="sm" onClick={handleSave} disabled={!formValid || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Uložiť
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useProjectValidationRules } from "@/hooks/useTimesheetRules";
+import { RULE_DEFINITIONS, RULE_IDS, type RuleSeverity, type TimesheetRuleId } from "@/lib/timesheetRules";
+
+interface ProjectValidationRulesProps {
+  projectId: string;
+}
+
+export function ProjectValidationRules({ projectId }: ProjectValidationRulesProps) {
+  const { rules, loading, savingRule, saveRule } = useProjectValidationRules(projectId);
+  const [thresholds, setThresholds] = useState<Partial<Record<TimesheetRuleId, string>>>({});
+
+  useEffect(() => {
+    setThresholds(
+      Object.fromEntries(RULE_IDS.map((id) => [id, rules[id].threshold != null ? String(rules[id].threshold) : ""]))
+    );
+  }, [rules]);
+
+  const handleThresholdBlur = (id: TimesheetRuleId) => {
+    const value = parseFloat(thresholds[id] ?? "");
+    const threshold = !isNaN(value) && value > 0 ? value : RULE_DEFINITIONS[id].defaults.threshold;
+    if (threshold === rules[id].threshold) {
+      setThresholds({ ...thresholds, [id]: threshold != null ? String(threshold) : "" });
+      return;
+    }
+    saveRule(id, { ...rules[id], threshold });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold text-foreground">Pravidlá výkazu</h4>
+        <p className="text-xs text-muted-foreground">
+          Kontrolujú sa pri zápise dňa a pri odoslaní týždňa. „Blokovať“ nedovolí záznam odoslať.
+        </p>
+      </div>
+
+      {RULE_IDS.map((id) => {
+        const definition = RULE_DEFINITIONS[id];
+        const config = rules[id];
+        return (
+          <div key={id} className="flex items-center gap-3 p-2 rounded-md bg-muted/50">
+            <Switch
+              checked={config.enabled}
+              onCheckedChange={(enabled) => saveRule(id, { ...config, enabled })}
+              disabled={savingRule === id}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">{definition.label}</p>
+              <p className="text-xs text-muted-foreground">{definition.description}</p>
+            </div>
+            {definition.thresholdLabel && (
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                className="w-20 h-8"
+                title={definition.thresholdLabel}
+                value={thresholds[id] ?? ""}
+                onChange={(e) => setThresholds({ ...thresholds, [id]: e.target.value })}
+                onBlur={() => handleThresholdBlur(id)}
+                disabled={!config.enabled || savingRule === id}
+              />
+            )}
+            <Select
+              value={config.severity}
+              onValueChange={(severity) => saveRule(id, { ...config, severity: severity as RuleSeverity })}
+              disabled={!config.enabled || savingRule === id}
+            >
+              <SelectTrigger className="w-[120px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Upozorniť</SelectItem>
+                <SelectItem value="block">Blokovať</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
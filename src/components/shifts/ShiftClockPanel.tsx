@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, MapPin, MapPinOff, Play, Square, X } from "lucide-react";
+import { differenceInMinutes, format } from "date-fns";
+import { formatDistance, hasGeofence } from "@/lib/geofence";
+import type { ClockProject, ShiftSession, ShiftBreaks } from "@/hooks/useShiftClock";
+
+interface AccommodationOption {
+  id: string;
+  name: string;
+  address: string;
+  price_per_person: number | null;
+}
+
+interface ShiftClockPanelProps {
+  projects: ClockProject[];
+  accommodations: AccommodationOption[];
+  activeShift: ShiftSession | null;
+  processing: boolean;
+  isOnline: boolean;
+  onStart: (project: ClockProject, accommodationId: string | null) => Promise<boolean>;
+  onEnd: (breaks: ShiftBreaks, note: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const EMPTY_BREAKS: ShiftBreaks = { breakStart: "12:00", breakEnd: "12:30", break2Start: "", break2End: "" };
+
+export function ShiftClockPanel({
+  projects,
+  accommodations,
+  activeShift,
+  processing,
+  isOnline,
+  onStart,
+  onEnd,
+  onCancel,
+}: ShiftClockPanelProps) {
+  const [projectId, setProjectId] = useState("");
+  const [accommodationId, setAccommodationId] = useState("none");
+  const [breaks, setBreaks] = useState<ShiftBreaks>(EMPTY_BREAKS);
+  const [note, setNote] = useState("");
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the elapsed time current while a shift runs
+  useEffect(() => {
+    if (!activeShift) return;
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, [activeShift]);
+
+  const shiftProject = activeShift ? projects.find((p) => p.id === activeShift.project_id) : undefined;
+  const selectedProject = projects.find((p) => p.id === projectId);
+
+  if (!isOnline) {
+    return (
+      <Alert>
+        <AlertDescription>Zápis smeny cez polohu vyžaduje pripojenie. Použite ručný zápis.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (activeShift) {
+    const elapsed = differenceInMinutes(now, new Date(activeShift.started_at));
+    return (
+      <div className="space-y-4">
+        <div className="rounded-lg border p-4 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{shiftProject?.name ?? "Projekt"}</span>
+            {activeShift.outside_geofence ? (
+              <Badge variant="destructive" className="gap-1">
+                <MapPinOff className="h-3 w-3" />
+                {activeShift.start_lat == null
+                  ? "Bez polohy"
+                  : `Mimo staveniska${activeShift.start_distance_m != null ? ` (${formatDistance(Number(activeShift.start_distance_m))})` : ""}`}
+              </Badge>
+            ) : activeShift.start_distance_m != null ? (
+              <Badge variant="secondary" className="gap-1">
+                <MapPin className="h-3 w-3" />
+                Na stavenisku
+              </Badge>
+            ) : null}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Príchod {format(new Date(activeShift.started_at), "HH:mm")} • beží {Math.floor(elapsed / 60)} h {elapsed % 60} min
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="shift-break-start">1. prestávka – od</Label>
+            <Input
+              id="shift-break-start"
+              type="time"
+              value={breaks.breakStart}
+              onChange={(e) => setBreaks({ ...breaks, breakStart: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shift-break-end">1. prestávka – do</Label>
+            <Input
+              id="shift-break-end"
+              type="time"
+              value={breaks.breakEnd}
+              onChange={(e) => setBreaks({ ...breaks, breakEnd: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shift-break2-start">2. prestávka – od</Label>
+            <Input
+              id="shift-break2-start"
+              type="time"
+              value={breaks.break2Start}
+              onChange={(e) => setBreaks({ ...breaks, break2Start: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shift-break2-end">2. prestávka – do</Label>
+            <Input
+              id="shift-break2-end"
+              type="time"
+              value={breaks.break2End}
+              onChange={(e) => setBreaks({ ...breaks, break2End: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="shift-note">Poznámka (voliteľné)</Label>
+          <Textarea id="shift-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+        </div>
+
+        <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <Button variant="ghost" onClick={onCancel} disabled={processing} className="h-12 md:h-10">
+            <X className="mr-2 h-4 w-4" />
+            Zrušiť smenu
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={processing}
+            className="h-12 md:h-10 text-base md:text-sm"
+            onClick={async () => {
+              if (await onEnd(breaks, note)) {
+                setBreaks(EMPTY_BREAKS);
+                setNote("");
+              }
+            }}
+          >
+            {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Square className="mr-2 h-4 w-4" />}
+            Ukončiť smenu
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="shift-project">Projekt</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger id="shift-project">
+              <SelectValue placeholder="Vyberte projekt" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedProject && (
+            <p className="text-xs text-muted-foreground">
+              {hasGeofence(selectedProject)
+                ? `Poloha sa overí v okruhu ${formatDistance(Number(selectedProject.geofence_radius_m))} od staveniska`
+                : "Projekt nemá nastavené stavenisko – poloha sa len uloží"}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="shift-accommodation">Ubytovanie</Label>
+          <Select value={accommodationId} onValueChange={setAccommodationId}>
+            <SelectTrigger id="shift-accommodation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Vlastné ubytovanie / Bez firemného ubytovania (0 €)</SelectItem>
+              {accommodations.map((acc) => (
+                <SelectItem key={acc.id} value={acc.id}>
+                  {acc.name || acc.address} ({acc.price_per_person ?? 0} €/noc)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          disabled={processing || !selectedProject}
+          className="h-12 md:h-10 text-base md:text-sm w-full sm:w-auto"
+          onClick={() => selectedProject && onStart(selectedProject, accommodationId === "none" ? null : accommodationId)}
+        >
+          {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          Začať smenu
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getISOWeekLocal, getISOWeekYear, parseLocalDate } from "@/lib/dateUtils";
+
+export interface AccommodationCostRow {
+  accommodationId: string;
+  name: string;
+  /** 1-12 */
+  month: number;
+  /** Rent obligations falling due in the month */
+  cost: number;
+  /** accommodation_deduction withheld from workers' invoices for nights in the month */
+  collected: number;
+}
+
+/**
+ * Monthly rent per accommodation against the accommodation deductions
+ * collected on supplier invoices.
+ *
+ * An invoice's deduction is not stored per accommodation, so it is split
+ * over the accommodations recorded on the worker's performance records in
+ * the invoiced week – the same records the deduction was calculated from.
+ */
+export function useAccommodationCostLedger(year: number) {
+  const [rows, setRows] = useState<AccommodationCostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setLoading(true);
+      const yearStart = `${year}-01-01`;
+      const yearEnd = `${year}-12-31`;
+
+      const [paymentsResult, invoicesResult, recordsResult, accommodationsResult] = await Promise.all([
+        supabase
+          .from("accommodation_payments")
+          .select("accommodation_id, due_date, amount")
+          .gte("due_date", yearStart)
+          .lte("due_date", yearEnd),
+        supabase
+          .from("invoices")
+          .select("user_id, accommodation_deduction, weekly_closings(calendar_week, year)")
+          .is("deleted_at", null)
+          .neq("status", "void")
+          .gt("accommodation_deduction", 0),
+        supabase
+          .from("performance_records")
+          .select("user_id, date, accommodation_id")
+          .is("deleted_at", null)
+          .not("accommodation_id", "is", null)
+          .gte("date", yearStart)
+          .lte("date", yearEnd),
+        supabase.from("accommodations").select("id, name"),
+      ]);
+
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      if (accommodationsResult.error) throw accommodationsResult.error;
+
+      const names = new Map((accommodationsResult.data || []).map((a) => [a.id, a.name]));
+      const ledger = new Map<string, AccommodationCostRow>();
+      const rowFor = (accommodationId: string, month: number) => {
+        const key = `${accommodationId}:${month}`;
+        let row = ledger.get(key);
+        if (!row) {
+          row = { accommodationId, name: names.get(accommodationId) || "—", month, cost: 0, collected: 0 };
+          ledger.set(key, row);
+        }
+        return row;
+      };
+
+      for (const payment of paymentsResult.data || []) {
+        rowFor(payment.accommodation_id, parseLocalDate(payment.due_date).getMonth() + 1).cost += Number(payment.amount);
+      }
+
+      // Index accommodation nights by worker and ISO week
+      const nightsByWeek = new Map<string, { accommodationId: string; month: number }[]>();
+      for (const rec of recordsResult.data || []) {
+        const date = parseLocalDate(rec.date);
+        const key = `${rec.user_id}:${getISOWeekYear(date)}:${getISOWeekLocal(date)}`;
+        const list = nightsByWeek.get(key) || [];
+        list.push({ accommodationId: rec.accommodation_id as string, month: date.getMonth() + 1 });
+        nightsByWeek.set(key, list);
+      }
+
+      for (const inv of invoicesResult.data || []) {
+        const week = inv.weekly_closings;
+        if (!week) continue;
+        const nights = nightsByWeek.get(`${inv.user_id}:${week.year}:${week.calendar_week}`);
+        if (!nights || nights.length === 0) continue;
+
+        const perNight = Number(inv.accommodation_deduction) / nights.length;
+        for (const night of nights) {
+          rowFor(night.accommodationId, night.month).collected += perNight;
+        }
+      }
+
+      setRows(
+        [...ledger.values()].sort((a, b) => a.name.localeCompare(b.name, "sk") || a.month - b.month)
+      );
+    } catch (error) {
+      console.error("Error loading accommodation cost ledger:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať náklady na ubytovanie",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  return { rows, loading, refetch: fetchLedger };
+}
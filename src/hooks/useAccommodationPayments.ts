@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+export const PAYMENT_FREQUENCY_LABELS: Record<string, string> = {
+  weekly: "Týždenne",
+  biweekly: "Dvojtýždenne",
+  monthly: "Mesačne",
+};
+
+export interface AccommodationPayment {
+  id: string;
+  accommodation_id: string;
+  due_date: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  status: "pending" | "paid";
+  paid_at: string | null;
+  note: string | null;
+  accommodation?: {
+    name: string;
+    address: string;
+    payment_frequency: string | null;
+  };
+}
+
+/**
+ * Create the rent obligations falling due in the next month.
+ * Safe to call repeatedly: existing due dates are skipped.
+ */
+export async function generateAccommodationPayments(): Promise<number> {
+  const { data, error } = await supabase.rpc("generate_accommodation_payments", { p_horizon_days: 31 });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Settle a rent obligation. Returns the accommodation's new next_payment_date.
+ */
+export async function markAccommodationPaymentPaid(paymentId: string, paidAt: Date = new Date()): Promise<string | null> {
+  const { data, error } = await supabase.rpc("mark_accommodation_payment_paid", {
+    p_payment_id: paymentId,
+    p_paid_at: paidAt.toISOString(),
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Landlord payment schedule: open obligations plus the settled ones since `paidSince`.
+ */
+export function useAccommodationPayments(paidSince: string) {
+  const [payments, setPayments] = useState<AccommodationPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      setLoading(true);
+      await generateAccommodationPayments();
+
+      const { data, error } = await supabase
+        .from("accommodation_payments")
+        .select("*, accommodation:accommodations(name, address, payment_frequency)")
+        .or(`status.eq.pending,due_date.gte.${paidSince}`)
+        .order("due_date", { ascending: true });
+
+      if (error) throw error;
+      setPayments((data as AccommodationPayment[]) || []);
+    } catch (error) {
+      console.error("Error loading accommodation payments:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať platby za ubytovanie",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [paidSince, toast]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const markPaid = async (payment: AccommodationPayment, paidAt?: Date): Promise<void> => {
+    setProcessingId(payment.id);
+    try {
+      const nextDate = await markAccommodationPaymentPaid(payment.id, paidAt);
+      toast({
+        title: "Zaplatené",
+        description: nextDate ? `Ďalšia platba: ${format(new Date(nextDate), "d.M.yyyy")}` : "Platba bola označená ako uhradená",
+      });
+      await fetchPayments();
+    } catch (error) {
+      console.error("Error settling accommodation payment:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa označiť platbu",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return {
+    payments,
+    loading,
+    processingId,
+    markPaid,
+    refetch: fetchPayments,
+  };
+}
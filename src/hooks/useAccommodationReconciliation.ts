@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  fixesForWeek,
+  reconcileWeek,
+  type RecordFix,
+  type ReconciliationRecord,
+  type WeekReconciliation,
+} from "@/lib/accommodationReconciliation";
+import { getWeekDates } from "@/lib/dateUtils";
+
+export interface DeductionOverride {
+  id: string;
+  amount: number;
+  reason: string | null;
+}
+
+export interface ReconciliationRow extends WeekReconciliation {
+  userName: string;
+  override: DeductionOverride | null;
+  /** Invoice already issued for the week – changes no longer affect it */
+  invoiceNumber: string | null;
+  fixes: RecordFix[];
+}
+
+/**
+ * Accommodation reconciliation for one ISO week: what the company pays per
+ * the assignments against what the daily entries would deduct on the invoice.
+ */
+export function useAccommodationReconciliation(year: number, calendarWeek: number) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [accommodationNames, setAccommodationNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [processingUserId, setProcessingUserId] = useState<string | null>(null);
+
+  const fetchReconciliation = useCallback(async () => {
+    try {
+      setLoading(true);
+      const dates = getWeekDates(calendarWeek, year);
+      const monday = dates[0];
+      const sunday = dates[6];
+
+      const [assignmentsResult, recordsResult, accommodationsResult, overridesResult, invoicesResult] =
+        await Promise.all([
+          supabase
+            .from("accommodation_assignments")
+            .select("id, accommodation_id, user_id, check_in, check_out, price_per_night")
+            .is("deleted_at", null)
+            .lte("check_in", sunday)
+            .or(`check_out.is.null,check_out.gt.${monday}`),
+          supabase
+            .from("performance_records")
+            .select("id, user_id, date, accommodation_id")
+            .is("deleted_at", null)
+            .gte("date", monday)
+            .lte("date", sunday),
+          supabase.from("accommodations").select("id, name, price_per_person"),
+          supabase
+            .from("accommodation_deduction_overrides")
+            .select("id, user_id, amount, reason")
+            .eq("year", year)
+            .eq("calendar_week", calendarWeek),
+          supabase
+            .from("invoices")
+            .select("user_id, invoice_number, weekly_closings!inner(calendar_week, year)")
+            .is("deleted_at", null)
+            .neq("status", "void")
+            .eq("weekly_closings.year", year)
+            .eq("weekly_closings.calendar_week", calendarWeek),
+        ]);
+
+      if (assignmentsResult.error) throw assignmentsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      if (accommodationsResult.error) throw accommodationsResult.error;
+      if (overridesResult.error) throw overridesResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      const accommodations = accommodationsResult.data || [];
+      const records: ReconciliationRecord[] = recordsResult.data || [];
+      const weeks = reconcileWeek(
+        dates,
+        assignmentsResult.data || [],
+        records,
+        new Map(accommodations.map((a) => [a.id, Number(a.price_per_person) || 0]))
+      );
+
+      const userIds = weeks.map((w) => w.userId);
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((p) => [p.user_id, p.full_name]));
+      const overrides = new Map((overridesResult.data || []).map((o) => [o.user_id, o]));
+      const invoices = new Map((invoicesResult.data || []).map((i) => [i.user_id, i.invoice_number]));
+
+      setAccommodationNames(new Map(accommodations.map((a) => [a.id, a.name])));
+      setRows(
+        weeks
+          .map((week) => {
+            const override = overrides.get(week.userId);
+            return {
+              ...week,
+              userName: names.get(week.userId) || "Neznámy",
+              override: override ? { id: override.id, amount: Number(override.amount), reason: override.reason } : null,
+              invoiceNumber: invoices.get(week.userId) ?? null,
+              fixes: fixesForWeek(week, records),
+            };
+          })
+          .sort((a, b) => b.mismatches - a.mismatches || a.userName.localeCompare(b.userName, "sk"))
+      );
+    } catch (error) {
+      console.error("Error loading accommodation reconciliation:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať porovnanie ubytovania",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, calendarWeek, toast]);
+
+  useEffect(() => {
+    fetchReconciliation();
+  }, [fetchReconciliation]);
+
+  /**
+   * Rewrite the worker's daily entries so they claim the assigned accommodation.
+   */
+  const fixEntries = async (row: ReconciliationRow) => {
+    if (row.fixes.length === 0) return;
+    setProcessingUserId(row.userId);
+    try {
+      for (const fix of row.fixes) {
+        const { error } = await supabase
+          .from("performance_records")
+          .update({ accommodation_id: fix.accommodationId })
+          .eq("id", fix.recordId);
+        if (error) throw error;
+      }
+      toast({ title: "Záznamy opravené", description: `Upravených záznamov: ${row.fixes.length}` });
+      await fetchReconciliation();
+    } catch (error) {
+      console.error("Error fixing accommodation entries:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa opraviť záznamy",
+      });
+    } finally {
+      setProcessingUserId(null);
+    }
+  };
+
+  /**
+   * Set the deduction the invoice will use for the worker's week.
+   */
+  const saveOverride = async (userId: string, amount: number, reason: string) => {
+    setProcessingUserId(userId);
+    try {
+      const { error } = await supabase.from("accommodation_deduction_overrides").upsert(
+        {
+          user_id: userId,
+          year,
+          calendar_week: calendarWeek,
+          amount,
+          reason: reason.trim() || null,
+          created_by: user?.id ?? null,
+        },
+        { onConflict: "user_id,year,calendar_week" }
+      );
+      if (error) throw error;
+      toast({ title: "Zrážka nastavená", description: "Faktúra za týždeň použije zadanú sumu" });
+      await fetchReconciliation();
+      return true;
+    } catch (error) {
+      console.error("Error saving deduction override:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa uložiť zrážku",
+      });
+      return false;
+    } finally {
+      setProcessingUserId(null);
+    }
+  };
+
+  const removeOverride = async (row: ReconciliationRow) => {
+    if (!row.override) return;
+    setProcessingUserId(row.userId);
+    try {
+      const { error } = await supabase.from("accommodation_deduction_overrides").delete().eq("id", row.override.id);
+      if (error) throw error;
+      await fetchReconciliation();
+    } catch (error) {
+      console.error("Error removing deduction override:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa zrušiť zrážku",
+      });
+    } finally {
+      setProcessingUserId(null);
+    }
+  };
+
+  return {
+    rows,
+    accommodationNames,
+    loading,
+    processingUserId,
+    fixEntries,
+    saveOverride,
+    removeOverride,
+    refetch: fetchReconciliation,
+  };
+}
@@ -1,14 +1,17 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { RepaymentPlan } from "@/hooks/useDeductions";
 
-interface Advance {
+interface Advance extends RepaymentPlan {
   id: string;
   user_id: string;
   amount: number;
   date: string;
   note: string | null;
   used_in_invoice_id: string | null;
+  /** Not yet recovered by active invoices */
+  remaining: number;
   profile?: {
     full_name: string;
     company_name: string | null;
@@ -26,7 +29,7 @@ export function useAdvances() {
       
       const { data, error } = await supabase
         .from("advances")
-        .select("*")
+        .select("*, invoice_settlements(amount, invoices(status, deleted_at))")
         .is("deleted_at", null)
         .order("date", { ascending: false });
 
@@ -34,14 +37,20 @@ export function useAdvances() {
 
       // Enrich with profile data
       const advancesWithProfiles = await Promise.all(
-        (data || []).map(async (adv) => {
+        (data || []).map(async ({ invoice_settlements, ...adv }) => {
           const { data: profile } = await supabase
             .from("profiles")
             .select("full_name, company_name")
             .eq("user_id", adv.user_id)
             .maybeSingle();
           
-          return { ...adv, profile: profile || undefined } as Advance;
+          // Settlements of void or deleted invoices no longer count
+          const recovered = (invoice_settlements || [])
+            .filter((s) => s.invoices && s.invoices.status !== "void" && !s.invoices.deleted_at)
+            .reduce((sum, s) => sum + Number(s.amount), 0);
+          const remaining = adv.used_in_invoice_id ? 0 : Math.max(Number(adv.amount) - recovered, 0);
+
+          return { ...adv, remaining, profile: profile || undefined } as Advance;
         })
       );
 
@@ -58,7 +67,13 @@ export function useAdvances() {
     }
   }, [toast]);
 
-  const addAdvance = useCallback(async (userId: string, amount: number, date: string, note?: string) => {
+  const addAdvance = useCallback(async (
+    userId: string,
+    amount: number,
+    date: string,
+    note?: string,
+    plan?: RepaymentPlan
+  ) => {
     try {
       const { error } = await supabase
         .from("advances")
@@ -67,6 +82,7 @@ export function useAdvances() {
           amount,
           date,
           note: note || null,
+          ...plan,
         });
 
       if (error) throw error;
@@ -113,7 +129,7 @@ export function useAdvances() {
   }, [fetchAdvances, toast]);
 
   const getUnusedAdvancesForUser = useCallback((userId: string) => {
-    return advances.filter(adv => adv.user_id === userId && !adv.used_in_invoice_id);
+    return advances.filter(adv => adv.user_id === userId && adv.remaining > 0);
   }, [advances]);
 
   useEffect(() => {
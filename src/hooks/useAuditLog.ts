@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  action: string;
+  changed_by: string | null;
+  changed_at: string;
+  old_data: Json | null;
+  new_data: Json | null;
+  changed_fields: string[] | null;
+}
+
+export interface AuditLogFilters {
+  /** Table name, or "all" */
+  table: string;
+  /** Changing user, or "all" */
+  changedBy: string;
+  /** YYYY-MM-DD, inclusive */
+  from: string;
+  /** YYYY-MM-DD, inclusive */
+  to: string;
+}
+
+const PAGE_SIZE = 200;
+
+/**
+ * Audit trail entries matching the filters, newest first.
+ * Only the latest PAGE_SIZE entries are loaded; `hasMore` tells the screen to narrow the filters.
+ */
+export function useAuditLog(filters: AuditLogFilters) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("changed_at", { ascending: false })
+        .limit(PAGE_SIZE + 1);
+
+      if (filters.table !== "all") query = query.eq("table_name", filters.table);
+      if (filters.changedBy !== "all") query = query.eq("changed_by", filters.changedBy);
+      if (filters.from) query = query.gte("changed_at", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) query = query.lte("changed_at", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setHasMore((data || []).length > PAGE_SIZE);
+      setEntries((data || []).slice(0, PAGE_SIZE));
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať históriu zmien",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters.table, filters.changedBy, filters.from, filters.to, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Names of everyone who can appear as the author or subject of a change
+  useEffect(() => {
+    supabase
+      .from("profiles")
+      .select("user_id, full_name")
+      .then(({ data }) => setNames(new Map((data || []).map((p) => [p.user_id, p.full_name]))));
+  }, []);
+
+  return { entries, names, hasMore, loading, refetch: fetchEntries };
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Invoice } from "@/hooks/useFinancialData";
+import { getPayableAmount } from "@/hooks/usePaymentBatches";
+import {
+  matchTransactions,
+  parseBankStatement,
+  type MatchableInvoice,
+  type TransactionMatch,
+} from "@/lib/bankStatementImport";
+
+export interface ReconciledPayment {
+  invoiceId: string;
+  bookingDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Import a camt.053 or CSV bank statement, match its lines to open invoices
+ * and mark the confirmed ones as paid on the bank booking date.
+ */
+export function useBankStatementImport() {
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<TransactionMatch[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const importStatement = async (file: File, invoices: Invoice[]): Promise<void> => {
+    setParsing(true);
+    try {
+      const transactions = parseBankStatement(await file.text());
+      if (transactions.length === 0) throw new Error("Výpis neobsahuje žiadne zaúčtované pohyby");
+
+      const openInvoices = invoices.filter((inv) => inv.status !== "paid" && inv.status !== "void");
+      const supplierIds = [...new Set(openInvoices.map((inv) => inv.user_id))];
+
+      const { data: profiles, error } = supplierIds.length > 0
+        ? await supabase.from("profiles").select("user_id, iban").in("user_id", supplierIds)
+        : { data: [], error: null };
+      if (error) throw error;
+
+      const ibanByUser = new Map((profiles || []).map((p) => [p.user_id, p.iban]));
+      const matchable: MatchableInvoice[] = openInvoices.map((inv) => ({
+        id: inv.id,
+        invoiceNumber: inv.invoice_number,
+        supplierName: inv.profile?.full_name ?? "—",
+        payableAmount: getPayableAmount(inv),
+        supplierIban: ibanByUser.get(inv.user_id) ?? null,
+      }));
+
+      setMatches(matchTransactions(transactions, matchable));
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Error importing bank statement:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba pri načítaní výpisu",
+        description: error instanceof Error ? error.message : "Nepodarilo sa spracovať bankový výpis",
+      });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  /**
+   * Mark the confirmed invoices as paid with the booking date from the statement.
+   */
+  const applyPayments = async (payments: ReconciledPayment[]): Promise<{ success: boolean }> => {
+    if (payments.length === 0) return { success: false };
+
+    setApplying(true);
+    try {
+      // One transaction: an invoice paid or batched meanwhile rejects the whole import
+      const { error } = await supabase.rpc("mark_invoices_paid", {
+        p_payments: payments.map(({ invoiceId, bookingDate }) => ({
+          invoice_id: invoiceId,
+          paid_at: new Date(`${bookingDate}T12:00:00`).toISOString(),
+        })),
+      });
+      if (error) throw new Error(`Faktúry sa nepodarilo označiť: ${error.message}`);
+
+      toast({
+        title: "Výpis spárovaný",
+        description: `${payments.length} faktúr bolo označených ako uhradené.`,
+      });
+      setMatches([]);
+      setFileName(null);
+      return { success: true };
+    } catch (error) {
+      console.error("Error applying bank statement:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa označiť faktúry ako uhradené",
+      });
+      return { success: false };
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const reset = () => {
+    setMatches([]);
+    setFileName(null);
+  };
+
+  return {
+    matches,
+    fileName,
+    parsing,
+    applying,
+    importStatement,
+    applyPayments,
+    reset,
+  };
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type BillingMode = Database["public"]["Enums"]["billing_mode"];
+
+export interface BillingProfile {
+  user_id: string;
+  mode: BillingMode;
+  retainer_hours: number | null;
+  retainer_amount: number | null;
+  due_days: number;
+  invoice_series: string;
+}
+
+export const BILLING_MODE_LABELS: Record<BillingMode, string> = {
+  hourly: "Hodinová sadzba",
+  fixed_retainer: "Paušál (týždenný)",
+  fixed_wage: "Fixná suma za faktúru",
+};
+
+/** Users without a billing_profiles row are invoiced hourly with the standard series. */
+export function defaultBillingProfile(userId: string): BillingProfile {
+  return {
+    user_id: userId,
+    mode: "hourly",
+    retainer_hours: null,
+    retainer_amount: null,
+    due_days: 21,
+    invoice_series: "standard",
+  };
+}
+
+/**
+ * Fetch the billing profile for a supplier, falling back to the hourly default.
+ */
+export async function fetchBillingProfile(userId: string): Promise<BillingProfile> {
+  const { data, error } = await supabase
+    .from("billing_profiles")
+    .select("user_id, mode, retainer_hours, retainer_amount, due_days, invoice_series")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Could not load billing profile:", error);
+  }
+
+  return data ?? defaultBillingProfile(userId);
+}
+
+/**
+ * Fetch all suppliers billed by a weekly fixed retainer, with their names.
+ */
+export async function fetchRetainerProfiles(): Promise<(BillingProfile & { full_name: string })[]> {
+  const { data: profiles, error } = await supabase
+    .from("billing_profiles")
+    .select("user_id, mode, retainer_hours, retainer_amount, due_days, invoice_series")
+    .eq("mode", "fixed_retainer");
+
+  if (error || !profiles || profiles.length === 0) return [];
+
+  const { data: names } = await supabase
+    .from("profiles")
+    .select("user_id, full_name")
+    .in("user_id", profiles.map((p) => p.user_id));
+
+  const nameMap = new Map((names || []).map((n) => [n.user_id, n.full_name]));
+  return profiles.map((p) => ({ ...p, full_name: nameMap.get(p.user_id) || "Neznámy" }));
+}
+
+/**
+ * Hook wrapper around fetchBillingProfile for components.
+ */
+export function useBillingProfile(userId: string | null | undefined) {
+  const [billingProfile, setBillingProfile] = useState<BillingProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    if (!userId) {
+      setBillingProfile(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setBillingProfile(await fetchBillingProfile(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { billingProfile, loading, refetch };
+}
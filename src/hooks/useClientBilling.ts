@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getCompanySignatureBase64 } from "@/hooks/useCompanySignature";
+import { loadSurchargeRules } from "@/hooks/useSurchargeRules";
+import { generateClientInvoicePDF, type ClientInvoiceLine, type CustomerParty } from "@/lib/invoiceGenerator";
+import {
+  buildClientInvoiceLines,
+  calculateProjectMargins,
+  clientInvoiceTotals,
+  weekKey,
+  type Client,
+  type ClientInput,
+  type ProjectMargin,
+} from "@/lib/clientBilling";
+import { COMPANY_COLUMNS, companySupplierParty, type Company } from "@/lib/company";
+import { calculateSurcharges, type SurchargeLine, type SurchargeRecord } from "@/lib/surcharges";
+import { projectHolidayCalendar } from "@/lib/holidays";
+import { addDays, format } from "date-fns";
+
+const CLIENT_COLUMNS =
+  "id, name, address, country, ico, dic, vat_number, email, payment_terms_days, is_reverse_charge, is_active";
+
+export type ClientInvoiceStatus = "issued" | "paid" | "void";
+
+export interface ClientInvoice {
+  id: string;
+  invoice_number: string;
+  client_id: string;
+  project_id: string;
+  period_from: string;
+  period_to: string;
+  issue_date: string;
+  delivery_date: string;
+  due_date: string;
+  total_hours: number;
+  hourly_rate: number;
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+  is_reverse_charge: boolean;
+  status: ClientInvoiceStatus;
+  clients: Client | null;
+  companies: Company | null;
+  projects: { name: string } | null;
+  client_invoice_lines: { position: number; kind: string; description: string; quantity: number; unit_price: number; amount: number }[];
+}
+
+export const toCustomerParty = (client: Client): CustomerParty => ({
+  name: client.name,
+  street: client.address || "",
+  country: client.country || "",
+  ico: client.ico,
+  dic: client.dic,
+  icDph: client.vat_number,
+});
+
+/**
+ * Client master data.
+ */
+export function useClients() {
+  const { toast } = useToast();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchClients = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase.from("clients").select(CLIENT_COLUMNS).order("name");
+    if (error) {
+      console.error("Error loading clients:", error);
+      toast({ variant: "destructive", title: "Chyba", description: "Nepodarilo sa načítať klientov" });
+    } else {
+      setClients(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchClients();
+  }, [fetchClients]);
+
+  const saveClient = async (input: ClientInput, id?: string): Promise<boolean> => {
+    setSaving(true);
+    const { error } = id
+      ? await supabase.from("clients").update(input).eq("id", id)
+      : await supabase.from("clients").insert(input);
+    setSaving(false);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return false;
+    }
+    toast({ title: "Uložené", description: `Klient ${input.name} bol uložený.` });
+    await fetchClients();
+    return true;
+  };
+
+  return { clients, loading, saving, saveClient, refetch: fetchClients };
+}
+
+/**
+ * Client surcharges are evaluated per worker and week, like on the
+ * subcontractor invoices, but priced at the client rate. The weekly
+ * thresholds count the workers' approved hours on other projects in the period too.
+ */
+async function clientSurcharges(
+  projectId: string,
+  records: (SurchargeRecord & { user_id: string })[],
+  clientRate: number,
+  periodFrom: string,
+  periodTo: string
+): Promise<SurchargeLine[]> {
+  const { rules, calendars } = await loadSurchargeRules([projectId]);
+  if (rules.length === 0) return [];
+  const calendar = calendars.get(projectId) ?? projectHolidayCalendar(null);
+
+  const { data: otherRecords, error } = await supabase
+    .from("performance_records")
+    .select("id, date, user_id, project_id, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours")
+    .in("user_id", [...new Set(records.map((r) => r.user_id))])
+    .neq("project_id", projectId)
+    .eq("status", "approved")
+    .is("deleted_at", null)
+    .gte("date", periodFrom)
+    .lte("date", periodTo);
+  if (error) throw error;
+
+  const groups = new Map<string, typeof records>();
+  for (const record of [...records, ...(otherRecords || [])]) {
+    const key = `${record.user_id}|${weekKey(record.date)}`;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return [...groups.values()].flatMap((group) => calculateSurcharges(rules, group, clientRate, () => calendar));
+}
+
+/**
+ * Outgoing invoices to clients, newest first, with the generator.
+ */
+export function useClientInvoices() {
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<ClientInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  const fetchInvoices = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("client_invoices")
+      .select(
+        `*, clients(${CLIENT_COLUMNS}), companies(${COMPANY_COLUMNS}), projects(name), client_invoice_lines(position, kind, description, quantity, unit_price, amount)`
+      )
+      .order("issue_date", { ascending: false })
+      .order("invoice_number", { ascending: false });
+    if (error) {
+      console.error("Error loading client invoices:", error);
+      toast({ variant: "destructive", title: "Chyba", description: "Nepodarilo sa načítať odberateľské faktúry" });
+    } else {
+      setInvoices((data || []) as ClientInvoice[]);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const downloadPdf = async (invoice: ClientInvoice) => {
+    if (!invoice.clients || !invoice.companies) return;
+    const signatureBase64 = await getCompanySignatureBase64(invoice.companies);
+    const lines: ClientInvoiceLine[] = [...invoice.client_invoice_lines]
+      .sort((a, b) => a.position - b.position)
+      .map((line) => ({
+        kind: line.kind as ClientInvoiceLine["kind"],
+        description: line.description,
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unit_price),
+        amount: Number(line.amount),
+      }));
+    await generateClientInvoicePDF({
+      invoiceNumber: invoice.invoice_number,
+      supplier: companySupplierParty(invoice.companies),
+      customer: toCustomerParty(invoice.clients),
+      projectName: invoice.projects?.name || "Projekt",
+      periodFrom: invoice.period_from,
+      periodTo: invoice.period_to,
+      issueDate: invoice.issue_date,
+      deliveryDate: invoice.delivery_date,
+      dueDate: invoice.due_date,
+      lines,
+      subtotal: Number(invoice.subtotal),
+      vatAmount: Number(invoice.vat_amount),
+      isReverseCharge: invoice.is_reverse_charge,
+      iban: invoice.companies.iban,
+      signatureBase64: signatureBase64 ? `data:image/png;base64,${signatureBase64}` : null,
+    });
+  };
+
+  /**
+   * Bill the approved hours of a project between two dates (whole weeks) to its client.
+   */
+  const generateClientInvoice = async (projectId: string, periodFrom: string, periodTo: string): Promise<boolean> => {
+    setGenerating(true);
+    try {
+      const { data: project, error: projectError } = await supabase
+        .from("projects")
+        .select(`id, name, client_hourly_rate, clients(${CLIENT_COLUMNS})`)
+        .eq("id", projectId)
+        .single();
+      if (projectError) throw projectError;
+      const client = project.clients as Client | null;
+      const clientRate = Number(project.client_hourly_rate) || 0;
+      if (!client) throw new Error("Projekt nemá priradeného klienta.");
+      if (clientRate <= 0) throw new Error("Projekt nemá nastavenú sadzbu pre klienta.");
+
+      const { data: records, error: recordsError } = await supabase
+        .from("performance_records")
+        .select("id, date, user_id, project_id, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours")
+        .eq("project_id", projectId)
+        .eq("status", "approved")
+        .is("deleted_at", null)
+        .gte("date", periodFrom)
+        .lte("date", periodTo);
+      if (recordsError) throw recordsError;
+      if (!records || records.length === 0) throw new Error("V zvolenom období nie sú žiadne schválené hodiny.");
+
+      const surcharges = await clientSurcharges(projectId, records, clientRate, periodFrom, periodTo);
+      const lines = buildClientInvoiceLines(records, clientRate, surcharges);
+      const totals = clientInvoiceTotals(lines, client.is_reverse_charge);
+      const totalHours = records.reduce((sum, r) => sum + (Number(r.total_hours) || 0), 0);
+
+      const issueDate = new Date();
+      const deliveryDate = records.map((r) => r.date).sort()[records.length - 1];
+      const { data: created, error: createError } = await supabase.rpc("create_client_invoice", {
+        p_invoice: {
+          client_id: client.id,
+          project_id: projectId,
+          period_from: periodFrom,
+          period_to: periodTo,
+          issue_date: format(issueDate, "yyyy-MM-dd"),
+          delivery_date: deliveryDate,
+          due_date: format(addDays(issueDate, client.payment_terms_days), "yyyy-MM-dd"),
+          total_hours: Math.round(totalHours * 100) / 100,
+          hourly_rate: clientRate,
+          subtotal: totals.subtotal,
+          vat_amount: totals.vatAmount,
+          total_amount: totals.totalAmount,
+          is_reverse_charge: client.is_reverse_charge,
+        },
+        p_lines: lines.map((line, index) => ({
+          position: index + 1,
+          kind: line.kind,
+          description: line.description,
+          quantity: line.quantity,
+          unit_price: line.unitPrice,
+          amount: line.amount,
+        })),
+      });
+      if (createError) throw createError;
+      const invoiceNumber = created?.[0]?.invoice_number;
+
+      toast({ title: "Faktúra vystavená", description: `Faktúra ${invoiceNumber} pre ${client.name} bola vystavená.` });
+      await fetchInvoices();
+      return true;
+    } catch (error) {
+      console.error("Error generating client invoice:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa vystaviť faktúru",
+      });
+      return false;
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const setStatus = async (invoice: ClientInvoice, status: ClientInvoiceStatus) => {
+    const { error } = await supabase
+      .from("client_invoices")
+      .update({ status, paid_at: status === "paid" ? new Date().toISOString() : null })
+      .eq("id", invoice.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    await fetchInvoices();
+  };
+
+  return { invoices, loading, generating, generateClientInvoice, downloadPdf, setStatus, refetch: fetchInvoices };
+}
+
+/**
+ * Client revenue versus subcontractor cost per project for one year (by issue date).
+ */
+export function useProjectMargins(year: number) {
+  const { toast } = useToast();
+  const [margins, setMargins] = useState<ProjectMargin[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMargins = useCallback(async () => {
+    setLoading(true);
+    const from = `${year}-01-01`;
+    const to = `${year}-12-31`;
+    try {
+      const [projectsRes, revenueRes, costRes] = await Promise.all([
+        supabase.from("projects").select("id, name, client, clients(name)").is("deleted_at", null),
+        supabase
+          .from("client_invoices")
+          .select("project_id, subtotal")
+          .neq("status", "void")
+          .gte("issue_date", from)
+          .lte("issue_date", to),
+        supabase
+          .from("invoice_lines")
+          .select("project_id, amount, invoices!inner(status, issue_date, deleted_at)")
+          .neq("invoices.status", "void")
+          .is("invoices.deleted_at", null)
+          .gte("invoices.issue_date", from)
+          .lte("invoices.issue_date", to),
+      ]);
+      if (projectsRes.error) throw projectsRes.error;
+      if (revenueRes.error) throw revenueRes.error;
+      if (costRes.error) throw costRes.error;
+
+      setMargins(
+        calculateProjectMargins(
+          (projectsRes.data || []).map((p) => ({ id: p.id, name: p.name, clientName: p.clients?.name ?? p.client })),
+          (revenueRes.data || []).map((r) => ({ project_id: r.project_id, amount: Number(r.subtotal) })),
+          (costRes.data || []).map((c) => ({ project_id: c.project_id, amount: Number(c.amount) }))
+        )
+      );
+    } catch (error) {
+      console.error("Error loading project margins:", error);
+      toast({ variant: "destructive", title: "Chyba", description: "Nepodarilo sa načítať marže projektov" });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  useEffect(() => {
+    fetchMargins();
+  }, [fetchMargins]);
+
+  return { margins, loading, refetch: fetchMargins };
+}
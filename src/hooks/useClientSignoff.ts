@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  clientSignoffUrl,
+  parseClientSignoffSummary,
+  type ClientSignoff,
+  type ClientSignoffSummary,
+} from "@/lib/clientSignoff";
+
+/**
+ * Signing link of a project week for the client's site manager.
+ * An open link is reused; a week already signed cannot get a new one.
+ */
+export async function createClientSignoffLink(projectId: string, year: number, week: number): Promise<string> {
+  const { data, error } = await supabase.rpc("create_client_signoff_link", {
+    p_project_id: projectId,
+    p_year: year,
+    p_week: week,
+  });
+  if (error) throw new Error(`Nepodarilo sa vytvoriť odkaz na podpis: ${error.message}`);
+  return clientSignoffUrl(data);
+}
+
+export async function fetchClientSignoffSummary(token: string): Promise<ClientSignoffSummary> {
+  const { data, error } = await supabase.rpc("client_signoff_summary", { p_token: token });
+  if (error) throw new Error("Odkaz na podpis je neplatný alebo jeho platnosť vypršala.");
+  return parseClientSignoffSummary(data);
+}
+
+/** Refused when the week's hours changed since `summaryHash` was loaded */
+export async function submitClientSignoff(
+  token: string,
+  signerName: string,
+  signatureDataUrl: string,
+  summaryHash: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("submit_client_signoff", {
+    p_token: token,
+    p_signer_name: signerName,
+    p_signature: signatureDataUrl,
+    p_summary_hash: summaryHash,
+  });
+  if (error) throw new Error(`Podpis sa nepodarilo uložiť: ${error.message}`);
+  return data;
+}
+
+/**
+ * The client's signature of a project week for exports, or null while the
+ * week is not client-confirmed. Pass it through clientSignoffForRecords()
+ * before embedding it.
+ */
+export async function fetchWeekClientSignoff(
+  projectId: string | null | undefined,
+  year: number,
+  week: number
+): Promise<ClientSignoff | null> {
+  if (!projectId) return null;
+  const { data, error } = await supabase.rpc("week_client_signoff", {
+    p_project_id: projectId,
+    p_year: year,
+    p_week: week,
+  });
+  if (error) {
+    console.warn("Could not fetch client sign-off:", error);
+    return null;
+  }
+  const row = data?.[0];
+  if (!row) return null;
+  return {
+    signerName: row.signer_name,
+    signedAt: row.signed_at,
+    signatureBase64: row.signature_data,
+    summary: parseClientSignoffSummary(row.signed_summary),
+  };
+}
+
+export function useWeekClientSignoff(projectId: string | null | undefined, year: number, week: number) {
+  const [signoff, setSignoff] = useState<ClientSignoff | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+    setSignoff(await fetchWeekClientSignoff(projectId, year, week));
+    setLoading(false);
+  }, [projectId, year, week]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { signoff, loading, refetch };
+}
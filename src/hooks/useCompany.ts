@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { COMPANY_COLUMNS, type Company, type CompanyBranding, type CompanyInput } from "@/lib/company";
+
+export const COMPANY_ASSETS_BUCKET = "company-assets";
+
+/**
+ * The company the signed-in user currently works in (current_company_id()).
+ */
+export async function fetchCurrentCompany(): Promise<Company> {
+  const { data: companyId, error: idError } = await supabase.rpc("current_company_id");
+  if (idError) throw idError;
+  const { data, error } = await supabase.from("companies").select(COMPANY_COLUMNS).eq("id", companyId).single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * A file from the company-assets bucket as base64 (without the data: prefix).
+ */
+export async function downloadCompanyAssetBase64(path: string | null): Promise<string | null> {
+  if (!path) return null;
+  const { data, error } = await supabase.storage.from(COMPANY_ASSETS_BUCKET).download(path);
+  if (error || !data) {
+    console.warn("Could not download company asset:", error);
+    return null;
+  }
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1] ?? null);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(data);
+  });
+}
+
+/**
+ * Name and logo of the current company for exported documents. The default
+ * company without an uploaded logo keeps the logo bundled with the app.
+ */
+export async function fetchCompanyBranding(company?: Company): Promise<CompanyBranding> {
+  const current = company ?? (await fetchCurrentCompany());
+  if (!current.logo_path && current.is_default) return { name: current.name };
+  return { name: current.name, logoBase64: await downloadCompanyAssetBase64(current.logo_path) };
+}
+
+/**
+ * Current company, the companies the user may switch to, and editing of the current one.
+ */
+export function useCompany() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [company, setCompany] = useState<Company | null>(null);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCompanies = useCallback(async () => {
+    if (!user) {
+      setCompany(null);
+      setCompanies([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const [current, listRes] = await Promise.all([
+        fetchCurrentCompany(),
+        supabase.from("companies").select(COMPANY_COLUMNS).eq("is_active", true).order("name"),
+      ]);
+      if (listRes.error) throw listRes.error;
+      setCompany(current);
+      setCompanies(listRes.data || []);
+    } catch (error) {
+      console.error("Error loading companies:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchCompanies();
+  }, [fetchCompanies]);
+
+  /**
+   * Work in another company. RLS scopes every query to it, so the app reloads.
+   */
+  const switchCompany = async (companyId: string) => {
+    const { error } = await supabase.rpc("switch_company", { p_company_id: companyId });
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    window.location.reload();
+  };
+
+  const saveCompany = async (input: CompanyInput): Promise<boolean> => {
+    if (!company) return false;
+    setSaving(true);
+    const { error } = await supabase.from("companies").update(input).eq("id", company.id);
+    setSaving(false);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return false;
+    }
+    toast({ title: "Uložené", description: "Údaje spoločnosti boli uložené." });
+    await fetchCompanies();
+    return true;
+  };
+
+  /**
+   * Found a sister company (directors only); the director becomes its member.
+   */
+  const createCompany = async (input: CompanyInput): Promise<boolean> => {
+    setSaving(true);
+    const { error } = await supabase.from("companies").insert(input);
+    setSaving(false);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return false;
+    }
+    toast({ title: "Spoločnosť vytvorená", description: `${input.name} bola pridaná.` });
+    await fetchCompanies();
+    return true;
+  };
+
+  /**
+   * Store the logo or signature of the current company in company-assets.
+   */
+  const uploadAsset = async (kind: "logo" | "signature", file: File): Promise<boolean> => {
+    if (!company) return false;
+    const column = kind === "logo" ? "logo_path" : "signature_path";
+    const ext = file.name.split(".").pop() || "png";
+    const path = `${company.id}/${kind}.${ext}`;
+    try {
+      if (company[column] && company[column] !== path) {
+        await supabase.storage.from(COMPANY_ASSETS_BUCKET).remove([company[column] as string]);
+      }
+      const { error: uploadError } = await supabase.storage
+        .from(COMPANY_ASSETS_BUCKET)
+        .upload(path, file, { upsert: true });
+      if (uploadError) throw uploadError;
+      const { error } = await supabase.from("companies").update({ [column]: path }).eq("id", company.id);
+      if (error) throw error;
+      await fetchCompanies();
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba pri nahrávaní",
+        description: error instanceof Error ? error.message : "Súbor sa nepodarilo nahrať",
+      });
+      return false;
+    }
+  };
+
+  const removeAsset = async (kind: "logo" | "signature"): Promise<boolean> => {
+    if (!company) return false;
+    const column = kind === "logo" ? "logo_path" : "signature_path";
+    const path = company[column];
+    if (!path) return true;
+    await supabase.storage.from(COMPANY_ASSETS_BUCKET).remove([path]);
+    const { error } = await supabase.from("companies").update({ [column]: null }).eq("id", company.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return false;
+    }
+    await fetchCompanies();
+    return true;
+  };
+
+  return {
+    company,
+    companies,
+    loading,
+    saving,
+    switchCompany,
+    saveCompany,
+    createCompany,
+    uploadAsset,
+    removeAsset,
+    refetch: fetchCompanies,
+  };
+}
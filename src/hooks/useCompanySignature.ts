@@ -1,40 +1,14 @@
-import { supabase } from "@/integrations/supabase/client";
+import { downloadCompanyAssetBase64, fetchCurrentCompany } from "@/hooks/useCompany";
+import type { Company } from "@/lib/company";
 
 /**
- * Fetch the company signature as base64 for PDF embedding.
+ * Fetch the signature of the current (or given) company as base64 for PDF embedding.
  * Returns null if no signature is configured.
  */
-export async function getCompanySignatureBase64(): Promise<string | null> {
+export async function getCompanySignatureBase64(company?: Company): Promise<string | null> {
   try {
-    // Get the stored path
-    const { data: setting } = await supabase
-      .from("company_settings")
-      .select("value")
-      .eq("key", "company_signature_path")
-      .maybeSingle();
-
-    if (!setting?.value) return null;
-
-    // Download the file
-    const { data: fileData, error } = await supabase.storage
-      .from("company-assets")
-      .download(setting.value);
-
-    if (error || !fileData) {
-      console.warn("Could not download company signature:", error);
-      return null;
-    }
-
-    // Convert to base64
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = reader.result as string;
-        resolve(base64.split(",")[1]);
-      };
-      reader.onerror = () => resolve(null);
-      reader.readAsDataURL(fileData);
-    });
+    const { signature_path } = company ?? (await fetchCurrentCompany());
+    return await downloadCompanyAssetBase64(signature_path);
   } catch (err) {
     console.warn("Error fetching company signature:", err);
     return null;
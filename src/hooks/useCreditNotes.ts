@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { generateCreditNotePDF } from "@/lib/invoiceGenerator";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
+import { format } from "date-fns";
+
+export interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  invoice_id: string;
+  user_id: string;
+  issue_date: string;
+  reason: string;
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+}
+
+interface CreateCreditNoteParams {
+  invoiceId: string;
+  supplierUserId: string;
+  subtotal: number;
+  vatAmount: number;
+  reason: string;
+}
+
+/**
+ * Issue credit notes (dobropisy) against existing invoices and render their PDFs.
+ */
+export function useCreditNotes() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+
+  /**
+   * Render the PDF for a stored credit note with the supplier data of the original invoice.
+   */
+  const downloadCreditNotePDF = async (creditNote: CreditNote): Promise<void> => {
+    const { data: invoice, error: invoiceError } = await supabase
+      .from("invoices")
+      .select(`invoice_number, issue_date, supplier_snapshot, companies(${COMPANY_COLUMNS})`)
+      .eq("id", creditNote.invoice_id)
+      .single();
+
+    if (invoiceError || !invoice) throw new Error("Nepodarilo sa načítať pôvodnú faktúru");
+    const supplier = requireInvoiceSupplier(invoice.supplier_snapshot, invoice.invoice_number);
+
+    await generateCreditNotePDF({
+      creditNoteNumber: creditNote.credit_note_number,
+      issueDate: creditNote.issue_date,
+      reason: creditNote.reason,
+      invoiceNumber: invoice.invoice_number,
+      invoiceIssueDate: invoice.issue_date,
+      subtotal: creditNote.subtotal,
+      vatAmount: creditNote.vat_amount,
+      ...supplierInvoiceData(supplier),
+      customer: companyCustomerParty(invoice.companies),
+    });
+  };
+
+  /**
+   * Allocate a number from the "credit_note" series, save the credit note and download its PDF.
+   */
+  const createCreditNote = async ({
+    invoiceId,
+    supplierUserId,
+    subtotal,
+    vatAmount,
+    reason,
+  }: CreateCreditNoteParams): Promise<{ success: boolean }> => {
+    if (!user) return { success: false };
+
+    setCreating(true);
+    try {
+      const issueDate = new Date();
+      const { data: number, error: numberError } = await supabase.rpc("next_invoice_number", {
+        p_user_id: supplierUserId,
+        p_year: issueDate.getFullYear(),
+        p_series: "credit_note",
+      });
+      if (numberError || !number) {
+        throw new Error(`Nepodarilo sa prideliť číslo dobropisu: ${numberError?.message ?? "prázdna odpoveď"}`);
+      }
+
+      const { data: creditNote, error: insertError } = await supabase
+        .from("credit_notes")
+        .insert({
+          credit_note_number: number,
+          invoice_id: invoiceId,
+          user_id: supplierUserId,
+          issue_date: format(issueDate, "yyyy-MM-dd"),
+          reason: reason.trim(),
+          subtotal,
+          vat_amount: vatAmount,
+          total_amount: subtotal + vatAmount,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw new Error(`Nepodarilo sa uložiť dobropis: ${insertError.message}`);
+
+      await downloadCreditNotePDF(creditNote);
+
+      toast({
+        title: "Dobropis vystavený",
+        description: `Dobropis ${number} bol vytvorený a uložený do systému.`,
+      });
+      return { success: true };
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba pri vystavení dobropisu",
+        description: error instanceof Error ? error.message : "Nepodarilo sa vystaviť dobropis",
+      });
+      return { success: false };
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return {
+    createCreditNote,
+    downloadCreditNotePDF,
+    creating,
+  };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type DeductionKind = "advance" | "sanction";
+
+export interface OutstandingDeduction {
+  kind: DeductionKind;
+  id: string;
+  date: string;
+  description: string;
+  value: number;
+  settled: number;
+  outstanding: number;
+  /** Repayment plan of an advance: a fixed instalment or a share of each invoice */
+  instalment_amount: number | null;
+  instalment_percent: number | null;
+  repayment_starts_on: string | null;
+}
+
+export interface RepaymentPlan {
+  instalment_amount: number | null;
+  instalment_percent: number | null;
+  repayment_start_year: number | null;
+  repayment_start_week: number | null;
+}
+
+/** e.g. "300.00 € / faktúra od KW12/2026"; null when repaid in one go */
+export function repaymentPlanLabel(plan: RepaymentPlan): string | null {
+  const instalment = plan.instalment_amount != null
+    ? `${Number(plan.instalment_amount).toFixed(2)} € / faktúra`
+    : plan.instalment_percent != null
+      ? `${Number(plan.instalment_percent)} % faktúry`
+      : null;
+  const start = plan.repayment_start_week != null
+    ? `od KW${plan.repayment_start_week}/${plan.repayment_start_year}`
+    : null;
+  if (!instalment && !start) return null;
+  return [instalment ?? "jednorazovo", start].filter(Boolean).join(" ");
+}
+
+export interface SettledDeductions {
+  advanceDeduction: number;
+  sanctionsDeduction: number;
+  totalAmount: number;
+}
+
+/**
+ * Advances and sanctions of a supplier not yet paid off by an invoice.
+ * Sanctions in hours are valued at `hourlyRate` (the profile rate by default).
+ */
+export async function fetchOutstandingDeductions(
+  userId: string,
+  hourlyRate?: number
+): Promise<OutstandingDeduction[]> {
+  const { data, error } = await supabase.rpc("outstanding_deductions", {
+    p_user_id: userId,
+    p_hourly_rate: hourlyRate,
+  });
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, kind: row.kind as DeductionKind }));
+}
+
+export function useOutstandingDeductions(userId: string | null | undefined) {
+  const [deductions, setDeductions] = useState<OutstandingDeduction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    if (!userId) {
+      setDeductions([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setDeductions(await fetchOutstandingDeductions(userId));
+    } catch (error) {
+      console.error("Error loading outstanding deductions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const total = deductions.reduce((sum, d) => sum + Number(d.outstanding), 0);
+
+  return { deductions, total, loading, refetch };
+}
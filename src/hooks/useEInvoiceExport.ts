@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { InvoiceData } from "@/lib/invoiceGenerator";
+import { INVOICE_LINE_COLUMNS, fromInvoiceLineRows } from "@/lib/invoiceLines";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
+import { downloadEInvoice, E_INVOICE_FORMAT_LABELS, type EInvoiceFormat } from "@/lib/eInvoiceExport";
+
+/**
+ * Rebuild the InvoiceData the PDF was generated from, using the stored
+ * invoice record and the supplier data frozen on it.
+ */
+async function loadInvoiceData(invoiceId: string): Promise<InvoiceData> {
+  const { data: invoice, error: invError } = await supabase
+    .from("invoices")
+    .select(`*, weekly_closings(calendar_week, year), projects(name), invoice_lines(${INVOICE_LINE_COLUMNS}), companies(${COMPANY_COLUMNS})`)
+    .eq("id", invoiceId)
+    .single();
+  if (invError || !invoice) throw new Error("Nepodarilo sa načítať faktúru");
+
+  return {
+    invoiceNumber: invoice.invoice_number,
+    odberatelId: invoice.id,
+    ...supplierInvoiceData(requireInvoiceSupplier(invoice.supplier_snapshot, invoice.invoice_number)),
+    hourlyRate: invoice.hourly_rate,
+    isReverseCharge: invoice.is_reverse_charge ?? false,
+    projectName: invoice.projects?.name || "Projekt",
+    calendarWeek: invoice.weekly_closings?.calendar_week || 0,
+    year: invoice.weekly_closings?.year || new Date(invoice.issue_date).getFullYear(),
+    totalHours: invoice.total_hours,
+    ...fromInvoiceLineRows(invoice.invoice_lines),
+    advanceDeduction: invoice.advance_deduction ?? 0,
+    sanctionsDeduction: invoice.sanctions_deduction,
+    accommodationDeduction: invoice.accommodation_deduction ?? 0,
+    historicalIssueDate: invoice.issue_date,
+    historicalDeliveryDate: invoice.delivery_date,
+    historicalDueDate: invoice.due_date,
+    customer: companyCustomerParty(invoice.companies),
+  };
+}
+
+/**
+ * Export invoices as ISDOC or Peppol UBL XML for the accountant's software.
+ */
+export function useEInvoiceExport() {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const exportInvoices = async (invoiceIds: string[], exportFormat: EInvoiceFormat): Promise<void> => {
+    if (invoiceIds.length === 0) return;
+
+    setExporting(true);
+    let exported = 0;
+    try {
+      for (const invoiceId of invoiceIds) {
+        const data = await loadInvoiceData(invoiceId);
+        downloadEInvoice(data, exportFormat, invoiceId);
+        exported++;
+        // Browsers drop downloads fired in the same tick
+        if (invoiceIds.length > 1) await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+
+      toast({
+        title: "Export dokončený",
+        description: `${exported} ${exported === 1 ? "faktúra bola exportovaná" : "faktúr bolo exportovaných"} do formátu ${E_INVOICE_FORMAT_LABELS[exportFormat]}.`,
+      });
+    } catch (error) {
+      console.error("Error exporting e-invoice:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba pri exporte",
+        description: error instanceof Error ? error.message : "Nepodarilo sa exportovať faktúru",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return { exportInvoices, exporting };
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { CreditNote } from "@/hooks/useCreditNotes";
+import { parseInvoiceSupplier, type InvoiceSupplier } from "@/lib/invoiceSupplier";
 
 interface MetricsData {
   totalInvoiced: { count: number; amount: number };
@@ -14,6 +16,59 @@ interface MetricsData {
   accountedOverdue: { count: number; amount: number };
 }
 
+/** Part of an invoice's subtotal attributed to one project (from invoice_lines) */
+export interface InvoiceProjectShare {
+  project_id: string | null;
+  name: string | null;
+  client: string | null;
+  hours: number;
+  amount: number;
+}
+
+interface StoredInvoiceLine {
+  project_id: string | null;
+  kind: string;
+  quantity: number;
+  amount: number;
+  projects: { name: string; client: string } | null;
+}
+
+/**
+ * Sum the invoice lines per project; surcharges count towards their project
+ * but not towards its hours. Invoices without lines fall back to their project.
+ */
+function toProjectShares(
+  lines: StoredInvoiceLine[] | null,
+  fallback: { project_id: string | null; project: { name: string; client: string } | null; subtotal: number; total_hours: number }
+): InvoiceProjectShare[] {
+  if (!lines || lines.length === 0) {
+    return [
+      {
+        project_id: fallback.project_id,
+        name: fallback.project?.name ?? null,
+        client: fallback.project?.client ?? null,
+        hours: Number(fallback.total_hours) || 0,
+        amount: Number(fallback.subtotal) || 0,
+      },
+    ];
+  }
+  const byProject = new Map<string, InvoiceProjectShare>();
+  for (const line of lines) {
+    const key = line.project_id ?? "";
+    const share = byProject.get(key) ?? {
+      project_id: line.project_id,
+      name: line.projects?.name ?? null,
+      client: line.projects?.client ?? null,
+      hours: 0,
+      amount: 0,
+    };
+    if (line.kind === "work") share.hours += Number(line.quantity) || 0;
+    share.amount += Number(line.amount) || 0;
+    byProject.set(key, share);
+  }
+  return [...byProject.values()].sort((a, b) => b.amount - a.amount);
+}
+
 export interface Invoice {
   id: string;
   invoice_number: string;
@@ -21,6 +76,7 @@ export interface Invoice {
   user_id: string;
   project_id: string | null;
   total_amount: number;
+  vat_amount: number;
   issue_date: string;
   delivery_date: string;
   due_date: string;
@@ -31,9 +87,22 @@ export interface Invoice {
   tax_confirmed_at: string | null;
   tax_verified_at: string | null;
   advance_deduction: number;
+  /** Weekend/night/overtime surcharges, included in subtotal */
+  surcharge_amount: number;
   is_locked: boolean;
   locked_at: string | null;
   is_accounted: boolean;
+  /** PDF archived at issue time and its SHA-256 */
+  pdf_path: string | null;
+  pdf_sha256: string | null;
+  pdf_archived_at: string | null;
+  /** Supplier billing data as invoiced */
+  supplier: InvoiceSupplier | null;
+  /** Sum of credit note subtotals issued against this invoice */
+  credited_amount: number;
+  credit_notes: CreditNote[];
+  /** Subtotal split by project; a single entry unless the worker moved sites mid-week */
+  project_shares: InvoiceProjectShare[];
   calendar_week?: number;
   year?: number;
   profile?: {
@@ -85,8 +154,10 @@ export function useFinancialData() {
 
     // Total invoiced = ALL active invoices (excludes void)
     // Use subtotal (gross = total_hours × hourly_rate) for all display metrics
-    // This matches what appears on the invoice PDF the client sends to investors
-    const getDisplayAmount = (inv: Invoice) => safeNumber(inv.subtotal || inv.total_amount);
+    // This matches what appears on the invoice PDF the client sends to investors.
+    // Credit notes reduce the invoiced amount.
+    const getDisplayAmount = (inv: Invoice) =>
+      safeNumber(inv.subtotal || inv.total_amount) - safeNumber(inv.credited_amount);
 
     const totalInvoiced = {
       count: activeInvoices.length,
@@ -140,14 +211,19 @@ export function useFinancialData() {
     try {
       setLoading(true);
       
-      // Fetch invoices and active projects in parallel
-      const [{ data: invoiceData, error }, { data: projectData, error: projectError }] = await Promise.all([
+      // Fetch invoices, credit notes and active projects in parallel
+      const [
+        { data: invoiceData, error },
+        { data: projectData, error: projectError },
+        { data: creditNoteData, error: creditNoteError },
+      ] = await Promise.all([
         supabase
           .from("invoices")
           .select(`
             *,
             project:projects(name, client),
-            weekly_closings(calendar_week, year)
+            weekly_closings(calendar_week, year),
+            invoice_lines(project_id, kind, quantity, amount, projects(name, client))
           `)
           .is("deleted_at", null)
           .order("due_date", { ascending: true }),
@@ -157,38 +233,50 @@ export function useFinancialData() {
           .eq("is_active", true)
           .is("deleted_at", null)
           .order("name", { ascending: true }),
+        supabase
+          .from("credit_notes")
+          .select("id, credit_note_number, invoice_id, user_id, issue_date, reason, subtotal, vat_amount, total_amount")
+          .order("issue_date", { ascending: true }),
       ]);
 
       if (error) throw error;
       if (projectError) throw projectError;
+      if (creditNoteError) throw creditNoteError;
       setAllProjects(projectData || []);
+
+      const creditNotesByInvoice = new Map<string, CreditNote[]>();
+      for (const cn of creditNoteData || []) {
+        const list = creditNotesByInvoice.get(cn.invoice_id) || [];
+        list.push(cn);
+        creditNotesByInvoice.set(cn.invoice_id, list);
+      }
       
-      // Enrich with profile data (no FK relationship, so fetch separately)
-      const invoicesWithProfiles = await Promise.all(
-        (invoiceData || []).map(async (inv) => {
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("full_name, company_name")
-            .eq("user_id", inv.user_id)
-            .maybeSingle();
-          
-          return { 
-            ...inv, 
-            // Safe fallbacks for nullable fields
-            total_amount: inv.total_amount ?? 0,
-            transaction_tax_rate: inv.transaction_tax_rate ?? 0,
-            transaction_tax_amount: inv.transaction_tax_amount ?? 0,
-            advance_deduction: inv.advance_deduction ?? 0,
-            is_locked: inv.is_locked ?? false,
-            locked_at: inv.locked_at ?? null,
-            is_accounted: inv.is_accounted ?? false,
-            calendar_week: (inv as any).weekly_closings?.calendar_week ?? undefined,
-            year: (inv as any).weekly_closings?.year ?? undefined,
-            profile: profile || undefined,
-            project: inv.project || undefined 
-          } as Invoice;
-        })
-      );
+      // Supplier names come from the data frozen on each invoice
+      const invoicesWithProfiles = (invoiceData || []).map((inv) => {
+        const creditNotes = creditNotesByInvoice.get(inv.id) || [];
+        const supplier = parseInvoiceSupplier(inv.supplier_snapshot);
+
+        return { 
+          ...inv, 
+          // Safe fallbacks for nullable fields
+          total_amount: inv.total_amount ?? 0,
+          vat_amount: inv.vat_amount ?? 0,
+          transaction_tax_rate: inv.transaction_tax_rate ?? 0,
+          transaction_tax_amount: inv.transaction_tax_amount ?? 0,
+          advance_deduction: inv.advance_deduction ?? 0,
+          is_locked: inv.is_locked ?? false,
+          locked_at: inv.locked_at ?? null,
+          is_accounted: inv.is_accounted ?? false,
+          credit_notes: creditNotes,
+          credited_amount: creditNotes.reduce((sum, cn) => sum + Number(cn.subtotal || 0), 0),
+          project_shares: toProjectShares(inv.invoice_lines as StoredInvoiceLine[], inv),
+          calendar_week: (inv as any).weekly_closings?.calendar_week ?? undefined,
+          year: (inv as any).weekly_closings?.year ?? undefined,
+          supplier,
+          profile: supplier ? { full_name: supplier.full_name, company_name: supplier.company_name } : undefined,
+          project: inv.project || undefined 
+        } as Invoice;
+      });
       
       setInvoices(invoicesWithProfiles);
       setMetrics(calculateMetrics(invoicesWithProfiles));
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { downloadPdf, renderInvoicePDF, type InvoiceData } from "@/lib/invoiceGenerator";
+import {
+  archiveFilename,
+  archivePath,
+  invoiceSnapshot,
+  sha256Hex,
+  type ArchiveStatus,
+} from "@/lib/invoiceArchive";
+
+export const INVOICE_ARCHIVE_BUCKET = "invoice-archive";
+
+export const INVOICE_ARCHIVE_COLUMNS = "pdf_path, pdf_sha256, pdf_archived_at";
+
+export interface ArchivedInvoice {
+  id: string;
+  pdf_path: string | null;
+  pdf_sha256: string | null;
+}
+
+/**
+ * Render the invoice, store the PDF in the archive, record its hash and the
+ * supplier/customer snapshot on the invoice, then download it.
+ */
+export async function archiveAndDownloadInvoice(invoiceId: string, data: InvoiceData): Promise<void> {
+  const { blob, filename } = await renderInvoicePDF(data);
+  const sha256 = await sha256Hex(blob);
+  const path = archivePath(invoiceId, sha256, filename);
+
+  const { error: uploadError } = await supabase.storage
+    .from(INVOICE_ARCHIVE_BUCKET)
+    .upload(path, blob, { contentType: "application/pdf", upsert: false });
+  if (uploadError) {
+    throw new Error(`Nepodarilo sa archivovať PDF faktúry: ${uploadError.message}`);
+  }
+
+  const { error } = await supabase.rpc("archive_invoice_pdf", {
+    p_invoice_id: invoiceId,
+    p_path: path,
+    p_sha256: sha256,
+    p_snapshot: invoiceSnapshot(data) as unknown as Json,
+  });
+  if (error) {
+    throw new Error(`Nepodarilo sa zaznamenať archivované PDF: ${error.message}`);
+  }
+
+  downloadPdf(blob, filename);
+}
+
+async function fetchArchivedBlob(invoice: ArchivedInvoice): Promise<Blob | null> {
+  if (!invoice.pdf_path) return null;
+  const { data, error } = await supabase.storage.from(INVOICE_ARCHIVE_BUCKET).download(invoice.pdf_path);
+  if (error || !data) {
+    console.warn("Could not download archived invoice:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Compare the archived PDF with the hash recorded at issue time.
+ */
+export async function verifyInvoiceArchive(invoice: ArchivedInvoice): Promise<ArchiveStatus> {
+  if (!invoice.pdf_path || !invoice.pdf_sha256) return "not_archived";
+  const blob = await fetchArchivedBlob(invoice);
+  if (!blob) return "missing";
+  return (await sha256Hex(blob)) === invoice.pdf_sha256 ? "ok" : "mismatch";
+}
+
+/**
+ * Download an invoice PDF. Archived invoices come from the archive after an
+ * integrity check; older ones are rendered from `buildData` and archived now.
+ */
+export async function downloadInvoicePdf(
+  invoice: ArchivedInvoice,
+  buildData: () => Promise<InvoiceData>
+): Promise<void> {
+  if (!invoice.pdf_path || !invoice.pdf_sha256) {
+    await archiveAndDownloadInvoice(invoice.id, await buildData());
+    return;
+  }
+
+  const blob = await fetchArchivedBlob(invoice);
+  if (!blob) {
+    throw new Error("Archivované PDF faktúry sa nenašlo.");
+  }
+  if ((await sha256Hex(blob)) !== invoice.pdf_sha256) {
+    throw new Error("Archivované PDF nezodpovedá odtlačku zaznamenanému pri vystavení. Súbor mohol byť zmenený.");
+  }
+  downloadPdf(blob, archiveFilename(invoice.pdf_path));
+}
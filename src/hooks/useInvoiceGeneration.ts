@@ -1,11 +1,45 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json, TablesInsert } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { generateInvoicePDF, InvoiceData } from "@/lib/invoiceGenerator";
+import { InvoiceData, type InvoiceLine } from "@/lib/invoiceGenerator";
+import { fetchBillingProfile } from "@/hooks/useBillingProfile";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
+import { loadWeekRecords, surchargesForRecords } from "@/hooks/useSurchargeRules";
+import { totalSurcharge, type SurchargeLine } from "@/lib/surcharges";
+import { loadRateResolver } from "@/hooks/useRateHistory";
+import type { SettledDeductions } from "@/hooks/useDeductions";
+import { archiveAndDownloadInvoice } from "@/hooks/useInvoiceArchive";
+import { buildWorkLines, primaryProjectId, toInvoiceLineRows } from "@/lib/invoiceLines";
+import type { RateResolver } from "@/lib/rates";
 import { getISOWeekLocal, getISOWeekYear, getMondayAfterWeek } from "@/lib/dateUtils";
 import { addDays, format } from "date-fns";
 
+/**
+ * Save an invoice with its lines and deduct the supplier's outstanding
+ * advances and sanctions from it in one transaction (create_invoice RPC).
+ */
+async function createInvoice(
+  invoice: TablesInsert<"invoices">,
+  lines: ReturnType<typeof toInvoiceLineRows> = []
+): Promise<SettledDeductions & { invoiceId: string }> {
+  const { data, error } = await supabase.rpc("create_invoice", {
+    p_invoice: invoice as unknown as Json,
+    p_lines: lines as unknown as Json,
+  });
+  if (error || !data?.[0]) {
+    throw new Error(`Nepodarilo sa uložiť faktúru: ${error?.message ?? "prázdna odpoveď"}`);
+  }
+  return {
+    invoiceId: data[0].invoice_id,
+    advanceDeduction: Number(data[0].advance_deduction),
+    sanctionsDeduction: Number(data[0].sanctions_deduction),
+    totalAmount: Number(data[0].total_amount),
+  };
+}
+
 interface GenerateInvoiceParams {
   invoiceData: InvoiceData;
   projectId?: string | null;
@@ -31,57 +65,32 @@ export function useInvoiceGeneration() {
   };
 
   /**
-   * Check if a user is "Ing. Viktor Dolhý" (external project coordinator).
+   * Allocate the next invoice number from the server-side sequence.
+   * The `next_invoice_number` RPC increments a per-supplier counter atomically,
+   * so concurrent tabs or admins can never hand out the same number twice.
+   * The series comes from the supplier's billing profile, e.g.
+   * - "standard" series: YYYYNNN (7-digit, e.g. 2026001)
+   * - "retainer" series: YYYYNNNN (8-digit, e.g. 20260001) — isolated sequence
    */
-  const isViktorUser = (fullName: string): boolean => {
-    return fullName === "Ing. Viktor Dolhý";
-  };
-
-  /**
-   * Generate invoice number:
-   * - Standard users: YYYYNNN (7-digit, e.g. 2026001)
-   * - Viktor: YYYYNNNN (8-digit, e.g. 20260001) — isolated sequence
-   * Fetches ALL invoices for the user in the current year and finds the absolute max suffix.
-   */
-  const generateInvoiceNumber = async (viktorMode = false, targetUserId?: string): Promise<string> => {
+  const generateInvoiceNumber = async (
+    series: string,
+    year: number,
+    targetUserId?: string
+  ): Promise<string> => {
     const uid = targetUserId || user?.id;
     if (!uid) throw new Error("User not authenticated");
-    const year = new Date().getFullYear();
-    const prefix = String(year);
 
-    // Fetch ALL invoices for this user in the current year
-    const { data } = await supabase
-      .from("invoices")
-      .select("invoice_number")
-      .eq("user_id", uid)
-      .like("invoice_number", `${prefix}%`)
-      .is("deleted_at", null);
-
-    if (viktorMode) {
-      // Viktor: 8-digit sequence YYYYNNNN (e.g. 20260001)
-      let maxSeq = 0;
-      if (data && data.length > 0) {
-        for (const inv of data) {
-          const seqPart = parseInt(inv.invoice_number.slice(prefix.length), 10);
-          if (!isNaN(seqPart) && seqPart > maxSeq) maxSeq = seqPart;
-        }
-      }
-      return `${prefix}${String(maxSeq + 1).padStart(4, "0")}`;
-    }
+    const { data, error } = await supabase.rpc("next_invoice_number", {
+      p_user_id: uid,
+      p_year: year,
+      p_series: series,
+    });
 
-    // Standard users: 7-digit sequence YYYYNNN (e.g. 2026001)
-    // Only consider 7-char numbers (skip Viktor's 8-char ones)
-    let maxSeq = 0;
-    if (data && data.length > 0) {
-      for (const inv of data) {
-        if (inv.invoice_number.length === 7) {
-          const seqPart = parseInt(inv.invoice_number.slice(prefix.length), 10);
-          if (!isNaN(seqPart) && seqPart > maxSeq) maxSeq = seqPart;
-        }
-      }
+    if (error || !data) {
+      throw new Error(`Nepodarilo sa prideliť číslo faktúry: ${error?.message ?? "prázdna odpoveď"}`);
     }
 
-    return `${prefix}${String(maxSeq + 1).padStart(3, "0")}`;
+    return data;
   };
 
   /**
@@ -128,35 +137,74 @@ export function useInvoiceGeneration() {
         }
       }
 
+      // Billing profile drives numbering series, due date and pricing
+      const billing = await fetchBillingProfile(user.id);
+
+      const { data: closing } = weekClosingId
+        ? await supabase
+            .from("weekly_closings")
+            .select("user_id, calendar_week, year")
+            .eq("id", weekClosingId)
+            .single()
+        : { data: null };
+
+      // The week's records split the invoice by project and drive the surcharges
+      const weekRecords = closing
+        ? await loadWeekRecords(closing.user_id, closing.calendar_week, closing.year)
+        : [];
+
       // Calculate amounts
-      const totalHours = safeNumber(invoiceData.totalHours);
-      const hourlyRate = safeNumber(invoiceData.hourlyRate);
-      const baseAmount = totalHours * hourlyRate;
+      const totalHours = weekRecords.length > 0
+        ? weekRecords.reduce((sum, r) => sum + safeNumber(r.total_hours), 0)
+        : safeNumber(invoiceData.totalHours);
+      let hourlyRate = safeNumber(invoiceData.hourlyRate);
+      let rate: number | RateResolver = hourlyRate;
+      const fixedAmount = billing.mode === "fixed_wage" ? safeNumber(billing.retainer_amount) : undefined;
+      if (fixedAmount != null) {
+        // Flat amount per invoice; the rate is derived so the PDF lines add up
+        hourlyRate = totalHours > 0 ? Math.round((fixedAmount / totalHours) * 100) / 100 : fixedAmount;
+        rate = hourlyRate;
+      } else if (closing && weekRecords.length > 0) {
+        // Each record is priced at the rate effective on its date (rate_history);
+        // the invoice itself carries the rate of the last worked day
+        const rateOn = await loadRateResolver(closing.user_id, hourlyRate);
+        rate = rateOn;
+        hourlyRate = rateOn(weekRecords.map((r) => r.date).sort()[weekRecords.length - 1]);
+      }
+      const lines: InvoiceLine[] = weekRecords.length > 0
+        ? buildWorkLines(weekRecords, rate, fixedAmount)
+        : [{
+            projectId: projectId || null,
+            projectName: invoiceData.projectName,
+            hours: totalHours,
+            hourlyRate,
+            amount: fixedAmount ?? totalHours * hourlyRate,
+          }];
+
+      // Project surcharges (weekend, night, overtime) only apply to hourly billing
+      const surcharges: SurchargeLine[] = billing.mode === "hourly"
+        ? await surchargesForRecords(weekRecords, rate)
+        : [];
+      const surchargeAmount = totalSurcharge(surcharges);
+
+      const baseAmount = lines.reduce((sum, line) => sum + line.amount, 0) + surchargeAmount;
       const advanceDeduction = safeNumber(invoiceData.advanceDeduction);
-      
-      // Detect Viktor for custom numbering & due date
-      const viktorMode = isViktorUser(invoiceData.supplierName || "");
 
       // Calculate accommodation deduction from performance records
+      // (retainer contracts have accommodation settled outside the invoice)
       let accommodationDeduction = 0;
-      if (weekClosingId && !viktorMode) {
-        const { data: closing } = await supabase
-          .from("weekly_closings")
-          .select("user_id, calendar_week, year")
-          .eq("id", weekClosingId)
-          .single();
-
+      if (weekClosingId && billing.mode !== "fixed_retainer") {
         if (closing) {
-          const { data: weekRecords } = await supabase
+          const { data: accommodationRecords } = await supabase
             .from("performance_records")
             .select("accommodation_id, date")
             .eq("user_id", closing.user_id)
             .is("deleted_at", null)
             .not("accommodation_id", "is", null);
 
-          if (weekRecords && weekRecords.length > 0) {
+          if (accommodationRecords && accommodationRecords.length > 0) {
             // Filter to only this week's records
-            const thisWeekRecords = weekRecords.filter(rec => {
+            const thisWeekRecords = accommodationRecords.filter(rec => {
               const recDate = new Date(rec.date + "T12:00:00");
               return getISOWeekLocal(recDate) === closing.calendar_week && getISOWeekYear(recDate) === closing.year;
             });
@@ -176,6 +224,18 @@ export function useInvoiceGeneration() {
               }
             }
           }
+
+          // An override set during accommodation reconciliation wins over the entries
+          const { data: override } = await supabase
+            .from("accommodation_deduction_overrides")
+            .select("amount")
+            .eq("user_id", closing.user_id)
+            .eq("year", closing.year)
+            .eq("calendar_week", closing.calendar_week)
+            .maybeSingle();
+          if (override) {
+            accommodationDeduction = safeNumber(override.amount);
+          }
         }
       }
 
@@ -195,21 +255,24 @@ export function useInvoiceGeneration() {
       const deliveryDate = overrideDeliveryDate
         ? new Date(overrideDeliveryDate + "T12:00:00")
         : issueDate;
-      // Viktor: 7-day due date; Standard: 21-day due date
-      const dueDate = addDays(issueDate, viktorMode ? 7 : 21);
-      const invoiceNumber = await generateInvoiceNumber(viktorMode);
-
-      // 1. FIRST: Insert invoice record into database
-      const { data: newInvoice, error: insertError } = await supabase
-        .from("invoices")
-        .insert({
+      const dueDate = addDays(issueDate, billing.due_days);
+      const invoiceNumber = await generateInvoiceNumber(
+        billing.invoice_series,
+        issueDate.getFullYear()
+      );
+
+      // 1. FIRST: Save the invoice with its lines; open advances and sanctions
+      // are deducted up to the invoice amount in the same transaction
+      const settled = await createInvoice(
+        {
           invoice_number: invoiceNumber,
           user_id: user.id,
-          project_id: projectId || null,
+          project_id: projectId || primaryProjectId(lines),
           week_closing_id: weekClosingId || null,
           total_hours: totalHours,
           hourly_rate: hourlyRate,
           subtotal: baseAmount,
+          surcharge_amount: surchargeAmount,
           vat_amount: vatAmount,
           total_amount: totalAmount,
            advance_deduction: advanceDeduction,
@@ -222,30 +285,47 @@ export function useInvoiceGeneration() {
           transaction_tax_rate: 0.4, // Default transaction tax rate
           transaction_tax_amount: Math.ceil((totalAmount * 0.4) / 100 * 100) / 100,
           tax_payment_status: "pending",
-        })
-        .select()
+        },
+        toInvoiceLineRows(lines, surcharges)
+      );
+
+      const { data: newInvoice, error: loadError } = await supabase
+        .from("invoices")
+        .select(`supplier_snapshot, companies(${COMPANY_COLUMNS})`)
+        .eq("id", settled.invoiceId)
         .single();
 
-      if (insertError) {
-        throw new Error(`Nepodarilo sa uložiť faktúru: ${insertError.message}`);
+      if (loadError) {
+        throw new Error(`Nepodarilo sa načítať faktúru: ${loadError.message}`);
       }
 
-      // 2. THEN: Generate and download the PDF with historical dates from DB
-      await generateInvoicePDF({
+      // 2. THEN: Generate the PDF with historical dates from DB, archive and download it
+      await archiveAndDownloadInvoice(settled.invoiceId, {
         ...invoiceData,
+        // The supplier data frozen on the invoice by the database
+        ...supplierInvoiceData(requireInvoiceSupplier(newInvoice.supplier_snapshot, invoiceNumber)),
+        totalHours,
+        hourlyRate,
+        lines,
+        surcharges,
+        advanceDeduction: settled.advanceDeduction,
+        sanctionsDeduction: settled.sanctionsDeduction,
         invoiceNumber: invoiceNumber,
-        odberatelId: newInvoice.id,
+        odberatelId: settled.invoiceId,
         historicalIssueDate: format(issueDate, "yyyy-MM-dd"),
         historicalDeliveryDate: format(deliveryDate, "yyyy-MM-dd"),
         historicalDueDate: format(dueDate, "yyyy-MM-dd"),
+        customer: companyCustomerParty(newInvoice.companies),
       });
 
       toast({
         title: "Faktúra vygenerovaná",
-        description: `Faktúra ${invoiceNumber} bola vytvorená a uložená do systému.`,
+        description: settled.advanceDeduction + settled.sanctionsDeduction > 0
+          ? `Faktúra ${invoiceNumber} bola vytvorená, zrážky zo záloh a sankcií: ${(settled.advanceDeduction + settled.sanctionsDeduction).toFixed(2)} €.`
+          : `Faktúra ${invoiceNumber} bola vytvorená a uložená do systému.`,
       });
 
-      return { success: true, invoiceId: newInvoice.id };
+      return { success: true, invoiceId: settled.invoiceId };
     } catch (error: any) {
       console.error("Error generating invoice:", error);
       toast({
@@ -260,12 +340,13 @@ export function useInvoiceGeneration() {
   };
 
   /**
-   * Generate a fixed-fee retainer invoice for Viktor (50h / 1000€).
+   * Generate a fixed-fee retainer invoice for a supplier on a "fixed_retainer"
+   * billing profile. Hours, amount, series and due date come from the profile.
    * Also creates the weekly_closing record automatically.
-   * Uses Viktor's 8-digit numbering and 7-day due date.
    */
-  const generateViktorRetainer = async (
-    viktorUserId: string,
+  const generateRetainerInvoice = async (
+    retainerUserId: string,
+    supplierName: string,
     calendarWeek: number,
     year: number,
     projectId?: string
@@ -274,11 +355,18 @@ export function useInvoiceGeneration() {
 
     setGenerating(true);
     try {
+      const billing = await fetchBillingProfile(retainerUserId);
+      if (billing.mode !== "fixed_retainer") {
+        throw new Error(`${supplierName} nemá nastavený paušál vo fakturačnom profile.`);
+      }
+      const retainerHours = safeNumber(billing.retainer_hours);
+      const retainerAmount = safeNumber(billing.retainer_amount);
+
       // DUPLICATE CHECK: Prevent generating retainer twice for same user+week
       const { data: existingClosing } = await supabase
         .from("weekly_closings")
         .select("id")
-        .eq("user_id", viktorUserId)
+        .eq("user_id", retainerUserId)
         .eq("calendar_week", calendarWeek)
         .eq("year", year)
         .is("deleted_at", null)
@@ -289,7 +377,7 @@ export function useInvoiceGeneration() {
         const { data: existingInvoice } = await supabase
           .from("invoices")
           .select("id, invoice_number")
-          .eq("user_id", viktorUserId)
+          .eq("user_id", retainerUserId)
           .eq("week_closing_id", existingClosing[0].id)
           .is("deleted_at", null)
           .neq("status", "void")
@@ -309,7 +397,7 @@ export function useInvoiceGeneration() {
       const { data: closing, error: closingErr } = await supabase
         .from("weekly_closings")
         .insert({
-          user_id: viktorUserId,
+          user_id: retainerUserId,
           calendar_week: calendarWeek,
           year: year,
           status: "approved",
@@ -322,45 +410,41 @@ export function useInvoiceGeneration() {
 
       if (closingErr) throw new Error(closingErr.message);
 
-      // 2. Generate invoice with Viktor's 8-digit numbering
-      const invoiceNumber = await generateInvoiceNumber(true, viktorUserId);
+      // 2. Generate invoice in the profile's series
       // Smart date: Monday after the worked calendar week
       const issueDate = getMondayAfterWeek(calendarWeek, year);
-      const dueDate = addDays(issueDate, 7); // Viktor: 7-day due date
-
-      const { error: invErr } = await supabase
-        .from("invoices")
-        .insert({
-          invoice_number: invoiceNumber,
-          user_id: viktorUserId,
-          project_id: projectId || null,
-          week_closing_id: closing.id,
-          total_hours: 50,
-          hourly_rate: 20,
-          subtotal: 1000,
-          vat_amount: 0,
-          total_amount: 1000,
-          advance_deduction: 0,
-          issue_date: format(issueDate, "yyyy-MM-dd"),
-          delivery_date: format(issueDate, "yyyy-MM-dd"),
-          due_date: format(dueDate, "yyyy-MM-dd"),
-          status: "pending",
-          is_reverse_charge: false,
-          transaction_tax_rate: 0.4,
-          transaction_tax_amount: 400,
-          tax_payment_status: "pending",
-        });
-
-      if (invErr) throw new Error(invErr.message);
+      const invoiceNumber = await generateInvoiceNumber(billing.invoice_series, issueDate.getFullYear(), retainerUserId);
+      const dueDate = addDays(issueDate, billing.due_days);
+
+      await createInvoice({
+        invoice_number: invoiceNumber,
+        user_id: retainerUserId,
+        project_id: projectId || null,
+        week_closing_id: closing.id,
+        total_hours: retainerHours,
+        hourly_rate: Math.round((retainerAmount / retainerHours) * 100) / 100,
+        subtotal: retainerAmount,
+        vat_amount: 0,
+        total_amount: retainerAmount,
+        advance_deduction: 0,
+        issue_date: format(issueDate, "yyyy-MM-dd"),
+        delivery_date: format(issueDate, "yyyy-MM-dd"),
+        due_date: format(dueDate, "yyyy-MM-dd"),
+        status: "pending",
+        is_reverse_charge: false,
+        transaction_tax_rate: 0.4,
+        transaction_tax_amount: Math.ceil((retainerAmount * 0.4) / 100 * 100) / 100,
+        tax_payment_status: "pending",
+      });
 
       toast({
         title: "Paušál vygenerovaný",
-        description: `Faktúra ${invoiceNumber} pre Ing. Viktor Dolhý (KW${calendarWeek}) bola vytvorená.`,
+        description: `Faktúra ${invoiceNumber} pre ${supplierName} (KW${calendarWeek}) bola vytvorená.`,
       });
 
       return { success: true };
     } catch (error: any) {
-      console.error("Error generating Viktor retainer:", error);
+      console.error("Error generating retainer invoice:", error);
       toast({
         variant: "destructive",
         title: "Chyba",
@@ -406,9 +490,8 @@ export function useInvoiceGeneration() {
 
   return {
     generateAndSaveInvoice,
-    generateViktorRetainer,
+    generateRetainerInvoice,
     checkRetainerExists,
-    isViktorUser,
     generating,
   };
 }
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { geocodeAddress } from "@/lib/geocoding";
+import { parseLocalDate } from "@/lib/dateUtils";
+import {
+  findCapacityConflicts,
+  type GeoPoint,
+  type PlannableAccommodation,
+  type Stay,
+} from "@/lib/occupancy";
+import { addDays, format } from "date-fns";
+
+export interface PlannerStay extends Stay {
+  user_name: string;
+}
+
+/**
+ * Active bed assignments overlapping [from, to).
+ */
+export async function fetchStays(from: string, to: string, accommodationId?: string): Promise<Stay[]> {
+  let query = supabase
+    .from("accommodation_assignments")
+    .select("id, accommodation_id, user_id, check_in, check_out")
+    .is("deleted_at", null)
+    .lt("check_in", to)
+    .or(`check_out.is.null,check_out.gt.${from}`);
+  if (accommodationId) query = query.eq("accommodation_id", accommodationId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchPlannableAccommodations(): Promise<PlannableAccommodation[]> {
+  const { data, error } = await supabase
+    .from("accommodations")
+    .select("id, name, address, capacity, lat, lng")
+    .is("deleted_at", null)
+    .eq("is_active", true)
+    .order("name");
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Coordinates of a project site. Addresses are geocoded once and stored on the project.
+ */
+export async function resolveProjectLocation(projectId: string): Promise<GeoPoint | null> {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("id, address, location, lat, lng")
+    .eq("id", projectId)
+    .maybeSingle();
+  if (!project) return null;
+  if (project.lat != null && project.lng != null) return { lat: Number(project.lat), lng: Number(project.lng) };
+
+  const query = project.address || project.location;
+  if (!query) return null;
+
+  const point = await geocodeAddress(query);
+  if (point) {
+    await supabase.from("projects").update({ lat: point.lat, lng: point.lng }).eq("id", projectId);
+  }
+  return point;
+}
+
+/**
+ * Occupancy of all active accommodations for a window of `days` nights starting at `from`.
+ */
+export function useOccupancy(from: Date, days: number) {
+  const [accommodations, setAccommodations] = useState<PlannableAccommodation[]>([]);
+  const [stays, setStays] = useState<PlannerStay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fromStr = format(from, "yyyy-MM-dd");
+  const toStr = format(addDays(from, days), "yyyy-MM-dd");
+
+  const fetchOccupancy = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [accs, windowStays] = await Promise.all([
+        fetchPlannableAccommodations(),
+        fetchStays(fromStr, toStr),
+      ]);
+
+      const userIds = [...new Set(windowStays.map((s) => s.user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((p) => [p.user_id, p.full_name]));
+
+      setAccommodations(accs);
+      setStays(windowStays.map((s) => ({ ...s, user_name: names.get(s.user_id) || "Neznámy" })));
+    } catch (error) {
+      console.error("Error loading occupancy:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať obsadenosť ubytovaní",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fromStr, toStr, toast]);
+
+  useEffect(() => {
+    fetchOccupancy();
+  }, [fetchOccupancy]);
+
+  /**
+   * Move a stay's check-out. Refused when the longer stay would overbook the accommodation.
+   */
+  const changeCheckOut = async (stay: Stay, checkOut: string): Promise<boolean> => {
+    if (checkOut <= stay.check_in) return false;
+
+    try {
+      const accommodation = accommodations.find((a) => a.id === stay.accommodation_id);
+      const overlapping = await fetchStays(stay.check_in, checkOut, stay.accommodation_id);
+      const conflicts = findCapacityConflicts(
+        overlapping,
+        stay.accommodation_id,
+        accommodation?.capacity ?? null,
+        stay.check_in,
+        checkOut,
+        stay.id
+      );
+      if (conflicts.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Prekročená kapacita",
+          description: `${accommodation?.name ?? "Ubytovanie"} je ${format(parseLocalDate(conflicts[0].date), "d.M.")} plne obsadené (${conflicts[0].occupied}/${conflicts[0].capacity}).`,
+        });
+        return false;
+      }
+
+      const { error } = await supabase
+        .from("accommodation_assignments")
+        .update({ check_out: checkOut })
+        .eq("id", stay.id);
+      if (error) throw error;
+
+      toast({ title: "Pobyt upravený", description: `Nový check-out: ${format(parseLocalDate(checkOut), "d.M.yyyy")}` });
+      await fetchOccupancy();
+      return true;
+    } catch (error) {
+      console.error("Error changing stay:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa upraviť pobyt",
+      });
+      return false;
+    }
+  };
+
+  return {
+    accommodations,
+    stays,
+    loading,
+    changeCheckOut,
+    refetch: fetchOccupancy,
+  };
+}
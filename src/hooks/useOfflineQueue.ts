@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getISOWeekLocal, getISOWeekYear, parseLocalDate } from "@/lib/dateUtils";
+import {
+  isNetworkError,
+  listQueuedEntries,
+  putQueuedEntry,
+  removeQueuedEntry,
+  type OfflineRecordData,
+  type QueuedEntry,
+} from "@/lib/offlineQueue";
+import { DAILY_ENTRY_SYNC_MESSAGE, requestBackgroundSync } from "@/lib/serviceWorker";
+import { validateEntry } from "@/hooks/useTimesheetRules";
+
+export interface SaveRecordParams {
+  userId: string;
+  recordId: string | null;
+  /** Id of a new record; saving it again with the same id inserts it only once */
+  localId: string;
+  resetStatus: boolean;
+  data: OfflineRecordData;
+}
+
+/**
+ * The user's locked closing for the ISO week containing `date`, if any.
+ */
+export async function findLockedWeek(userId: string, date: string) {
+  const targetDate = parseLocalDate(date);
+  const week = getISOWeekLocal(targetDate);
+  const year = getISOWeekYear(targetDate);
+
+  const { data, error } = await supabase
+    .from("weekly_closings")
+    .select("id, status")
+    .eq("user_id", userId)
+    .eq("calendar_week", week)
+    .eq("year", year)
+    .eq("status", "locked")
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { week, year } : null;
+}
+
+/**
+ * Insert or update a daily entry. Editing a returned/rejected record moves it
+ * back to draft and reopens its weekly closing. A new record is inserted under
+ * `localId`, so a retry after a lost response or a second tab syncing the same
+ * entry does not create a duplicate.
+ */
+export async function savePerformanceRecord({ userId, recordId, localId, resetStatus, data }: SaveRecordParams) {
+  if (!recordId) {
+    const { error } = await supabase
+      .from("performance_records")
+      .upsert({ id: localId, user_id: userId, ...data, status: "draft" }, { onConflict: "id", ignoreDuplicates: true });
+    if (error) throw error;
+    return localId;
+  }
+
+  // The closing to reopen is the one of the record's date before the edit
+  const { data: current } = resetStatus
+    ? await supabase.from("performance_records").select("date").eq("id", recordId).maybeSingle()
+    : { data: null };
+
+  const updateData = resetStatus ? { ...data, status: "draft" as const } : data;
+  const { error } = await supabase.from("performance_records").update(updateData).eq("id", recordId);
+  if (error) throw error;
+
+  if (resetStatus) {
+    const recordDate = parseLocalDate(current?.date ?? data.date);
+    await supabase
+      .from("weekly_closings")
+      .update({ status: "open", return_comment: null })
+      .eq("user_id", userId)
+      .eq("calendar_week", getISOWeekLocal(recordDate))
+      .eq("year", getISOWeekYear(recordDate))
+      .eq("status", "returned");
+  }
+  return recordId;
+}
+
+/**
+ * Why a queued entry can no longer be saved as it is, or null when it can.
+ * Offline entries skipped the checks the form makes online, so they run here.
+ */
+async function findConflict(entry: QueuedEntry): Promise<string | null> {
+  const locked = await findLockedWeek(entry.userId, entry.data.date);
+  if (locked) {
+    return `Týždeň KW ${locked.week}/${locked.year} bol medzitým uzamknutý.`;
+  }
+
+  if (entry.recordId) {
+    const { data: record, error } = await supabase
+      .from("performance_records")
+      .select("status, deleted_at")
+      .eq("id", entry.recordId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!record || record.deleted_at) return "Upravovaný záznam medzitým niekto vymazal.";
+    if (record.status === "approved") return "Upravovaný záznam bol medzitým schválený.";
+  }
+
+  // Offline only the default rules were checked against the entry alone
+  const violations = await validateEntry(entry.userId, { ...entry.data, id: entry.recordId ?? entry.localId });
+  const blocking = violations.filter((v) => v.severity === "block");
+  if (blocking.length > 0) {
+    return `Záznam porušuje pravidlá projektu: ${blocking.map((v) => v.message).join(" • ")}`;
+  }
+  return null;
+}
+
+/**
+ * Daily entries saved on the device while offline, synced to performance_records
+ * when the connection returns (window `online` event or the service worker's Background Sync).
+ */
+export function useOfflineQueue(userId: string | undefined, onSynced?: () => void) {
+  const { toast } = useToast();
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const [entries, setEntries] = useState<QueuedEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  /** Records saved by a sync in this session, to badge them as synced */
+  const [syncedRecordIds, setSyncedRecordIds] = useState<Set<string>>(new Set());
+  const syncingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setEntries(await listQueuedEntries(userId));
+    } catch (error) {
+      console.error("Error reading offline queue:", error);
+    }
+  }, [userId]);
+
+  const sync = useCallback(async (): Promise<string[]> => {
+    if (!userId || syncingRef.current || !navigator.onLine) return [];
+    syncingRef.current = true;
+    setSyncing(true);
+
+    const savedIds: string[] = [];
+    let conflicts = 0;
+    try {
+      const pending = (await listQueuedEntries(userId)).filter((e) => e.status === "pending");
+      for (const entry of pending) {
+        try {
+          const conflict = await findConflict(entry);
+          if (conflict) {
+            await putQueuedEntry({ ...entry, status: "conflict", error: conflict });
+            conflicts++;
+            continue;
+          }
+          savedIds.push(await savePerformanceRecord(entry));
+          await removeQueuedEntry(entry.localId);
+        } catch (error) {
+          // Lost the connection again: keep the rest pending for the next attempt
+          if (isNetworkError(error as { message?: string })) break;
+          await putQueuedEntry({
+            ...entry,
+            status: "conflict",
+            error: (error as { message?: string })?.message || "Server záznam odmietol.",
+          });
+          conflicts++;
+        }
+      }
+    } catch (error) {
+      console.error("Error syncing offline entries:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+
+    if (savedIds.length > 0) {
+      setSyncedRecordIds((prev) => new Set([...prev, ...savedIds]));
+      onSyncedRef.current?.();
+      toast({ title: "Synchronizované", description: `Offline záznamy odoslané: ${savedIds.length}` });
+    }
+    if (conflicts > 0) {
+      toast({
+        variant: "destructive",
+        title: "Konflikt pri synchronizácii",
+        description: `${conflicts} offline záznam(y) nebolo možné uložiť – skontrolujte ich.`,
+      });
+    }
+    await refresh();
+    return savedIds;
+  }, [userId, toast, refresh]);
+
+  /** `localId` continues a save whose response was lost, so the record keeps its id */
+  const enqueue = async (
+    entry: Omit<QueuedEntry, "localId" | "userId" | "status" | "error" | "createdAt"> & { localId?: string }
+  ) => {
+    if (!userId) return;
+    await putQueuedEntry({
+      ...entry,
+      localId: entry.localId ?? crypto.randomUUID(),
+      userId,
+      status: "pending",
+      error: null,
+      createdAt: new Date().toISOString(),
+    });
+    await refresh();
+    requestBackgroundSync();
+  };
+
+  /** Send a conflicting entry again, e.g. after an admin unlocked the week */
+  const retry = async (entry: QueuedEntry) => {
+    await putQueuedEntry({ ...entry, status: "pending", error: null });
+    await refresh();
+    return sync();
+  };
+
+  const discard = async (localId: string) => {
+    await removeQueuedEntry(localId);
+    await refresh();
+  };
+
+  useEffect(() => {
+    refresh().then(() => sync());
+  }, [refresh, sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === DAILY_ENTRY_SYNC_MESSAGE) sync();
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [sync]);
+
+  return {
+    entries,
+    isOnline,
+    syncing,
+    syncedRecordIds,
+    enqueue,
+    sync,
+    retry,
+    discard,
+  };
+}
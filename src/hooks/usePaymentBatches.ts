@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchCurrentCompany } from "@/hooks/useCompany";
+import type { Invoice } from "@/hooks/useFinancialData";
+import { downloadPain001, isValidBic, isValidIban, normalizeIban, type SepaBatch } from "@/lib/sepaExport";
+
+export type PaymentBatchStatus = "exported" | "executed" | "cancelled";
+
+export interface PaymentBatchItem {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  creditor_name: string;
+  creditor_iban: string;
+  creditor_bic: string | null;
+  remittance_info: string;
+}
+
+export interface PaymentBatch {
+  id: string;
+  message_id: string;
+  status: PaymentBatchStatus;
+  requested_execution_date: string;
+  debtor_name: string;
+  debtor_iban: string;
+  debtor_bic: string | null;
+  total_amount: number;
+  item_count: number;
+  created_at: string;
+  executed_at: string | null;
+  items: PaymentBatchItem[];
+}
+
+export interface CreditorAccount {
+  user_id: string;
+  full_name: string;
+  company_name: string | null;
+  iban: string | null;
+  swift_bic: string | null;
+}
+
+export interface DebtorAccount {
+  /** Company the account belongs to */
+  companyId?: string;
+  name: string;
+  iban: string;
+  bic: string;
+}
+
+/**
+ * Amount still owed on an invoice after credit notes.
+ */
+export function getPayableAmount(invoice: Invoice): number {
+  const credited = invoice.credit_notes.reduce((sum, cn) => sum + Number(cn.total_amount || 0), 0);
+  return Math.round((Number(invoice.total_amount || 0) - credited) * 100) / 100;
+}
+
+/**
+ * Check a supplier's bank details for a SEPA transfer. BIC is optional
+ * for SEPA but must be well-formed when filled in.
+ */
+export function getCreditorAccountError(account: CreditorAccount | undefined): string | null {
+  if (!account?.iban) return "Chýba IBAN";
+  if (!isValidIban(account.iban)) return "Neplatný IBAN";
+  if (account.swift_bic && !isValidBic(account.swift_bic)) return "Neplatný BIC";
+  return null;
+}
+
+type SepaBatchHeader = Pick<
+  PaymentBatch,
+  "message_id" | "created_at" | "requested_execution_date" | "debtor_name" | "debtor_iban" | "debtor_bic"
+>;
+
+function toSepaBatch(batch: SepaBatchHeader, items: Omit<PaymentBatchItem, "id">[]): SepaBatch {
+  return {
+    messageId: batch.message_id,
+    createdAt: new Date(batch.created_at),
+    requestedExecutionDate: batch.requested_execution_date,
+    debtorName: batch.debtor_name,
+    debtorIban: batch.debtor_iban,
+    debtorBic: batch.debtor_bic,
+    payments: items.map((item) => ({
+      endToEndId: item.remittance_info,
+      amount: Number(item.amount),
+      creditorName: item.creditor_name,
+      creditorIban: item.creditor_iban,
+      creditorBic: item.creditor_bic,
+      remittanceInfo: item.remittance_info,
+    })),
+  };
+}
+
+/**
+ * SEPA payment batches: export unpaid invoices as pain.001 and mark them
+ * paid together once the bank has executed the batch.
+ */
+export function usePaymentBatches() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [batches, setBatches] = useState<PaymentBatch[]>([]);
+  const [creditors, setCreditors] = useState<Record<string, CreditorAccount>>({});
+  const [defaultDebtor, setDefaultDebtor] = useState<DebtorAccount>({ name: "", iban: "", bic: "" });
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [batchesResult, profilesResult, company] = await Promise.all([
+        supabase
+          .from("payment_batches")
+          .select("*, payment_batch_items(*)")
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("profiles")
+          .select("user_id, full_name, company_name, iban, swift_bic"),
+        fetchCurrentCompany(),
+      ]);
+
+      if (batchesResult.error) throw batchesResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      setBatches(
+        (batchesResult.data || []).map(({ payment_batch_items, ...batch }) => ({
+          ...batch,
+          items: payment_batch_items || [],
+        }))
+      );
+      setCreditors(Object.fromEntries((profilesResult.data || []).map((p) => [p.user_id, p])));
+
+      // The paying company's own account
+      setDefaultDebtor({
+        companyId: company.id,
+        name: company.name,
+        iban: company.iban || "",
+        bic: company.swift_bic || "",
+      });
+    } catch (error) {
+      console.error("Error loading payment batches:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa načítať platobné dávky",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  /**
+   * Persist the debtor account as the company's bank account for the next batch.
+   * Only admins may update the company; the payer name stays the company name.
+   */
+  const saveDefaultDebtor = async (debtor: DebtorAccount): Promise<void> => {
+    const { error } = await supabase
+      .from("companies")
+      .update({
+        iban: normalizeIban(debtor.iban),
+        swift_bic: debtor.bic.replace(/\s/g, "").toUpperCase() || null,
+      })
+      .eq("id", defaultDebtor.companyId);
+    if (error) throw new Error(`Nepodarilo sa uložiť účet platiteľa: ${error.message}`);
+    setDefaultDebtor({ ...debtor, companyId: defaultDebtor.companyId });
+  };
+
+  /**
+   * Validate the selected invoices, record the batch and download its pain.001 XML.
+   */
+  const createBatch = async (
+    invoices: Invoice[],
+    debtor: DebtorAccount,
+    executionDate: string
+  ): Promise<{ success: boolean }> => {
+    if (!user || invoices.length === 0) return { success: false };
+
+    setProcessing(true);
+    try {
+      if (!debtor.name.trim()) throw new Error("Zadajte názov platiteľa");
+      if (!isValidIban(debtor.iban)) throw new Error("IBAN platiteľa je neplatný");
+      if (debtor.bic && !isValidBic(debtor.bic)) throw new Error("BIC platiteľa je neplatný");
+
+      const problems: string[] = [];
+      const items = invoices.map((invoice) => {
+        const account = creditors[invoice.user_id];
+        const accountError = getCreditorAccountError(account);
+        const amount = getPayableAmount(invoice);
+        if (accountError) problems.push(`${invoice.invoice_number}: ${accountError}`);
+        else if (amount <= 0) problems.push(`${invoice.invoice_number}: nulová suma na úhradu`);
+
+        return {
+          invoice_id: invoice.id,
+          amount,
+          creditor_name: account?.company_name || account?.full_name || invoice.profile?.full_name || "",
+          creditor_iban: normalizeIban(account?.iban),
+          creditor_bic: account?.swift_bic ? account.swift_bic.replace(/\s/g, "").toUpperCase() : null,
+          remittance_info: invoice.invoice_number,
+        };
+      });
+      if (problems.length > 0) throw new Error(problems.join(", "));
+
+      const batchHeader = {
+        requested_execution_date: executionDate,
+        debtor_name: debtor.name.trim(),
+        debtor_iban: normalizeIban(debtor.iban),
+        debtor_bic: debtor.bic ? debtor.bic.replace(/\s/g, "").toUpperCase() : null,
+      };
+      const totalAmount = Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+      // Header and items are written together; the message id is assigned by the database
+      const { data, error: batchError } = await supabase.rpc("create_payment_batch", {
+        p_batch: batchHeader,
+        p_items: items,
+      });
+      if (batchError || !data?.[0]) {
+        throw new Error(`Nepodarilo sa uložiť dávku: ${batchError?.message ?? "prázdna odpoveď"}`);
+      }
+      const batch = {
+        ...batchHeader,
+        message_id: data[0].message_id,
+        created_at: data[0].created_at,
+      };
+
+      downloadPain001(toSepaBatch(batch, items));
+
+      toast({
+        title: "Platobná dávka vytvorená",
+        description: `${items.length} platieb v celkovej sume ${totalAmount.toFixed(2)} € bolo exportovaných.`,
+      });
+      await fetchBatches();
+      return { success: true };
+    } catch (error) {
+      console.error("Error creating payment batch:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba pri vytvorení dávky",
+        description: error instanceof Error ? error.message : "Nepodarilo sa vytvoriť platobnú dávku",
+      });
+      return { success: false };
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const downloadBatch = (batch: PaymentBatch) => {
+    downloadPain001(toSepaBatch(batch, batch.items));
+  };
+
+  /**
+   * Mark every invoice in the batch as paid on the given date.
+   */
+  const markBatchExecuted = async (batchId: string, paidAt: Date): Promise<{ success: boolean }> => {
+    setProcessing(true);
+    try {
+      const { data: count, error } = await supabase.rpc("mark_payment_batch_executed", {
+        p_batch_id: batchId,
+        p_paid_at: paidAt.toISOString(),
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Dávka vykonaná",
+        description: `${count ?? 0} faktúr bolo označených ako uhradené.`,
+      });
+      await fetchBatches();
+      return { success: true };
+    } catch (error) {
+      console.error("Error executing payment batch:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa označiť dávku ako vykonanú",
+      });
+      return { success: false };
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * Cancel an exported batch so its invoices can be paid another way.
+   */
+  const cancelBatch = async (batchId: string): Promise<void> => {
+    setProcessing(true);
+    try {
+      const { error } = await supabase
+        .from("payment_batches")
+        .update({ status: "cancelled" as const })
+        .eq("id", batchId)
+        .eq("status", "exported");
+      if (error) throw error;
+
+      toast({
+        title: "Dávka zrušená",
+        description: "Faktúry z dávky je možné zaradiť do novej dávky.",
+      });
+      await fetchBatches();
+    } catch (error) {
+      console.error("Error cancelling payment batch:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: "Nepodarilo sa zrušiť dávku",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return {
+    batches,
+    creditors,
+    defaultDebtor,
+    loading,
+    processing,
+    createBatch,
+    downloadBatch,
+    markBatchExecuted,
+    cancelBatch,
+    saveDefaultDebtor,
+    refetch: fetchBatches,
+  };
+}
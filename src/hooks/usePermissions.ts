@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { AppRole } from "@/hooks/useUserRole";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppPermission = Database["public"]["Enums"]["app_permission"];
+
+export const PERMISSION_LABELS: Record<AppPermission, string> = {
+  approve_weeks: "Schvaľovanie týždňov",
+  lock_weeks: "Uzatváranie týždňov",
+  manage_invoices: "Správa faktúr",
+  manage_payments: "Platby a dávky",
+  view_financials: "Finančný prehľad",
+  view_rates: "Zobrazenie sadzieb",
+  manage_projects: "Správa projektov",
+  manage_accommodations: "Správa ubytovania",
+  manage_equipment: "Evidencia náradia",
+  manage_sanctions: "Sankcie",
+  manage_users: "Správa používateľov",
+  view_audit_log: "História zmien",
+  manage_settings: "Administrácia",
+};
+
+export const PERMISSIONS = Object.keys(PERMISSION_LABELS) as AppPermission[];
+
+/**
+ * Permissions of the signed-in user: those of their role plus individual grants.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<Set<AppPermission>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchPermissions() {
+      if (!user) {
+        setPermissions(new Set());
+        setLoading(false);
+        return;
+      }
+
+      const { data, error } = await supabase.rpc("current_user_permissions");
+      if (error) {
+        console.error("Error fetching permissions:", error);
+        setPermissions(new Set());
+      } else {
+        setPermissions(new Set(data || []));
+      }
+      setLoading(false);
+    }
+
+    fetchPermissions();
+  }, [user]);
+
+  const can = useCallback((permission: AppPermission) => permissions.has(permission), [permissions]);
+
+  return { permissions, loading, can };
+}
+
+/**
+ * The role → permission matrix for the administration.
+ */
+export function useRolePermissions() {
+  const { toast } = useToast();
+  const [grants, setGrants] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const fetchGrants = useCallback(async () => {
+    const { data, error } = await supabase.from("role_permissions").select("role, permission");
+    if (error) {
+      console.error("Error fetching role permissions:", error);
+    } else {
+      setGrants(new Set((data || []).map((g) => `${g.role}:${g.permission}`)));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchGrants();
+  }, [fetchGrants]);
+
+  const hasGrant = (role: AppRole, permission: AppPermission) => grants.has(`${role}:${permission}`);
+
+  const setGrant = async (role: AppRole, permission: AppPermission, granted: boolean) => {
+    const { error } = granted
+      ? await supabase.from("role_permissions").insert({ role, permission })
+      : await supabase.from("role_permissions").delete().eq("role", role).eq("permission", permission);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    await fetchGrants();
+  };
+
+  return { loading, hasGrant, setGrant };
+}
+
+/**
+ * Permissions granted to one user on top of their role.
+ */
+export function useUserPermissions(userId: string | null) {
+  const { toast } = useToast();
+  const [granted, setGranted] = useState<Set<AppPermission>>(new Set());
+
+  const fetchGranted = useCallback(async () => {
+    if (!userId) return;
+    const { data, error } = await supabase.from("user_permissions").select("permission").eq("user_id", userId);
+    if (error) {
+      console.error("Error fetching user permissions:", error);
+      return;
+    }
+    setGranted(new Set((data || []).map((g) => g.permission)));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchGranted();
+  }, [fetchGranted]);
+
+  const setPermission = async (permission: AppPermission, grant: boolean) => {
+    if (!userId) return;
+    const { error } = grant
+      ? await supabase.from("user_permissions").insert({ user_id: userId, permission })
+      : await supabase.from("user_permissions").delete().eq("user_id", userId).eq("permission", permission);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    await fetchGranted();
+  };
+
+  return { granted, setPermission };
+}
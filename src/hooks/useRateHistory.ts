@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { rateAffectsInvoice, rateResolver, type RatePeriod, type RateResolver } from "@/lib/rates";
+
+export interface RateHistoryEntry extends RatePeriod {
+  id: string;
+  created_at: string;
+}
+
+export interface AffectedInvoice {
+  id: string;
+  invoice_number: string;
+  issue_date: string;
+}
+
+/**
+ * A worker's rate_history rows, oldest first.
+ */
+export async function loadRatePeriods(userId: string): Promise<RatePeriod[]> {
+  const { data, error } = await supabase
+    .from("rate_history")
+    .select("id, rate, valid_from, valid_to")
+    .eq("user_id", userId)
+    .order("valid_from", { ascending: true });
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, rate: Number(row.rate) }));
+}
+
+/**
+ * Date-aware rate lookup for a worker, falling back to the profile rate.
+ */
+export async function loadRateResolver(userId: string, fallbackRate: number): Promise<RateResolver> {
+  return rateResolver(await loadRatePeriods(userId), fallbackRate);
+}
+
+/**
+ * Issued (not voided) invoices of the worker whose billed week overlaps the rate's validity,
+ * i.e. the invoices a backdated rate change would have priced differently.
+ */
+export async function findInvoicesAffectedByRate(
+  userId: string,
+  rate: Pick<RatePeriod, "valid_from" | "valid_to">
+): Promise<AffectedInvoice[]> {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("id, invoice_number, issue_date, delivery_date, weekly_closings(calendar_week, year)")
+    .eq("user_id", userId)
+    .neq("status", "void")
+    .is("deleted_at", null)
+    // The delivery date is the last worked day, so earlier invoices have no hours at this rate
+    .gte("delivery_date", rate.valid_from)
+    .order("issue_date");
+  if (error) throw error;
+
+  return (data || [])
+    .filter((invoice) => rateAffectsInvoice(rate, invoice))
+    .map(({ id, invoice_number, issue_date }) => ({ id, invoice_number, issue_date }));
+}
+
+/**
+ * A worker's rate history, newest first, for the employee detail.
+ */
+export function useRateHistory(userId: string | null, enabled = true) {
+  const [rateHistory, setRateHistory] = useState<RateHistoryEntry[]>([]);
+
+  const refetch = useCallback(async () => {
+    if (!userId) return;
+    const { data } = await supabase
+      .from("rate_history")
+      .select("id, rate, valid_from, valid_to, created_at")
+      .eq("user_id", userId)
+      .order("valid_from", { ascending: false });
+    setRateHistory((data || []).map((row) => ({ ...row, rate: Number(row.rate) })));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+    refetch();
+  }, [enabled, userId, refetch]);
+
+  return { rateHistory, refetch };
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { getDevicePosition, type DevicePosition, type Geofence } from "@/lib/geofence";
+import { hasBlockingViolation, NEW_ENTRY_ID } from "@/lib/timesheetRules";
+import { findLockedWeek } from "@/hooks/useOfflineQueue";
+import { validateEntry } from "@/hooks/useTimesheetRules";
+
+export interface ShiftSession {
+  id: string;
+  project_id: string;
+  accommodation_id: string | null;
+  started_at: string;
+  start_distance_m: number | null;
+  start_accuracy_m: number | null;
+  outside_geofence: boolean;
+  /** Set when the worker started without a location fix */
+  start_lat: number | null;
+}
+
+export interface ClockProject extends Geofence {
+  id: string;
+  name: string;
+}
+
+export interface ShiftBreaks {
+  breakStart: string;
+  breakEnd: string;
+  break2Start: string;
+  break2End: string;
+}
+
+const SHIFT_COLUMNS =
+  "id, project_id, accommodation_id, started_at, start_distance_m, start_accuracy_m, outside_geofence, start_lat";
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/** Worked hours between the two taps minus the breaks, rounded to 0.01 h */
+function shiftHours(startedAt: Date, endedAt: Date, breaks: ShiftBreaks): number {
+  let minutes = (endedAt.getTime() - startedAt.getTime()) / 60000;
+  for (const [from, to] of [
+    [breaks.breakStart, breaks.breakEnd],
+    [breaks.break2Start, breaks.break2End],
+  ]) {
+    if (from && to) minutes -= Math.max(0, toMinutes(to) - toMinutes(from));
+  }
+  return Math.max(0, Math.round((minutes / 60) * 100) / 100);
+}
+
+/** Location for a tap; the shift is still recorded without one, but flagged if the project is fenced */
+async function locate(): Promise<{ position: DevicePosition | null; error: string | null }> {
+  try {
+    return { position: await getDevicePosition(), error: null };
+  } catch (error) {
+    return { position: null, error: error instanceof Error ? error.message : "Polohu sa nepodarilo určiť" };
+  }
+}
+
+/**
+ * "Start shift / End shift" clocking. The database checks the device location
+ * against the project's geofence, and ending a shift creates the
+ * performance_records row in the same transaction.
+ */
+export function useShiftClock(userId: string | undefined) {
+  const { toast } = useToast();
+  const [activeShift, setActiveShift] = useState<ShiftSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const fetchActiveShift = useCallback(async () => {
+    if (!userId || !navigator.onLine) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("shift_sessions")
+        .select(SHIFT_COLUMNS)
+        .eq("user_id", userId)
+        .is("ended_at", null)
+        .maybeSingle();
+      if (error) throw error;
+      setActiveShift(data);
+    } catch (error) {
+      console.error("Error loading active shift:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchActiveShift();
+  }, [fetchActiveShift]);
+
+  const startShift = async (project: ClockProject, accommodationId: string | null) => {
+    if (!userId) return false;
+    setProcessing(true);
+    try {
+      const { position, error: locationError } = await locate();
+
+      // The database measures the distance and sets the geofence flag
+      const { data: sessionId, error: startError } = await supabase.rpc("start_shift", {
+        p_project_id: project.id,
+        p_accommodation_id: accommodationId,
+        p_lat: position?.lat ?? null,
+        p_lng: position?.lng ?? null,
+        p_accuracy_m: position?.accuracy ?? null,
+      });
+      if (startError) throw startError;
+
+      const { data, error } = await supabase
+        .from("shift_sessions")
+        .select(SHIFT_COLUMNS)
+        .eq("id", sessionId)
+        .single();
+      if (error) throw error;
+
+      setActiveShift(data);
+      toast(
+        data.outside_geofence
+          ? {
+              variant: "destructive",
+              title: "Smena začatá mimo staveniska",
+              description: locationError ?? "Záznam bude pri schvaľovaní označený.",
+            }
+          : { title: "Smena začatá", description: `Príchod ${format(new Date(data.started_at), "HH:mm")}` }
+      );
+      return true;
+    } catch (error) {
+      console.error("Error starting shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Smenu sa nepodarilo začať",
+      });
+      return false;
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * Clock out and turn the shift into a draft performance record. The record
+   * goes through the same locked-week and project rule checks as a daily entry.
+   */
+  const endShift = async (breaks: ShiftBreaks, note: string) => {
+    if (!userId || !activeShift) return false;
+    setProcessing(true);
+    try {
+      const startedAt = new Date(activeShift.started_at);
+      const endedAt = new Date();
+      const record = {
+        date: format(startedAt, "yyyy-MM-dd"),
+        time_from: format(startedAt, "HH:mm"),
+        time_to: format(endedAt, "HH:mm"),
+        break_start: breaks.breakStart || null,
+        break_end: breaks.breakEnd || null,
+        break2_start: breaks.break2Start || null,
+        break2_end: breaks.break2End || null,
+        total_hours: shiftHours(startedAt, endedAt, breaks),
+        note: note || null,
+      };
+
+      const locked = await findLockedWeek(userId, record.date);
+      if (locked) {
+        toast({
+          variant: "destructive",
+          title: "Uzamknutý týždeň",
+          description: `Týždeň KW ${locked.week}/${locked.year} je už uzavretý. Smenu nie je možné zapísať.`,
+        });
+        return false;
+      }
+
+      const violations = await validateEntry(userId, { ...record, id: NEW_ENTRY_ID, project_id: activeShift.project_id });
+      if (hasBlockingViolation(violations)) {
+        toast({
+          variant: "destructive",
+          title: "Smena porušuje pravidlá projektu",
+          description: violations
+            .filter((v) => v.severity === "block")
+            .map((v) => v.message)
+            .join(" • "),
+        });
+        return false;
+      }
+      if (
+        violations.length > 0 &&
+        !confirm(`${violations.map((v) => `• ${v.message}`).join("\n")}\n\nNapriek tomu chcete smenu ukončiť?`)
+      ) {
+        return false;
+      }
+
+      const { position } = await locate();
+
+      // Record and session are written together; the flag is decided by the database
+      const { data, error } = await supabase.rpc("end_shift", {
+        p_session_id: activeShift.id,
+        p_lat: position?.lat ?? null,
+        p_lng: position?.lng ?? null,
+        p_accuracy_m: position?.accuracy ?? null,
+        p_record: record,
+      });
+      if (error || !data?.[0]) throw error ?? new Error("Smenu sa nepodarilo ukončiť");
+      const { worked_hours: workedHours, outside } = data[0];
+
+      setActiveShift(null);
+      toast({
+        title: "Smena ukončená",
+        description: `Zapísaných ${Number(workedHours)} h${outside ? " • označené mimo staveniska" : ""}`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error ending shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Smenu sa nepodarilo ukončiť",
+      });
+      return false;
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /** Drop a shift started by mistake; nothing is recorded */
+  const cancelShift = async () => {
+    if (!activeShift) return;
+    setProcessing(true);
+    const { error } = await supabase.from("shift_sessions").delete().eq("id", activeShift.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+    } else {
+      setActiveShift(null);
+    }
+    setProcessing(false);
+  };
+
+  return {
+    activeShift,
+    loading,
+    processing,
+    startShift,
+    endShift,
+    cancelShift,
+    refetch: fetchActiveShift,
+  };
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getWeekDates } from "@/lib/dateUtils";
+import { projectHolidayCalendar, type HolidayCalendar } from "@/lib/holidays";
+import type { RateResolver } from "@/lib/rates";
+import {
+  calculateSurcharges,
+  type SurchargeKind,
+  type SurchargeLine,
+  type SurchargeRecord,
+  type SurchargeRule,
+} from "@/lib/surcharges";
+
+const RULE_COLUMNS =
+  "id, project_id, name, weekdays, include_holidays, time_from, time_to, weekly_threshold_hours, kind, value, is_active";
+
+interface StoredSurchargeRule extends Omit<SurchargeRule, "kind"> {
+  kind: string;
+}
+
+const toRule = (row: StoredSurchargeRule): SurchargeRule => ({
+  ...row,
+  weekdays: row.weekdays || [],
+  time_from: row.time_from ? row.time_from.slice(0, 5) : null,
+  time_to: row.time_to ? row.time_to.slice(0, 5) : null,
+  weekly_threshold_hours: row.weekly_threshold_hours != null ? Number(row.weekly_threshold_hours) : null,
+  kind: row.kind as SurchargeKind,
+  value: Number(row.value),
+});
+
+/**
+ * Active surcharge rules of the projects and their holiday calendars.
+ */
+export async function loadSurchargeRules(
+  projectIds: string[]
+): Promise<{ rules: SurchargeRule[]; calendars: Map<string, HolidayCalendar> }> {
+  const ids = [...new Set(projectIds.filter(Boolean))];
+  if (ids.length === 0) return { rules: [], calendars: new Map() };
+
+  const [rulesRes, projectsRes] = await Promise.all([
+    supabase.from("project_surcharge_rules").select(RULE_COLUMNS).in("project_id", ids).eq("is_active", true),
+    supabase.from("projects").select("id, holiday_country, holiday_region").in("id", ids),
+  ]);
+  if (rulesRes.error) throw rulesRes.error;
+  if (projectsRes.error) throw projectsRes.error;
+
+  return {
+    rules: (rulesRes.data || []).map(toRule),
+    calendars: new Map((projectsRes.data || []).map((p) => [p.id, projectHolidayCalendar(p)])),
+  };
+}
+
+/**
+ * Surcharge lines for a set of records (one worker, one week), priced at
+ * a flat rate or at the rate effective on each record's date.
+ */
+export async function surchargesForRecords(
+  records: SurchargeRecord[],
+  hourlyRate: number | RateResolver
+): Promise<SurchargeLine[]> {
+  const { rules, calendars } = await loadSurchargeRules(records.map((r) => r.project_id));
+  if (rules.length === 0) return [];
+  return calculateSurcharges(
+    rules,
+    records,
+    hourlyRate,
+    (projectId) => calendars.get(projectId ?? "") ?? projectHolidayCalendar(null)
+  );
+}
+
+/**
+ * A worker's records of one week with the fields surcharges and invoice lines need.
+ */
+export async function loadWeekRecords(userId: string, calendarWeek: number, year: number) {
+  const dates = getWeekDates(calendarWeek, year);
+  const { data, error } = await supabase
+    .from("performance_records")
+    .select(
+      "id, date, project_id, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, projects(name)"
+    )
+    .eq("user_id", userId)
+    .gte("date", dates[0])
+    .lte("date", dates[6])
+    .is("deleted_at", null);
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Surcharge lines of a worker's week, read from the stored performance records.
+ */
+export async function loadWeekSurcharges(
+  userId: string,
+  calendarWeek: number,
+  year: number,
+  hourlyRate: number
+): Promise<SurchargeLine[]> {
+  return surchargesForRecords(await loadWeekRecords(userId, calendarWeek, year), hourlyRate);
+}
+
+export type SurchargeRuleInput = Omit<SurchargeRule, "id" | "project_id">;
+
+/**
+ * Surcharge rules of one project for the project settings.
+ */
+export function useProjectSurchargeRules(projectId: string) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<SurchargeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("project_surcharge_rules")
+        .select(RULE_COLUMNS)
+        .eq("project_id", projectId)
+        .order("created_at");
+      if (error) throw error;
+      setRules((data || []).map(toRule));
+    } catch (error) {
+      console.error("Error loading surcharge rules:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa načítať príplatky",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const saveRule = async (input: SurchargeRuleInput, id?: string): Promise<boolean> => {
+    setSaving(true);
+    const row = { ...input, project_id: projectId };
+    const { error } = id
+      ? await supabase.from("project_surcharge_rules").update(row).eq("id", id)
+      : await supabase.from("project_surcharge_rules").insert(row);
+    setSaving(false);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return false;
+    }
+    await fetchRules();
+    return true;
+  };
+
+  const deleteRule = async (id: string) => {
+    const { error } = await supabase.from("project_surcharge_rules").delete().eq("id", id);
+    if (error) {
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+      return;
+    }
+    setRules((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  return { rules, loading, saving, saveRule, deleteRule, refetch: fetchRules };
+}
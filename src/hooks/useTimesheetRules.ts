@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveProjectRules,
+  validateTimesheet,
+  type ProjectRuleConfig,
+  type RuleConfig,
+  type RuleSeverity,
+  type RuleViolation,
+  type TimesheetEntry,
+  type TimesheetRuleId,
+  type ValidationContext,
+} from "@/lib/timesheetRules";
+
+interface StoredRule {
+  project_id: string;
+  rule: string;
+  enabled: boolean;
+  severity: string;
+  threshold: number | null;
+}
+
+const toConfig = (row: StoredRule): RuleConfig => ({
+  enabled: row.enabled,
+  severity: row.severity as RuleSeverity,
+  threshold: row.threshold != null ? Number(row.threshold) : null,
+});
+
+/**
+ * Projects and their rule overrides, as needed by validateTimesheet.
+ */
+export async function loadValidationContext(projectIds: string[]): Promise<ValidationContext> {
+  const ids = [...new Set(projectIds.filter(Boolean))];
+  const context: ValidationContext = { projects: new Map(), rules: new Map() };
+  if (ids.length === 0) return context;
+
+  const [projectsRes, rulesRes] = await Promise.all([
+    supabase.from("projects").select("id, name, standard_hours, holiday_country, holiday_region").in("id", ids),
+    supabase
+      .from("project_validation_rules")
+      .select("project_id, rule, enabled, severity, threshold")
+      .in("project_id", ids),
+  ]);
+  if (projectsRes.error) throw projectsRes.error;
+  if (rulesRes.error) throw rulesRes.error;
+
+  for (const project of projectsRes.data || []) {
+    context.projects.set(project.id, project);
+  }
+  for (const row of rulesRes.data || []) {
+    const stored = context.rules.get(row.project_id) ?? {};
+    stored[row.rule as TimesheetRuleId] = toConfig(row);
+    context.rules.set(row.project_id, stored);
+  }
+  return context;
+}
+
+/**
+ * Violations caused by one entry (new or edited) together with the user's
+ * other records of that day.
+ */
+export async function validateEntry(userId: string, entry: TimesheetEntry): Promise<RuleViolation[]> {
+  const { data, error } = await supabase
+    .from("performance_records")
+    .select("id, date, project_id, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours")
+    .eq("user_id", userId)
+    .eq("date", entry.date)
+    .is("deleted_at", null);
+  if (error) throw error;
+
+  const dayEntries = [...(data || []).filter((r) => r.id !== entry.id), entry];
+  const context = await loadValidationContext(dayEntries.map((e) => e.project_id));
+  return validateTimesheet(dayEntries, context).filter((v) => v.recordIds.includes(entry.id));
+}
+
+/**
+ * Effective timesheet rules of one project (stored overrides over the defaults).
+ */
+export function useProjectValidationRules(projectId: string) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ProjectRuleConfig>(() => resolveProjectRules(undefined));
+  const [loading, setLoading] = useState(true);
+  const [savingRule, setSavingRule] = useState<TimesheetRuleId | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("project_validation_rules")
+        .select("project_id, rule, enabled, severity, threshold")
+        .eq("project_id", projectId);
+      if (error) throw error;
+
+      const stored: Partial<ProjectRuleConfig> = {};
+      for (const row of data || []) stored[row.rule as TimesheetRuleId] = toConfig(row);
+      setRules(resolveProjectRules(stored));
+    } catch (error) {
+      console.error("Error loading validation rules:", error);
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa načítať pravidlá",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const saveRule = async (rule: TimesheetRuleId, config: RuleConfig) => {
+    setSavingRule(rule);
+    const previous = rules;
+    setRules({ ...rules, [rule]: config });
+    const { error } = await supabase.from("project_validation_rules").upsert(
+      {
+        project_id: projectId,
+        rule,
+        enabled: config.enabled,
+        severity: config.severity,
+        threshold: config.threshold,
+      },
+      { onConflict: "project_id,rule" }
+    );
+    if (error) {
+      setRules(previous);
+      toast({ variant: "destructive", title: "Chyba", description: error.message });
+    }
+    setSavingRule(null);
+  };
+
+  return { rules, loading, savingRule, saveRule, refetch: fetchRules };
+}
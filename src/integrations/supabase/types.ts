@@ -74,12 +74,102 @@ export type Database = {
           },
         ]
       }
+      accommodation_deduction_overrides: {
+        Row: {
+          amount: number
+          calendar_week: number
+          created_at: string
+          created_by: string | null
+          id: string
+          reason: string | null
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          amount: number
+          calendar_week: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          amount?: number
+          calendar_week?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason?: string | null
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      accommodation_payments: {
+        Row: {
+          accommodation_id: string
+          amount: number
+          created_at: string
+          due_date: string
+          id: string
+          note: string | null
+          paid_at: string | null
+          paid_by: string | null
+          period_end: string
+          period_start: string
+          status: Database["public"]["Enums"]["accommodation_payment_status"]
+          updated_at: string
+        }
+        Insert: {
+          accommodation_id: string
+          amount: number
+          created_at?: string
+          due_date: string
+          id?: string
+          note?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          period_end: string
+          period_start: string
+          status?: Database["public"]["Enums"]["accommodation_payment_status"]
+          updated_at?: string
+        }
+        Update: {
+          accommodation_id?: string
+          amount?: number
+          created_at?: string
+          due_date?: string
+          id?: string
+          note?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          period_end?: string
+          period_start?: string
+          status?: Database["public"]["Enums"]["accommodation_payment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accommodation_payments_accommodation_id_fkey"
+            columns: ["accommodation_id"]
+            isOneToOne: false
+            referencedRelation: "accommodations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       accommodations: {
         Row: {
           address: string
           amenities: Json | null
           capacity: number | null
           city: string | null
+          company_id: string
           company_price: number | null
           contact: string | null
           created_at: string
@@ -111,6 +201,7 @@ export type Database = {
           amenities?: Json | null
           capacity?: number | null
           city?: string | null
+          company_id?: string
           company_price?: number | null
           contact?: string | null
           created_at?: string
@@ -142,6 +233,7 @@ export type Database = {
           amenities?: Json | null
           capacity?: number | null
           city?: string | null
+          company_id?: string
           company_price?: number | null
           contact?: string | null
           created_at?: string
@@ -168,7 +260,15 @@ export type Database = {
           rating_price?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "accommodations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       advances: {
         Row: {
@@ -177,7 +277,11 @@ export type Database = {
           date: string
           deleted_at: string | null
           id: string
+          instalment_amount: number | null
+          instalment_percent: number | null
           note: string | null
+          repayment_start_week: number | null
+          repayment_start_year: number | null
           updated_at: string
           used_in_invoice_id: string | null
           user_id: string
@@ -188,7 +292,11 @@ export type Database = {
           date?: string
           deleted_at?: string | null
           id?: string
+          instalment_amount?: number | null
+          instalment_percent?: number | null
           note?: string | null
+          repayment_start_week?: number | null
+          repayment_start_year?: number | null
           updated_at?: string
           used_in_invoice_id?: string | null
           user_id: string
@@ -199,7 +307,11 @@ export type Database = {
           date?: string
           deleted_at?: string | null
           id?: string
+          instalment_amount?: number | null
+          instalment_percent?: number | null
           note?: string | null
+          repayment_start_week?: number | null
+          repayment_start_year?: number | null
           updated_at?: string
           used_in_invoice_id?: string | null
           user_id?: string
@@ -245,6 +357,7 @@ export type Database = {
       }
       announcements: {
         Row: {
+          company_id: string
           created_at: string
           created_by: string
           id: string
@@ -254,6 +367,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          company_id?: string
           created_at?: string
           created_by: string
           id?: string
@@ -263,6 +377,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          company_id?: string
           created_at?: string
           created_by?: string
           id?: string
@@ -271,195 +386,1033 @@ export type Database = {
           title?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "announcements_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      company_settings: {
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_fields: string[] | null
+          company_id: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          company_id?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          company_id?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_profiles: {
         Row: {
           created_at: string
+          due_days: number
           id: string
-          key: string
+          invoice_series: string
+          mode: Database["public"]["Enums"]["billing_mode"]
+          retainer_amount: number | null
+          retainer_hours: number | null
           updated_at: string
-          value: string | null
+          user_id: string
         }
         Insert: {
           created_at?: string
+          due_days?: number
           id?: string
-          key: string
+          invoice_series?: string
+          mode?: Database["public"]["Enums"]["billing_mode"]
+          retainer_amount?: number | null
+          retainer_hours?: number | null
           updated_at?: string
-          value?: string | null
+          user_id: string
         }
         Update: {
           created_at?: string
+          due_days?: number
           id?: string
-          key?: string
+          invoice_series?: string
+          mode?: Database["public"]["Enums"]["billing_mode"]
+          retainer_amount?: number | null
+          retainer_hours?: number | null
           updated_at?: string
-          value?: string | null
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "billing_profiles_invoice_series_fkey"
+            columns: ["invoice_series"]
+            isOneToOne: false
+            referencedRelation: "invoice_series"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "billing_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
-      equipment: {
+      client_invoice_lines: {
         Row: {
-          assigned_to: string | null
+          amount: number
+          client_invoice_id: string
           created_at: string
+          description: string
           id: string
-          name: string
-          note: string | null
-          serial_number: string | null
-          status: Database["public"]["Enums"]["equipment_status"]
-          updated_at: string
+          kind: string
+          position: number
+          quantity: number
+          unit_price: number
         }
         Insert: {
-          assigned_to?: string | null
+          amount?: number
+          client_invoice_id: string
           created_at?: string
+          description: string
           id?: string
-          name: string
-          note?: string | null
-          serial_number?: string | null
-          status?: Database["public"]["Enums"]["equipment_status"]
-          updated_at?: string
+          kind?: string
+          position: number
+          quantity?: number
+          unit_price?: number
         }
         Update: {
-          assigned_to?: string | null
+          amount?: number
+          client_invoice_id?: string
           created_at?: string
+          description?: string
           id?: string
-          name?: string
-          note?: string | null
-          serial_number?: string | null
-          status?: Database["public"]["Enums"]["equipment_status"]
-          updated_at?: string
+          kind?: string
+          position?: number
+          quantity?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "equipment_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "client_invoice_lines_client_invoice_id_fkey"
+            columns: ["client_invoice_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "client_invoices"
+            referencedColumns: ["id"]
           },
         ]
       }
-      invoices: {
+      client_invoices: {
         Row: {
-          accommodation_deduction: number | null
-          advance_deduction: number | null
+          client_id: string
+          company_id: string
           created_at: string
-          deleted_at: string | null
+          created_by: string | null
           delivery_date: string
           due_date: string
           hourly_rate: number
           id: string
           invoice_number: string
-          is_accounted: boolean
-          is_locked: boolean
           is_reverse_charge: boolean
           issue_date: string
-          locked_at: string | null
-          locked_by: string | null
           paid_at: string | null
-          project_id: string | null
-          status: Database["public"]["Enums"]["invoice_status"]
+          period_from: string
+          period_to: string
+          project_id: string
+          status: string
           subtotal: number
-          tax_confirmed_at: string | null
-          tax_confirmed_by: string | null
-          tax_payment_status:
-            | Database["public"]["Enums"]["tax_payment_status"]
-            | null
-          tax_verified_at: string | null
-          tax_verified_by: string | null
           total_amount: number
           total_hours: number
-          transaction_tax_amount: number | null
-          transaction_tax_rate: number | null
           updated_at: string
-          user_id: string
           vat_amount: number
-          week_closing_id: string | null
         }
         Insert: {
-          accommodation_deduction?: number | null
-          advance_deduction?: number | null
+          client_id: string
+          company_id?: string
           created_at?: string
-          deleted_at?: string | null
-          delivery_date?: string
+          created_by?: string | null
+          delivery_date: string
           due_date: string
           hourly_rate?: number
           id?: string
           invoice_number: string
-          is_accounted?: boolean
-          is_locked?: boolean
           is_reverse_charge?: boolean
           issue_date?: string
-          locked_at?: string | null
-          locked_by?: string | null
           paid_at?: string | null
-          project_id?: string | null
-          status?: Database["public"]["Enums"]["invoice_status"]
+          period_from: string
+          period_to: string
+          project_id: string
+          status?: string
           subtotal?: number
-          tax_confirmed_at?: string | null
-          tax_confirmed_by?: string | null
-          tax_payment_status?:
-            | Database["public"]["Enums"]["tax_payment_status"]
-            | null
-          tax_verified_at?: string | null
-          tax_verified_by?: string | null
           total_amount?: number
           total_hours?: number
-          transaction_tax_amount?: number | null
-          transaction_tax_rate?: number | null
           updated_at?: string
-          user_id: string
           vat_amount?: number
-          week_closing_id?: string | null
         }
         Update: {
-          accommodation_deduction?: number | null
-          advance_deduction?: number | null
+          client_id?: string
+          company_id?: string
           created_at?: string
-          deleted_at?: string | null
+          created_by?: string | null
           delivery_date?: string
           due_date?: string
           hourly_rate?: number
           id?: string
           invoice_number?: string
-          is_accounted?: boolean
-          is_locked?: boolean
           is_reverse_charge?: boolean
           issue_date?: string
-          locked_at?: string | null
-          locked_by?: string | null
           paid_at?: string | null
-          project_id?: string | null
-          status?: Database["public"]["Enums"]["invoice_status"]
+          period_from?: string
+          period_to?: string
+          project_id?: string
+          status?: string
           subtotal?: number
-          tax_confirmed_at?: string | null
-          tax_confirmed_by?: string | null
-          tax_payment_status?:
-            | Database["public"]["Enums"]["tax_payment_status"]
-            | null
-          tax_verified_at?: string | null
-          tax_verified_by?: string | null
           total_amount?: number
           total_hours?: number
-          transaction_tax_amount?: number | null
-          transaction_tax_rate?: number | null
           updated_at?: string
-          user_id?: string
           vat_amount?: number
-          week_closing_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_project_id_fkey"
+            foreignKeyName: "client_invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_invoices_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      client_signoffs: {
+        Row: {
+          calendar_week: number
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          project_id: string
+          signature_data: string | null
+          signed_at: string | null
+          signed_summary: Json | null
+          signer_name: string | null
+          token: string
+          year: number
+        }
+        Insert: {
+          calendar_week: number
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          project_id: string
+          signature_data?: string | null
+          signed_at?: string | null
+          signed_summary?: Json | null
+          signer_name?: string | null
+          token?: string
+          year: number
+        }
+        Update: {
+          calendar_week?: number
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          project_id?: string
+          signature_data?: string | null
+          signed_at?: string | null
+          signed_summary?: Json | null
+          signer_name?: string | null
+          token?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_signoffs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          address: string | null
+          company_id: string
+          country: string | null
+          created_at: string
+          dic: string | null
+          email: string | null
+          ico: string | null
+          id: string
+          is_active: boolean
+          is_reverse_charge: boolean
+          name: string
+          payment_terms_days: number
+          updated_at: string
+          vat_number: string | null
+        }
+        Insert: {
+          address?: string | null
+          company_id?: string
+          country?: string | null
+          created_at?: string
+          dic?: string | null
+          email?: string | null
+          ico?: string | null
+          id?: string
+          is_active?: boolean
+          is_reverse_charge?: boolean
+          name: string
+          payment_terms_days?: number
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Update: {
+          address?: string | null
+          company_id?: string
+          country?: string | null
+          created_at?: string
+          dic?: string | null
+          email?: string | null
+          ico?: string | null
+          id?: string
+          is_active?: boolean
+          is_reverse_charge?: boolean
+          name?: string
+          payment_terms_days?: number
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          country: string
+          created_at: string
+          created_by: string | null
+          dic: string | null
+          iban: string | null
+          ico: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          logo_path: string | null
+          name: string
+          signature_path: string | null
+          street: string
+          swift_bic: string | null
+          updated_at: string
+          vat_number: string | null
+        }
+        Insert: {
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          dic?: string | null
+          iban?: string | null
+          ico?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          logo_path?: string | null
+          name: string
+          signature_path?: string | null
+          street?: string
+          swift_bic?: string | null
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Update: {
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          dic?: string | null
+          iban?: string | null
+          ico?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          logo_path?: string | null
+          name?: string
+          signature_path?: string | null
+          street?: string
+          swift_bic?: string | null
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Relationships: []
+      }
+      company_memberships: {
+        Row: {
+          company_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_memberships_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_settings: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          key: string
+          updated_at: string
+          value: string | null
+        }
+        Insert: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          key: string
+          updated_at?: string
+          value?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          key?: string
+          updated_at?: string
+          value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_settings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          credit_note_number: string
+          id: string
+          invoice_id: string
+          issue_date: string
+          reason: string
+          subtotal: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+          vat_amount: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          credit_note_number: string
+          id?: string
+          invoice_id: string
+          issue_date?: string
+          reason: string
+          subtotal: number
+          total_amount: number
+          updated_at?: string
+          user_id: string
+          vat_amount?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          credit_note_number?: string
+          id?: string
+          invoice_id?: string
+          issue_date?: string
+          reason?: string
+          subtotal?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment: {
+        Row: {
+          assigned_to: string | null
+          company_id: string
+          created_at: string
+          id: string
+          name: string
+          note: string | null
+          serial_number: string | null
+          status: Database["public"]["Enums"]["equipment_status"]
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          company_id?: string
+          created_at?: string
+          id?: string
+          name: string
+          note?: string | null
+          serial_number?: string | null
+          status?: Database["public"]["Enums"]["equipment_status"]
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          company_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          note?: string | null
+          serial_number?: string | null
+          status?: Database["public"]["Enums"]["equipment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "equipment_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          kind: string
+          period_from: string | null
+          period_to: string | null
+          position: number
+          project_id: string | null
+          quantity: number
+          surcharge_rule_id: string | null
+          unit_price: number
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          kind?: string
+          period_from?: string | null
+          period_to?: string | null
+          position: number
+          project_id?: string | null
+          quantity?: number
+          surcharge_rule_id?: string | null
+          unit_price?: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          kind?: string
+          period_from?: string | null
+          period_to?: string | null
+          position?: number
+          project_id?: string | null
+          quantity?: number
+          surcharge_rule_id?: string | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_surcharge_rule_id_fkey"
+            columns: ["surcharge_rule_id"]
+            isOneToOne: false
+            referencedRelation: "project_surcharge_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_sequences: {
+        Row: {
+          created_at: string
+          last_value: number
+          series: string
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          last_value?: number
+          series: string
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          last_value?: number
+          series?: string
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_sequences_series_fkey"
+            columns: ["series"]
+            isOneToOne: false
+            referencedRelation: "invoice_series"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      invoice_series: {
+        Row: {
+          code: string
+          created_at: string
+          name: string
+          padding: number
+          prefix: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          name: string
+          padding?: number
+          prefix?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          name?: string
+          padding?: number
+          prefix?: string
+        }
+        Relationships: []
+      }
+      invoice_settlements: {
+        Row: {
+          advance_id: string | null
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          sanction_id: string | null
+          settles_fully: boolean
+        }
+        Insert: {
+          advance_id?: string | null
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          sanction_id?: string | null
+          settles_fully?: boolean
+        }
+        Update: {
+          advance_id?: string | null
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          sanction_id?: string | null
+          settles_fully?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_settlements_advance_id_fkey"
+            columns: ["advance_id"]
+            isOneToOne: false
+            referencedRelation: "advances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_settlements_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_settlements_sanction_id_fkey"
+            columns: ["sanction_id"]
+            isOneToOne: false
+            referencedRelation: "sanctions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          accommodation_deduction: number | null
+          advance_deduction: number | null
+          company_id: string
+          created_at: string
+          deleted_at: string | null
+          delivery_date: string
+          due_date: string
+          hourly_rate: number
+          id: string
+          invoice_number: string
+          is_accounted: boolean
+          is_locked: boolean
+          is_reverse_charge: boolean
+          issue_date: string
+          issue_snapshot: Json | null
+          locked_at: string | null
+          locked_by: string | null
+          paid_at: string | null
+          pdf_archived_at: string | null
+          pdf_path: string | null
+          pdf_sha256: string | null
+          project_id: string | null
+          sanctions_deduction: number
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          supplier_snapshot: Json | null
+          surcharge_amount: number
+          tax_confirmed_at: string | null
+          tax_confirmed_by: string | null
+          tax_payment_status:
+            | Database["public"]["Enums"]["tax_payment_status"]
+            | null
+          tax_verified_at: string | null
+          tax_verified_by: string | null
+          total_amount: number
+          total_hours: number
+          transaction_tax_amount: number | null
+          transaction_tax_rate: number | null
+          updated_at: string
+          user_id: string
+          vat_amount: number
+          week_closing_id: string | null
+        }
+        Insert: {
+          accommodation_deduction?: number | null
+          advance_deduction?: number | null
+          company_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          delivery_date?: string
+          due_date: string
+          hourly_rate?: number
+          id?: string
+          invoice_number: string
+          is_accounted?: boolean
+          is_locked?: boolean
+          is_reverse_charge?: boolean
+          issue_date?: string
+          issue_snapshot?: Json | null
+          locked_at?: string | null
+          locked_by?: string | null
+          paid_at?: string | null
+          pdf_archived_at?: string | null
+          pdf_path?: string | null
+          pdf_sha256?: string | null
+          project_id?: string | null
+          sanctions_deduction?: number
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          supplier_snapshot?: Json | null
+          surcharge_amount?: number
+          tax_confirmed_at?: string | null
+          tax_confirmed_by?: string | null
+          tax_payment_status?:
+            | Database["public"]["Enums"]["tax_payment_status"]
+            | null
+          tax_verified_at?: string | null
+          tax_verified_by?: string | null
+          total_amount?: number
+          total_hours?: number
+          transaction_tax_amount?: number | null
+          transaction_tax_rate?: number | null
+          updated_at?: string
+          user_id: string
+          vat_amount?: number
+          week_closing_id?: string | null
+        }
+        Update: {
+          accommodation_deduction?: number | null
+          advance_deduction?: number | null
+          company_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          delivery_date?: string
+          due_date?: string
+          hourly_rate?: number
+          id?: string
+          invoice_number?: string
+          is_accounted?: boolean
+          is_locked?: boolean
+          is_reverse_charge?: boolean
+          issue_date?: string
+          issue_snapshot?: Json | null
+          locked_at?: string | null
+          locked_by?: string | null
+          paid_at?: string | null
+          pdf_archived_at?: string | null
+          pdf_path?: string | null
+          pdf_sha256?: string | null
+          project_id?: string | null
+          sanctions_deduction?: number
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          supplier_snapshot?: Json | null
+          surcharge_amount?: number
+          tax_confirmed_at?: string | null
+          tax_confirmed_by?: string | null
+          tax_payment_status?:
+            | Database["public"]["Enums"]["tax_payment_status"]
+            | null
+          tax_verified_at?: string | null
+          tax_verified_by?: string | null
+          total_amount?: number
+          total_hours?: number
+          transaction_tax_amount?: number | null
+          transaction_tax_rate?: number | null
+          updated_at?: string
+          user_id?: string
+          vat_amount?: number
+          week_closing_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_week_closing_id_fkey"
+            columns: ["week_closing_id"]
+            isOneToOne: false
+            referencedRelation: "weekly_closings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_batch_items: {
+        Row: {
+          amount: number
+          batch_id: string
+          created_at: string
+          creditor_bic: string | null
+          creditor_iban: string
+          creditor_name: string
+          id: string
+          invoice_id: string
+          remittance_info: string
+        }
+        Insert: {
+          amount: number
+          batch_id: string
+          created_at?: string
+          creditor_bic?: string | null
+          creditor_iban: string
+          creditor_name: string
+          id?: string
+          invoice_id: string
+          remittance_info: string
+        }
+        Update: {
+          amount?: number
+          batch_id?: string
+          created_at?: string
+          creditor_bic?: string | null
+          creditor_iban?: string
+          creditor_name?: string
+          id?: string
+          invoice_id?: string
+          remittance_info?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payment_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_batch_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_batches: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          debtor_bic: string | null
+          debtor_iban: string
+          debtor_name: string
+          executed_at: string | null
+          executed_by: string | null
+          id: string
+          item_count: number
+          message_id: string
+          requested_execution_date: string
+          status: Database["public"]["Enums"]["payment_batch_status"]
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          debtor_bic?: string | null
+          debtor_iban: string
+          debtor_name: string
+          executed_at?: string | null
+          executed_by?: string | null
+          id?: string
+          item_count?: number
+          message_id: string
+          requested_execution_date: string
+          status?: Database["public"]["Enums"]["payment_batch_status"]
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          debtor_bic?: string | null
+          debtor_iban?: string
+          debtor_name?: string
+          executed_at?: string | null
+          executed_by?: string | null
+          id?: string
+          item_count?: number
+          message_id?: string
+          requested_execution_date?: string
+          status?: Database["public"]["Enums"]["payment_batch_status"]
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "invoices_week_closing_id_fkey"
-            columns: ["week_closing_id"]
+            foreignKeyName: "payment_batches_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "weekly_closings"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
         ]
@@ -467,16 +1420,18 @@ export type Database = {
       performance_records: {
         Row: {
           accommodation_id: string | null
-          break_end: string | null
-          break_start: string | null
           break2_end: string | null
           break2_start: string | null
+          break_end: string | null
+          break_start: string | null
           created_at: string
           date: string
           deleted_at: string | null
           id: string
           note: string | null
+          outside_geofence: boolean
           project_id: string
+          shift_session_id: string | null
           status: Database["public"]["Enums"]["record_status"]
           time_from: string
           time_to: string
@@ -486,16 +1441,18 @@ export type Database = {
         }
         Insert: {
           accommodation_id?: string | null
-          break_end?: string | null
-          break_start?: string | null
           break2_end?: string | null
           break2_start?: string | null
+          break_end?: string | null
+          break_start?: string | null
           created_at?: string
           date: string
           deleted_at?: string | null
           id?: string
           note?: string | null
+          outside_geofence?: boolean
           project_id: string
+          shift_session_id?: string | null
           status?: Database["public"]["Enums"]["record_status"]
           time_from: string
           time_to: string
@@ -505,16 +1462,18 @@ export type Database = {
         }
         Update: {
           accommodation_id?: string | null
-          break_end?: string | null
-          break_start?: string | null
           break2_end?: string | null
           break2_start?: string | null
+          break_end?: string | null
+          break_start?: string | null
           created_at?: string
           date?: string
           deleted_at?: string | null
           id?: string
           note?: string | null
+          outside_geofence?: boolean
           project_id?: string
+          shift_session_id?: string | null
           status?: Database["public"]["Enums"]["record_status"]
           time_from?: string
           time_to?: string
@@ -537,11 +1496,20 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "performance_records_shift_session_id_fkey"
+            columns: ["shift_session_id"]
+            isOneToOne: false
+            referencedRelation: "shift_sessions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
         Row: {
+          active_company_id: string | null
           billing_address: string | null
+          company_id: string
           company_name: string | null
           contract_number: string | null
           country: string | null
@@ -564,7 +1532,9 @@ export type Database = {
           vat_number: string | null
         }
         Insert: {
+          active_company_id?: string | null
           billing_address?: string | null
+          company_id?: string
           company_name?: string | null
           contract_number?: string | null
           country?: string | null
@@ -587,7 +1557,9 @@ export type Database = {
           vat_number?: string | null
         }
         Update: {
+          active_company_id?: string | null
           billing_address?: string | null
+          company_id?: string
           company_name?: string | null
           contract_number?: string | null
           country?: string | null
@@ -609,7 +1581,22 @@ export type Database = {
           user_id?: string
           vat_number?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_company_id_fkey"
+            columns: ["active_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       project_accommodations: {
         Row: {
@@ -685,14 +1672,125 @@ export type Database = {
           },
         ]
       }
+      project_surcharge_rules: {
+        Row: {
+          created_at: string
+          id: string
+          include_holidays: boolean
+          is_active: boolean
+          kind: string
+          name: string
+          project_id: string
+          time_from: string | null
+          time_to: string | null
+          updated_at: string
+          value: number
+          weekdays: number[]
+          weekly_threshold_hours: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          include_holidays?: boolean
+          is_active?: boolean
+          kind?: string
+          name: string
+          project_id: string
+          time_from?: string | null
+          time_to?: string | null
+          updated_at?: string
+          value: number
+          weekdays?: number[]
+          weekly_threshold_hours?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          include_holidays?: boolean
+          is_active?: boolean
+          kind?: string
+          name?: string
+          project_id?: string
+          time_from?: string | null
+          time_to?: string | null
+          updated_at?: string
+          value?: number
+          weekdays?: number[]
+          weekly_threshold_hours?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_surcharge_rules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_validation_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          project_id: string
+          rule: string
+          severity: string
+          threshold: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          project_id: string
+          rule: string
+          severity?: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          project_id?: string
+          rule?: string
+          severity?: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_validation_rules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           address: string | null
           client: string
+          client_hourly_rate: number | null
+          client_id: string | null
+          company_id: string
           created_at: string
+          default_break2_end: string | null
+          default_break2_start: string | null
+          default_break_end: string | null
+          default_break_start: string | null
+          default_time_from: string
+          default_time_to: string | null
           deleted_at: string | null
+          geofence_radius_m: number | null
+          holiday_country: string
+          holiday_region: string | null
           id: string
           is_active: boolean
+          lat: number | null
+          lng: number | null
           location: string | null
           name: string
           standard_hours: number | null
@@ -701,10 +1799,24 @@ export type Database = {
         Insert: {
           address?: string | null
           client: string
+          client_hourly_rate?: number | null
+          client_id?: string | null
+          company_id?: string
           created_at?: string
+          default_break2_end?: string | null
+          default_break2_start?: string | null
+          default_break_end?: string | null
+          default_break_start?: string | null
+          default_time_from?: string
+          default_time_to?: string | null
           deleted_at?: string | null
+          geofence_radius_m?: number | null
+          holiday_country?: string
+          holiday_region?: string | null
           id?: string
           is_active?: boolean
+          lat?: number | null
+          lng?: number | null
           location?: string | null
           name: string
           standard_hours?: number | null
@@ -713,16 +1825,45 @@ export type Database = {
         Update: {
           address?: string | null
           client?: string
+          client_hourly_rate?: number | null
+          client_id?: string | null
+          company_id?: string
           created_at?: string
+          default_break2_end?: string | null
+          default_break2_start?: string | null
+          default_break_end?: string | null
+          default_break_start?: string | null
+          default_time_from?: string
+          default_time_to?: string | null
           deleted_at?: string | null
+          geofence_radius_m?: number | null
+          holiday_country?: string
+          holiday_region?: string | null
           id?: string
           is_active?: boolean
+          lat?: number | null
+          lng?: number | null
           location?: string | null
           name?: string
           standard_hours?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "projects_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       rate_history: {
         Row: {
@@ -754,6 +1895,24 @@ export type Database = {
         }
         Relationships: []
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
       sanctions: {
         Row: {
           admin_id: string
@@ -804,6 +1963,112 @@ export type Database = {
           },
         ]
       }
+      shift_sessions: {
+        Row: {
+          accommodation_id: string | null
+          created_at: string
+          end_accuracy_m: number | null
+          end_distance_m: number | null
+          end_lat: number | null
+          end_lng: number | null
+          ended_at: string | null
+          id: string
+          outside_geofence: boolean
+          performance_record_id: string | null
+          project_id: string
+          start_accuracy_m: number | null
+          start_distance_m: number | null
+          start_lat: number | null
+          start_lng: number | null
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accommodation_id?: string | null
+          created_at?: string
+          end_accuracy_m?: number | null
+          end_distance_m?: number | null
+          end_lat?: number | null
+          end_lng?: number | null
+          ended_at?: string | null
+          id?: string
+          outside_geofence?: boolean
+          performance_record_id?: string | null
+          project_id: string
+          start_accuracy_m?: number | null
+          start_distance_m?: number | null
+          start_lat?: number | null
+          start_lng?: number | null
+          started_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accommodation_id?: string | null
+          created_at?: string
+          end_accuracy_m?: number | null
+          end_distance_m?: number | null
+          end_lat?: number | null
+          end_lng?: number | null
+          ended_at?: string | null
+          id?: string
+          outside_geofence?: boolean
+          performance_record_id?: string | null
+          project_id?: string
+          start_accuracy_m?: number | null
+          start_distance_m?: number | null
+          start_lat?: number | null
+          start_lng?: number | null
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_sessions_accommodation_id_fkey"
+            columns: ["accommodation_id"]
+            isOneToOne: false
+            referencedRelation: "accommodations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_sessions_performance_record_id_fkey"
+            columns: ["performance_record_id"]
+            isOneToOne: false
+            referencedRelation: "performance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_sessions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_permissions: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          permission?: Database["public"]["Enums"]["app_permission"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -841,6 +2106,7 @@ export type Database = {
           submitted_at: string | null
           updated_at: string
           user_id: string
+          validation_issues: Json
           year: number
         }
         Insert: {
@@ -855,6 +2121,7 @@ export type Database = {
           submitted_at?: string | null
           updated_at?: string
           user_id: string
+          validation_issues?: Json
           year: number
         }
         Update: {
@@ -869,6 +2136,7 @@ export type Database = {
           submitted_at?: string | null
           updated_at?: string
           user_id?: string
+          validation_issues?: Json
           year?: number
         }
         Relationships: []
@@ -878,6 +2146,85 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accommodation_payment_due_date: {
+        Args: { p_frequency: string; p_n: number; p_start: string }
+        Returns: string
+      }
+      archive_invoice_pdf: {
+        Args: {
+          p_invoice_id: string
+          p_path: string
+          p_sha256: string
+          p_snapshot: Json
+        }
+        Returns: undefined
+      }
+      client_signoff_summary: { Args: { p_token: string }; Returns: Json }
+      client_signoff_week: {
+        Args: { p_project_id: string; p_week: number; p_year: number }
+        Returns: Json
+      }
+      client_signoff_week_approved: {
+        Args: { p_project_id: string; p_week: number; p_year: number }
+        Returns: boolean
+      }
+      create_client_invoice: {
+        Args: { p_invoice: Json; p_lines: Json }
+        Returns: {
+          invoice_id: string
+          invoice_number: string
+        }[]
+      }
+      create_client_signoff_link: {
+        Args: { p_project_id: string; p_week: number; p_year: number }
+        Returns: string
+      }
+      create_invoice: {
+        Args: { p_invoice: Json; p_lines?: Json }
+        Returns: {
+          advance_deduction: number
+          invoice_id: string
+          sanctions_deduction: number
+          total_amount: number
+        }[]
+      }
+      create_payment_batch: {
+        Args: { p_batch: Json; p_items: Json }
+        Returns: {
+          batch_id: string
+          created_at: string
+          message_id: string
+        }[]
+      }
+      current_company_id: { Args: never; Returns: string }
+      current_user_permissions: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      default_company_id: { Args: never; Returns: string }
+      easter_sunday: { Args: { p_year: number }; Returns: string }
+      end_shift: {
+        Args: {
+          p_accuracy_m: number
+          p_lat: number
+          p_lng: number
+          p_record: Json
+          p_session_id: string
+        }
+        Returns: {
+          outside: boolean
+          record_id: string
+          worked_hours: number
+        }[]
+      }
+      generate_accommodation_payments: {
+        Args: { p_horizon_days?: number }
+        Returns: number
+      }
+      geofence_distance_m: {
+        Args: { p_lat: number; p_lng: number; p_project_id: string }
+        Returns: number
+      }
       get_effective_rate: {
         Args: { p_date: string; p_user_id: string }
         Returns: number
@@ -896,6 +2243,13 @@ export type Database = {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -903,13 +2257,139 @@ export type Database = {
         }
         Returns: boolean
       }
+      holds_role_permissions: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      in_current_company: { Args: { _user_id: string }; Returns: boolean }
       is_admin_or_director: { Args: { _user_id: string }; Returns: boolean }
+      is_outside_geofence: {
+        Args: { p_distance_m: number; p_project_id: string }
+        Returns: boolean
+      }
+      mark_accommodation_payment_paid: {
+        Args: { p_paid_at?: string; p_payment_id: string }
+        Returns: string
+      }
+      mark_invoices_paid: { Args: { p_payments: Json }; Returns: number }
+      mark_payment_batch_executed: {
+        Args: { p_batch_id: string; p_paid_at?: string }
+        Returns: number
+      }
+      next_client_invoice_number: {
+        Args: { p_year: number }
+        Returns: string
+      }
+      next_invoice_number: {
+        Args: { p_series?: string; p_user_id: string; p_year: number }
+        Returns: string
+      }
+      outstanding_deductions: {
+        Args: { p_hourly_rate?: number; p_user_id: string }
+        Returns: {
+          date: string
+          description: string
+          id: string
+          instalment_amount: number
+          instalment_percent: number
+          kind: string
+          outstanding: number
+          repayment_starts_on: string
+          settled: number
+          value: number
+        }[]
+      }
+      project_timesheet_rules: {
+        Args: { p_project_id: string }
+        Returns: {
+          enabled: boolean
+          rule: string
+          rule_order: number
+          severity: string
+          threshold: number
+        }[]
+      }
+      public_holidays: {
+        Args: { p_country: string; p_region: string; p_year: number }
+        Returns: {
+          day_off: boolean
+          holiday_date: string
+          name: string
+        }[]
+      }
+      set_user_company: {
+        Args: { p_company_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      settle_invoice_deductions: {
+        Args: { p_invoice_id: string }
+        Returns: {
+          advance_deduction: number
+          sanctions_deduction: number
+          total_amount: number
+        }[]
+      }
+      start_shift: {
+        Args: {
+          p_accommodation_id: string
+          p_accuracy_m: number
+          p_lat: number
+          p_lng: number
+          p_project_id: string
+        }
+        Returns: string
+      }
+      submit_client_signoff: {
+        Args: {
+          p_signature: string
+          p_signer_name: string
+          p_summary_hash: string
+          p_token: string
+        }
+        Returns: string
+      }
+      submit_week: { Args: { p_week: number; p_year: number }; Returns: Json }
+      supplier_snapshot: { Args: { p_user_id: string }; Returns: Json }
+      switch_company: { Args: { p_company_id: string }; Returns: undefined }
+      week_client_signoff: {
+        Args: { p_project_id: string; p_week: number; p_year: number }
+        Returns: {
+          signature_data: string
+          signed_at: string
+          signed_summary: Json
+          signer_name: string
+        }[]
+      }
+      week_timesheet_violations: {
+        Args: { p_user_id: string; p_week: number; p_year: number }
+        Returns: Json
+      }
     }
     Enums: {
+      accommodation_payment_status: "pending" | "paid"
+      app_permission:
+        | "approve_weeks"
+        | "lock_weeks"
+        | "manage_invoices"
+        | "manage_payments"
+        | "view_financials"
+        | "view_rates"
+        | "manage_projects"
+        | "manage_accommodations"
+        | "manage_equipment"
+        | "manage_sanctions"
+        | "manage_users"
+        | "view_audit_log"
+        | "manage_settings"
       app_role: "monter" | "manager" | "admin" | "accountant" | "director"
+      billing_mode: "hourly" | "fixed_retainer" | "fixed_wage"
       closing_status: "open" | "submitted" | "approved" | "returned" | "locked"
       equipment_status: "available" | "assigned" | "maintenance"
       invoice_status: "pending" | "due_soon" | "overdue" | "paid" | "void"
+      payment_batch_status: "exported" | "executed" | "cancelled"
       record_status:
         | "draft"
         | "submitted"
@@ -1044,10 +2524,28 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      accommodation_payment_status: ["pending", "paid"],
+      app_permission: [
+        "approve_weeks",
+        "lock_weeks",
+        "manage_invoices",
+        "manage_payments",
+        "view_financials",
+        "view_rates",
+        "manage_projects",
+        "manage_accommodations",
+        "manage_equipment",
+        "manage_sanctions",
+        "manage_users",
+        "view_audit_log",
+        "manage_settings",
+      ],
       app_role: ["monter", "manager", "admin", "accountant", "director"],
+      billing_mode: ["hourly", "fixed_retainer", "fixed_wage"],
       closing_status: ["open", "submitted", "approved", "returned", "locked"],
       equipment_status: ["available", "assigned", "maintenance"],
       invoice_status: ["pending", "due_soon", "overdue", "paid", "void"],
+      payment_batch_status: ["exported", "executed", "cancelled"],
       record_status: ["draft", "submitted", "approved", "rejected", "returned"],
       tax_payment_status: ["pending", "confirmed", "verified"],
     },
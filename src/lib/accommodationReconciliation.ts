@@ -0,0 +1,131 @@
+import { occupiesNight, type Stay } from "./occupancy";
+
+export interface ReconciliationAssignment extends Stay {
+  price_per_night: number;
+}
+
+/** A daily entry (performance record) as far as accommodation is concerned */
+export interface ReconciliationRecord {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  accommodation_id: string | null;
+}
+
+/**
+ * - `ok`: the assigned accommodation is claimed exactly once
+ * - `not_claimed`: assigned, but no entry claims a night – the company pays, nothing is deducted
+ * - `not_assigned`: an entry claims a night without an assignment
+ * - `different`: the entry claims another accommodation than the assigned one
+ * - `duplicate`: several entries claim the same night, so it is deducted more than once
+ */
+export type NightStatus = "ok" | "not_claimed" | "not_assigned" | "different" | "duplicate";
+
+export interface NightCheck {
+  date: string;
+  status: NightStatus;
+  assignedAccommodationId: string | null;
+  /** Accommodation claimed by each entry of the day, one item per entry */
+  claimedAccommodationIds: string[];
+  /** All entries of the day, including those without accommodation */
+  recordIds: string[];
+  /** Company cost of the night from the assignment */
+  cost: number;
+  /** Deducted from the invoice for the night */
+  deduction: number;
+}
+
+export interface WeekReconciliation {
+  userId: string;
+  nights: NightCheck[];
+  assignedNights: number;
+  claimedNights: number;
+  /** Sum of assignment price_per_night – what the company pays */
+  companyCost: number;
+  /** Deduction the invoice would compute from the entries */
+  deduction: number;
+  mismatches: number;
+}
+
+export interface RecordFix {
+  recordId: string;
+  accommodationId: string | null;
+}
+
+function nightStatus(assigned: string | null, claimed: string[]): NightStatus {
+  if (claimed.length > 1) return "duplicate";
+  if (!assigned) return claimed.length === 0 ? "ok" : "not_assigned";
+  if (claimed.length === 0) return "not_claimed";
+  return claimed[0] === assigned ? "ok" : "different";
+}
+
+/**
+ * Compare the nights assigned in accommodation_assignments with the nights
+ * claimed in daily entries for every worker appearing in either list.
+ * The deduction uses the accommodation's price_per_person per claiming entry,
+ * the same way the invoice does.
+ */
+export function reconcileWeek(
+  dates: string[],
+  assignments: ReconciliationAssignment[],
+  records: ReconciliationRecord[],
+  pricePerPerson: Map<string, number>
+): WeekReconciliation[] {
+  const userIds = new Set([...assignments.map((a) => a.user_id), ...records.map((r) => r.user_id)]);
+
+  return [...userIds].map((userId) => {
+    const userAssignments = assignments.filter((a) => a.user_id === userId);
+    const userRecords = records.filter((r) => r.user_id === userId);
+
+    const nights = dates.map((date): NightCheck => {
+      const assignment = userAssignments.find((a) => occupiesNight(a, date));
+      const dayRecords = userRecords.filter((r) => r.date === date);
+      const claimed = dayRecords.map((r) => r.accommodation_id).filter((id): id is string => !!id);
+      return {
+        date,
+        status: nightStatus(assignment?.accommodation_id ?? null, claimed),
+        assignedAccommodationId: assignment?.accommodation_id ?? null,
+        claimedAccommodationIds: claimed,
+        recordIds: dayRecords.map((r) => r.id),
+        cost: Number(assignment?.price_per_night ?? 0),
+        deduction: claimed.reduce((sum, id) => sum + (pricePerPerson.get(id) ?? 0), 0),
+      };
+    });
+
+    return {
+      userId,
+      nights,
+      assignedNights: nights.filter((n) => n.assignedAccommodationId).length,
+      claimedNights: nights.filter((n) => n.claimedAccommodationIds.length > 0).length,
+      companyCost: nights.reduce((sum, n) => sum + n.cost, 0),
+      deduction: nights.reduce((sum, n) => sum + n.deduction, 0),
+      mismatches: nights.filter((n) => n.status !== "ok").length,
+    };
+  });
+}
+
+/**
+ * Entry changes that make the daily entries match the assignments: one
+ * entry of an assigned night claims the assigned accommodation, every other
+ * entry of the day claims none. Nights without any entry cannot be fixed this
+ * way and need a deduction override instead.
+ */
+export function fixesForWeek(week: WeekReconciliation, records: ReconciliationRecord[]): RecordFix[] {
+  const byId = new Map(records.map((r) => [r.id, r]));
+  const fixes: RecordFix[] = [];
+
+  for (const night of week.nights) {
+    if (night.status === "ok") continue;
+    // Keep the entry that already claims the assigned accommodation, if any
+    const keeper =
+      night.recordIds.find((id) => byId.get(id)?.accommodation_id === night.assignedAccommodationId) ??
+      night.recordIds[0];
+    night.recordIds.forEach((recordId) => {
+      const target = recordId === keeper ? night.assignedAccommodationId : null;
+      if ((byId.get(recordId)?.accommodation_id ?? null) !== target) {
+        fixes.push({ recordId, accommodationId: target });
+      }
+    });
+  }
+  return fixes;
+}
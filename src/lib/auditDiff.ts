@@ -0,0 +1,55 @@
+import type { Json } from "@/integrations/supabase/types";
+
+/** Tables with an audit trigger, with their labels in the audit log screen */
+export const AUDITED_TABLES: Record<string, string> = {
+  invoices: "Faktúry",
+  weekly_closings: "Uzávierky",
+  performance_records: "Denné záznamy",
+  sanctions: "Sankcie",
+  advances: "Zálohy",
+  rate_history: "Sadzby",
+  user_roles: "Roly",
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  INSERT: "Vytvorenie",
+  UPDATE: "Zmena",
+  DELETE: "Vymazanie",
+};
+
+export interface AuditFieldChange {
+  field: string;
+  oldValue: Json | undefined;
+  newValue: Json | undefined;
+  changed: boolean;
+}
+
+type JsonObject = { [key: string]: Json | undefined };
+
+function asObject(value: Json | null): JsonObject {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+}
+
+/**
+ * Field-by-field comparison of an audited row, changed fields first.
+ */
+export function diffAuditEntry(oldData: Json | null, newData: Json | null): AuditFieldChange[] {
+  const before = asObject(oldData);
+  const after = asObject(newData);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .map((field) => ({
+      field,
+      oldValue: before[field],
+      newValue: after[field],
+      changed: JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null),
+    }))
+    .sort((a, b) => Number(b.changed) - Number(a.changed) || a.field.localeCompare(b.field));
+}
+
+export function formatAuditValue(value: Json | undefined): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractVariableSymbol,
+  matchTransactions,
+  parseBankCsv,
+  parseBankStatement,
+  parseCamt053,
+  type BankTransaction,
+  type MatchableInvoice,
+} from "./bankStatementImport";
+import camt053 from "./__fixtures__/camt053.xml?raw";
+import slovakCsv from "./__fixtures__/statement-sk.csv?raw";
+import englishCsv from "./__fixtures__/statement-en.csv?raw";
+
+const invoices: MatchableInvoice[] = [
+  {
+    id: "inv-novak",
+    invoiceNumber: "2026001",
+    supplierName: "Ján Novák",
+    payableAmount: 1250,
+    supplierIban: "SK31 1200 0000 1987 4263 7541",
+  },
+  {
+    id: "inv-horvath",
+    invoiceNumber: "2026002",
+    supplierName: "Peter Horváth",
+    payableAmount: 300,
+    supplierIban: "SK8975000000000012345671",
+  },
+];
+
+const debit = (overrides: Partial<BankTransaction>): BankTransaction => ({
+  id: "t1",
+  bookingDate: "2026-03-27",
+  amount: 1250,
+  direction: "debit",
+  counterpartyName: null,
+  counterpartyIban: null,
+  variableSymbol: null,
+  reference: null,
+  ...overrides,
+});
+
+describe("parseCamt053", () => {
+  it("reads the booked entries with the counterparty of each direction", () => {
+    expect(parseCamt053(camt053)).toEqual([
+      {
+        id: "camt-0",
+        bookingDate: "2026-03-27",
+        amount: 1250,
+        direction: "debit",
+        counterpartyName: "Ján Novák",
+        counterpartyIban: "SK3112000000198742637541",
+        variableSymbol: "2026001",
+        reference: "Faktura 2026001",
+      },
+      {
+        id: "camt-1",
+        bookingDate: "2026-03-28",
+        amount: 300,
+        direction: "credit",
+        counterpartyName: "Peter Horváth",
+        counterpartyIban: "SK8975000000000012345671",
+        variableSymbol: "0002026002",
+        reference: "/VS0002026002/SS/KS",
+      },
+      {
+        id: "camt-2",
+        bookingDate: "2026-03-29",
+        amount: 99.9,
+        direction: "debit",
+        counterpartyName: null,
+        counterpartyIban: null,
+        variableSymbol: null,
+        reference: null,
+      },
+    ]);
+  });
+
+  it("rejects files that are not a camt.053 statement", () => {
+    expect(() => parseCamt053("<Document><Stmt>")).toThrow("Súbor nie je platné XML");
+    expect(() => parseCamt053("<Document><CstmrCdtTrfInitn/></Document>")).toThrow("XML neobsahuje výpis camt.053");
+  });
+});
+
+describe("parseBankCsv", () => {
+  it("reads a Slovak export with diacritics in the headers and decimal commas", () => {
+    expect(parseBankCsv(slovakCsv)).toEqual([
+      {
+        id: "csv-0",
+        bookingDate: "2026-03-27",
+        amount: 1250,
+        direction: "debit",
+        counterpartyName: "Ján Novák",
+        counterpartyIban: "SK31 1200 0000 1987 4263 7541",
+        variableSymbol: "0002026001",
+        reference: "Faktúra 2026001",
+      },
+      {
+        id: "csv-1",
+        bookingDate: "2026-03-28",
+        amount: 300,
+        direction: "credit",
+        counterpartyName: "Peter Horváth",
+        counterpartyIban: "SK8975000000000012345671",
+        variableSymbol: "2026002",
+        reference: "VS: 2026002",
+      },
+      {
+        id: "csv-2",
+        bookingDate: "2026-03-29",
+        amount: 99.9,
+        direction: "debit",
+        counterpartyName: "Stavebniny; s.r.o.",
+        counterpartyIban: null,
+        variableSymbol: null,
+        reference: 'Platba "záloha"',
+      },
+    ]);
+  });
+
+  it("reads a comma-separated export with thousands separators", () => {
+    const [payment, received] = parseBankCsv(englishCsv);
+    expect(payment).toMatchObject({ amount: 1250, direction: "debit", variableSymbol: "2026001" });
+    expect(received).toMatchObject({ amount: 300, direction: "credit", variableSymbol: "2026002" });
+  });
+
+  it("treats only whole debit markers as outgoing", () => {
+    const csv = ["Datum;Suma;Smer", "01.04.2026;10,00;Debet", "01.04.2026;10,00;Došlá", "01.04.2026;10,00;dobropis"].join("\n");
+    expect(parseBankCsv(csv).map((t) => t.direction)).toEqual(["debit", "credit", "credit"]);
+  });
+
+  it("needs a date and an amount column", () => {
+    expect(() => parseBankCsv("Datum;Suma")).toThrow("CSV súbor neobsahuje žiadne pohyby");
+    expect(() => parseBankCsv("Popis;Suma\nNákup;10,00")).toThrow("CSV súbor musí obsahovať stĺpce s dátumom a sumou");
+  });
+});
+
+describe("parseBankStatement", () => {
+  it("chooses the format by content", () => {
+    expect(parseBankStatement(camt053)[0].id).toBe("camt-0");
+    expect(parseBankStatement(slovakCsv)[0].id).toBe("csv-0");
+  });
+});
+
+describe("extractVariableSymbol", () => {
+  it("finds tagged and plain numeric symbols", () => {
+    expect(extractVariableSymbol("/VS2026001/SS/KS")).toBe("2026001");
+    expect(extractVariableSymbol("vs: 2026001")).toBe("2026001");
+    expect(extractVariableSymbol(" 2026001 ")).toBe("2026001");
+    expect(extractVariableSymbol("Faktúra 2026001")).toBeNull();
+  });
+});
+
+describe("matchTransactions", () => {
+  it("matches the camt.053 statement against open invoices", () => {
+    const matches = matchTransactions(parseCamt053(camt053), invoices);
+    expect(matches.map((m) => m.confidence)).toEqual(["confident", "unmatched", "unmatched"]);
+    expect(matches[0].candidates).toEqual([{ invoice: invoices[0], matchedOn: ["vs", "amount", "iban"] }]);
+  });
+
+  it("never settles an invoice with an incoming credit", () => {
+    const [refund] = matchTransactions(
+      [debit({ direction: "credit", variableSymbol: "2026001", counterpartyIban: "SK3112000000198742637541" })],
+      invoices
+    );
+    expect(refund.confidence).toBe("unmatched");
+    expect(refund.candidates).toEqual([]);
+  });
+
+  it("compares variable symbols without leading zeros", () => {
+    const [match] = matchTransactions([debit({ amount: 300, variableSymbol: "0002026002" })], invoices);
+    expect(match.confidence).toBe("confident");
+    expect(match.candidates[0].invoice.id).toBe("inv-horvath");
+  });
+
+  it("needs a variable symbol or IBAN hit besides the amount", () => {
+    const [match] = matchTransactions([debit({ amount: 300 })], invoices);
+    expect(match.confidence).toBe("unmatched");
+  });
+
+  it("leaves a single criterion for the user to confirm", () => {
+    const [match] = matchTransactions([debit({ amount: 999, variableSymbol: "2026001" })], invoices);
+    expect(match.confidence).toBe("ambiguous");
+    expect(match.candidates.map((c) => c.matchedOn)).toEqual([["vs"]]);
+  });
+
+  it("is ambiguous when two invoices match equally well", () => {
+    const twoWeeks: MatchableInvoice[] = [
+      { ...invoices[1], id: "week-12", invoiceNumber: "2026012" },
+      { ...invoices[1], id: "week-13", invoiceNumber: "2026013" },
+    ];
+    const [match] = matchTransactions([debit({ amount: 300, counterpartyIban: "SK89 7500 0000 0000 1234 5671" })], twoWeeks);
+    expect(match.confidence).toBe("ambiguous");
+    expect(match.candidates.map((c) => c.invoice.id)).toEqual(["week-12", "week-13"]);
+  });
+});
@@ -0,0 +1,310 @@
+import { extractNumericVS } from "./invoiceGenerator";
+import { normalizeIban } from "./sepaExport";
+
+export type TransactionDirection = "credit" | "debit";
+
+export interface BankTransaction {
+  /** Stable key within one statement */
+  id: string;
+  bookingDate: string; // YYYY-MM-DD
+  amount: number; // always positive, see direction
+  direction: TransactionDirection;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  variableSymbol: string | null;
+  reference: string | null;
+}
+
+export interface MatchableInvoice {
+  id: string;
+  invoiceNumber: string;
+  supplierName: string;
+  payableAmount: number;
+  supplierIban: string | null;
+}
+
+export type MatchCriterion = "vs" | "amount" | "iban";
+
+export interface MatchCandidate {
+  invoice: MatchableInvoice;
+  matchedOn: MatchCriterion[];
+}
+
+export type MatchConfidence = "confident" | "ambiguous" | "unmatched";
+
+export interface TransactionMatch {
+  transaction: BankTransaction;
+  confidence: MatchConfidence;
+  /** Best candidates first */
+  candidates: MatchCandidate[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Variable symbols are compared without leading zeros, banks pad them to 10 digits.
+ */
+function normalizeVS(vs: string | null | undefined): string {
+  return (vs || "").replace(/\D/g, "").replace(/^0+/, "");
+}
+
+/**
+ * Find a variable symbol in free text: "/VS2026001/SS/KS", "VS: 2026001"
+ * or a purely numeric reference.
+ */
+export function extractVariableSymbol(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const tagged = text.match(/VS[\s:/]*(\d{1,10})/i);
+  if (tagged) return tagged[1];
+  const trimmed = text.trim();
+  return /^\d{1,10}$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Parse "1 234,56", "1234.56" or "-1.234,56" into a number.
+ */
+function parseAmount(value: string): number {
+  let clean = value.replace(/[\s\u00a0€]/g, "").replace(/EUR/i, "");
+  if (clean.includes(",") && clean.includes(".")) {
+    // The later separator is the decimal one
+    clean = clean.lastIndexOf(",") > clean.lastIndexOf(".")
+      ? clean.replace(/\./g, "").replace(",", ".")
+      : clean.replace(/,/g, "");
+  } else {
+    clean = clean.replace(",", ".");
+  }
+  const num = parseFloat(clean);
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Parse "2026-03-27", "27.03.2026" or "27.3.2026" into YYYY-MM-DD.
+ */
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dotted = trimmed.match(/^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})/);
+  if (dotted) return `${dotted[3]}-${dotted[2].padStart(2, "0")}-${dotted[1].padStart(2, "0")}`;
+  return null;
+}
+
+// ============================================================================
+// camt.053
+// ============================================================================
+
+function findFirst(root: Element | Document, path: string[]): Element | null {
+  let current: Element | Document | null = root;
+  for (const name of path) {
+    if (!current) return null;
+    current = current.getElementsByTagNameNS("*", name)[0] ?? null;
+  }
+  return current as Element | null;
+}
+
+function textAt(root: Element, path: string[]): string | null {
+  return findFirst(root, path)?.textContent?.trim() || null;
+}
+
+/**
+ * Parse the booked entries of an ISO 20022 camt.053 bank statement.
+ */
+export function parseCamt053(xml: string): BankTransaction[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Súbor nie je platné XML");
+  }
+  if (doc.getElementsByTagNameNS("*", "BkToCstmrStmt").length === 0) {
+    throw new Error("XML neobsahuje výpis camt.053");
+  }
+
+  return Array.from(doc.getElementsByTagNameNS("*", "Ntry")).map((entry, index) => {
+    const direction: TransactionDirection = textAt(entry, ["CdtDbtInd"]) === "DBIT" ? "debit" : "credit";
+    const details = findFirst(entry, ["TxDtls"]) ?? entry;
+    // The counterparty is the creditor on our debits and the debtor on our credits
+    const party = direction === "debit" ? "Cdtr" : "Dbtr";
+
+    const endToEndId = textAt(details, ["Refs", "EndToEndId"]);
+    const unstructured = textAt(details, ["RmtInf", "Ustrd"]);
+    const structured = textAt(details, ["RmtInf", "Strd", "CdtrRefInf", "Ref"]);
+    const reference = unstructured || structured || endToEndId;
+
+    return {
+      id: `camt-${index}`,
+      bookingDate: parseDate(textAt(entry, ["BookgDt"]) || "") || parseDate(textAt(entry, ["ValDt"]) || "") || "",
+      amount: Math.abs(parseAmount(textAt(entry, ["Amt"]) || "0")),
+      direction,
+      counterpartyName: textAt(details, ["RltdPties", party, "Nm"]),
+      counterpartyIban: textAt(details, ["RltdPties", `${party}Acct`, "IBAN"]),
+      variableSymbol:
+        extractVariableSymbol(endToEndId) ?? extractVariableSymbol(structured) ?? extractVariableSymbol(unstructured),
+      reference,
+    };
+  });
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+type CsvField = Exclude<keyof BankTransaction, "id">;
+
+const CSV_COLUMNS: Record<CsvField, string[]> = {
+  bookingDate: ["datum zauctovania", "datum", "date", "booking date", "buchungsdatum", "buchungstag"],
+  amount: ["suma", "ciastka", "amount", "betrag"],
+  direction: ["typ", "smer", "credit/debit", "soll/haben"],
+  counterpartyName: ["nazov protistrany", "protistrana", "counterparty", "name", "empfanger", "auftraggeber"],
+  counterpartyIban: ["iban protistrany", "protiucet", "iban", "counterparty iban"],
+  variableSymbol: ["variabilny symbol", "vs", "variable symbol"],
+  reference: ["sprava pre prijemcu", "poznamka", "popis", "reference", "verwendungszweck", "description"],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^"|"$/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/** Whole-cell values of the direction column that mark an outgoing payment (normalised) */
+const DEBIT_MARKERS = new Set(["d", "db", "dbit", "debit", "debet", "s", "soll", "odchod", "odchodzia", "odchadzajuca", "odoslana"]);
+
+/**
+ * Parse a bank CSV export. Columns are recognised by their (SK/EN/DE) header names;
+ * a negative amount or a debit marker in the direction column marks an outgoing payment.
+ */
+export function parseBankCsv(text: string): BankTransaction[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("CSV súbor neobsahuje žiadne pohyby");
+
+  const delimiter = (lines[0].match(/;/g)?.length ?? 0) >= (lines[0].match(/,/g)?.length ?? 0) ? ";" : ",";
+  const headers = splitCsvLine(lines[0], delimiter).map(normalizeHeader);
+
+  const columnIndex = (field: CsvField): number => {
+    for (const alias of CSV_COLUMNS[field]) {
+      const index = headers.indexOf(alias);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as CsvField[]).map((field) => [field, columnIndex(field)])
+  ) as Record<CsvField, number>;
+
+  if (columns.bookingDate < 0 || columns.amount < 0) {
+    throw new Error("CSV súbor musí obsahovať stĺpce s dátumom a sumou");
+  }
+
+  const cell = (cells: string[], field: CsvField): string | null =>
+    columns[field] >= 0 ? cells[columns[field]] || null : null;
+
+  return lines.slice(1).flatMap((line, index): BankTransaction[] => {
+    const cells = splitCsvLine(line, delimiter);
+    const bookingDate = parseDate(cell(cells, "bookingDate") || "");
+    if (!bookingDate) return [];
+
+    const signedAmount = parseAmount(cell(cells, "amount") || "0");
+    const directionCell = normalizeHeader(cell(cells, "direction") || "");
+    const isDebit = signedAmount < 0 || DEBIT_MARKERS.has(directionCell);
+    const reference = cell(cells, "reference");
+
+    return [{
+      id: `csv-${index}`,
+      bookingDate,
+      amount: Math.abs(signedAmount),
+      direction: isDebit ? "debit" : "credit",
+      counterpartyName: cell(cells, "counterpartyName"),
+      counterpartyIban: cell(cells, "counterpartyIban"),
+      variableSymbol: extractVariableSymbol(cell(cells, "variableSymbol")) ?? extractVariableSymbol(reference),
+      reference,
+    }];
+  });
+}
+
+/**
+ * Parse an uploaded statement, choosing the format by content.
+ */
+export function parseBankStatement(content: string): BankTransaction[] {
+  return content.trimStart().startsWith("<") ? parseCamt053(content) : parseBankCsv(content);
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Match every transaction against open invoices by variable symbol, amount and IBAN.
+ *
+ * A candidate needs a VS or IBAN hit – amount alone is too common to mean anything.
+ * The match is confident when exactly one invoice hits on at least two criteria
+ * and beats every other candidate; otherwise the user has to pick.
+ * Only outgoing payments can settle a supplier invoice; incoming credits
+ * (e.g. a returned payment) are never matched.
+ */
+export function matchTransactions(
+  transactions: BankTransaction[],
+  invoices: MatchableInvoice[]
+): TransactionMatch[] {
+  return transactions.map((transaction) => {
+    if (transaction.direction !== "debit") {
+      return { transaction, confidence: "unmatched", candidates: [] };
+    }
+
+    const transactionVS = normalizeVS(transaction.variableSymbol);
+    const transactionIban = normalizeIban(transaction.counterpartyIban);
+
+    const candidates = invoices
+      .map((invoice): MatchCandidate => {
+        const matchedOn: MatchCriterion[] = [];
+        if (transactionVS && normalizeVS(extractNumericVS(invoice.invoiceNumber)) === transactionVS) {
+          matchedOn.push("vs");
+        }
+        if (Math.abs(invoice.payableAmount - transaction.amount) < 0.005) matchedOn.push("amount");
+        if (transactionIban && normalizeIban(invoice.supplierIban) === transactionIban) matchedOn.push("iban");
+        return { invoice, matchedOn };
+      })
+      .filter((c) => c.matchedOn.includes("vs") || c.matchedOn.includes("iban"))
+      .sort((a, b) => b.matchedOn.length - a.matchedOn.length);
+
+    const best = candidates[0];
+    const isConfident =
+      !!best &&
+      best.matchedOn.length >= 2 &&
+      (candidates.length === 1 || candidates[1].matchedOn.length < best.matchedOn.length);
+
+    return {
+      transaction,
+      confidence: isConfident ? "confident" : candidates.length > 0 ? "ambiguous" : "unmatched",
+      candidates,
+    };
+  });
+}
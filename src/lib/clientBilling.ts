@@ -0,0 +1,140 @@
+import { VAT_RATE, type ClientInvoiceLine } from "./invoiceGenerator";
+import { getISOWeekLocal, getISOWeekYear, getWeekDates, parseLocalDate } from "./dateUtils";
+import type { SurchargeLine } from "./surcharges";
+
+/** Client master data (clients table) */
+export interface Client {
+  id: string;
+  name: string;
+  address: string | null;
+  country: string | null;
+  ico: string | null;
+  dic: string | null;
+  vat_number: string | null;
+  email: string | null;
+  payment_terms_days: number;
+  is_reverse_charge: boolean;
+  is_active: boolean;
+}
+
+export type ClientInput = Omit<Client, "id">;
+
+/** An approved record as far as client billing is concerned */
+export interface ClientBillingRecord {
+  date: string;
+  user_id: string;
+  total_hours: number;
+}
+
+/** ISO week of a date as "YYYY-WW", for grouping */
+export const weekKey = (date: string) => {
+  const d = parseLocalDate(date);
+  return `${getISOWeekYear(d)}-${String(getISOWeekLocal(d)).padStart(2, "0")}`;
+};
+
+/** Monday of the first and Sunday of the last of an inclusive week range */
+export function weekRangeDates(
+  from: { week: number; year: number },
+  to: { week: number; year: number }
+): { periodFrom: string; periodTo: string } {
+  return { periodFrom: getWeekDates(from.week, from.year)[0], periodTo: getWeekDates(to.week, to.year)[6] };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Client invoice lines: one work line per calendar week at the project's
+ * client rate, then the project surcharges summed up per rule.
+ */
+export function buildClientInvoiceLines(
+  records: ClientBillingRecord[],
+  clientRate: number,
+  surcharges: SurchargeLine[]
+): ClientInvoiceLine[] {
+  const hoursByWeek = new Map<string, number>();
+  for (const record of records) {
+    const key = weekKey(record.date);
+    hoursByWeek.set(key, (hoursByWeek.get(key) ?? 0) + (Number(record.total_hours) || 0));
+  }
+
+  const workLines = [...hoursByWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .filter(([, hours]) => hours > 0)
+    .map(([key, hours]) => {
+      const [year, week] = key.split("-");
+      const quantity = round2(hours);
+      return {
+        kind: "work" as const,
+        description: `Montazne prace KW ${Number(week)}/${year}`,
+        quantity,
+        unitPrice: clientRate,
+        amount: round2(quantity * clientRate),
+      };
+    });
+
+  const surchargesByLabel = new Map<string, ClientInvoiceLine>();
+  for (const line of surcharges) {
+    const existing: ClientInvoiceLine = surchargesByLabel.get(line.label) ?? {
+      kind: "surcharge",
+      description: `Priplatok: ${line.label}`,
+      quantity: 0,
+      unitPrice: line.ratePerHour,
+      amount: 0,
+    };
+    existing.quantity = round2(existing.quantity + line.hours);
+    existing.amount = round2(existing.amount + line.amount);
+    surchargesByLabel.set(line.label, existing);
+  }
+
+  return [...workLines, ...surchargesByLabel.values()];
+}
+
+/** Subtotal, VAT and total of a client invoice */
+export function clientInvoiceTotals(lines: ClientInvoiceLine[], isReverseCharge: boolean) {
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const vatAmount = isReverseCharge ? 0 : round2(subtotal * VAT_RATE);
+  return { subtotal, vatAmount, totalAmount: round2(subtotal + vatAmount) };
+}
+
+export interface ProjectMargin {
+  projectId: string;
+  projectName: string;
+  clientName: string | null;
+  /** Net client invoices */
+  revenue: number;
+  /** Net subcontractor invoice lines attributed to the project */
+  cost: number;
+  margin: number;
+  /** Margin in % of revenue; null without revenue */
+  marginPercent: number | null;
+}
+
+/**
+ * Client revenue versus subcontractor cost per project, largest revenue first.
+ */
+export function calculateProjectMargins(
+  projects: { id: string; name: string; clientName: string | null }[],
+  revenue: { project_id: string; amount: number }[],
+  cost: { project_id: string | null; amount: number }[]
+): ProjectMargin[] {
+  const sum = (rows: { project_id: string | null; amount: number }[], projectId: string) =>
+    round2(rows.filter((row) => row.project_id === projectId).reduce((s, row) => s + (Number(row.amount) || 0), 0));
+
+  return projects
+    .map((project) => {
+      const projectRevenue = sum(revenue, project.id);
+      const projectCost = sum(cost, project.id);
+      const margin = round2(projectRevenue - projectCost);
+      return {
+        projectId: project.id,
+        projectName: project.name,
+        clientName: project.clientName,
+        revenue: projectRevenue,
+        cost: projectCost,
+        margin,
+        marginPercent: projectRevenue > 0 ? round2((margin / projectRevenue) * 100) : null,
+      };
+    })
+    .filter((row) => row.revenue !== 0 || row.cost !== 0)
+    .sort((a, b) => b.revenue - a.revenue || b.cost - a.cost);
+}
@@ -0,0 +1,94 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface ClientSignoffDay {
+  date: string;
+  time_from: string;
+  time_to: string;
+  total_hours: number;
+}
+
+export interface ClientSignoffWorker {
+  /** Missing on weeks signed before workers were identified by id */
+  user_id?: string;
+  worker_name: string;
+  total_hours: number;
+  days: ClientSignoffDay[];
+}
+
+/** Read-only week summary behind a signing link (client_signoff_summary) */
+export interface ClientSignoffSummary {
+  project: {
+    name: string;
+    client: string;
+    location: string | null;
+    address: string | null;
+  };
+  calendar_week: number;
+  year: number;
+  week_start: string;
+  week_end: string;
+  total_hours: number;
+  workers: ClientSignoffWorker[];
+  signer_name: string | null;
+  signed_at: string | null;
+  expires_at: string;
+  /** Identifies the hours shown; sent back when signing */
+  summary_hash: string;
+}
+
+/** The client's confirmation of a project week as embedded in the exports */
+export interface ClientSignoff {
+  signerName: string;
+  signedAt: string;
+  /** PNG as a data URL */
+  signatureBase64: string;
+  /** The hours as shown to the signer */
+  summary: ClientSignoffSummary;
+}
+
+/** Record fields compared against the signed hours */
+export interface ClientSignoffRecord {
+  date: string;
+  time_from: string;
+  time_to: string;
+  total_hours: number | null;
+}
+
+const dayKey = (day: ClientSignoffRecord) =>
+  `${day.date}|${day.time_from.slice(0, 5)}|${day.time_to.slice(0, 5)}|${Number(day.total_hours ?? 0).toFixed(2)}`;
+
+/**
+ * The sign-off when a worker's exported records are exactly the hours the
+ * client signed for them, otherwise null so that the export goes unsigned.
+ */
+export function clientSignoffForRecords(
+  signoff: ClientSignoff | null,
+  userId: string,
+  records: ClientSignoffRecord[]
+): ClientSignoff | null {
+  if (!signoff) return null;
+  const worker = signoff.summary.workers.find((w) => w.user_id === userId);
+  const signed = (worker?.days ?? []).map(dayKey).sort();
+  const exported = records.map(dayKey).sort();
+  const matches = signed.length === exported.length && signed.every((key, index) => key === exported[index]);
+  return matches ? signoff : null;
+}
+
+export function parseClientSignoffSummary(summary: Json): ClientSignoffSummary {
+  if (!summary || typeof summary !== "object" || Array.isArray(summary)) {
+    throw new Error("Neplatný prehľad týždňa");
+  }
+  return summary as unknown as ClientSignoffSummary;
+}
+
+export function clientSignoffUrl(token: string): string {
+  return `${window.location.origin}/sign/${token}`;
+}
+
+/** "Bestätigt: Name, dd.MM.yyyy HH:mm" line printed next to the client signature */
+export function clientSignoffLabel(signoff: ClientSignoff): string {
+  const signedAt = new Date(signoff.signedAt);
+  const date = signedAt.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+  const time = signedAt.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+  return `Bestätigt / Potvrdil: ${signoff.signerName}, ${date} ${time}`;
+}
@@ -0,0 +1,54 @@
+import type { CustomerParty, SupplierParty } from "./invoiceGenerator";
+
+/** A legal entity using the app (companies table) */
+export interface Company {
+  id: string;
+  name: string;
+  street: string;
+  country: string;
+  ico: string | null;
+  dic: string | null;
+  vat_number: string | null;
+  iban: string | null;
+  swift_bic: string | null;
+  logo_path: string | null;
+  signature_path: string | null;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export type CompanyInput = Omit<Company, "id" | "is_default" | "logo_path" | "signature_path">;
+
+export const COMPANY_COLUMNS =
+  "id, name, street, country, ico, dic, vat_number, iban, swift_bic, logo_path, signature_path, is_default, is_active";
+
+/** Name and logo printed on exported documents */
+export interface CompanyBranding {
+  name: string;
+  /** base64 PNG without the data: prefix; null prints no logo, undefined the bundled TKJD logo */
+  logoBase64?: string | null;
+}
+
+/** The company as the ODBERATEL of subcontractor invoices; without one the PDF falls back to TKJD */
+export const companyCustomerParty = (company: Company | null | undefined): CustomerParty | undefined =>
+  company
+    ? {
+        name: company.name,
+        street: company.street,
+        country: company.country,
+        ico: company.ico,
+        dic: company.dic,
+        icDph: company.vat_number,
+      }
+    : undefined;
+
+/** The company as the DODAVATEL of its own (client) invoices */
+export const companySupplierParty = (company: Company): SupplierParty => ({
+  supplierName: company.name,
+  supplierAddress: company.street,
+  supplierCountry: company.country,
+  supplierIco: company.ico ?? undefined,
+  supplierDic: company.dic ?? undefined,
+  isVatPayer: !!company.vat_number,
+  vatNumber: company.vat_number ?? undefined,
+});
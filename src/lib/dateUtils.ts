@@ -79,3 +79,16 @@ export function getMondayAfterWeek(calendarWeek: number, year: number): Date {
   mondayAfter.setDate(mondayOfWeek.getDate() + 7);
   return mondayAfter;
 }
+
+/**
+ * The seven YYYY-MM-DD dates (Monday–Sunday) of an ISO calendar week.
+ */
+export function getWeekDates(calendarWeek: number, year: number): string[] {
+  const monday = getMondayAfterWeek(calendarWeek, year);
+  monday.setDate(monday.getDate() - 7);
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(monday);
+    day.setDate(monday.getDate() + i);
+    return formatDateString(day);
+  });
+}
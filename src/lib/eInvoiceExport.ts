@@ -0,0 +1,519 @@
+import { format, addDays } from "date-fns";
+import {
+  CUSTOMER,
+  VAT_RATE,
+  InvoiceData,
+  type InvoiceLine,
+  buildPaymentMessage,
+  calculateInvoiceTotals,
+  extractNumericVS,
+  generatePayBySquareData,
+  invoiceLineLabel,
+} from "./invoiceGenerator";
+
+export type EInvoiceFormat = "isdoc" | "ubl";
+
+export const E_INVOICE_FORMAT_LABELS: Record<EInvoiceFormat, string> = {
+  isdoc: "ISDOC 6.0.2",
+  ubl: "UBL 2.1 (Peppol BIS 3.0)",
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function escapeXml(value: string | number | null | undefined): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function amount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+/** Render a single element, skipping it entirely when the value is empty. */
+function el(tag: string, value: string | number | null | undefined, attrs = ""): string {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${tag}${attrs}>${escapeXml(value)}</${tag}>`;
+}
+
+interface ParsedAddress {
+  street: string;
+  buildingNumber: string;
+  postalZone: string;
+  city: string;
+}
+
+/**
+ * Best-effort split of the free-text billing address ("Ulica 12\n040 01 Košice").
+ */
+function parseAddress(address: string | null | undefined): ParsedAddress {
+  const parts = (address || "")
+    .split(/[\n,]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const result: ParsedAddress = { street: parts[0] || "", buildingNumber: "", postalZone: "", city: "" };
+
+  const streetMatch = result.street.match(/^(.*?)\s+(\d+[\w/]*)$/);
+  if (streetMatch) {
+    result.street = streetMatch[1];
+    result.buildingNumber = streetMatch[2];
+  }
+
+  for (const part of parts.slice(1)) {
+    const cityMatch = part.match(/^(\d{3}\s?\d{2})\s+(.+)$/);
+    if (cityMatch) {
+      result.postalZone = cityMatch[1].replace(/\s/g, "");
+      result.city = cityMatch[2];
+      break;
+    }
+  }
+  if (!result.city && parts.length > 1) {
+    result.city = parts[parts.length - 1];
+  }
+
+  return result;
+}
+
+/**
+ * SK/CZ IBANs embed the local bank code and account number.
+ */
+function splitIban(iban: string): { bankCode: string; account: string } {
+  const clean = iban.replace(/\s/g, "").toUpperCase();
+  if (/^(SK|CZ)\d{22}$/.test(clean)) {
+    const prefix = clean.slice(8, 14).replace(/^0+/, "");
+    const number = clean.slice(14).replace(/^0+/, "");
+    return { bankCode: clean.slice(4, 8), account: prefix ? `${prefix}-${number}` : number };
+  }
+  return { bankCode: "", account: clean };
+}
+
+function countryCode(country: string | null | undefined): string {
+  const normalized = (country || "").toLowerCase();
+  if (normalized.includes("česk") || normalized.includes("czech")) return "CZ";
+  if (normalized.includes("nemec") || normalized.includes("deutsch") || normalized.includes("germany")) return "DE";
+  if (normalized.includes("rakús") || normalized.includes("österreich") || normalized.includes("austria")) return "AT";
+  return "SK";
+}
+
+interface EInvoiceLine {
+  name: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+interface EInvoiceContext {
+  invoiceNumber: string;
+  issueDate: string;
+  deliveryDate: string;
+  dueDate: string;
+  totals: ReturnType<typeof calculateInvoiceTotals>;
+  deductions: { id: string; label: string; amount: number }[];
+  /** Work lines per project followed by one line per surcharge, as on the PDF */
+  lines: EInvoiceLine[];
+  variableSymbol: string;
+  paymentMessage: string;
+}
+
+function buildContext(data: InvoiceData): EInvoiceContext {
+  const invoiceNumber = data.invoiceNumber || "";
+  const issueDate = data.historicalIssueDate || format(new Date(), "yyyy-MM-dd");
+  const deliveryDate = data.historicalDeliveryDate || issueDate;
+  const dueDate = data.historicalDueDate || format(addDays(new Date(issueDate + "T12:00:00"), 21), "yyyy-MM-dd");
+  const totals = calculateInvoiceTotals(data);
+
+  const deductions = [
+    { id: "ZALOHA", label: "Poskytnutá záloha", amount: totals.advanceDeduction },
+    { id: "SANKCIE", label: "Zrážka - sankcie za nízky výkon", amount: totals.sanctionsDeduction },
+    { id: "UBYTOVANIE", label: "Zrážka za ubytovanie", amount: totals.accommodationDeduction },
+  ].filter((d) => d.amount > 0);
+
+  const workLines: InvoiceLine[] = data.lines?.length
+    ? data.lines
+    : [{ projectId: null, projectName: data.projectName, hours: totals.totalHours, hourlyRate: totals.hourlyRate, amount: totals.workAmount }];
+  const lines: EInvoiceLine[] = [
+    ...workLines.map((line) => ({
+      name: `Práca KW${data.calendarWeek}/${data.year} - ${invoiceLineLabel(line, workLines)}`,
+      description: `Fakturujem Vám na základe zmluvy za vykonanú prácu za ${data.calendarWeek}. kalendárny týždeň (${invoiceLineLabel(line, workLines)})`,
+      quantity: line.hours,
+      unitPrice: line.hourlyRate,
+      amount: line.amount,
+    })),
+    ...(data.surcharges || []).map((line) => ({
+      name: `Príplatok: ${line.label}`,
+      description: `Príplatok ${line.label} za ${data.calendarWeek}. kalendárny týždeň`,
+      quantity: line.hours,
+      unitPrice: line.ratePerHour,
+      amount: line.amount,
+    })),
+  ];
+
+  return {
+    invoiceNumber,
+    issueDate,
+    deliveryDate,
+    dueDate,
+    totals,
+    deductions,
+    lines,
+    variableSymbol: extractNumericVS(invoiceNumber),
+    paymentMessage: buildPaymentMessage(data.calendarWeek, data.supplierName),
+  };
+}
+
+function buildNotes(data: InvoiceData, ctx: EInvoiceContext): string[] {
+  const notes: string[] = [];
+  if (data.isReverseCharge) notes.push("Prenesenie daňovej povinnosti");
+  if (!data.isVatPayer) notes.push("Nie je platiteľ DPH.");
+  for (const d of ctx.deductions) {
+    notes.push(`${d.label}: -${amount(d.amount)} EUR`);
+  }
+  if (data.supplierIban) {
+    notes.push(
+      `PAY by square: ${generatePayBySquareData(
+        data.supplierIban,
+        ctx.totals.totalAmount,
+        ctx.invoiceNumber,
+        data.calendarWeek,
+        data.supplierName
+      )}`
+    );
+  }
+  return notes;
+}
+
+// ============================================================================
+// ISDOC 6.0.2
+// ============================================================================
+
+function isdocParty(p: {
+  ico?: string | null;
+  name: string;
+  address: ParsedAddress;
+  country: string;
+  /** DIČ (TIN) and IČ DPH (VAT) */
+  taxIds: { id: string; scheme: "TIN" | "VAT" }[];
+}): string {
+  return [
+    "<Party>",
+    `<PartyIdentification>${el("ID", p.ico || "")}</PartyIdentification>`,
+    `<PartyName>${el("Name", p.name)}</PartyName>`,
+    "<PostalAddress>",
+    `<StreetName>${escapeXml(p.address.street)}</StreetName>`,
+    `<BuildingNumber>${escapeXml(p.address.buildingNumber)}</BuildingNumber>`,
+    `<CityName>${escapeXml(p.address.city)}</CityName>`,
+    `<PostalZone>${escapeXml(p.address.postalZone)}</PostalZone>`,
+    `<Country><IdentificationCode>${p.country}</IdentificationCode><Name></Name></Country>`,
+    "</PostalAddress>",
+    ...p.taxIds.map(
+      (t) => `<PartyTaxScheme>${el("CompanyID", t.id)}<TaxScheme>${t.scheme}</TaxScheme></PartyTaxScheme>`
+    ),
+    "</Party>",
+  ].join("");
+}
+
+/**
+ * Serialise invoice data into an ISDOC 6.0.2 document.
+ * Advances and other deductions are reported as non-taxed deposits so the
+ * payable amount matches the PDF.
+ */
+export function buildIsdocXml(data: InvoiceData, documentUuid: string): string {
+  const ctx = buildContext(data);
+  const customer = data.customer ?? CUSTOMER;
+  const { totals } = ctx;
+  const vatApplicable = data.isVatPayer;
+  const percent = vatApplicable && !data.isReverseCharge ? VAT_RATE * 100 : 0;
+  const taxInclusive = totals.baseAmount + totals.vatAmount;
+  const deposits = ctx.deductions.reduce((sum, d) => sum + d.amount, 0);
+  const reverseChargeFlag = data.isReverseCharge ? "<LocalReverseChargeFlag>true</LocalReverseChargeFlag>" : "";
+  const taxCategory = `<Percent>${percent}</Percent><VATApplicable>${vatApplicable}</VATApplicable>${reverseChargeFlag}`;
+  const lineTaxCategory =
+    `<Percent>${percent}</Percent><VATCalculationMethod>0</VATCalculationMethod>` +
+    `<VATApplicable>${vatApplicable}</VATApplicable>${reverseChargeFlag}`;
+
+  const supplierTaxIds: { id: string; scheme: "TIN" | "VAT" }[] = [];
+  if (data.supplierDic) supplierTaxIds.push({ id: data.supplierDic, scheme: "TIN" });
+  if (data.isVatPayer && data.vatNumber) supplierTaxIds.push({ id: data.vatNumber, scheme: "VAT" });
+  const supplierCountry = countryCode(data.supplierCountry);
+  const iban = data.supplierIban ? splitIban(data.supplierIban) : null;
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="http://isdoc.cz/namespace/2013" version="6.0.2">',
+    "<DocumentType>1</DocumentType>",
+    el("ID", ctx.invoiceNumber),
+    el("UUID", documentUuid.toUpperCase()),
+    "<IssuingSystem>TKJD</IssuingSystem>",
+    el("IssueDate", ctx.issueDate),
+    el("TaxPointDate", ctx.deliveryDate),
+    `<VATApplicable>${vatApplicable}</VATApplicable>`,
+    "<ElectronicPossibilityAgreementReference></ElectronicPossibilityAgreementReference>",
+    el("Note", buildNotes(data, ctx).join("; ")),
+    "<LocalCurrencyCode>EUR</LocalCurrencyCode>",
+    "<CurrRate>1</CurrRate>",
+    "<RefCurrRate>1</RefCurrRate>",
+    "<AccountingSupplierParty>",
+    isdocParty({
+      ico: data.supplierIco,
+      name: data.supplierName,
+      address: parseAddress(data.supplierAddress),
+      country: supplierCountry,
+      taxIds: supplierTaxIds,
+    }),
+    "</AccountingSupplierParty>",
+    "<AccountingCustomerParty>",
+    isdocParty({
+      ico: customer.ico,
+      name: customer.name,
+      address: parseAddress(customer.street),
+      country: countryCode(customer.country),
+      taxIds: [
+        ...(customer.dic ? [{ id: customer.dic, scheme: "TIN" as const }] : []),
+        ...(customer.icDph ? [{ id: customer.icDph, scheme: "VAT" as const }] : []),
+      ],
+    }),
+    "</AccountingCustomerParty>",
+    "<InvoiceLines>",
+    ...ctx.lines.map((line, index) =>
+      [
+        "<InvoiceLine>",
+        `<ID>${index + 1}</ID>`,
+        `<InvoicedQuantity unitCode="HUR">${line.quantity}</InvoicedQuantity>`,
+        `<LineExtensionAmount>${amount(line.amount)}</LineExtensionAmount>`,
+        `<LineExtensionAmountTaxInclusive>${amount(line.amount * (1 + percent / 100))}</LineExtensionAmountTaxInclusive>`,
+        `<LineExtensionTaxAmount>${amount((line.amount * percent) / 100)}</LineExtensionTaxAmount>`,
+        `<UnitPrice>${amount(line.unitPrice)}</UnitPrice>`,
+        `<UnitPriceTaxInclusive>${amount(line.unitPrice * (1 + percent / 100))}</UnitPriceTaxInclusive>`,
+        `<ClassifiedTaxCategory>${lineTaxCategory}</ClassifiedTaxCategory>`,
+        `<Item>${el("Description", line.description)}</Item>`,
+        "</InvoiceLine>",
+      ].join("")
+    ),
+    "</InvoiceLines>",
+    ctx.deductions.length > 0
+      ? [
+          "<NonTaxedDeposits>",
+          ...ctx.deductions.map(
+            (d) =>
+              `<NonTaxedDeposit>${el("ID", d.id)}${el("VariableSymbol", ctx.variableSymbol)}<DepositAmount>${amount(d.amount)}</DepositAmount></NonTaxedDeposit>`
+          ),
+          "</NonTaxedDeposits>",
+        ].join("")
+      : "",
+    "<TaxTotal>",
+    "<TaxSubTotal>",
+    `<TaxableAmount>${amount(totals.baseAmount)}</TaxableAmount>`,
+    `<TaxAmount>${amount(totals.vatAmount)}</TaxAmount>`,
+    `<TaxInclusiveAmount>${amount(taxInclusive)}</TaxInclusiveAmount>`,
+    "<AlreadyClaimedTaxableAmount>0.00</AlreadyClaimedTaxableAmount>",
+    "<AlreadyClaimedTaxAmount>0.00</AlreadyClaimedTaxAmount>",
+    "<AlreadyClaimedTaxInclusiveAmount>0.00</AlreadyClaimedTaxInclusiveAmount>",
+    `<DifferenceTaxableAmount>${amount(totals.baseAmount)}</DifferenceTaxableAmount>`,
+    `<DifferenceTaxAmount>${amount(totals.vatAmount)}</DifferenceTaxAmount>`,
+    `<DifferenceTaxInclusiveAmount>${amount(taxInclusive)}</DifferenceTaxInclusiveAmount>`,
+    `<TaxCategory>${taxCategory}</TaxCategory>`,
+    "</TaxSubTotal>",
+    `<TaxAmount>${amount(totals.vatAmount)}</TaxAmount>`,
+    "</TaxTotal>",
+    "<LegalMonetaryTotal>",
+    `<TaxExclusiveAmount>${amount(totals.baseAmount)}</TaxExclusiveAmount>`,
+    `<TaxInclusiveAmount>${amount(taxInclusive)}</TaxInclusiveAmount>`,
+    "<AlreadyClaimedTaxExclusiveAmount>0.00</AlreadyClaimedTaxExclusiveAmount>",
+    "<AlreadyClaimedTaxInclusiveAmount>0.00</AlreadyClaimedTaxInclusiveAmount>",
+    `<DifferenceTaxExclusiveAmount>${amount(totals.baseAmount)}</DifferenceTaxExclusiveAmount>`,
+    `<DifferenceTaxInclusiveAmount>${amount(taxInclusive)}</DifferenceTaxInclusiveAmount>`,
+    "<PayableRoundingAmount>0.00</PayableRoundingAmount>",
+    `<PaidDepositsAmount>${amount(deposits)}</PaidDepositsAmount>`,
+    `<PayableAmount>${amount(totals.totalAmount)}</PayableAmount>`,
+    "</LegalMonetaryTotal>",
+    iban
+      ? [
+          "<PaymentMeans>",
+          "<Payment>",
+          `<PaidAmount>${amount(totals.totalAmount)}</PaidAmount>`,
+          "<PaymentMeansCode>42</PaymentMeansCode>",
+          "<Details>",
+          el("PaymentDueDate", ctx.dueDate),
+          el("ID", iban.account),
+          `<BankCode>${escapeXml(iban.bankCode)}</BankCode>`,
+          "<Name></Name>",
+          el("IBAN", data.supplierIban?.replace(/\s/g, "")),
+          `<BIC>${escapeXml(data.supplierSwiftBic || "")}</BIC>`,
+          el("VariableSymbol", ctx.variableSymbol),
+          "</Details>",
+          "</Payment>",
+          "</PaymentMeans>",
+        ].join("")
+      : "",
+    "</Invoice>",
+  ];
+
+  return xml.filter(Boolean).join("\n");
+}
+
+// ============================================================================
+// UBL 2.1 - PEPPOL BIS BILLING 3.0
+// ============================================================================
+
+function ublParty(p: {
+  endpoint: string;
+  name: string;
+  address: ParsedAddress;
+  country: string;
+  vatId: string | null;
+  registration: string | null | undefined;
+}): string {
+  const street = [p.address.street, p.address.buildingNumber].filter(Boolean).join(" ");
+  return [
+    "<cac:Party>",
+    el("cbc:EndpointID", p.endpoint, ' schemeID="9950"'),
+    `<cac:PartyName>${el("cbc:Name", p.name)}</cac:PartyName>`,
+    "<cac:PostalAddress>",
+    el("cbc:StreetName", street),
+    el("cbc:CityName", p.address.city),
+    el("cbc:PostalZone", p.address.postalZone),
+    `<cac:Country><cbc:IdentificationCode>${p.country}</cbc:IdentificationCode></cac:Country>`,
+    "</cac:PostalAddress>",
+    p.vatId
+      ? `<cac:PartyTaxScheme>${el("cbc:CompanyID", p.vatId)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : "",
+    `<cac:PartyLegalEntity>${el("cbc:RegistrationName", p.name)}${el("cbc:CompanyID", p.registration)}</cac:PartyLegalEntity>`,
+    "</cac:Party>",
+  ].join("");
+}
+
+/**
+ * Serialise invoice data into a Peppol BIS Billing 3.0 (UBL 2.1) invoice.
+ * Deductions are carried in PrepaidAmount; VAT stays on the full base as on the PDF.
+ */
+export function buildUblXml(data: InvoiceData): string {
+  const ctx = buildContext(data);
+  const customer = data.customer ?? CUSTOMER;
+  const { totals } = ctx;
+  const cur = ' currencyID="EUR"';
+
+  // S = standard rate, AE = reverse charge, O = supplier not registered for VAT
+  const category = data.isReverseCharge ? "AE" : data.isVatPayer ? "S" : "O";
+  const percent = category === "S" ? VAT_RATE * 100 : 0;
+  const exemption =
+    category === "AE"
+      ? "<cbc:TaxExemptionReasonCode>VATEX-EU-AE</cbc:TaxExemptionReasonCode><cbc:TaxExemptionReason>Prenesenie daňovej povinnosti</cbc:TaxExemptionReason>"
+      : category === "O"
+      ? "<cbc:TaxExemptionReasonCode>VATEX-EU-O</cbc:TaxExemptionReasonCode><cbc:TaxExemptionReason>Nie je platiteľ DPH</cbc:TaxExemptionReason>"
+      : "";
+  const percentEl = category === "O" ? "" : `<cbc:Percent>${percent}</cbc:Percent>`;
+  const taxInclusive = totals.baseAmount + totals.vatAmount;
+  const prepaid = ctx.deductions.reduce((sum, d) => sum + d.amount, 0);
+
+  const supplierVatId = data.isVatPayer ? data.vatNumber || (data.supplierDic ? `SK${data.supplierDic}` : null) : null;
+  const supplierEndpoint = data.vatNumber || (data.supplierDic ? `SK${data.supplierDic}` : data.supplierIco || "");
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    "<cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>",
+    "<cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>",
+    el("cbc:ID", ctx.invoiceNumber),
+    el("cbc:IssueDate", ctx.issueDate),
+    el("cbc:DueDate", ctx.dueDate),
+    "<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>",
+    el("cbc:Note", buildNotes(data, ctx).join("; ")),
+    "<cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>",
+    el("cbc:BuyerReference", data.contractNumber || data.workerId || data.projectName),
+    "<cac:AccountingSupplierParty>",
+    ublParty({
+      endpoint: supplierEndpoint,
+      name: data.supplierName,
+      address: parseAddress(data.supplierAddress),
+      country: countryCode(data.supplierCountry),
+      vatId: supplierVatId,
+      registration: data.supplierIco,
+    }),
+    "</cac:AccountingSupplierParty>",
+    "<cac:AccountingCustomerParty>",
+    ublParty({
+      endpoint: customer.icDph || customer.ico || "",
+      name: customer.name,
+      address: parseAddress(customer.street),
+      country: countryCode(customer.country),
+      // BR-O-02: no buyer VAT identifier when the supplier is outside VAT
+      vatId: category === "O" ? null : customer.icDph ?? null,
+      registration: customer.ico,
+    }),
+    "</cac:AccountingCustomerParty>",
+    `<cac:Delivery>${el("cbc:ActualDeliveryDate", ctx.deliveryDate)}</cac:Delivery>`,
+    data.supplierIban
+      ? [
+          "<cac:PaymentMeans>",
+          '<cbc:PaymentMeansCode name="SEPA credit transfer">58</cbc:PaymentMeansCode>',
+          el("cbc:PaymentID", ctx.variableSymbol),
+          "<cac:PayeeFinancialAccount>",
+          el("cbc:ID", data.supplierIban.replace(/\s/g, "")),
+          el("cbc:Name", data.supplierName),
+          data.supplierSwiftBic
+            ? `<cac:FinancialInstitutionBranch>${el("cbc:ID", data.supplierSwiftBic)}</cac:FinancialInstitutionBranch>`
+            : "",
+          "</cac:PayeeFinancialAccount>",
+          "</cac:PaymentMeans>",
+        ].join("")
+      : "",
+    `<cac:PaymentTerms>${el("cbc:Note", `VS: ${ctx.variableSymbol}, Správa pre prijímateľa: ${ctx.paymentMessage}`)}</cac:PaymentTerms>`,
+    "<cac:TaxTotal>",
+    `<cbc:TaxAmount${cur}>${amount(totals.vatAmount)}</cbc:TaxAmount>`,
+    "<cac:TaxSubtotal>",
+    `<cbc:TaxableAmount${cur}>${amount(totals.baseAmount)}</cbc:TaxableAmount>`,
+    `<cbc:TaxAmount${cur}>${amount(totals.vatAmount)}</cbc:TaxAmount>`,
+    `<cac:TaxCategory><cbc:ID>${category}</cbc:ID>${percentEl}${exemption}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:TaxCategory>`,
+    "</cac:TaxSubtotal>",
+    "</cac:TaxTotal>",
+    "<cac:LegalMonetaryTotal>",
+    `<cbc:LineExtensionAmount${cur}>${amount(totals.baseAmount)}</cbc:LineExtensionAmount>`,
+    `<cbc:TaxExclusiveAmount${cur}>${amount(totals.baseAmount)}</cbc:TaxExclusiveAmount>`,
+    `<cbc:TaxInclusiveAmount${cur}>${amount(taxInclusive)}</cbc:TaxInclusiveAmount>`,
+    prepaid > 0 ? `<cbc:PrepaidAmount${cur}>${amount(prepaid)}</cbc:PrepaidAmount>` : "",
+    `<cbc:PayableAmount${cur}>${amount(totals.totalAmount)}</cbc:PayableAmount>`,
+    "</cac:LegalMonetaryTotal>",
+    ...ctx.lines.map((line, index) =>
+      [
+        "<cac:InvoiceLine>",
+        `<cbc:ID>${index + 1}</cbc:ID>`,
+        `<cbc:InvoicedQuantity unitCode="HUR">${line.quantity}</cbc:InvoicedQuantity>`,
+        `<cbc:LineExtensionAmount${cur}>${amount(line.amount)}</cbc:LineExtensionAmount>`,
+        "<cac:Item>",
+        el("cbc:Description", line.description),
+        el("cbc:Name", line.name),
+        `<cac:ClassifiedTaxCategory><cbc:ID>${category}</cbc:ID>${percentEl}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:ClassifiedTaxCategory>`,
+        "</cac:Item>",
+        `<cac:Price><cbc:PriceAmount${cur}>${amount(line.unitPrice)}</cbc:PriceAmount></cac:Price>`,
+        "</cac:InvoiceLine>",
+      ].join("")
+    ),
+    "</Invoice>",
+  ];
+
+  return xml.filter(Boolean).join("\n");
+}
+
+/**
+ * Build the XML for the requested format and trigger a browser download.
+ */
+export function downloadEInvoice(data: InvoiceData, exportFormat: EInvoiceFormat, documentUuid: string): void {
+  const xml = exportFormat === "isdoc" ? buildIsdocXml(data, documentUuid) : buildUblXml(data);
+  const extension = exportFormat === "isdoc" ? "isdoc" : "xml";
+  const blob = new Blob([xml], { type: "application/xml;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${data.invoiceNumber || "faktura"}${exportFormat === "ubl" ? "_ubl" : ""}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -2,6 +2,9 @@ import ExcelJS from "exceljs";
 import { format, addDays } from "date-fns";
 
 import tkjdLogoUrl from "@/assets/tkjd-logo.png";
+import type { CompanyBranding } from "./company";
+import { findHoliday, type HolidayCalendar } from "./holidays";
+import type { SurchargeLine } from "./surcharges";
 
 interface ExportRecord {
   date: string;
@@ -25,6 +28,12 @@ interface ExportParams {
   calendarWeek: number;
   year: number;
   projectLocation?: string;
+  /** Public holidays of the project site, marked in the table */
+  holidayCalendar?: HolidayCalendar;
+  /** Surcharge hours (weekend, night, overtime), one row each below the total */
+  surcharges?: Pick<SurchargeLine, "label" | "hours">[];
+  /** Company printed in the header; defaults to TKJD */
+  company?: CompanyBranding;
 }
 
 // German day abbreviations
@@ -52,6 +61,9 @@ const BLACK_COLOR = { argb: "FF000000" };
 const WHITE_COLOR = { argb: "FFFFFFFF" };
 const HEADER_BG = { argb: "FFE8E8E8" };
 const ACCENT_COLOR = { argb: "FF1A56DB" };
+const HOLIDAY_BG = { argb: "FFFDE2E2" };
+
+const DEFAULT_COMPANY_NAME = "TKJD s.r.o.";
 
 const thinBorder: Partial<ExcelJS.Borders> = {
   top: { style: "thin", color: BLACK_COLOR },
@@ -75,12 +87,17 @@ async function fetchImageAsBase64(url: string): Promise<string> {
   });
 }
 
+/** The company's logo; without company branding the bundled TKJD logo */
+async function companyLogoBase64(company: CompanyBranding | undefined): Promise<string | null> {
+  return company?.logoBase64 !== undefined ? company.logoBase64 : fetchImageAsBase64(tkjdLogoUrl);
+}
+
 function applySheetContent(
   ws: ExcelJS.Worksheet,
   params: ExportParams,
   logoImageId: number | null,
 ) {
-  const { records, projectName, projectAddress, workerName, calendarWeek, year, projectLocation } = params;
+  const { records, projectName, projectAddress, workerName, calendarWeek, year, projectLocation, holidayCalendar } = params;
   const { start, end } = getWeekDateRange(calendarWeek, year);
 
   // ============ COLUMN WIDTHS (8 columns) ============
@@ -98,7 +115,7 @@ function applySheetContent(
   // ============ ROW 1: Company + KW (right) ============
   ws.mergeCells("A1:D1");
   const companyCell = ws.getCell("A1");
-  companyCell.value = "TKJD s.r.o.";
+  companyCell.value = params.company?.name ?? DEFAULT_COMPANY_NAME;
   companyCell.font = { bold: true, size: 16 };
   companyCell.alignment = { horizontal: "left", vertical: "middle" };
 
@@ -202,6 +219,7 @@ function applySheetContent(
     const formattedDate = format(recordDate, "dd.MM.yyyy");
     const hours = Number(record.total_hours) || 0;
     totalHours += hours;
+    const holiday = findHoliday(record.date, holidayCalendar);
 
     const row = ws.getRow(currentRow);
     row.height = 20;
@@ -257,11 +275,19 @@ function applySheetContent(
 
     // Col H: Popis práce
     const noteCell = row.getCell(8);
-    noteCell.value = record.note || "";
+    noteCell.value = holiday
+      ? [`Feiertag / Sviatok: ${holiday.name}`, record.note].filter(Boolean).join(" – ")
+      : record.note || "";
     noteCell.font = { size: 9 };
     noteCell.alignment = { horizontal: "left", vertical: "middle", wrapText: true };
     noteCell.border = thinBorder;
 
+    if (holiday) {
+      for (let col = 1; col <= 8; col++) {
+        row.getCell(col).fill = { type: "pattern", pattern: "solid", fgColor: HOLIDAY_BG };
+      }
+    }
+
     currentRow++;
   });
 
@@ -291,6 +317,25 @@ function applySheetContent(
   totalNoteCell.value = "";
   totalNoteCell.border = thinBorder;
 
+  // ============ SURCHARGE ROWS ============
+  for (const surcharge of params.surcharges || []) {
+    currentRow++;
+    ws.mergeCells(`A${currentRow}:F${currentRow}`);
+    const labelCell = ws.getCell(`A${currentRow}`);
+    labelCell.value = `Zuschlag / Príplatok: ${surcharge.label}`;
+    labelCell.font = { size: 10 };
+    labelCell.alignment = { horizontal: "right", vertical: "middle" };
+    labelCell.border = thinBorder;
+
+    const hoursCell = ws.getCell(`G${currentRow}`);
+    hoursCell.value = Number(surcharge.hours).toFixed(2) + " h";
+    hoursCell.font = { bold: true, size: 10 };
+    hoursCell.alignment = { horizontal: "center", vertical: "middle" };
+    hoursCell.border = thinBorder;
+
+    ws.getCell(`H${currentRow}`).border = thinBorder;
+  }
+
   currentRow += 3;
 
   // ============ SIGNATURE SECTION ============
@@ -341,7 +386,7 @@ function applySheetContent(
 
 export async function exportWeeklyRecordsToExcel(params: ExportParams): Promise<void> {
   const workbook = new ExcelJS.Workbook();
-  workbook.creator = "TKJD s.r.o.";
+  workbook.creator = params.company?.name ?? DEFAULT_COMPANY_NAME;
   workbook.created = new Date();
 
   const ws = workbook.addWorksheet("Leistungsnachweis", {
@@ -362,8 +407,8 @@ export async function exportWeeklyRecordsToExcel(params: ExportParams): Promise<
   // Fetch logo
   let logoImageId: number | null = null;
   try {
-    const logoBase64 = await fetchImageAsBase64(tkjdLogoUrl);
-    logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
+    const logoBase64 = await companyLogoBase64(params.company);
+    if (logoBase64) logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
   } catch (error) {
     console.warn("Could not embed logo image:", error);
   }
@@ -391,14 +436,14 @@ export async function exportMultipleWeeksToExcel(
   weeks: Array<ExportParams>
 ): Promise<void> {
   const workbook = new ExcelJS.Workbook();
-  workbook.creator = "TKJD s.r.o.";
+  workbook.creator = weeks[0]?.company?.name ?? DEFAULT_COMPANY_NAME;
   workbook.created = new Date();
 
   // Fetch logo once
   let logoImageId: number | null = null;
   try {
-    const logoBase64 = await fetchImageAsBase64(tkjdLogoUrl);
-    logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
+    const logoBase64 = await companyLogoBase64(weeks[0]?.company);
+    if (logoBase64) logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
   } catch (error) {
     console.warn("Could not load logo image:", error);
   }
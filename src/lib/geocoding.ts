@@ -0,0 +1,21 @@
+import type { GeoPoint } from "./occupancy";
+
+/**
+ * Resolve a free-form address with OpenStreetMap Nominatim.
+ * Nominatim allows one request per second, callers looping over
+ * addresses must wait between calls.
+ */
+export async function geocodeAddress(query: string): Promise<GeoPoint | null> {
+  try {
+    const res = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=1`,
+      { headers: { "Accept-Language": "en" } }
+    );
+    const data = await res.json();
+    if (!data?.[0]) return null;
+    return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
+  } catch (e) {
+    console.warn("Geocoding failed for", query, e);
+    return null;
+  }
+}
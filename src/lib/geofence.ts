@@ -0,0 +1,46 @@
+import type { GeoPoint } from "./occupancy";
+
+export interface DevicePosition extends GeoPoint {
+  /** Radius of uncertainty reported by the device, in metres */
+  accuracy: number;
+}
+
+/** A project site's fence: centre plus radius. Projects without a radius are not fenced. */
+export interface Geofence {
+  lat: number | null;
+  lng: number | null;
+  geofence_radius_m: number | null;
+}
+
+export function hasGeofence(fence: Geofence): boolean {
+  return fence.lat != null && fence.lng != null && !!fence.geofence_radius_m;
+}
+
+/**
+ * Current device location. Rejects with a Slovak message when the browser
+ * has no geolocation, the worker denied it or no fix arrives in time.
+ */
+export function getDevicePosition(timeoutMs = 15000): Promise<DevicePosition> {
+  return new Promise((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Zariadenie nepodporuje určenie polohy"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+      (err) =>
+        reject(
+          new Error(
+            err.code === err.PERMISSION_DENIED
+              ? "Prístup k polohe bol zamietnutý"
+              : "Polohu sa nepodarilo určiť"
+          )
+        ),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
+
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1).replace(".", ",")} km` : `${Math.round(meters)} m`;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  countWorkingDays,
+  DEFAULT_HOLIDAY_CALENDAR,
+  findHoliday,
+  getHolidays,
+  isWorkingDay,
+  projectHolidayCalendar,
+  type HolidayCalendar,
+} from "./holidays";
+
+const dates = (year: number, calendar: HolidayCalendar) => getHolidays(year, calendar).map((h) => h.date);
+
+const SK: HolidayCalendar = { country: "SK", region: null };
+const DE: HolidayCalendar = { country: "DE", region: null };
+const BAVARIA: HolidayCalendar = { country: "DE", region: "BY" };
+const SAXONY: HolidayCalendar = { country: "DE", region: "SN" };
+const AT: HolidayCalendar = { country: "AT", region: null };
+const VIENNA: HolidayCalendar = { country: "AT", region: "W" };
+
+describe("getHolidays", () => {
+  describe("Easter-based dates", () => {
+    it("places the Slovak Easter holidays (Easter Sunday 20.4.2025 and 5.4.2026)", () => {
+      expect(findHoliday("2025-04-18", SK)?.name).toBe("Veľký piatok");
+      expect(findHoliday("2025-04-21", SK)?.name).toBe("Veľkonočný pondelok");
+      expect(findHoliday("2026-04-03", SK)?.name).toBe("Veľký piatok");
+      expect(findHoliday("2026-04-06", SK)?.name).toBe("Veľkonočný pondelok");
+    });
+
+    it("places Ascension, Whit Monday and Corpus Christi", () => {
+      expect(dates(2025, AT)).toEqual(expect.arrayContaining(["2025-05-29", "2025-06-09", "2025-06-19"]));
+      expect(dates(2026, AT)).toEqual(expect.arrayContaining(["2026-05-14", "2026-05-25", "2026-06-04"]));
+      expect(findHoliday("2026-05-14", DE)?.name).toBe("Christi Himmelfahrt");
+      expect(findHoliday("2026-05-25", DE)?.name).toBe("Pfingstmontag");
+    });
+  });
+
+  it("returns the holidays sorted by date", () => {
+    const result = dates(2026, BAVARIA);
+    expect(result).toEqual([...result].sort());
+  });
+
+  it("no longer has Constitution Day as a Slovak day off", () => {
+    expect(findHoliday("2025-09-01", SK)).toBeNull();
+    expect(getHolidays(2026, SK)).toHaveLength(14);
+  });
+
+  describe("German federal states", () => {
+    it("applies only the nationwide holidays without a state", () => {
+      expect(findHoliday("2026-01-06", DE)).toBeNull();
+      expect(findHoliday("2026-06-04", DE)).toBeNull();
+      expect(findHoliday("2026-10-03", DE)?.name).toBe("Tag der Deutschen Einheit");
+    });
+
+    it("adds the holidays of the state", () => {
+      expect(findHoliday("2026-01-06", BAVARIA)?.name).toBe("Heilige Drei Könige");
+      expect(findHoliday("2025-06-19", BAVARIA)?.name).toBe("Fronleichnam");
+      expect(findHoliday("2026-06-04", BAVARIA)?.name).toBe("Fronleichnam");
+      expect(findHoliday("2026-11-01", BAVARIA)?.name).toBe("Allerheiligen");
+      expect(findHoliday("2026-10-31", BAVARIA)).toBeNull();
+      expect(findHoliday("2026-10-31", SAXONY)?.name).toBe("Reformationstag");
+    });
+
+    it("puts Buß- und Bettag on the Wednesday before 23 November in Saxony only", () => {
+      expect(findHoliday("2025-11-19", SAXONY)?.name).toBe("Buß- und Bettag");
+      expect(findHoliday("2026-11-18", SAXONY)?.name).toBe("Buß- und Bettag");
+      // 22 November 2023 was itself a Wednesday
+      expect(findHoliday("2023-11-22", SAXONY)?.name).toBe("Buß- und Bettag");
+      expect(findHoliday("2026-11-18", BAVARIA)).toBeNull();
+    });
+  });
+
+  describe("Austrian states", () => {
+    it("has no Good Friday but Corpus Christi nationwide", () => {
+      expect(findHoliday("2026-04-03", AT)).toBeNull();
+      expect(findHoliday("2026-06-04", AT)?.name).toBe("Fronleichnam");
+    });
+
+    it("lists a state's patron saint day without making it a day off", () => {
+      expect(findHoliday("2025-11-15", AT)).toBeNull();
+      expect(findHoliday("2025-11-15", VIENNA)).toEqual({ date: "2025-11-15", name: "Leopold", dayOff: false });
+      // Josef 19.3.2026 in Tirol is a Thursday and still a working day
+      expect(isWorkingDay("2026-03-19", { country: "AT", region: "T" })).toBe(true);
+    });
+  });
+});
+
+describe("working days", () => {
+  it("excludes weekends and public holidays off work", () => {
+    expect(isWorkingDay("2026-04-06", SK)).toBe(false);
+    expect(isWorkingDay("2026-04-07", SK)).toBe(true);
+    expect(isWorkingDay("2026-04-11", SK)).toBe(false);
+  });
+
+  it("counts the working days of a week with a holiday", () => {
+    const easterWeek = ["2026-04-06", "2026-04-07", "2026-04-08", "2026-04-09", "2026-04-10", "2026-04-11", "2026-04-12"];
+    expect(countWorkingDays(easterWeek, SK)).toBe(4);
+    // Good Friday is a day off in Germany but not in Austria
+    const holyWeek = ["2026-03-30", "2026-03-31", "2026-04-01", "2026-04-02", "2026-04-03", "2026-04-04", "2026-04-05"];
+    expect(countWorkingDays(holyWeek, DE)).toBe(4);
+    expect(countWorkingDays(holyWeek, AT)).toBe(5);
+  });
+});
+
+describe("projectHolidayCalendar", () => {
+  it("reads the project's country and region", () => {
+    expect(projectHolidayCalendar({ holiday_country: "DE", holiday_region: "BY" })).toEqual(BAVARIA);
+  });
+
+  it("falls back to Slovakia for unknown or missing countries", () => {
+    expect(projectHolidayCalendar({ holiday_country: "CZ", holiday_region: null })).toEqual(DEFAULT_HOLIDAY_CALENDAR);
+    expect(projectHolidayCalendar(null)).toEqual(DEFAULT_HOLIDAY_CALENDAR);
+  });
+});
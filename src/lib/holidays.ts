@@ -0,0 +1,225 @@
+import { formatDateString, parseLocalDate } from "./dateUtils";
+
+export type HolidayCountry = "SK" | "DE" | "AT";
+
+/** Which public holidays apply to a project: country plus German/Austrian federal state */
+export interface HolidayCalendar {
+  country: HolidayCountry;
+  /** Bundesland code (e.g. "BY", "W"); null applies only the nationwide holidays */
+  region: string | null;
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+  /**
+   * False for Austrian Landesfeiertage: the state's patron saint days are school
+   * and office holidays, but not statutory days off under the Arbeitsruhegesetz.
+   */
+  dayOff: boolean;
+}
+
+/** Crews are Slovak; projects without an assigned calendar use the Slovak holidays */
+export const DEFAULT_HOLIDAY_CALENDAR: HolidayCalendar = { country: "SK", region: null };
+
+export const HOLIDAY_COUNTRIES: { code: HolidayCountry; name: string }[] = [
+  { code: "SK", name: "Slovensko" },
+  { code: "DE", name: "Nemecko" },
+  { code: "AT", name: "Rakúsko" },
+];
+
+export const HOLIDAY_REGIONS: Record<HolidayCountry, { code: string; name: string }[]> = {
+  SK: [],
+  DE: [
+    { code: "BW", name: "Baden-Württemberg" },
+    { code: "BY", name: "Bayern" },
+    { code: "BE", name: "Berlin" },
+    { code: "BB", name: "Brandenburg" },
+    { code: "HB", name: "Bremen" },
+    { code: "HH", name: "Hamburg" },
+    { code: "HE", name: "Hessen" },
+    { code: "MV", name: "Mecklenburg-Vorpommern" },
+    { code: "NI", name: "Niedersachsen" },
+    { code: "NW", name: "Nordrhein-Westfalen" },
+    { code: "RP", name: "Rheinland-Pfalz" },
+    { code: "SL", name: "Saarland" },
+    { code: "SN", name: "Sachsen" },
+    { code: "ST", name: "Sachsen-Anhalt" },
+    { code: "SH", name: "Schleswig-Holstein" },
+    { code: "TH", name: "Thüringen" },
+  ],
+  AT: [
+    { code: "B", name: "Burgenland" },
+    { code: "K", name: "Kärnten" },
+    { code: "NÖ", name: "Niederösterreich" },
+    { code: "OÖ", name: "Oberösterreich" },
+    { code: "S", name: "Salzburg" },
+    { code: "ST", name: "Steiermark" },
+    { code: "T", name: "Tirol" },
+    { code: "V", name: "Vorarlberg" },
+    { code: "W", name: "Wien" },
+  ],
+};
+
+/** Easter Sunday (Gregorian, anonymous algorithm) */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day, 12, 0, 0);
+}
+
+function offsetDays(date: Date, days: number): string {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return formatDateString(d);
+}
+
+/** Buß- und Bettag: the Wednesday before 23 November */
+function repentanceDay(year: number): string {
+  const nov22 = new Date(year, 10, 22, 12, 0, 0);
+  return offsetDays(nov22, -((nov22.getDay() + 4) % 7));
+}
+
+/**
+ * A holiday rule: a fixed "MM-DD" date or an offset from Easter Sunday, limited
+ * to some regions when `regions` is set.
+ */
+interface HolidayRule {
+  name: string;
+  date: string | number | ((year: number) => string);
+  regions?: string[];
+  dayOff?: boolean;
+}
+
+const RULES: Record<HolidayCountry, HolidayRule[]> = {
+  // Constitution Day (1.9.) is no longer a day off since 2024
+  SK: [
+    { name: "Deň vzniku Slovenskej republiky", date: "01-01" },
+    { name: "Zjavenie Pána", date: "01-06" },
+    { name: "Veľký piatok", date: -2 },
+    { name: "Veľkonočný pondelok", date: 1 },
+    { name: "Sviatok práce", date: "05-01" },
+    { name: "Deň víťazstva nad fašizmom", date: "05-08" },
+    { name: "Sviatok sv. Cyrila a Metoda", date: "07-05" },
+    { name: "Výročie SNP", date: "08-29" },
+    { name: "Sedembolestná Panna Mária", date: "09-15" },
+    { name: "Sviatok všetkých svätých", date: "11-01" },
+    { name: "Deň boja za slobodu a demokraciu", date: "11-17" },
+    { name: "Štedrý deň", date: "12-24" },
+    { name: "Prvý sviatok vianočný", date: "12-25" },
+    { name: "Druhý sviatok vianočný", date: "12-26" },
+  ],
+  // Mariä Himmelfahrt in Bavaria only applies in Catholic municipalities and is left out
+  DE: [
+    { name: "Neujahr", date: "01-01" },
+    { name: "Heilige Drei Könige", date: "01-06", regions: ["BW", "BY", "ST"] },
+    { name: "Internationaler Frauentag", date: "03-08", regions: ["BE", "MV"] },
+    { name: "Karfreitag", date: -2 },
+    { name: "Ostermontag", date: 1 },
+    { name: "Tag der Arbeit", date: "05-01" },
+    { name: "Christi Himmelfahrt", date: 39 },
+    { name: "Pfingstmontag", date: 50 },
+    { name: "Fronleichnam", date: 60, regions: ["BW", "BY", "HE", "NW", "RP", "SL"] },
+    { name: "Mariä Himmelfahrt", date: "08-15", regions: ["SL"] },
+    { name: "Weltkindertag", date: "09-20", regions: ["TH"] },
+    { name: "Tag der Deutschen Einheit", date: "10-03" },
+    { name: "Reformationstag", date: "10-31", regions: ["BB", "HB", "HH", "MV", "NI", "SN", "ST", "SH", "TH"] },
+    { name: "Allerheiligen", date: "11-01", regions: ["BW", "BY", "NW", "RP", "SL"] },
+    { name: "Buß- und Bettag", date: repentanceDay, regions: ["SN"] },
+    { name: "1. Weihnachtstag", date: "12-25" },
+    { name: "2. Weihnachtstag", date: "12-26" },
+  ],
+  AT: [
+    { name: "Neujahr", date: "01-01" },
+    { name: "Heilige Drei Könige", date: "01-06" },
+    { name: "Josef", date: "03-19", regions: ["K", "ST", "T", "V"], dayOff: false },
+    { name: "Ostermontag", date: 1 },
+    { name: "Staatsfeiertag", date: "05-01" },
+    { name: "Florian", date: "05-04", regions: ["OÖ"], dayOff: false },
+    { name: "Christi Himmelfahrt", date: 39 },
+    { name: "Pfingstmontag", date: 50 },
+    { name: "Fronleichnam", date: 60 },
+    { name: "Mariä Himmelfahrt", date: "08-15" },
+    { name: "Rupert", date: "09-24", regions: ["S"], dayOff: false },
+    { name: "Tag der Volksabstimmung", date: "10-10", regions: ["K"], dayOff: false },
+    { name: "Nationalfeiertag", date: "10-26" },
+    { name: "Allerheiligen", date: "11-01" },
+    { name: "Martin", date: "11-11", regions: ["B"], dayOff: false },
+    { name: "Leopold", date: "11-15", regions: ["W", "NÖ"], dayOff: false },
+    { name: "Mariä Empfängnis", date: "12-08" },
+    { name: "Christtag", date: "12-25" },
+    { name: "Stefanitag", date: "12-26" },
+  ],
+};
+
+const cache = new Map<string, Holiday[]>();
+
+/** Public holidays of a year for a calendar, sorted by date */
+export function getHolidays(year: number, calendar: HolidayCalendar = DEFAULT_HOLIDAY_CALENDAR): Holiday[] {
+  const key = `${calendar.country}-${calendar.region ?? ""}-${year}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const easter = easterSunday(year);
+  const holidays = RULES[calendar.country]
+    .filter((rule) => !rule.regions || (calendar.region != null && rule.regions.includes(calendar.region)))
+    .map((rule) => ({
+      date:
+        typeof rule.date === "number"
+          ? offsetDays(easter, rule.date)
+          : typeof rule.date === "function"
+            ? rule.date(year)
+            : `${year}-${rule.date}`,
+      name: rule.name,
+      dayOff: rule.dayOff ?? true,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  cache.set(key, holidays);
+  return holidays;
+}
+
+/** Holiday on a YYYY-MM-DD date, or null */
+export function findHoliday(dateStr: string, calendar: HolidayCalendar = DEFAULT_HOLIDAY_CALENDAR): Holiday | null {
+  const year = Number(dateStr.slice(0, 4));
+  return getHolidays(year, calendar).find((h) => h.date === dateStr) ?? null;
+}
+
+/** Monday–Friday and not a public holiday that is a day off */
+export function isWorkingDay(dateStr: string, calendar: HolidayCalendar = DEFAULT_HOLIDAY_CALENDAR): boolean {
+  const day = parseLocalDate(dateStr).getDay();
+  return day >= 1 && day <= 5 && !findHoliday(dateStr, calendar)?.dayOff;
+}
+
+/** Number of working days among the given YYYY-MM-DD dates (e.g. a week for overtime thresholds) */
+export function countWorkingDays(dates: string[], calendar: HolidayCalendar = DEFAULT_HOLIDAY_CALENDAR): number {
+  return dates.filter((date) => isWorkingDay(date, calendar)).length;
+}
+
+/** Calendar of a project row; unknown or missing countries fall back to Slovakia */
+export function projectHolidayCalendar(project: {
+  holiday_country?: string | null;
+  holiday_region?: string | null;
+} | null | undefined): HolidayCalendar {
+  const country = project?.holiday_country;
+  if (country !== "DE" && country !== "AT" && country !== "SK") return DEFAULT_HOLIDAY_CALENDAR;
+  return { country, region: project?.holiday_region ?? null };
+}
+
+export function holidayCalendarLabel(calendar: HolidayCalendar): string {
+  const country = HOLIDAY_COUNTRIES.find((c) => c.code === calendar.country)?.name ?? calendar.country;
+  const region = HOLIDAY_REGIONS[calendar.country].find((r) => r.code === calendar.region)?.name;
+  return region ? `${country} – ${region}` : country;
+}
@@ -0,0 +1,67 @@
+import { CUSTOMER, type CustomerParty, type InvoiceData } from "./invoiceGenerator";
+
+/** Supplier data as printed on the invoice when it was issued */
+export type SupplierSnapshot = Pick<
+  InvoiceData,
+  | "supplierName"
+  | "supplierCompany"
+  | "supplierAddress"
+  | "supplierCountry"
+  | "supplierIco"
+  | "supplierDic"
+  | "supplierIban"
+  | "supplierSwiftBic"
+  | "isVatPayer"
+  | "vatNumber"
+  | "contractNumber"
+  | "workerId"
+>;
+
+/** Frozen parties of an issued invoice (invoices.issue_snapshot) */
+export interface InvoiceSnapshot {
+  supplier: SupplierSnapshot;
+  customer: CustomerParty;
+}
+
+export type ArchiveStatus = "ok" | "mismatch" | "missing" | "not_archived";
+
+export function invoiceSnapshot(data: InvoiceData): InvoiceSnapshot {
+  return {
+    supplier: {
+      supplierName: data.supplierName,
+      supplierCompany: data.supplierCompany,
+      supplierAddress: data.supplierAddress,
+      supplierCountry: data.supplierCountry ?? null,
+      supplierIco: data.supplierIco ?? null,
+      supplierDic: data.supplierDic ?? null,
+      supplierIban: data.supplierIban,
+      supplierSwiftBic: data.supplierSwiftBic,
+      isVatPayer: data.isVatPayer,
+      vatNumber: data.vatNumber,
+      contractNumber: data.contractNumber ?? null,
+      workerId: data.workerId,
+    },
+    customer: data.customer ?? CUSTOMER,
+  };
+}
+
+/** Lowercase hex SHA-256 of the file contents */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Storage path of an archived PDF: <invoice id>/<sha256>/<filename>.
+ * The hash in the path keeps a retried upload from colliding with an
+ * orphaned object of an earlier attempt.
+ */
+export function archivePath(invoiceId: string, sha256: string, filename: string): string {
+  return `${invoiceId}/${sha256}/${filename}`;
+}
+
+export function archiveFilename(path: string): string {
+  return path.split("/").pop() || "faktura.pdf";
+}
@@ -4,6 +4,31 @@ import QRCode from "qrcode";
 import { format, addDays, getISOWeek } from "date-fns";
 import { safeText, registerPdfFonts, setFontStyle, getPdfFontFamily } from "./pdfFonts";
 import { getSignedSignatureUrl } from "./signatureUtils";
+import { totalSurcharge, type SurchargeLine } from "./surcharges";
+
+/** Hours worked on one project at one rate, billed as one invoice line */
+export interface InvoiceLine {
+  projectId: string | null;
+  projectName: string;
+  hours: number;
+  hourlyRate: number;
+  amount: number;
+  /** Days the line covers ("YYYY-MM-DD"); shown when a rate change splits a project */
+  periodFrom?: string | null;
+  periodTo?: string | null;
+}
+
+/**
+ * Project name of a work line, with its days when the project has several
+ * lines because the rate changed during the week, e.g. "Projekt (13.10.-15.10.)".
+ */
+export function invoiceLineLabel(line: InvoiceLine, lines: InvoiceLine[]): string {
+  const split = lines.some((other) => other !== line && other.projectId === line.projectId);
+  if (!split || !line.periodFrom || !line.periodTo) return line.projectName;
+  const day = (date: string) => format(new Date(`${date}T12:00:00`), "d.M.");
+  const period = line.periodFrom === line.periodTo ? day(line.periodFrom) : `${day(line.periodFrom)}-${day(line.periodTo)}`;
+  return `${line.projectName} (${period})`;
+}
 
 export interface InvoiceData {
   // Supplier (Dodavatel - Subcontractor)
@@ -32,6 +57,13 @@ export interface InvoiceData {
   calendarWeek: number;
   year: number;
   totalHours: number;
+
+  // Work split by project; without lines the invoice has a single
+  // totalHours × hourlyRate line for projectName
+  lines?: InvoiceLine[];
+
+  // Project surcharges (weekend, night, overtime), billed as extra lines
+  surcharges?: SurchargeLine[];
   
   // Service period dates (for accurate KW calculation)
   serviceDateFrom?: Date;
@@ -48,15 +80,21 @@ export interface InvoiceData {
   
   // Sanctions deduction (optional)
   sanctionsDeduction?: number;
+
+  // Accommodation deduction (optional, stored on the invoice record)
+  accommodationDeduction?: number;
   
   // Historical date overrides (from DB) — prevents using new Date()
   historicalIssueDate?: string;   // YYYY-MM-DD
   historicalDeliveryDate?: string; // YYYY-MM-DD
   historicalDueDate?: string;     // YYYY-MM-DD
+
+  // Company the invoice is addressed to (Odberatel); defaults to TKJD
+  customer?: CustomerParty;
 }
 
-// TKJD s.r.o. company details (Odberatel / Customer)
-const CUSTOMER = {
+// TKJD s.r.o. company details, the default Odberatel when no company is passed
+export const CUSTOMER = {
   name: "TKJD, s. r. o.",
   street: "Žalobín 114, 094 03 Žalobín",
   country: "Slovenská Republika",
@@ -65,7 +103,17 @@ const CUSTOMER = {
   icDph: "SK2023943845",
 };
 
-const VAT_RATE = 0.20;
+/** The ODBERATEL block: TKJD on subcontractor invoices, the client on client invoices */
+export interface CustomerParty {
+  name: string;
+  street: string;
+  country: string;
+  ico?: string | null;
+  dic?: string | null;
+  icDph?: string | null;
+}
+
+export const VAT_RATE = 0.20;
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -92,7 +140,7 @@ function generateFallbackInvoiceNumber(): string {
 /**
  * Extract numeric part from invoice number for Variable Symbol
  */
-function extractNumericVS(invoiceNumber: string): string {
+export function extractNumericVS(invoiceNumber: string): string {
   return invoiceNumber.replace(/\D/g, "");
 }
 
@@ -106,7 +154,17 @@ function removeDiacritics(str: string): string {
   return str.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
 }
 
-function generatePayBySquareData(
+/**
+ * Payment message: [Week]_woche_[FirstName]_[LastName] with diacritics removed
+ */
+export function buildPaymentMessage(calendarWeek: number, supplierName: string): string {
+  const nameParts = supplierName.trim().split(/\s+/);
+  const firstName = removeDiacritics(nameParts[0] || "");
+  const lastName = removeDiacritics(nameParts.slice(1).join("_") || "");
+  return `${calendarWeek}_woche_${firstName}_${lastName}`;
+}
+
+export function generatePayBySquareData(
   iban: string,
   amount: number,
   invoiceNumber: string,
@@ -119,11 +177,7 @@ function generatePayBySquareData(
   // Variable Symbol = strictly numeric part of invoice number
   const variableSymbol = extractNumericVS(invoiceNumber);
   
-  // Message: [Week]_woche_[FirstName]_[LastName] with diacritics removed
-  const nameParts = supplierName.trim().split(/\s+/);
-  const firstName = removeDiacritics(nameParts[0] || "");
-  const lastName = removeDiacritics(nameParts.slice(1).join("_") || "");
-  const message = `${calendarWeek}_woche_${firstName}_${lastName}`;
+  const message = buildPaymentMessage(calendarWeek, supplierName);
   
   // PAY by square format (SEPA with VS and proper message + payer note for Fio bank)
   return `SPD*1.0*ACC:${cleanIban}*AM:${amountStr}*CC:EUR*X-VS:${variableSymbol}*MSG:${message}*NT:${message}*RN:${safeText(supplierName)}`;
@@ -155,78 +209,31 @@ function formatCurrency(amount: number): string {
   });
 }
 
-// ============================================================================
-// MAIN PDF GENERATOR - B2B STANDARD FORMAT
-// ============================================================================
-
-export async function generateInvoicePDF(data: InvoiceData): Promise<void> {
-  const doc = new jsPDF();
-  
-  // Register fonts (uses Helvetica - crash-proof)
-  registerPdfFonts(doc);
-  
-  const invoiceNumber = data.invoiceNumber || generateFallbackInvoiceNumber();
-  
-  // Determine the correct Calendar Week from service dates or use provided value
-  let calendarWeek = data.calendarWeek;
-  if (data.serviceDateFrom) {
-    calendarWeek = getCalendarWeek(data.serviceDateFrom);
-  }
-  
-  // Safe number conversion helper
-  const safeNumber = (val: unknown): number => {
-    const num = Number(val);
-    return isNaN(num) ? 0 : num;
-  };
-  
-  // Calculate amounts with safe number handling
-  const totalHours = safeNumber(data.totalHours);
-  const hourlyRate = safeNumber(data.hourlyRate);
-  const baseAmount = totalHours * hourlyRate;
-  const advanceDeduction = safeNumber(data.advanceDeduction);
-  const sanctionsDeduction = safeNumber(data.sanctionsDeduction);
-  
-  let vatAmount = 0;
-  let totalAmount = baseAmount - advanceDeduction - sanctionsDeduction;
-  
-  if (data.isVatPayer && !data.isReverseCharge) {
-    vatAmount = baseAmount * VAT_RATE;
-    totalAmount = baseAmount + vatAmount - advanceDeduction - sanctionsDeduction;
-  }
-  
-  // Dates: use historical dates from DB if available, otherwise fall back to today
-  const issueDate = data.historicalIssueDate
-    ? new Date(data.historicalIssueDate + "T12:00:00")
-    : new Date();
-  const deliveryDate = data.historicalDeliveryDate
-    ? new Date(data.historicalDeliveryDate + "T12:00:00")
-    : issueDate;
-  const dueDate = data.historicalDueDate
-    ? new Date(data.historicalDueDate + "T12:00:00")
-    : addDays(issueDate, 21);
-
-  // Layout constants
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 15;
-  const fontFamily = getPdfFontFamily();
-
-  // ============================================================================
-  // HEADER: INVOICE TITLE (Top Right, Large)
-  // ============================================================================
-  
-  doc.setFontSize(24);
-  setFontStyle(doc, "bold");
-  doc.setTextColor(40, 40, 40);
-  doc.text(`FAKTURA ${invoiceNumber}`, pageWidth - margin, 22, { align: "right" });
+export type SupplierParty = Pick<
+  InvoiceData,
+  | "supplierName"
+  | "supplierAddress"
+  | "supplierCountry"
+  | "supplierIco"
+  | "supplierDic"
+  | "isVatPayer"
+  | "vatNumber"
+  | "workerId"
+  | "contractNumber"
+>;
 
-  // ============================================================================
-  // ADDRESS BLOCKS (Two Columns with Grey Labels)
-  // ============================================================================
-  
-  const addressY = 35;
-  const colWidth = 85;
-  
+/**
+ * Draw the DODAVATEL (left) and ODBERATEL (right) address blocks.
+ * Shared by invoices, credit notes and client invoices so all documents stay identical.
+ */
+function drawAddressBlocks(
+  doc: jsPDF,
+  data: SupplierParty,
+  addressY: number,
+  pageWidth: number,
+  margin: number,
+  customer: CustomerParty = CUSTOMER
+): void {
   // Left block: DODAVATEL (Supplier)
   doc.setFontSize(9);
   doc.setTextColor(130, 130, 130);
@@ -313,22 +320,139 @@ export async function generateInvoicePDF(data: InvoiceData): Promise<void> {
   
   // Customer name (bold)
   setFontStyle(doc, "bold");
-  doc.text(CUSTOMER.name, rightBlockX, custY);
+  doc.text(safeText(customer.name), rightBlockX, custY);
   setFontStyle(doc, "normal");
   custY += 6;
   
   doc.setFontSize(9);
   doc.setTextColor(50, 50, 50);
   
-  doc.text(safeText(CUSTOMER.street), rightBlockX, custY);
-  custY += 5;
-  doc.text(safeText(CUSTOMER.country), rightBlockX, custY);
+  customer.street.split("\n").forEach((line) => {
+    doc.text(safeText(line.trim()), rightBlockX, custY);
+    custY += 5;
+  });
+  doc.text(safeText(customer.country), rightBlockX, custY);
   custY += 7;
-  doc.text(`ICO: ${CUSTOMER.ico}`, rightBlockX, custY);
-  custY += 5;
-  doc.text(`DIC: ${CUSTOMER.dic}`, rightBlockX, custY);
-  custY += 5;
-  doc.text(`IC DPH: ${CUSTOMER.icDph}`, rightBlockX, custY);
+  if (customer.ico) {
+    doc.text(`ICO: ${customer.ico}`, rightBlockX, custY);
+    custY += 5;
+  }
+  if (customer.dic) {
+    doc.text(`DIC: ${customer.dic}`, rightBlockX, custY);
+    custY += 5;
+  }
+  if (customer.icDph) {
+    doc.text(`IC DPH: ${customer.icDph}`, rightBlockX, custY);
+  }
+}
+
+export interface InvoiceTotals {
+  totalHours: number;
+  hourlyRate: number;
+  /** Sum of the work lines (hours × rate) */
+  workAmount: number;
+  surchargeAmount: number;
+  /** Taxable base: work plus surcharges */
+  baseAmount: number;
+  vatAmount: number;
+  advanceDeduction: number;
+  sanctionsDeduction: number;
+  accommodationDeduction: number;
+  totalAmount: number;
+}
+
+/**
+ * Amounts shown on the invoice. VAT is charged on the base only;
+ * deductions are subtracted from the payable total afterwards.
+ */
+export function calculateInvoiceTotals(data: InvoiceData): InvoiceTotals {
+  const safeNumber = (val: unknown): number => {
+    const num = Number(val);
+    return isNaN(num) ? 0 : num;
+  };
+
+  const totalHours = safeNumber(data.totalHours);
+  const hourlyRate = safeNumber(data.hourlyRate);
+  const workAmount = data.lines?.length
+    ? data.lines.reduce((sum, line) => sum + safeNumber(line.amount), 0)
+    : totalHours * hourlyRate;
+  const surchargeAmount = totalSurcharge(data.surcharges);
+  const baseAmount = workAmount + surchargeAmount;
+  const advanceDeduction = safeNumber(data.advanceDeduction);
+  const sanctionsDeduction = safeNumber(data.sanctionsDeduction);
+  const accommodationDeduction = safeNumber(data.accommodationDeduction);
+  const vatAmount = data.isVatPayer && !data.isReverseCharge ? baseAmount * VAT_RATE : 0;
+  const totalAmount = baseAmount + vatAmount - advanceDeduction - sanctionsDeduction - accommodationDeduction;
+
+  return {
+    totalHours,
+    hourlyRate,
+    workAmount,
+    surchargeAmount,
+    baseAmount,
+    vatAmount,
+    advanceDeduction,
+    sanctionsDeduction,
+    accommodationDeduction,
+    totalAmount,
+  };
+}
+
+// ============================================================================
+// MAIN PDF GENERATOR - B2B STANDARD FORMAT
+// ============================================================================
+
+/**
+ * Render the invoice without downloading it, e.g. to archive the exact bytes.
+ */
+export async function renderInvoicePDF(data: InvoiceData): Promise<{ blob: Blob; filename: string }> {
+  const doc = new jsPDF();
+  
+  // Register fonts (uses Helvetica - crash-proof)
+  registerPdfFonts(doc);
+  
+  const invoiceNumber = data.invoiceNumber || generateFallbackInvoiceNumber();
+  
+  // Determine the correct Calendar Week from service dates or use provided value
+  let calendarWeek = data.calendarWeek;
+  if (data.serviceDateFrom) {
+    calendarWeek = getCalendarWeek(data.serviceDateFrom);
+  }
+  
+  // Calculate amounts with safe number handling
+  const { totalHours, hourlyRate, workAmount, sanctionsDeduction, totalAmount } = calculateInvoiceTotals(data);
+  
+  // Dates: use historical dates from DB if available, otherwise fall back to today
+  const issueDate = data.historicalIssueDate
+    ? new Date(data.historicalIssueDate + "T12:00:00")
+    : new Date();
+  const deliveryDate = data.historicalDeliveryDate
+    ? new Date(data.historicalDeliveryDate + "T12:00:00")
+    : issueDate;
+  const dueDate = data.historicalDueDate
+    ? new Date(data.historicalDueDate + "T12:00:00")
+    : addDays(issueDate, 21);
+
+  // Layout constants
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const fontFamily = getPdfFontFamily();
+
+  // ============================================================================
+  // HEADER: INVOICE TITLE (Top Right, Large)
+  // ============================================================================
+  
+  doc.setFontSize(24);
+  setFontStyle(doc, "bold");
+  doc.setTextColor(40, 40, 40);
+  doc.text(`FAKTURA ${invoiceNumber}`, pageWidth - margin, 22, { align: "right" });
+
+  // ============================================================================
+  // ADDRESS BLOCKS (Two Columns with Grey Labels)
+  // ============================================================================
+  
+  drawAddressBlocks(doc, data, 35, pageWidth, margin, data.customer);
 
   // ============================================================================
   // DATES STRIP (Grey Background)
@@ -425,20 +549,46 @@ export async function generateInvoicePDF(data: InvoiceData): Promise<void> {
   const lastName = nameParts.slice(1).join("_") || "";
   const noteField = `${calendarWeek}_woche_${firstName}_${lastName}`;
 
-  const tableBody: (string | number)[][] = [
-    [
-      "1.",
-      safeText(`Fakturujem Vam na zaklade zmluvy za vykonanu pracu za ${calendarWeek}. kalendarny tyzden.\nPoznamka: ${noteField}`),
-      `${totalHours.toFixed(2)} hod`,
-      `${formatCurrency(hourlyRate)}`,
-      `${formatCurrency(baseAmount)}`,
-    ],
-  ];
+  const workIntro = `Fakturujem Vam na zaklade zmluvy za vykonanu pracu za ${calendarWeek}. kalendarny tyzden`;
+  const tableBody: (string | number)[][] =
+    data.lines && data.lines.length > 1
+      ? // One row per project and rate when the worker moved between sites or the rate changed
+        data.lines.map((line, index) => [
+          `${index + 1}.`,
+          safeText(
+            index === 0
+              ? `${workIntro} - ${invoiceLineLabel(line, data.lines)}.\nPoznamka: ${noteField}`
+              : `Vykonana praca za ${calendarWeek}. kalendarny tyzden - ${invoiceLineLabel(line, data.lines)}`
+          ),
+          `${Number(line.hours).toFixed(2)} hod`,
+          `${formatCurrency(line.hourlyRate)}`,
+          `${formatCurrency(line.amount)}`,
+        ])
+      : [
+          [
+            "1.",
+            safeText(`${workIntro}.\nPoznamka: ${noteField}`),
+            `${totalHours.toFixed(2)} hod`,
+            `${formatCurrency(hourlyRate)}`,
+            `${formatCurrency(workAmount)}`,
+          ],
+        ];
+
+  // One row per project surcharge, priced at the premium per hour
+  for (const line of data.surcharges || []) {
+    tableBody.push([
+      `${tableBody.length + 1}.`,
+      safeText(`Priplatok: ${line.label}`),
+      `${Number(line.hours).toFixed(2)} hod`,
+      `${formatCurrency(line.ratePerHour)}`,
+      `${formatCurrency(line.amount)}`,
+    ]);
+  }
 
   // Add sanctions deduction row if applicable
   if (sanctionsDeduction > 0) {
     tableBody.push([
-      "2.",
+      `${tableBody.length + 1}.`,
       safeText("Zrazka - sankcie za nizky vykon"),
       "1",
       `-${formatCurrency(sanctionsDeduction)}`,
@@ -629,5 +779,409 @@ export async function generateInvoicePDF(data: InvoiceData): Promise<void> {
   const projectName = sanitize(safeText(data.projectName));
   
   const filename = `${kwFormatted} KW ${invoiceNumber} ${userName} ${projectName}.pdf`;
-  doc.save(filename);
+  return { blob: doc.output("blob"), filename };
+}
+
+export function downloadPdf(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export async function generateInvoicePDF(data: InvoiceData): Promise<void> {
+  const { blob, filename } = await renderInvoicePDF(data);
+  downloadPdf(blob, filename);
+}
+
+// ============================================================================
+// CREDIT NOTE (DOBROPIS) PDF
+// ============================================================================
+
+export interface CreditNoteData extends SupplierParty {
+  creditNoteNumber: string;
+  issueDate: string;              // YYYY-MM-DD
+  reason: string;
+
+  // Original invoice being corrected
+  invoiceNumber: string;
+  invoiceIssueDate: string;       // YYYY-MM-DD
+
+  // Credited amounts, stored positive and printed negative
+  subtotal: number;
+  vatAmount: number;
+
+  signatureUrl: string | null;
+
+  // Company the original invoice was addressed to
+  customer?: CustomerParty;
+}
+
+export async function generateCreditNotePDF(data: CreditNoteData): Promise<void> {
+  const doc = new jsPDF();
+  registerPdfFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const fontFamily = getPdfFontFamily();
+
+  const subtotal = Number(data.subtotal) || 0;
+  const vatAmount = Number(data.vatAmount) || 0;
+  const totalAmount = subtotal + vatAmount;
+  const issueDate = new Date(data.issueDate + "T12:00:00");
+  const invoiceIssueDate = new Date(data.invoiceIssueDate + "T12:00:00");
+
+  // Header
+  doc.setFontSize(24);
+  setFontStyle(doc, "bold");
+  doc.setTextColor(40, 40, 40);
+  doc.text(`DOBROPIS ${data.creditNoteNumber}`, pageWidth - margin, 22, { align: "right" });
+
+  drawAddressBlocks(doc, data, 35, pageWidth, margin, data.customer);
+
+  // Reference strip: credit note date + corrected invoice
+  const stripY = 95;
+  const stripHeight = 18;
+  doc.setFillColor(245, 245, 245);
+  doc.rect(margin, stripY, pageWidth - margin * 2, stripHeight, "F");
+
+  const colWidth = (pageWidth - margin * 2) / 3;
+  const stripColumns: [string, string][] = [
+    ["Datum vystavenia:", format(issueDate, "dd.MM.yyyy")],
+    ["K fakture c.:", data.invoiceNumber],
+    ["Datum vystavenia faktury:", format(invoiceIssueDate, "dd.MM.yyyy")],
+  ];
+  stripColumns.forEach(([label, value], i) => {
+    const x = margin + colWidth * i + 5;
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    setFontStyle(doc, "normal");
+    doc.text(label, x, stripY + 6);
+    doc.setTextColor(30, 30, 30);
+    setFontStyle(doc, "bold");
+    doc.text(value, x, stripY + 12);
+  });
+
+  // Reason
+  const reasonY = stripY + stripHeight + 10;
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  setFontStyle(doc, "normal");
+  doc.text("Dovod opravy:", margin, reasonY);
+  doc.setTextColor(30, 30, 30);
+  doc.text(safeText(data.reason), margin + 28, reasonY, { maxWidth: pageWidth - margin * 2 - 28 });
+
+  autoTable(doc, {
+    startY: reasonY + 10,
+    head: [[
+      { content: "C.", styles: { halign: "center", cellWidth: 12 } },
+      { content: "NAZOV", styles: { halign: "left" } },
+      { content: "SPOLU", styles: { halign: "right", cellWidth: 35 } },
+    ]],
+    body: [[
+      "1.",
+      safeText(`Oprava fakturacie k fakture c. ${data.invoiceNumber}`),
+      `-${formatCurrency(subtotal)}`,
+    ]],
+    styles: {
+      fontSize: 9,
+      cellPadding: 5,
+      lineColor: [200, 200, 200],
+      lineWidth: 0.1,
+      font: fontFamily,
+    },
+    headStyles: {
+      fillColor: [255, 255, 255],
+      textColor: [80, 80, 80],
+      fontStyle: "bold",
+      fontSize: 8,
+    },
+    columnStyles: {
+      0: { halign: "center" },
+      1: { halign: "left" },
+      2: { halign: "right" },
+    },
+    margin: { left: margin, right: margin },
+    theme: "plain",
+  });
+
+  // Totals
+  const totalsWidth = 70;
+  const totalsX = pageWidth - margin - totalsWidth;
+  let totalsY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  doc.setFontSize(9);
+  setFontStyle(doc, "normal");
+  doc.setTextColor(80, 80, 80);
+  doc.text("Zaklad", totalsX, totalsY);
+  doc.text(`-${formatCurrency(subtotal)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  if (vatAmount > 0) {
+    totalsY += 6;
+    doc.text(`DPH ${VAT_RATE * 100}%`, totalsX, totalsY);
+    doc.text(`-${formatCurrency(vatAmount)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  }
+
+  totalsY += 8;
+  doc.setFontSize(10);
+  doc.setTextColor(30, 30, 30);
+  setFontStyle(doc, "bold");
+  doc.text("Spolu", totalsX, totalsY);
+  doc.text(`-${formatCurrency(totalAmount)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  totalsY += 4;
+  doc.setDrawColor(50, 50, 50);
+  doc.setLineWidth(0.8);
+  doc.line(totalsX, totalsY, pageWidth - margin, totalsY);
+
+  // Signature
+  const footerY = totalsY + 20;
+  const signatureX = pageWidth - margin - 55;
+  doc.setDrawColor(200, 200, 200);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(signatureX, footerY, 55, 35, 2, 2, "S");
+
+  if (data.signatureUrl) {
+    try {
+      const signedUrl = await getSignedSignatureUrl(data.signatureUrl, 300);
+      if (signedUrl) {
+        const signatureBase64 = await loadImageAsBase64(signedUrl);
+        if (signatureBase64) {
+          doc.addImage(signatureBase64, "PNG", signatureX + 3, footerY + 2, 49, 28);
+        }
+      }
+    } catch (error) {
+      console.error("Signature loading failed:", error);
+    }
+  }
+
+  doc.setFontSize(7);
+  doc.setTextColor(80, 80, 80);
+  setFontStyle(doc, "normal");
+  doc.text(`Dobropis vystavil: ${safeText(data.supplierName)}`, signatureX, footerY + 42);
+
+  doc.setFontSize(6);
+  doc.setTextColor(130, 130, 130);
+  doc.text(
+    "Opravny doklad podla par. 71 ods. 2 zakona c. 222/2004 Z. z. o dani z pridanej hodnoty.",
+    pageWidth / 2,
+    pageHeight - 20,
+    { align: "center", maxWidth: pageWidth - 30 }
+  );
+
+  const userName = safeText(data.supplierName).replace(/[/\\?%*:|"<>]/g, "").replace(/\s+/g, " ").trim();
+  doc.save(`Dobropis ${data.creditNoteNumber} ${userName}.pdf`);
+}
+
+// ============================================================================
+// CLIENT INVOICE PDF (COMPANY -> GENERAL CONTRACTOR)
+// ============================================================================
+
+export interface ClientInvoiceLine {
+  /** Hours at the client rate, or a surcharge on top of them */
+  kind: "work" | "surcharge";
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface ClientInvoiceData {
+  invoiceNumber: string;
+  /** The issuing company */
+  supplier: SupplierParty;
+  customer: CustomerParty;
+  projectName: string;
+  periodFrom: string;             // YYYY-MM-DD
+  periodTo: string;               // YYYY-MM-DD
+  issueDate: string;              // YYYY-MM-DD
+  deliveryDate: string;           // YYYY-MM-DD
+  dueDate: string;                // YYYY-MM-DD
+  lines: ClientInvoiceLine[];
+  subtotal: number;
+  vatAmount: number;
+  isReverseCharge: boolean;
+  /** The company's account for the payment strip */
+  iban: string | null;
+  /** Company signature (base64 PNG) */
+  signatureBase64?: string | null;
+}
+
+export async function generateClientInvoicePDF(data: ClientInvoiceData): Promise<void> {
+  const doc = new jsPDF();
+  registerPdfFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const fontFamily = getPdfFontFamily();
+
+  const subtotal = Number(data.subtotal) || 0;
+  const vatAmount = Number(data.vatAmount) || 0;
+  const totalAmount = subtotal + vatAmount;
+  const day = (date: string) => format(new Date(date + "T12:00:00"), "dd.MM.yyyy");
+
+  // Header
+  doc.setFontSize(24);
+  setFontStyle(doc, "bold");
+  doc.setTextColor(40, 40, 40);
+  doc.text(`FAKTURA ${data.invoiceNumber}`, pageWidth - margin, 22, { align: "right" });
+
+  drawAddressBlocks(doc, data.supplier, 35, pageWidth, margin, data.customer);
+
+  // Dates strip
+  const stripY = 95;
+  const stripHeight = 18;
+  doc.setFillColor(245, 245, 245);
+  doc.rect(margin, stripY, pageWidth - margin * 2, stripHeight, "F");
+
+  const colWidth = (pageWidth - margin * 2) / 3;
+  const stripColumns: [string, string][] = [
+    ["Datum vystavenia:", day(data.issueDate)],
+    ["Datum dodania:", day(data.deliveryDate)],
+    ["Splatnost:", day(data.dueDate)],
+  ];
+  stripColumns.forEach(([label, value], i) => {
+    const x = margin + colWidth * i + 5;
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    setFontStyle(doc, "normal");
+    doc.text(label, x, stripY + 6);
+    doc.setTextColor(i === 2 ? 180 : 30, i === 2 ? 0 : 30, i === 2 ? 0 : 30);
+    setFontStyle(doc, "bold");
+    doc.text(value, x, stripY + 12);
+  });
+
+  // Payment strip
+  const paymentY = stripY + stripHeight + 5;
+  doc.setFillColor(250, 250, 250);
+  doc.rect(margin, paymentY, pageWidth - margin * 2, 12, "F");
+  doc.setFontSize(8);
+  const paymentColumns: [string, string][] = [
+    ["Suma:", `${formatCurrency(totalAmount)} EUR`],
+    ["Variabilny symbol:", extractNumericVS(data.invoiceNumber)],
+    ["IBAN:", data.iban || "-"],
+  ];
+  paymentColumns.forEach(([label, value], i) => {
+    const x = margin + colWidth * i + 5;
+    doc.setTextColor(100, 100, 100);
+    setFontStyle(doc, "normal");
+    doc.text(label, x, paymentY + 7.5);
+    doc.setTextColor(30, 30, 30);
+    setFontStyle(doc, "bold");
+    doc.text(value, x + doc.getTextWidth(label) + 2, paymentY + 7.5);
+  });
+
+  // Project and billed period
+  const projectY = paymentY + 22;
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  setFontStyle(doc, "normal");
+  doc.text("Projekt:", margin, projectY);
+  doc.setTextColor(30, 30, 30);
+  doc.text(`${safeText(data.projectName)} (${day(data.periodFrom)} - ${day(data.periodTo)})`, margin + 16, projectY);
+
+  autoTable(doc, {
+    startY: projectY + 6,
+    head: [[
+      { content: "C.", styles: { halign: "center", cellWidth: 12 } },
+      { content: "NAZOV", styles: { halign: "left" } },
+      { content: "MNOZSTVO", styles: { halign: "center", cellWidth: 28 } },
+      { content: "JEDN. CENA", styles: { halign: "right", cellWidth: 28 } },
+      { content: "SPOLU", styles: { halign: "right", cellWidth: 30 } },
+    ]],
+    body: data.lines.map((line, index) => [
+      `${index + 1}.`,
+      safeText(line.description),
+      `${Number(line.quantity).toFixed(2)} hod`,
+      formatCurrency(line.unitPrice),
+      formatCurrency(line.amount),
+    ]),
+    styles: {
+      fontSize: 9,
+      cellPadding: 5,
+      lineColor: [200, 200, 200],
+      lineWidth: 0.1,
+      font: fontFamily,
+    },
+    headStyles: {
+      fillColor: [255, 255, 255],
+      textColor: [80, 80, 80],
+      fontStyle: "bold",
+      fontSize: 8,
+    },
+    columnStyles: {
+      0: { halign: "center" },
+      1: { halign: "left" },
+      2: { halign: "center" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+    },
+    margin: { left: margin, right: margin },
+    theme: "plain",
+  });
+
+  // Totals
+  const totalsWidth = 70;
+  const totalsX = pageWidth - margin - totalsWidth;
+  let totalsY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  doc.setFontSize(9);
+  setFontStyle(doc, "normal");
+  doc.setTextColor(80, 80, 80);
+  doc.text("Zaklad", totalsX, totalsY);
+  doc.text(`${formatCurrency(subtotal)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  totalsY += 6;
+  if (data.isReverseCharge) {
+    doc.text("DPH: prenesenie danovej povinnosti", totalsX, totalsY);
+  } else {
+    doc.text(`DPH ${VAT_RATE * 100}%`, totalsX, totalsY);
+    doc.text(`${formatCurrency(vatAmount)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  }
+
+  totalsY += 8;
+  doc.setFontSize(10);
+  doc.setTextColor(30, 30, 30);
+  setFontStyle(doc, "bold");
+  doc.text("Spolu", totalsX, totalsY);
+  doc.text(`${formatCurrency(totalAmount)} EUR`, pageWidth - margin, totalsY, { align: "right" });
+  totalsY += 4;
+  doc.setDrawColor(50, 50, 50);
+  doc.setLineWidth(0.8);
+  doc.line(totalsX, totalsY, pageWidth - margin, totalsY);
+
+  // Signature
+  const footerY = totalsY + 20;
+  const signatureX = pageWidth - margin - 55;
+  doc.setDrawColor(200, 200, 200);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(signatureX, footerY, 55, 35, 2, 2, "S");
+  if (data.signatureBase64) {
+    try {
+      doc.addImage(data.signatureBase64, "PNG", signatureX + 3, footerY + 2, 49, 28);
+    } catch (error) {
+      console.error("Signature loading failed:", error);
+    }
+  }
+  doc.setFontSize(7);
+  doc.setTextColor(80, 80, 80);
+  setFontStyle(doc, "normal");
+  doc.text(`Fakturu vystavil: ${safeText(data.supplier.supplierName)}`, signatureX, footerY + 42);
+
+  if (data.isReverseCharge) {
+    doc.setFontSize(6);
+    doc.setTextColor(130, 130, 130);
+    doc.text(
+      "Prenesenie danovej povinnosti podla par. 69 ods. 12 zakona c. 222/2004 Z. z. / Steuerschuldnerschaft des Leistungsempfangers.",
+      pageWidth / 2,
+      pageHeight - 20,
+      { align: "center", maxWidth: pageWidth - 30 }
+    );
+  }
+
+  const clientName = safeText(data.customer.name).replace(/[/\\?%*:|"<>]/g, "").replace(/\s+/g, " ").trim();
+  doc.save(`${data.invoiceNumber} ${clientName}.pdf`);
 }
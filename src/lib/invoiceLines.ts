@@ -0,0 +1,153 @@
+import type { InvoiceLine } from "./invoiceGenerator";
+import type { RateResolver } from "./rates";
+import type { SurchargeLine } from "./surcharges";
+
+/** A record as far as splitting the invoice by project and rate is concerned */
+export interface InvoiceLineRecord {
+  date: string;
+  project_id: string | null;
+  total_hours: number;
+  projects?: { name: string } | null;
+}
+
+/** Stored invoice_lines row */
+export interface InvoiceLineRow {
+  position: number;
+  kind: string;
+  project_id: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  surcharge_rule_id: string | null;
+  period_from: string | null;
+  period_to: string | null;
+}
+
+/** Columns to embed with `invoice_lines(...)` when loading an invoice for the PDF */
+export const INVOICE_LINE_COLUMNS =
+  "position, kind, project_id, description, quantity, unit_price, amount, surcharge_rule_id, period_from, period_to";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * One work line per project and rate. `rate` is either a flat hourly rate or
+ * resolves the rate effective on each record's date (rate_history), so a rate
+ * change inside the week splits the project into consecutive lines.
+ * Projects are ordered by their hours, the one with the most hours first.
+ * With `fixedAmount` (fixed wage billing) the amount is split by hours
+ * and the last line takes the rounding difference, so the lines add up exactly.
+ */
+export function buildWorkLines(
+  records: InvoiceLineRecord[],
+  rate: number | RateResolver,
+  fixedAmount?: number
+): InvoiceLine[] {
+  const rateOn = typeof rate === "number" ? () => rate : rate;
+  const byKey = new Map<string, InvoiceLine>();
+  const projectHours = new Map<string, number>();
+  for (const record of [...records].sort((a, b) => a.date.localeCompare(b.date))) {
+    const hours = Number(record.total_hours) || 0;
+    const hourlyRate = rateOn(record.date);
+    const projectKey = record.project_id ?? "";
+    const key = `${projectKey}|${hourlyRate}`;
+    const line = byKey.get(key) ?? {
+      projectId: record.project_id,
+      projectName: record.projects?.name || "Projekt",
+      hours: 0,
+      hourlyRate,
+      amount: 0,
+      periodFrom: record.date,
+      periodTo: record.date,
+    };
+    line.hours += hours;
+    line.periodTo = record.date;
+    byKey.set(key, line);
+    projectHours.set(projectKey, (projectHours.get(projectKey) ?? 0) + hours);
+  }
+
+  const lines = [...byKey.values()]
+    .filter((line) => line.hours > 0)
+    .sort(
+      (a, b) =>
+        (projectHours.get(b.projectId ?? "") ?? 0) - (projectHours.get(a.projectId ?? "") ?? 0) ||
+        (a.projectId ?? "").localeCompare(b.projectId ?? "") ||
+        (a.periodFrom ?? "").localeCompare(b.periodFrom ?? "")
+    )
+    .map((line) => ({ ...line, hours: round2(line.hours), amount: round2(line.hours * line.hourlyRate) }));
+
+  if (fixedAmount != null && lines.length > 0) {
+    const totalHours = lines.reduce((sum, line) => sum + line.hours, 0);
+    let allocated = 0;
+    lines.forEach((line, index) => {
+      line.amount =
+        index === lines.length - 1 ? round2(fixedAmount - allocated) : round2((fixedAmount * line.hours) / totalHours);
+      allocated += line.amount;
+    });
+  }
+  return lines;
+}
+
+/** Project the invoice is filed under (invoices.project_id): the one with the most hours */
+export function primaryProjectId(lines: InvoiceLine[]): string | null {
+  return lines[0]?.projectId ?? null;
+}
+
+/** invoice_lines rows for create_invoice(): work lines first, then surcharges */
+export function toInvoiceLineRows(lines: InvoiceLine[], surcharges: SurchargeLine[]) {
+  return [
+    ...lines.map((line) => ({
+      kind: "work",
+      project_id: line.projectId,
+      description: line.projectName,
+      quantity: line.hours,
+      unit_price: line.hourlyRate,
+      amount: line.amount,
+      surcharge_rule_id: null,
+      period_from: line.periodFrom ?? null,
+      period_to: line.periodTo ?? null,
+    })),
+    ...surcharges.map((line) => ({
+      kind: "surcharge",
+      project_id: line.projectId,
+      description: line.label,
+      quantity: line.hours,
+      unit_price: line.ratePerHour,
+      amount: line.amount,
+      surcharge_rule_id: line.ruleId,
+      period_from: null,
+      period_to: null,
+    })),
+  ].map((row, index) => ({ ...row, position: index + 1 }));
+}
+
+/** Split stored rows back into the work lines and surcharges of InvoiceData */
+export function fromInvoiceLineRows(rows: InvoiceLineRow[] | null | undefined): {
+  lines: InvoiceLine[];
+  surcharges: SurchargeLine[];
+} {
+  const sorted = [...(rows || [])].sort((a, b) => a.position - b.position);
+  return {
+    lines: sorted
+      .filter((row) => row.kind === "work")
+      .map((row) => ({
+        projectId: row.project_id,
+        projectName: row.description,
+        hours: Number(row.quantity),
+        hourlyRate: Number(row.unit_price),
+        amount: Number(row.amount),
+        periodFrom: row.period_from,
+        periodTo: row.period_to,
+      })),
+    surcharges: sorted
+      .filter((row) => row.kind === "surcharge")
+      .map((row) => ({
+        ruleId: row.surcharge_rule_id ?? "",
+        projectId: row.project_id ?? "",
+        label: row.description,
+        hours: Number(row.quantity),
+        ratePerHour: Number(row.unit_price),
+        amount: Number(row.amount),
+      })),
+  };
+}
@@ -0,0 +1,109 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { InvoiceData } from "./invoiceGenerator";
+
+/** Supplier billing data frozen on an invoice when it was created (invoices.supplier_snapshot) */
+export interface InvoiceSupplier {
+  full_name: string;
+  company_name: string | null;
+  billing_address: string | null;
+  country: string | null;
+  ico: string | null;
+  dic: string | null;
+  iban: string | null;
+  swift_bic: string | null;
+  is_vat_payer: boolean;
+  vat_number: string | null;
+  contract_number: string | null;
+  signature_url: string | null;
+}
+
+export const INVOICE_SUPPLIER_LABELS: Record<keyof InvoiceSupplier, string> = {
+  full_name: "Meno",
+  company_name: "Firma",
+  billing_address: "Fakturačná adresa",
+  country: "Krajina",
+  ico: "IČO",
+  dic: "DIČ",
+  iban: "IBAN",
+  swift_bic: "SWIFT/BIC",
+  is_vat_payer: "Platiteľ DPH",
+  vat_number: "IČ DPH",
+  contract_number: "Číslo zmluvy",
+  signature_url: "Podpis",
+};
+
+export function parseInvoiceSupplier(snapshot: Json | null | undefined): InvoiceSupplier | null {
+  if (!snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) return null;
+  return snapshot as unknown as InvoiceSupplier;
+}
+
+/**
+ * Like parseInvoiceSupplier, for re-exports that must not fall back to the live profile.
+ */
+export function requireInvoiceSupplier(snapshot: Json | null | undefined, invoiceNumber: string): InvoiceSupplier {
+  const supplier = parseInvoiceSupplier(snapshot);
+  if (!supplier) throw new Error(`Faktúra ${invoiceNumber} nemá uložené údaje dodávateľa`);
+  return supplier;
+}
+
+/** The DODAVATEL fields of InvoiceData */
+export type SupplierInvoiceFields = Pick<
+  InvoiceData,
+  | "supplierName"
+  | "supplierCompany"
+  | "supplierAddress"
+  | "supplierCountry"
+  | "supplierIco"
+  | "supplierDic"
+  | "supplierIban"
+  | "supplierSwiftBic"
+  | "signatureUrl"
+  | "contractNumber"
+  | "isVatPayer"
+  | "vatNumber"
+>;
+
+export function supplierInvoiceData(supplier: InvoiceSupplier): SupplierInvoiceFields {
+  return {
+    supplierName: supplier.full_name,
+    supplierCompany: supplier.company_name,
+    supplierAddress: supplier.billing_address,
+    supplierCountry: supplier.country,
+    supplierIco: supplier.ico,
+    supplierDic: supplier.dic,
+    supplierIban: supplier.iban,
+    supplierSwiftBic: supplier.swift_bic,
+    signatureUrl: supplier.signature_url,
+    contractNumber: supplier.contract_number,
+    isVatPayer: supplier.is_vat_payer ?? false,
+    vatNumber: supplier.vat_number,
+  };
+}
+
+export interface SupplierChange {
+  field: keyof InvoiceSupplier;
+  label: string;
+  invoiced: string;
+  current: string;
+}
+
+const display = (value: unknown) =>
+  value === true ? "Áno" : value === false ? "Nie" : value == null || value === "" ? "—" : String(value);
+
+/**
+ * Fields in which the supplier's current profile differs from the invoiced data.
+ * A re-uploaded signature is not a change of billing data and is left out.
+ */
+export function supplierChanges(
+  invoiced: InvoiceSupplier,
+  current: Partial<Record<keyof InvoiceSupplier, unknown>>
+): SupplierChange[] {
+  return (Object.keys(INVOICE_SUPPLIER_LABELS) as (keyof InvoiceSupplier)[])
+    .filter((field) => field !== "signature_url" && display(invoiced[field]) !== display(current[field]))
+    .map((field) => ({
+      field,
+      label: INVOICE_SUPPLIER_LABELS[field],
+      invoiced: display(invoiced[field]),
+      current: display(current[field]),
+    }));
+}
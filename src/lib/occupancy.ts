@@ -0,0 +1,134 @@
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { formatDateString, parseLocalDate } from "./dateUtils";
+
+/**
+ * A bed assignment. A stay occupies the nights from check-in up to the day
+ * before check-out; an open stay (no check-out) occupies every night after check-in.
+ */
+export interface Stay {
+  id: string;
+  accommodation_id: string;
+  user_id: string;
+  check_in: string; // YYYY-MM-DD
+  check_out: string | null; // YYYY-MM-DD, exclusive
+}
+
+export interface CapacityConflict {
+  date: string; // YYYY-MM-DD
+  occupied: number;
+  capacity: number;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface PlannableAccommodation {
+  id: string;
+  name: string;
+  address: string;
+  capacity: number | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface BedSuggestion {
+  accommodation: PlannableAccommodation;
+  /** Beds free on every night of the requested period */
+  freeBeds: number;
+  /** Null when the accommodation has no stored coordinates */
+  distanceKm: number | null;
+}
+
+/**
+ * Whether the stay occupies the night starting on `date`.
+ */
+export function occupiesNight(stay: Stay, date: string): boolean {
+  return stay.check_in <= date && (!stay.check_out || stay.check_out > date);
+}
+
+/**
+ * Nights of a requested period as YYYY-MM-DD strings. An open-ended period
+ * is checked for `openEndedDays` nights.
+ */
+export function nightsOf(checkIn: string, checkOut: string | null, openEndedDays = 30): string[] {
+  const start = parseLocalDate(checkIn);
+  const count = checkOut
+    ? Math.max(0, differenceInCalendarDays(parseLocalDate(checkOut), start))
+    : openEndedDays;
+  return Array.from({ length: count }, (_, i) => formatDateString(addDays(start, i)));
+}
+
+/**
+ * Number of beds taken on the night starting on `date`.
+ */
+export function occupancyOn(stays: Stay[], accommodationId: string, date: string, excludeStayId?: string): number {
+  return stays.filter(
+    (s) => s.accommodation_id === accommodationId && s.id !== excludeStayId && occupiesNight(s, date)
+  ).length;
+}
+
+/**
+ * Nights on which adding the requested stay would exceed the accommodation's capacity.
+ * Pass `excludeStayId` when changing an existing stay so it is not counted twice.
+ * Accommodations without a capacity are never in conflict.
+ */
+export function findCapacityConflicts(
+  stays: Stay[],
+  accommodationId: string,
+  capacity: number | null,
+  checkIn: string,
+  checkOut: string | null,
+  excludeStayId?: string
+): CapacityConflict[] {
+  if (!capacity || capacity <= 0) return [];
+
+  return nightsOf(checkIn, checkOut)
+    .map((date) => ({ date, occupied: occupancyOn(stays, accommodationId, date, excludeStayId) + 1, capacity }))
+    .filter((c) => c.occupied > capacity);
+}
+
+/**
+ * Great-circle distance in kilometres.
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Accommodations with at least one bed free for the whole period, nearest first.
+ * Accommodations without coordinates are listed after the located ones.
+ */
+export function suggestFreeBeds(
+  accommodations: PlannableAccommodation[],
+  stays: Stay[],
+  checkIn: string,
+  checkOut: string | null,
+  origin: GeoPoint | null
+): BedSuggestion[] {
+  const nights = nightsOf(checkIn, checkOut);
+
+  return accommodations
+    .filter((acc) => (acc.capacity ?? 0) > 0)
+    .map((acc) => {
+      const peak = Math.max(0, ...nights.map((date) => occupancyOn(stays, acc.id, date)));
+      const hasCoords = acc.lat != null && acc.lng != null && acc.lat !== 0 && acc.lng !== 0;
+      return {
+        accommodation: acc,
+        freeBeds: (acc.capacity ?? 0) - peak,
+        distanceKm: origin && hasCoords ? haversineKm(origin, { lat: acc.lat as number, lng: acc.lng as number }) : null,
+      };
+    })
+    .filter((s) => s.freeBeds > 0)
+    .sort((a, b) => {
+      if (a.distanceKm == null && b.distanceKm == null) return b.freeBeds - a.freeBeds;
+      if (a.distanceKm == null) return 1;
+      if (b.distanceKm == null) return -1;
+      return a.distanceKm - b.distanceKm;
+    });
+}
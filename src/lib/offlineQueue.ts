@@ -0,0 +1,121 @@
+/**
+ * IndexedDB storage for daily entries made without signal.
+ *
+ * Entries wait in the `daily_entries` store until useOfflineQueue syncs them
+ * to performance_records. The `lookups` store keeps the last project and
+ * accommodation lists so the form can still be filled in offline.
+ */
+
+const DB_NAME = "tkjd-offline";
+const DB_VERSION = 1;
+const ENTRIES_STORE = "daily_entries";
+const LOOKUPS_STORE = "lookups";
+
+/** Columns of a performance record as entered in the daily entry form */
+export interface OfflineRecordData {
+  project_id: string;
+  date: string;
+  time_from: string;
+  time_to: string;
+  break_start: string | null;
+  break_end: string | null;
+  break2_start: string | null;
+  break2_end: string | null;
+  note: string | null;
+  total_hours: number;
+  accommodation_id: string | null;
+}
+
+/**
+ * - `pending`: waiting for a connection
+ * - `conflict`: the server refused it (e.g. the week was locked meanwhile); needs the user
+ */
+export type QueuedEntryStatus = "pending" | "conflict";
+
+export interface QueuedEntry {
+  localId: string;
+  userId: string;
+  /** Existing record being edited, null for a new record */
+  recordId: string | null;
+  /** Edit of a returned/rejected record that moves it back to draft */
+  resetStatus: boolean;
+  data: OfflineRecordData;
+  /** Shown in the list while the project relation cannot be loaded */
+  projectName: string | null;
+  status: QueuedEntryStatus;
+  error: string | null;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: "localId" }).createIndex("userId", "userId");
+        }
+        if (!db.objectStoreNames.contains(LOOKUPS_STORE)) {
+          db.createObjectStore(LOOKUPS_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function listQueuedEntries(userId: string): Promise<QueuedEntry[]> {
+  const entries = await withStore<QueuedEntry[]>(ENTRIES_STORE, "readonly", (store) =>
+    store.index("userId").getAll(userId)
+  );
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function putQueuedEntry(entry: QueuedEntry): Promise<void> {
+  await withStore(ENTRIES_STORE, "readwrite", (store) => store.put(entry));
+}
+
+export async function removeQueuedEntry(localId: string): Promise<void> {
+  await withStore(ENTRIES_STORE, "readwrite", (store) => store.delete(localId));
+}
+
+export async function saveLookup<T>(key: string, value: T): Promise<void> {
+  await withStore(LOOKUPS_STORE, "readwrite", (store) => store.put({ key, value }));
+}
+
+export async function loadLookup<T>(key: string): Promise<T | null> {
+  const row = await withStore<{ key: string; value: T } | undefined>(LOOKUPS_STORE, "readonly", (store) =>
+    store.get(key)
+  );
+  return row?.value ?? null;
+}
+
+/**
+ * Whether a failed Supabase call never reached the server, as opposed to being refused by it.
+ */
+export function isNetworkError(error: { message?: string } | null | undefined): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error?.message ?? "";
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+}
@@ -1,6 +1,9 @@
 import ExcelJS from "exceljs";
 import { format, addDays } from "date-fns";
 import tkjdLogoUrl from "@/assets/tkjd-logo.png";
+import type { CompanyBranding } from "./company";
+import { findHoliday, type HolidayCalendar } from "./holidays";
+import { clientSignoffLabel, type ClientSignoff } from "./clientSignoff";
 
 interface ProjectExportRecord {
   date: string;
@@ -27,6 +30,12 @@ export interface ProjectExportParams {
   calendarWeek: number;
   year: number;
   workers: ProjectWorkerSheet[];
+  /** Public holidays of the project site, marked in the table */
+  holidayCalendar?: HolidayCalendar;
+  /** Company printed in the header; defaults to TKJD */
+  company?: CompanyBranding;
+  /** The client's confirmation of the week, signed in the Bauleiter field */
+  clientSignoff?: ClientSignoff | null;
 }
 
 // Slovak day abbreviations
@@ -54,6 +63,9 @@ const BLACK_COLOR = { argb: "FF000000" };
 const WHITE_COLOR = { argb: "FFFFFFFF" };
 const HEADER_BG = { argb: "FFE8E8E8" };
 const ACCENT_COLOR = { argb: "FF1A56DB" };
+const HOLIDAY_BG = { argb: "FFFDE2E2" };
+
+const DEFAULT_COMPANY_NAME = "TKJD s.r.o.";
 
 const thinBorder: Partial<ExcelJS.Borders> = {
   top: { style: "thin", color: BLACK_COLOR },
@@ -76,6 +88,11 @@ async function fetchImageAsBase64(url: string): Promise<string> {
   });
 }
 
+/** The company's logo; without company branding the bundled TKJD logo */
+async function companyLogoBase64(company: CompanyBranding | undefined): Promise<string | null> {
+  return company?.logoBase64 !== undefined ? company.logoBase64 : fetchImageAsBase64(tkjdLogoUrl);
+}
+
 function applyLeistungsnachweisSheet(
   ws: ExcelJS.Worksheet,
   workerName: string,
@@ -87,6 +104,10 @@ function applyLeistungsnachweisSheet(
   calendarWeek: number,
   year: number,
   logoImageId: number | null,
+  holidayCalendar?: HolidayCalendar,
+  companyName: string = DEFAULT_COMPANY_NAME,
+  clientSignoff?: ClientSignoff | null,
+  clientSignatureImageId: number | null = null,
 ) {
   const { start, end } = getWeekDateRange(calendarWeek, year);
 
@@ -105,7 +126,7 @@ function applyLeistungsnachweisSheet(
   // ============ ROW 1: Company + KW ============
   ws.mergeCells("A1:D1");
   const companyCell = ws.getCell("A1");
-  companyCell.value = "TKJD s.r.o.";
+  companyCell.value = companyName;
   companyCell.font = { bold: true, size: 16 };
   companyCell.alignment = { horizontal: "left", vertical: "middle" };
 
@@ -209,6 +230,7 @@ function applyLeistungsnachweisSheet(
     const formattedDate = format(recordDate, "dd.MM.yyyy");
     const hours = Number(record.total_hours) || 0;
     totalHours += hours;
+    const holiday = findHoliday(record.date, holidayCalendar);
 
     const row = ws.getRow(currentRow);
     row.height = 20;
@@ -264,11 +286,19 @@ function applyLeistungsnachweisSheet(
 
     // Col H: Popis práce
     const noteCell = row.getCell(8);
-    noteCell.value = record.note || "";
+    noteCell.value = holiday
+      ? [`Feiertag / Sviatok: ${holiday.name}`, record.note].filter(Boolean).join(" – ")
+      : record.note || "";
     noteCell.font = { size: 9 };
     noteCell.alignment = { horizontal: "left", vertical: "middle", wrapText: true };
     noteCell.border = thinBorder;
 
+    if (holiday) {
+      for (let col = 1; col <= 8; col++) {
+        row.getCell(col).fill = { type: "pattern", pattern: "solid", fgColor: HOLIDAY_BG };
+      }
+    }
+
     currentRow++;
   });
 
@@ -308,6 +338,13 @@ function applyLeistungsnachweisSheet(
   ws.getCell(`F${currentRow}`).font = { size: 10 };
   ws.getCell(`F${currentRow}`).alignment = { horizontal: "left", vertical: "bottom" };
 
+  if (clientSignatureImageId !== null) {
+    ws.addImage(clientSignatureImageId, {
+      tl: { col: 5, row: currentRow },
+      ext: { width: 150, height: 50 },
+    });
+  }
+
   currentRow += 3;
 
   ws.mergeCells(`A${currentRow}:D${currentRow}`);
@@ -326,7 +363,9 @@ function applyLeistungsnachweisSheet(
   ws.getCell(`A${currentRow}`).alignment = { horizontal: "center", vertical: "middle" };
 
   ws.mergeCells(`F${currentRow}:H${currentRow}`);
-  ws.getCell(`F${currentRow}`).value = "Dátum / Datum: _______________";
+  ws.getCell(`F${currentRow}`).value = clientSignoff
+    ? clientSignoffLabel(clientSignoff)
+    : "Dátum / Datum: _______________";
   ws.getCell(`F${currentRow}`).font = { italic: true, size: 9 };
   ws.getCell(`F${currentRow}`).alignment = { horizontal: "center", vertical: "middle" };
 
@@ -347,18 +386,27 @@ export async function exportProjectConsolidatedExcel(params: ProjectExportParams
   const { projectName, projectClient, projectLocation, projectAddress, calendarWeek, year, workers } = params;
 
   const workbook = new ExcelJS.Workbook();
-  workbook.creator = "TKJD s.r.o.";
+  workbook.creator = params.company?.name ?? DEFAULT_COMPANY_NAME;
   workbook.created = new Date();
 
   // Fetch and embed logo once
   let logoImageId: number | null = null;
   try {
-    const logoBase64 = await fetchImageAsBase64(tkjdLogoUrl);
-    logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
+    const logoBase64 = await companyLogoBase64(params.company);
+    if (logoBase64) logoImageId = workbook.addImage({ base64: logoBase64, extension: "png" });
   } catch (error) {
     console.warn("Could not embed logo image:", error);
   }
 
+  let clientSignatureImageId: number | null = null;
+  if (params.clientSignoff) {
+    try {
+      clientSignatureImageId = workbook.addImage({ base64: params.clientSignoff.signatureBase64, extension: "png" });
+    } catch (error) {
+      console.warn("Could not embed client signature:", error);
+    }
+  }
+
   for (const worker of workers) {
     const sheetName = worker.workerName.slice(0, 31).replace(/[\\/*?[\]:]/g, "_");
     const ws = workbook.addWorksheet(sheetName, {
@@ -387,6 +435,10 @@ export async function exportProjectConsolidatedExcel(params: ProjectExportParams
       calendarWeek,
       year,
       logoImageId,
+      params.holidayCalendar,
+      params.company?.name,
+      params.clientSignoff,
+      clientSignatureImageId,
     );
   }
 
@@ -0,0 +1,59 @@
+import { getWeekDates } from "./dateUtils";
+
+/** One rate_history row */
+export interface RatePeriod {
+  id?: string;
+  rate: number;
+  valid_from: string;
+  valid_to: string | null;
+}
+
+/** Resolves the hourly rate effective on a date ("YYYY-MM-DD") */
+export type RateResolver = (date: string) => number;
+
+const covers = (period: RatePeriod, date: string) =>
+  period.valid_from <= date && (period.valid_to == null || period.valid_to >= date);
+
+/**
+ * The rate_history row effective on a date. Same rule as the
+ * get_effective_rate() RPC: of overlapping rows the latest valid_from wins.
+ */
+export function effectivePeriod(periods: RatePeriod[], date: string): RatePeriod | null {
+  let best: RatePeriod | null = null;
+  for (const period of periods) {
+    if (covers(period, date) && (!best || period.valid_from > best.valid_from)) best = period;
+  }
+  return best;
+}
+
+/**
+ * Rate lookup for pricing records by date; dates without a rate_history row
+ * fall back to the profile's hourly rate, like get_effective_rate().
+ */
+export function rateResolver(periods: RatePeriod[], fallbackRate: number): RateResolver {
+  return (date) => {
+    const period = effectivePeriod(periods, date);
+    return period ? Number(period.rate) : fallbackRate;
+  };
+}
+
+/** First and last day an invoice bills: its closed week, or the delivery date */
+export function invoicePeriod(invoice: {
+  delivery_date: string;
+  weekly_closings?: { calendar_week: number; year: number } | null;
+}): { from: string; to: string } {
+  if (invoice.weekly_closings) {
+    const dates = getWeekDates(invoice.weekly_closings.calendar_week, invoice.weekly_closings.year);
+    return { from: dates[0], to: dates[6] };
+  }
+  return { from: invoice.delivery_date, to: invoice.delivery_date };
+}
+
+/** Whether a rate valid from `from` to `to` (open-ended when null) touches the invoice's period */
+export function rateAffectsInvoice(
+  rate: Pick<RatePeriod, "valid_from" | "valid_to">,
+  invoice: Parameters<typeof invoicePeriod>[0]
+): boolean {
+  const period = invoicePeriod(invoice);
+  return rate.valid_from <= period.to && (rate.valid_to == null || rate.valid_to >= period.from);
+}
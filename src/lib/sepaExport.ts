@@ -0,0 +1,146 @@
+import { format } from "date-fns";
+import { safeText } from "./pdfFonts";
+
+export interface SepaPayment {
+  endToEndId: string;
+  amount: number;
+  creditorName: string;
+  creditorIban: string;
+  creditorBic: string | null;
+  remittanceInfo: string;
+}
+
+export interface SepaBatch {
+  messageId: string;
+  createdAt: Date;
+  requestedExecutionDate: string; // YYYY-MM-DD
+  debtorName: string;
+  debtorIban: string;
+  debtorBic: string | null;
+  payments: SepaPayment[];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function normalizeIban(iban: string | null | undefined): string {
+  return (iban || "").replace(/\s/g, "").toUpperCase();
+}
+
+/**
+ * ISO 13616 check: move the first four characters to the end,
+ * convert letters to numbers and verify the remainder mod 97 equals 1.
+ */
+export function isValidIban(iban: string | null | undefined): boolean {
+  const clean = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(clean)) return false;
+
+  const rearranged = clean.slice(4) + clean.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * ISO 9362 BIC: 4 letters bank, 2 letters country, 2 location, optional 3 branch.
+ */
+export function isValidBic(bic: string | null | undefined): boolean {
+  const clean = (bic || "").replace(/\s/g, "").toUpperCase();
+  return /^[A-Z]{6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3})?$/.test(clean);
+}
+
+// ============================================================================
+// pain.001.001.03 SERIALISATION
+// ============================================================================
+
+/**
+ * Restrict text to the SEPA Latin character set and the given length.
+ */
+function sepaText(value: string, maxLength: number): string {
+  return safeText(value)
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function agent(bic: string | null): string {
+  const clean = (bic || "").replace(/\s/g, "").toUpperCase();
+  return clean
+    ? `<FinInstnId><BIC>${clean}</BIC></FinInstnId>`
+    : "<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>";
+}
+
+/**
+ * Build a SEPA Credit Transfer initiation (pain.001.001.03) with a single
+ * payment information block booked as one batch.
+ */
+export function buildPain001Xml(batch: SepaBatch): string {
+  const ctrlSum = batch.payments.reduce((sum, p) => sum + Math.round(p.amount * 100), 0) / 100;
+  const count = batch.payments.length;
+  const debtorName = escapeXml(sepaText(batch.debtorName, 70));
+
+  const transactions = batch.payments.map((p) =>
+    [
+      "<CdtTrfTxInf>",
+      `<PmtId><EndToEndId>${escapeXml(sepaText(p.endToEndId, 35) || "NOTPROVIDED")}</EndToEndId></PmtId>`,
+      `<Amt><InstdAmt Ccy="EUR">${p.amount.toFixed(2)}</InstdAmt></Amt>`,
+      p.creditorBic ? `<CdtrAgt>${agent(p.creditorBic)}</CdtrAgt>` : "",
+      `<Cdtr><Nm>${escapeXml(sepaText(p.creditorName, 70))}</Nm></Cdtr>`,
+      `<CdtrAcct><Id><IBAN>${normalizeIban(p.creditorIban)}</IBAN></Id></CdtrAcct>`,
+      `<RmtInf><Ustrd>${escapeXml(sepaText(p.remittanceInfo, 140))}</Ustrd></RmtInf>`,
+      "</CdtTrfTxInf>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    "<CstmrCdtTrfInitn>",
+    "<GrpHdr>",
+    `<MsgId>${escapeXml(sepaText(batch.messageId, 35))}</MsgId>`,
+    `<CreDtTm>${format(batch.createdAt, "yyyy-MM-dd'T'HH:mm:ss")}</CreDtTm>`,
+    `<NbOfTxs>${count}</NbOfTxs>`,
+    `<CtrlSum>${ctrlSum.toFixed(2)}</CtrlSum>`,
+    `<InitgPty><Nm>${debtorName}</Nm></InitgPty>`,
+    "</GrpHdr>",
+    "<PmtInf>",
+    `<PmtInfId>${escapeXml(sepaText(batch.messageId, 35))}</PmtInfId>`,
+    "<PmtMtd>TRF</PmtMtd>",
+    "<BtchBookg>true</BtchBookg>",
+    `<NbOfTxs>${count}</NbOfTxs>`,
+    `<CtrlSum>${ctrlSum.toFixed(2)}</CtrlSum>`,
+    "<PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>",
+    `<ReqdExctnDt>${batch.requestedExecutionDate}</ReqdExctnDt>`,
+    `<Dbtr><Nm>${debtorName}</Nm></Dbtr>`,
+    `<DbtrAcct><Id><IBAN>${normalizeIban(batch.debtorIban)}</IBAN></Id></DbtrAcct>`,
+    `<DbtrAgt>${agent(batch.debtorBic)}</DbtrAgt>`,
+    "<ChrgBr>SLEV</ChrgBr>",
+    ...transactions,
+    "</PmtInf>",
+    "</CstmrCdtTrfInitn>",
+    "</Document>",
+  ].join("\n");
+}
+
+export function downloadPain001(batch: SepaBatch): void {
+  const blob = new Blob([buildPain001Xml(batch)], { type: "application/xml;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${batch.messageId}.xml`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,28 @@
+/** Tag of the Background Sync registration that flushes the offline daily entries */
+export const DAILY_ENTRY_SYNC_TAG = "daily-entries";
+/** Message the service worker posts to open windows when the sync fires */
+export const DAILY_ENTRY_SYNC_MESSAGE = "sync-daily-entries";
+
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.warn("Service worker registration failed:", error);
+    });
+  });
+}
+
+/**
+ * Ask the browser to wake the service worker once the device is back online.
+ * Browsers without Background Sync rely on the window `online` event instead.
+ */
+export async function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+    await sync?.register(DAILY_ENTRY_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync registration failed:", error);
+  }
+}
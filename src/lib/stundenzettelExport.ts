@@ -1,6 +1,10 @@
 import ExcelJS from "exceljs";
 import { format, addDays } from "date-fns";
 import { de } from "date-fns/locale";
+import { getWeekDates } from "./dateUtils";
+import { findHoliday, type HolidayCalendar } from "./holidays";
+import type { SurchargeLine } from "./surcharges";
+import { clientSignoffLabel, type ClientSignoff } from "./clientSignoff";
 
 interface StundenzettelRecord {
   date: string;
@@ -30,6 +34,12 @@ export interface StundenzettelParams {
   companyName?: string | null;
   companyAddress?: string | null;
   projectAddress?: string | null;
+  /** Public holidays of the project site, marked on their day rows */
+  holidayCalendar?: HolidayCalendar;
+  /** Surcharge hours (weekend, night, overtime), listed below the weekly total */
+  surcharges?: Pick<SurchargeLine, "label" | "hours">[];
+  /** The client's confirmation of the week, printed below the signatures */
+  clientSignoff?: ClientSignoff | null;
 }
 
 const TEMPLATE_URL = "/template_stundenzettel_v2.xlsx";
@@ -110,6 +120,7 @@ function fillTemplateSheet(ws: ExcelJS.Worksheet, params: StundenzettelParams) {
 
   const startRow = 18;
   let totalHours = 0;
+  const dates = getWeekDates(calendarWeek, year);
 
   germanDays.forEach((day, index) => {
     const row = startRow + index;
@@ -134,6 +145,16 @@ function fillTemplateSheet(ws: ExcelJS.Worksheet, params: StundenzettelParams) {
 
     // Column G – Summe
     ws.getCell(`G${row}`).value = hours > 0 ? hours : "";
+
+    // Feiertag: shade the row, name it in a note on the day and in Beginn when not worked
+    const holiday = findHoliday(dates[index], params.holidayCalendar);
+    if (holiday) {
+      if (!record) ws.getCell(`C${row}`).value = "Feiertag";
+      ws.getCell(`B${row}`).note = `Feiertag: ${holiday.name}`;
+      for (const col of ["B", "C", "D", "E", "F", "G"]) {
+        ws.getCell(`${col}${row}`).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFDE2E2" } };
+      }
+    }
   });
 
   // =========================
@@ -141,6 +162,36 @@ function fillTemplateSheet(ws: ExcelJS.Worksheet, params: StundenzettelParams) {
   // =========================
 
   ws.getCell("G24").value = totalHours;
+
+  // =========================
+  // SURCHARGES (ROW 25, free space above the signatures)
+  // =========================
+
+  if (params.surcharges && params.surcharges.length > 0) {
+    ws.getCell("B25").value = "Zuschläge / Príplatky";
+    ws.getCell("B25").font = { bold: true, size: 9 };
+    ws.getCell("C25").value = params.surcharges
+      .map((s) => `${s.label}: ${Number(s.hours).toFixed(2)} h`)
+      .join("  ·  ");
+    ws.getCell("C25").font = { size: 9 };
+  }
+}
+
+/** Client (Bauleiter) signature with name and time, below the template's signature fields */
+function addClientSignoff(workbook: ExcelJS.Workbook, ws: ExcelJS.Worksheet, signoff: ClientSignoff | null | undefined) {
+  if (!signoff) return;
+
+  ws.getCell("B33").value = "Bauleiter / Stavbyvedúci";
+  ws.getCell("B33").font = { bold: true, size: 9 };
+  ws.getCell("B38").value = clientSignoffLabel(signoff);
+  ws.getCell("B38").font = { size: 9 };
+
+  try {
+    const clientSigId = workbook.addImage({ base64: signoff.signatureBase64, extension: "png" });
+    ws.addImage(clientSigId, { tl: { col: 1, row: 33 }, ext: { width: 150, height: 70 } });
+  } catch (error) {
+    console.warn("Could not embed client signature:", error);
+  }
 }
 
 function applyPageSetupFromTemplate(target: ExcelJS.Worksheet, source: ExcelJS.Worksheet) {
@@ -202,6 +253,8 @@ export async function exportStundenzettelToExcel(params: StundenzettelParams): P
     }
   }
 
+  addClientSignoff(workbook, ws, params.clientSignoff);
+
   // Generate & download
   const safeProjectName = params.projectName.replace(/[^a-zA-Z0-9\s]/g, "").replace(/\s+/g, "_");
   const safeWorkerName = params.workerName.replace(/[^a-zA-Z0-9\s]/g, "").replace(/\s+/g, "_");
@@ -262,6 +315,8 @@ export async function exportMultipleStundenzettelsToExcel(sheets: Array<Stundenz
     } catch (e) { console.warn("Employee signature error:", e); }
   }
 
+  addClientSignoff(outWorkbook, firstWs, sheets[0].clientSignoff);
+
   // For subsequent workers, copy template structure into new sheets
   for (let i = 1; i < sheets.length; i++) {
     const params = sheets[i];
@@ -331,6 +386,8 @@ export async function exportMultipleStundenzettelsToExcel(sheets: Array<Stundenz
         ws.addImage(empSigId, { tl: { col: 4, row: 27 }, ext: { width: 150, height: 80 } });
       } catch (e) { console.warn("Employee signature error:", e); }
     }
+
+    addClientSignoff(outWorkbook, ws, params.clientSignoff);
   }
 
   // Download
@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { calculateSurcharges, type SurchargeRecord, type SurchargeRule } from "./surcharges";
+import { DEFAULT_HOLIDAY_CALENDAR, type HolidayCalendar } from "./holidays";
+
+const rule = (overrides: Partial<SurchargeRule>): SurchargeRule => ({
+  id: "rule",
+  project_id: "p1",
+  name: "Príplatok",
+  weekdays: [],
+  include_holidays: false,
+  time_from: null,
+  time_to: null,
+  weekly_threshold_hours: null,
+  kind: "multiplier",
+  value: 1.25,
+  is_active: true,
+  ...overrides,
+});
+
+let nextId = 0;
+const record = (overrides: Partial<SurchargeRecord>): SurchargeRecord => ({
+  id: `r${++nextId}`,
+  date: "2026-03-10",
+  project_id: "p1",
+  time_from: "07:00",
+  time_to: "16:00",
+  break_start: null,
+  break_end: null,
+  total_hours: 9,
+  ...overrides,
+});
+
+const slovak = () => DEFAULT_HOLIDAY_CALENDAR;
+
+const night = rule({ id: "night", name: "Nočná", time_from: "22:00", time_to: "06:00" });
+
+describe("calculateSurcharges", () => {
+  describe("night window past midnight", () => {
+    it("counts the hours on both sides of midnight", () => {
+      const lines = calculateSurcharges(
+        [night],
+        [record({ time_from: "20:00", time_to: "04:00", total_hours: 8 })],
+        20,
+        slovak
+      );
+      expect(lines).toEqual([
+        { ruleId: "night", projectId: "p1", label: "Nočná", hours: 6, ratePerHour: 5, amount: 30 },
+      ]);
+    });
+
+    it("leaves out a break after midnight", () => {
+      const lines = calculateSurcharges(
+        [night],
+        [record({ time_from: "20:00", time_to: "04:00", break_start: "00:00", break_end: "00:30", total_hours: 7.5 })],
+        20,
+        slovak
+      );
+      expect(lines).toHaveLength(1);
+      expect(lines[0].hours).toBe(5.5);
+      expect(lines[0].amount).toBe(27.5);
+    });
+
+    it("leaves out both breaks of a shift", () => {
+      const lines = calculateSurcharges(
+        [night],
+        [
+          record({
+            time_from: "21:00",
+            time_to: "07:00",
+            break_start: "23:00",
+            break_end: "23:30",
+            break2_start: "03:00",
+            break2_end: "03:30",
+            total_hours: 9,
+          }),
+        ],
+        20,
+        slovak
+      );
+      expect(lines[0].hours).toBe(7);
+    });
+
+    it("never bills more than the record's hours", () => {
+      const lines = calculateSurcharges(
+        [night],
+        [record({ time_from: "22:00", time_to: "06:00", total_hours: 6 })],
+        20,
+        slovak
+      );
+      expect(lines[0].hours).toBe(6);
+    });
+
+    it("ignores day shifts", () => {
+      expect(calculateSurcharges([night], [record({})], 20, slovak)).toEqual([]);
+    });
+  });
+
+  describe("days", () => {
+    const sunday = rule({ id: "sunday", weekdays: [7], include_holidays: true, kind: "fixed", value: 3 });
+
+    it("matches the weekday of the record", () => {
+      const lines = calculateSurcharges(
+        [sunday],
+        [record({ date: "2026-03-15", time_from: "08:00", time_to: "16:00", total_hours: 8 }), record({})],
+        20,
+        slovak
+      );
+      expect(lines).toEqual([
+        { ruleId: "sunday", projectId: "p1", label: "Príplatok", hours: 8, ratePerHour: 3, amount: 24 },
+      ]);
+    });
+
+    it("matches public holidays of the project's calendar", () => {
+      // Easter Monday 2026
+      const lines = calculateSurcharges([sunday], [record({ date: "2026-04-06", total_hours: 9 })], 20, slovak);
+      expect(lines[0].hours).toBe(9);
+    });
+
+    it("skips inactive rules and records of other projects", () => {
+      const records = [record({ date: "2026-03-15", project_id: "p2" })];
+      expect(calculateSurcharges([sunday], records, 20, slovak)).toEqual([]);
+      expect(calculateSurcharges([{ ...sunday, is_active: false }], [record({ date: "2026-03-15" })], 20, slovak)).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("weekly threshold", () => {
+    const overtime = rule({ id: "overtime", weekly_threshold_hours: 40, value: 1.5 });
+    const fourDays = (dates: string[], projectId = "p1") =>
+      dates.map((date) => record({ date, project_id: projectId, total_hours: 9 }));
+
+    it("bills only the hours above the threshold", () => {
+      const records = fourDays(["2026-03-09", "2026-03-10", "2026-03-11", "2026-03-12"]);
+      records.push(record({ date: "2026-03-13", total_hours: 9 }));
+      const lines = calculateSurcharges([overtime], records, 20, slovak);
+      expect(lines).toEqual([
+        { ruleId: "overtime", projectId: "p1", label: "Príplatok", hours: 5, ratePerHour: 10, amount: 50 },
+      ]);
+    });
+
+    it("is lowered by a public holiday off work", () => {
+      // Easter Monday 2026: 32 h instead of 40 h
+      const records = fourDays(["2026-04-07", "2026-04-08", "2026-04-09", "2026-04-10"]);
+      expect(calculateSurcharges([overtime], records, 20, slovak)[0].hours).toBe(4);
+
+      const ordinaryWeek = fourDays(["2026-03-10", "2026-03-11", "2026-03-12", "2026-03-13"]);
+      expect(calculateSurcharges([overtime], ordinaryWeek, 20, slovak)).toEqual([]);
+    });
+
+    it("is not lowered by an Austrian Landesfeiertag", () => {
+      // Josef (19.3.) in Tirol is no statutory day off
+      const tirol: HolidayCalendar = { country: "AT", region: "T" };
+      const records = fourDays(["2026-03-16", "2026-03-17", "2026-03-18", "2026-03-20"]);
+      expect(calculateSurcharges([overtime], records, 20, () => tirol)).toEqual([]);
+    });
+
+    it("is reached with hours of other projects", () => {
+      const records = [
+        ...fourDays(["2026-03-09", "2026-03-10", "2026-03-11", "2026-03-12"], "p2"),
+        record({ date: "2026-03-13", total_hours: 9 }),
+      ];
+      const lines = calculateSurcharges([overtime], records, 20, slovak);
+      expect(lines).toHaveLength(1);
+      expect(lines[0].hours).toBe(5);
+    });
+  });
+
+  describe("rate changes inside the week", () => {
+    const rateOn = (date: string) => (date < "2026-03-12" ? 20 : 24);
+    const records = [
+      record({ date: "2026-03-10", time_from: "22:00", time_to: "06:00", total_hours: 8 }),
+      record({ date: "2026-03-12", time_from: "22:00", time_to: "06:00", total_hours: 8 }),
+    ];
+
+    it("splits a multiplier rule into one line per premium", () => {
+      const lines = calculateSurcharges([night], records, rateOn, slovak);
+      expect(lines.map(({ hours, ratePerHour, amount }) => ({ hours, ratePerHour, amount }))).toEqual([
+        { hours: 8, ratePerHour: 5, amount: 40 },
+        { hours: 8, ratePerHour: 6, amount: 48 },
+      ]);
+    });
+
+    it("keeps a fixed rule on one line", () => {
+      const lines = calculateSurcharges([{ ...night, kind: "fixed", value: 2 }], records, rateOn, slovak);
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ hours: 16, ratePerHour: 2, amount: 32 });
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { getISOWeekLocal, getISOWeekYear, getWeekDates, parseLocalDate } from "./dateUtils";
+import { countWorkingDays, findHoliday, type HolidayCalendar } from "./holidays";
+
+export type SurchargeKind = "multiplier" | "fixed";
+
+export interface SurchargeRule {
+  id: string;
+  project_id: string;
+  name: string;
+  /** ISO weekdays (1 = Monday … 7 = Sunday); empty matches every day */
+  weekdays: number[];
+  include_holidays: boolean;
+  /** Window of the day ("HH:MM"); a window ending before it starts runs past midnight */
+  time_from: string | null;
+  time_to: string | null;
+  /** Only hours above this weekly total qualify; public holidays lower it pro rata */
+  weekly_threshold_hours: number | null;
+  kind: SurchargeKind;
+  /** Multiplier of the hourly rate (1.25 = +25 %) or EUR per hour */
+  value: number;
+  is_active: boolean;
+}
+
+export interface SurchargeRecord {
+  id: string;
+  date: string;
+  project_id: string | null;
+  time_from: string;
+  time_to: string;
+  break_start: string | null;
+  break_end: string | null;
+  break2_start?: string | null;
+  break2_end?: string | null;
+  total_hours: number;
+}
+
+/** One invoice line: the premium on top of the hours already billed at the base rate */
+export interface SurchargeLine {
+  ruleId: string;
+  projectId: string;
+  label: string;
+  hours: number;
+  ratePerHour: number;
+  amount: number;
+}
+
+export const WEEKDAY_LABELS: { value: number; label: string }[] = [
+  { value: 1, label: "Po" },
+  { value: 2, label: "Ut" },
+  { value: 3, label: "St" },
+  { value: 4, label: "Št" },
+  { value: 5, label: "Pi" },
+  { value: 6, label: "So" },
+  { value: 7, label: "Ne" },
+];
+
+const DAY = 24 * 60;
+
+/** Working days the weekly thresholds are set for */
+const WORKING_DAYS_PER_WEEK = 5;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+type Interval = [number, number];
+
+function overlap(a: Interval[], b: Interval[]): number {
+  let minutes = 0;
+  for (const [aFrom, aTo] of a) {
+    for (const [bFrom, bTo] of b) {
+      minutes += Math.max(0, Math.min(aTo, bTo) - Math.max(aFrom, bFrom));
+    }
+  }
+  return minutes;
+}
+
+/** Worked time of a record in minutes from its day's midnight, breaks cut out */
+function workedIntervals(record: SurchargeRecord): Interval[] {
+  const from = toMinutes(record.time_from);
+  let to = toMinutes(record.time_to);
+  if (to <= from) to += DAY;
+
+  const breaks: Interval[] = [];
+  for (const [start, end] of [
+    [record.break_start, record.break_end],
+    [record.break2_start, record.break2_end],
+  ]) {
+    if (!start || !end) continue;
+    let bFrom = toMinutes(start);
+    let bTo = toMinutes(end);
+    if (bFrom < from) bFrom += DAY;
+    if (bTo <= bFrom) bTo += DAY;
+    breaks.push([bFrom, bTo]);
+  }
+  breaks.sort((a, b) => a[0] - b[0]);
+
+  const intervals: Interval[] = [];
+  let cursor = from;
+  for (const [bFrom, bTo] of breaks) {
+    if (bFrom > cursor) intervals.push([cursor, Math.min(bFrom, to)]);
+    cursor = Math.max(cursor, bTo);
+  }
+  if (cursor < to) intervals.push([cursor, to]);
+  return intervals.filter(([a, b]) => b > a);
+}
+
+/** The rule's window on the record's day and the following one (for night shifts) */
+function windowIntervals(timeFrom: string, timeTo: string): Interval[] {
+  const from = toMinutes(timeFrom);
+  const to = toMinutes(timeTo);
+  const intervals: Interval[] = [];
+  for (const offset of [0, DAY]) {
+    if (from < to) {
+      intervals.push([offset + from, offset + to]);
+    } else {
+      intervals.push([offset, offset + to], [offset + from, offset + DAY]);
+    }
+  }
+  return intervals;
+}
+
+/**
+ * Day conditions use the date of the record, also for the part of a night
+ * shift that runs past midnight.
+ */
+function matchesDay(rule: SurchargeRule, date: string, calendar: HolidayCalendar): boolean {
+  if (rule.weekdays.length === 0 && !rule.include_holidays) return true;
+  const isoDay = parseLocalDate(date).getDay() || 7;
+  if (rule.weekdays.includes(isoDay)) return true;
+  return rule.include_holidays && !!findHoliday(date, calendar)?.dayOff;
+}
+
+/** Hours of a record matching the rule's day and time conditions */
+function qualifyingHours(rule: SurchargeRule, record: SurchargeRecord, calendar: HolidayCalendar): number {
+  if (!matchesDay(rule, record.date, calendar)) return 0;
+  const hours = Number(record.total_hours) || 0;
+  if (!rule.time_from || !rule.time_to) return hours;
+  const minutes = overlap(workedIntervals(record), windowIntervals(rule.time_from, rule.time_to));
+  // total_hours may have been corrected by hand; never bill more than it
+  return Math.min(hours, minutes / 60);
+}
+
+/**
+ * The rule's weekly threshold for one week: a public holiday off work lowers
+ * it by a working day's share, e.g. 40 h to 32 h in a week with one holiday.
+ */
+function weeklyThreshold(rule: SurchargeRule, weekDates: string[], calendar: HolidayCalendar): number {
+  const threshold = Number(rule.weekly_threshold_hours);
+  return round2((threshold * countWorkingDays(weekDates, calendar)) / WORKING_DAYS_PER_WEEK);
+}
+
+/**
+ * Premium per hour: a multiplier bills the part above the base rate,
+ * since the hours themselves are already on the invoice at the base rate.
+ */
+export function surchargeRatePerHour(rule: Pick<SurchargeRule, "kind" | "value">, hourlyRate: number): number {
+  const value = Number(rule.value) || 0;
+  return rule.kind === "multiplier" ? round2(hourlyRate * Math.max(0, value - 1)) : value;
+}
+
+/**
+ * Evaluate the surcharge rules against one week of a worker's records.
+ * Each rule only counts records of its own project, but the weekly threshold
+ * is reached with all hours of the week, in chronological order, and is
+ * lowered in weeks with public holidays. Rules are
+ * independent, so e.g. a Sunday night hour earns both the Sunday and the
+ * night premium. `hourlyRate` may resolve the rate per record date; a rate
+ * change inside the week then splits a multiplier rule into one line per premium.
+ */
+export function calculateSurcharges(
+  rules: SurchargeRule[],
+  records: SurchargeRecord[],
+  hourlyRate: number | ((date: string) => number),
+  calendarOf: (projectId: string | null) => HolidayCalendar
+): SurchargeLine[] {
+  const rateOn = typeof hourlyRate === "number" ? () => hourlyRate : hourlyRate;
+  const sorted = [...records].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.time_from.localeCompare(b.time_from)
+  );
+
+  // Hours worked in the week before each record
+  const hoursBefore = new Map<string, number>();
+  let cumulative = 0;
+  for (const record of sorted) {
+    hoursBefore.set(record.id, cumulative);
+    cumulative += Number(record.total_hours) || 0;
+  }
+
+  const lines: SurchargeLine[] = [];
+  if (sorted.length === 0) return lines;
+  const firstDay = parseLocalDate(sorted[0].date);
+  const weekDates = getWeekDates(getISOWeekLocal(firstDay), getISOWeekYear(firstDay));
+
+  for (const rule of rules) {
+    if (!rule.is_active) continue;
+    const threshold =
+      rule.weekly_threshold_hours != null ? weeklyThreshold(rule, weekDates, calendarOf(rule.project_id)) : null;
+
+    // Qualifying hours by premium per hour
+    const hoursByRate = new Map<number, number>();
+    for (const record of sorted) {
+      if (record.project_id !== rule.project_id) continue;
+      let qualifying = qualifyingHours(rule, record, calendarOf(record.project_id));
+      if (threshold != null) {
+        const before = hoursBefore.get(record.id) ?? 0;
+        const after = before + (Number(record.total_hours) || 0);
+        const overtime = Math.max(0, after - Math.max(before, threshold));
+        qualifying = Math.min(qualifying, overtime);
+      }
+      if (qualifying <= 0) continue;
+      const ratePerHour = surchargeRatePerHour(rule, rateOn(record.date));
+      hoursByRate.set(ratePerHour, (hoursByRate.get(ratePerHour) ?? 0) + qualifying);
+    }
+
+    for (const [ratePerHour, total] of hoursByRate) {
+      const hours = round2(total);
+      if (hours <= 0) continue;
+      lines.push({
+        ruleId: rule.id,
+        projectId: rule.project_id,
+        label: rule.name,
+        hours,
+        ratePerHour,
+        amount: round2(hours * ratePerHour),
+      });
+    }
+  }
+  return lines;
+}
+
+export function totalSurcharge(lines: SurchargeLine[] | undefined): number {
+  return round2((lines || []).reduce((sum, line) => sum + (Number(line.amount) || 0), 0));
+}
+
+/** Short description of a rule's conditions, e.g. "So, Ne · 22:00–06:00 · nad 40 h/týž." */
+export function describeSurchargeRule(rule: SurchargeRule): string {
+  const parts: string[] = [];
+  const days = WEEKDAY_LABELS.filter((d) => rule.weekdays.includes(d.value)).map((d) => d.label);
+  if (rule.include_holidays) days.push("sviatky");
+  if (days.length > 0) parts.push(days.join(", "));
+  if (rule.time_from && rule.time_to) parts.push(`${rule.time_from.slice(0, 5)}–${rule.time_to.slice(0, 5)}`);
+  if (rule.weekly_threshold_hours != null) parts.push(`nad ${rule.weekly_threshold_hours} h/týž.`);
+  return parts.length > 0 ? parts.join(" · ") : "každá hodina";
+}
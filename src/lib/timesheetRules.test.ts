@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  hasBlockingViolation,
+  validateTimesheet,
+  type ProjectRuleConfig,
+  type TimesheetEntry,
+  type TimesheetProject,
+  type ValidationContext,
+} from "./timesheetRules";
+
+let nextId = 0;
+const entry = (overrides: Partial<TimesheetEntry>): TimesheetEntry => ({
+  id: `e${++nextId}`,
+  date: "2026-03-10",
+  project_id: "p1",
+  time_from: "07:00",
+  time_to: "12:00",
+  break_start: null,
+  break_end: null,
+  break2_start: null,
+  break2_end: null,
+  total_hours: 5,
+  ...overrides,
+});
+
+const context = (
+  rules: Record<string, Partial<ProjectRuleConfig>> = {},
+  projects: TimesheetProject[] = [
+    { id: "p1", name: "Projekt A", standard_hours: null },
+    { id: "p2", name: "Projekt B", standard_hours: null },
+  ]
+): ValidationContext => ({
+  projects: new Map(projects.map((p) => [p.id, p])),
+  rules: new Map(Object.entries(rules)),
+});
+
+// ISO week 15/2026, Easter Monday on 6 April
+const EASTER_WEEK = ["2026-04-06", "2026-04-07", "2026-04-08", "2026-04-09", "2026-04-10", "2026-04-11", "2026-04-12"];
+
+describe("validateTimesheet", () => {
+  describe("overlapping entries", () => {
+    it("blocks two entries of a day whose times overlap", () => {
+      const a = entry({ time_from: "07:00", time_to: "12:00" });
+      const b = entry({ time_from: "11:00", time_to: "15:00", total_hours: 4 });
+      const violations = validateTimesheet([a, b], context()).filter((v) => v.rule === "overlapping_entries");
+      expect(violations).toEqual([
+        {
+          rule: "overlapping_entries",
+          severity: "block",
+          message: "Čas 07:00–12:00 sa prekrýva s 11:00–15:00",
+          date: "2026-03-10",
+          recordIds: [a.id, b.id],
+        },
+      ]);
+      expect(hasBlockingViolation(violations)).toBe(true);
+    });
+
+    it("accepts entries that only touch", () => {
+      const violations = validateTimesheet(
+        [entry({ time_from: "07:00", time_to: "12:00" }), entry({ time_from: "12:00", time_to: "16:00", total_hours: 4 })],
+        context()
+      );
+      expect(violations.filter((v) => v.rule === "overlapping_entries")).toEqual([]);
+    });
+
+    it("compares entries of the same day only", () => {
+      const violations = validateTimesheet(
+        [entry({ date: "2026-03-10" }), entry({ date: "2026-03-11" })],
+        context()
+      );
+      expect(violations.filter((v) => v.rule === "overlapping_entries")).toEqual([]);
+    });
+
+    it("detects an overlap with a night shift running past midnight", () => {
+      const violations = validateTimesheet(
+        [
+          entry({ time_from: "18:00", time_to: "02:00", total_hours: 8 }),
+          entry({ time_from: "23:00", time_to: "23:30", total_hours: 0.5 }),
+        ],
+        context()
+      );
+      expect(violations.filter((v) => v.rule === "overlapping_entries")).toHaveLength(1);
+    });
+  });
+
+  describe("strictest config across projects", () => {
+    const rules = {
+      p1: { max_daily_hours: { enabled: true, severity: "warn" as const, threshold: 12 } },
+      p2: { max_daily_hours: { enabled: true, severity: "block" as const, threshold: 10 } },
+    };
+
+    it("applies the lowest limit and blocking severity to a day on both projects", () => {
+      const violations = validateTimesheet(
+        [
+          entry({ project_id: "p1", time_from: "06:00", time_to: "12:00", total_hours: 6 }),
+          entry({ project_id: "p2", time_from: "12:00", time_to: "17:00", total_hours: 5 }),
+        ],
+        context(rules)
+      ).filter((v) => v.rule === "max_daily_hours");
+      expect(violations).toHaveLength(1);
+      expect(violations[0].severity).toBe("block");
+      expect(violations[0].message).toBe("11 h za deň prekračuje limit 10 h");
+    });
+
+    it("keeps a project's own config on days without the other project", () => {
+      const violations = validateTimesheet(
+        [entry({ project_id: "p1", time_from: "06:00", time_to: "17:00", total_hours: 11 })],
+        context(rules)
+      );
+      expect(violations.filter((v) => v.rule === "max_daily_hours")).toEqual([]);
+    });
+
+    it("enables a day rule when any of the projects enables it", () => {
+      const violations = validateTimesheet(
+        [
+          entry({ project_id: "p1", time_from: "07:00", time_to: "12:00" }),
+          entry({ project_id: "p2", time_from: "11:00", time_to: "15:00", total_hours: 4 }),
+        ],
+        context({ p1: { overlapping_entries: { enabled: false, severity: "block", threshold: null } } })
+      );
+      expect(violations.filter((v) => v.rule === "overlapping_entries")).toHaveLength(1);
+    });
+
+    it("checks single records against their own project", () => {
+      const breakRules = { p2: { break_after_6h: { enabled: true, severity: "warn" as const, threshold: 8 } } };
+      const violations = validateTimesheet(
+        [
+          entry({ date: "2026-03-10", project_id: "p1", time_from: "07:00", time_to: "14:00", total_hours: 7 }),
+          entry({ date: "2026-03-11", project_id: "p2", time_from: "07:00", time_to: "14:00", total_hours: 7 }),
+        ],
+        context(breakRules)
+      ).filter((v) => v.rule === "break_after_6h");
+      expect(violations.map((v) => v.date)).toEqual(["2026-03-10"]);
+    });
+  });
+
+  describe("missing days", () => {
+    const enabled = { missing_days: { enabled: true, severity: "warn" as const, threshold: null } };
+
+    it("reports working days without an entry, skipping public holidays", () => {
+      const violations = validateTimesheet(
+        ["2026-04-07", "2026-04-08", "2026-04-09"].map((date) => entry({ date })),
+        context({ p1: enabled }),
+        EASTER_WEEK
+      ).filter((v) => v.rule === "missing_days");
+      expect(violations).toEqual([
+        { rule: "missing_days", severity: "warn", message: "Pracovný deň bez záznamu", date: "2026-04-10", recordIds: [] },
+      ]);
+    });
+
+    it("uses the holiday calendar of the first entry", () => {
+      // 6 January is a holiday in Slovakia but not in Nordrhein-Westfalen
+      const projects = [
+        { id: "p1", name: "Projekt A", standard_hours: null, holiday_country: "DE", holiday_region: "NW" },
+        { id: "p2", name: "Projekt B", standard_hours: null, holiday_country: "SK", holiday_region: null },
+      ];
+      const weekDates = ["2026-01-05", "2026-01-06", "2026-01-07", "2026-01-08", "2026-01-09", "2026-01-10", "2026-01-11"];
+      const german = ["2026-01-05", "2026-01-08", "2026-01-09"].map((date) => entry({ date, project_id: "p1" }));
+      const slovak = entry({ date: "2026-01-07", project_id: "p2" });
+      const missing = (entries: TimesheetEntry[]) =>
+        validateTimesheet(entries, context({ p1: enabled }, projects), weekDates)
+          .filter((v) => v.rule === "missing_days")
+          .map((v) => v.date);
+
+      expect(missing([slovak, ...german])).toEqual([]);
+      expect(missing([...german, slovak])).toEqual(["2026-01-06"]);
+    });
+
+    it("is off by default and needs the week dates", () => {
+      const entries = [entry({ date: "2026-04-07" })];
+      expect(validateTimesheet(entries, context(), EASTER_WEEK).filter((v) => v.rule === "missing_days")).toEqual([]);
+      expect(validateTimesheet(entries, context({ p1: enabled })).filter((v) => v.rule === "missing_days")).toEqual([]);
+    });
+  });
+});
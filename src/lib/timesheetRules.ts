@@ -0,0 +1,305 @@
+import { parseLocalDate } from "./dateUtils";
+import { findHoliday, isWorkingDay, projectHolidayCalendar, type HolidayCalendar } from "./holidays";
+
+export type TimesheetRuleId =
+  | "max_daily_hours"
+  | "break_after_6h"
+  | "overlapping_entries"
+  | "sunday_holiday"
+  | "above_standard_hours"
+  | "missing_days";
+
+export type RuleSeverity = "warn" | "block";
+
+export interface RuleConfig {
+  enabled: boolean;
+  severity: RuleSeverity;
+  /** Rule parameter (hour limit etc.); null for rules without one */
+  threshold: number | null;
+}
+
+export type ProjectRuleConfig = Record<TimesheetRuleId, RuleConfig>;
+
+export interface TimesheetEntry {
+  id: string;
+  date: string;
+  project_id: string | null;
+  time_from: string;
+  time_to: string;
+  break_start: string | null;
+  break_end: string | null;
+  break2_start: string | null;
+  break2_end: string | null;
+  total_hours: number;
+}
+
+export interface TimesheetProject {
+  id: string;
+  name: string;
+  standard_hours: number | null;
+  holiday_country?: string | null;
+  holiday_region?: string | null;
+}
+
+export interface RuleViolation {
+  rule: TimesheetRuleId;
+  severity: RuleSeverity;
+  message: string;
+  date: string | null;
+  /** Records that trigger the violation; empty for week rules like missing days */
+  recordIds: string[];
+}
+
+export interface ValidationContext {
+  projects: Map<string, TimesheetProject>;
+  /** Stored overrides per project; rules without a row use the defaults */
+  rules: Map<string, Partial<ProjectRuleConfig>>;
+}
+
+/** Id of an entry that is being validated before it is saved */
+export const NEW_ENTRY_ID = "new";
+
+/** Minimum total break once the break rule's hour limit is exceeded */
+const REQUIRED_BREAK_MINUTES = 30;
+
+type Finding = { message: string; date: string | null; recordIds: string[] };
+
+interface RuleHelpers {
+  projectName: (projectId: string | null) => string;
+  standardHours: (projectId: string | null) => number | null;
+  holidayCalendar: (projectId: string | null) => HolidayCalendar;
+}
+
+/**
+ * A rule checks one record, all records of one day, or the whole week.
+ * Day and week rules use the strictest config among the projects involved.
+ */
+type TimesheetRule =
+  | {
+      scope: "record";
+      check: (entry: TimesheetEntry, config: RuleConfig, helpers: RuleHelpers) => string | null;
+    }
+  | {
+      scope: "day";
+      check: (date: string, entries: TimesheetEntry[], config: RuleConfig) => Finding[];
+    }
+  | {
+      scope: "week";
+      check: (weekDates: string[], entries: TimesheetEntry[], config: RuleConfig, helpers: RuleHelpers) => Finding[];
+    };
+
+export interface RuleDefinition {
+  label: string;
+  description: string;
+  /** Label of the threshold input; rules without a parameter leave it out */
+  thresholdLabel?: string;
+  defaults: RuleConfig;
+}
+
+export const RULE_DEFINITIONS: Record<TimesheetRuleId, RuleDefinition> = {
+  max_daily_hours: {
+    label: "Maximum hodín za deň",
+    description: "Súčet hodín zo všetkých záznamov v jeden deň",
+    thresholdLabel: "Max. hodín",
+    defaults: { enabled: true, severity: "warn", threshold: 12 },
+  },
+  break_after_6h: {
+    label: "Povinná prestávka",
+    description: `Aspoň ${REQUIRED_BREAK_MINUTES} min prestávky pri dlhšej práci`,
+    thresholdLabel: "Po hodinách",
+    defaults: { enabled: true, severity: "warn", threshold: 6 },
+  },
+  overlapping_entries: {
+    label: "Prekrývajúce sa záznamy",
+    description: "Dva záznamy v ten istý deň s prekrývajúcim sa časom",
+    defaults: { enabled: true, severity: "block", threshold: null },
+  },
+  sunday_holiday: {
+    label: "Nedeľa a sviatky",
+    description: "Práca v nedeľu alebo v štátny sviatok",
+    defaults: { enabled: true, severity: "warn", threshold: null },
+  },
+  above_standard_hours: {
+    label: "Nad rámec úväzku",
+    description: "Viac hodín, než je úväzok projektu",
+    defaults: { enabled: true, severity: "warn", threshold: null },
+  },
+  missing_days: {
+    label: "Chýbajúce dni",
+    description: "Pracovný deň (Po–Pia, mimo sviatkov) bez záznamu",
+    defaults: { enabled: false, severity: "warn", threshold: null },
+  },
+};
+
+export const RULE_IDS = Object.keys(RULE_DEFINITIONS) as TimesheetRuleId[];
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/** Start/end in minutes; a shift ending before it starts runs past midnight */
+function interval(entry: TimesheetEntry): [number, number] {
+  const from = toMinutes(entry.time_from);
+  let to = toMinutes(entry.time_to);
+  if (to <= from) to += 24 * 60;
+  return [from, to];
+}
+
+function breakMinutes(entry: TimesheetEntry): number {
+  let minutes = 0;
+  if (entry.break_start && entry.break_end) minutes += toMinutes(entry.break_end) - toMinutes(entry.break_start);
+  if (entry.break2_start && entry.break2_end) minutes += toMinutes(entry.break2_end) - toMinutes(entry.break2_start);
+  return Math.max(0, minutes);
+}
+
+const formatHours = (hours: number) => `${Math.round(hours * 100) / 100} h`;
+
+const RULES: Record<TimesheetRuleId, TimesheetRule> = {
+  max_daily_hours: {
+    scope: "day",
+    check: (date, entries, config) => {
+      const total = entries.reduce((sum, e) => sum + (Number(e.total_hours) || 0), 0);
+      if (config.threshold == null || total <= config.threshold) return [];
+      return [
+        {
+          message: `${formatHours(total)} za deň prekračuje limit ${formatHours(config.threshold)}`,
+          date,
+          recordIds: entries.map((e) => e.id),
+        },
+      ];
+    },
+  },
+  break_after_6h: {
+    scope: "record",
+    check: (entry, config) => {
+      const hours = Number(entry.total_hours) || 0;
+      if (config.threshold == null || hours <= config.threshold) return null;
+      const breaks = breakMinutes(entry);
+      if (breaks >= REQUIRED_BREAK_MINUTES) return null;
+      return `Pri ${formatHours(hours)} práce chýba prestávka aspoň ${REQUIRED_BREAK_MINUTES} min (zapísané ${breaks} min)`;
+    },
+  },
+  overlapping_entries: {
+    scope: "day",
+    check: (date, entries) => {
+      const findings: Finding[] = [];
+      const sorted = [...entries].sort((a, b) => interval(a)[0] - interval(b)[0]);
+      for (let i = 0; i < sorted.length; i++) {
+        for (let j = i + 1; j < sorted.length; j++) {
+          const [, endA] = interval(sorted[i]);
+          const [startB] = interval(sorted[j]);
+          if (startB >= endA) break;
+          findings.push({
+            message: `Čas ${sorted[i].time_from.slice(0, 5)}–${sorted[i].time_to.slice(0, 5)} sa prekrýva s ${sorted[j].time_from.slice(0, 5)}–${sorted[j].time_to.slice(0, 5)}`,
+            date,
+            recordIds: [sorted[i].id, sorted[j].id],
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  sunday_holiday: {
+    scope: "record",
+    check: (entry, _config, helpers) => {
+      if (parseLocalDate(entry.date).getDay() === 0) return "Záznam v nedeľu";
+      const holiday = findHoliday(entry.date, helpers.holidayCalendar(entry.project_id));
+      return holiday?.dayOff ? `Záznam vo sviatok (${holiday.name})` : null;
+    },
+  },
+  above_standard_hours: {
+    scope: "record",
+    check: (entry, _config, helpers) => {
+      const standard = helpers.standardHours(entry.project_id);
+      const hours = Number(entry.total_hours) || 0;
+      if (!standard || standard <= 0 || hours - standard <= 0.01) return null;
+      return `Na projekte ${helpers.projectName(entry.project_id)} je povolený len ${standard} hodinový úväzok, zapísaných ${formatHours(hours)}`;
+    },
+  },
+  missing_days: {
+    scope: "week",
+    check: (weekDates, entries, _config, helpers) => {
+      // A week spread over several sites uses the calendar of the first one
+      const calendar = helpers.holidayCalendar(entries[0]?.project_id ?? null);
+      const worked = new Set(entries.map((e) => e.date));
+      return weekDates
+        .filter((date) => isWorkingDay(date, calendar) && !worked.has(date))
+        .map((date) => ({ message: "Pracovný deň bez záznamu", date, recordIds: [] }));
+    },
+  },
+};
+
+export function resolveProjectRules(stored: Partial<ProjectRuleConfig> | undefined): ProjectRuleConfig {
+  return Object.fromEntries(
+    RULE_IDS.map((id) => [id, { ...RULE_DEFINITIONS[id].defaults, ...stored?.[id] }])
+  ) as ProjectRuleConfig;
+}
+
+/** Enabled if any project enables the rule, blocking if any blocks, lowest threshold wins */
+function strictest(configs: RuleConfig[]): RuleConfig {
+  const enabled = configs.filter((c) => c.enabled);
+  const thresholds = enabled.map((c) => c.threshold).filter((t): t is number => t != null);
+  return {
+    enabled: enabled.length > 0,
+    severity: enabled.some((c) => c.severity === "block") ? "block" : "warn",
+    threshold: thresholds.length > 0 ? Math.min(...thresholds) : null,
+  };
+}
+
+/**
+ * Run all rules over a user's entries. Pass `weekDates` (the seven days of an
+ * ISO week, see getWeekDates) to include week rules such as missing days.
+ */
+export function validateTimesheet(
+  entries: TimesheetEntry[],
+  context: ValidationContext,
+  weekDates?: string[]
+): RuleViolation[] {
+  const configFor = (projectId: string | null) =>
+    resolveProjectRules(projectId ? context.rules.get(projectId) : undefined);
+  const helpers: RuleHelpers = {
+    projectName: (projectId) => (projectId && context.projects.get(projectId)?.name) || "—",
+    standardHours: (projectId) => (projectId ? context.projects.get(projectId)?.standard_hours ?? null : null),
+    holidayCalendar: (projectId) => projectHolidayCalendar(projectId ? context.projects.get(projectId) : null),
+  };
+  const combinedConfig = (rule: TimesheetRuleId, group: TimesheetEntry[]) =>
+    strictest([...new Set(group.map((e) => e.project_id))].map((id) => configFor(id)[rule]));
+
+  const byDate = new Map<string, TimesheetEntry[]>();
+  for (const entry of entries) {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const id of RULE_IDS) {
+    const rule = RULES[id];
+    if (rule.scope === "record") {
+      for (const entry of entries) {
+        const config = configFor(entry.project_id)[id];
+        if (!config.enabled) continue;
+        const message = rule.check(entry, config, helpers);
+        if (message) {
+          violations.push({ rule: id, severity: config.severity, message, date: entry.date, recordIds: [entry.id] });
+        }
+      }
+    } else if (rule.scope === "day") {
+      for (const [date, dayEntries] of byDate) {
+        const config = combinedConfig(id, dayEntries);
+        if (!config.enabled) continue;
+        violations.push(...rule.check(date, dayEntries, config).map((f) => ({ rule: id, severity: config.severity, ...f })));
+      }
+    } else if (weekDates && entries.length > 0) {
+      const config = combinedConfig(id, entries);
+      if (!config.enabled) continue;
+      violations.push(...rule.check(weekDates, entries, config, helpers).map((f) => ({ rule: id, severity: config.severity, ...f })));
+    }
+  }
+
+  return violations.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+}
+
+export function hasBlockingViolation(violations: RuleViolation[]): boolean {
+  return violations.some((v) => v.severity === "block");
+}
+
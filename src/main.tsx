@@ -2,5 +2,11 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import "leaflet/dist/leaflet.css";
+import { registerServiceWorker } from "./lib/serviceWorker";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Only production builds: a caching worker would serve stale modules to the dev server
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
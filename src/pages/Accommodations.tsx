@@ -1,14 +1,19 @@
 import { useState, useEffect, useMemo, lazy, Suspense } from "react";
 import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Plus, Home, Users, Euro, MapPin } from "lucide-react";
 import AccommodationFilters, { type Filters } from "@/components/accommodations/AccommodationFilters";
 import AccommodationListItem from "@/components/accommodations/AccommodationListItem";
 import AccommodationDetailCard from "@/components/accommodations/AccommodationDetailCard";
 import CreateAccommodationDialog from "@/components/accommodations/CreateAccommodationDialog";
+import AccommodationPaymentsPanel from "@/components/accommodations/AccommodationPaymentsPanel";
+import OccupancyPlanner from "@/components/accommodations/OccupancyPlanner";
+import AccommodationReconciliation from "@/components/accommodations/AccommodationReconciliation";
 
 const AccommodationMap = lazy(() =>
   import("@/components/accommodations/AccommodationMap").catch(() => {
@@ -60,9 +65,11 @@ const seedRatings = [
 ];
 
 export default function Accommodations() {
-  const { isAdmin, isManager, loading: roleLoading } = useUserRole();
+  const { isAdmin, loading: adminLoading } = useUserRole();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const roleLoading = adminLoading || permissionsLoading;
   const { toast } = useToast();
-  const canManage = isAdmin || isManager;
+  const canManage = can("manage_accommodations");
   const [seeding, setSeeding] = useState(false);
 
   const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
@@ -236,60 +243,82 @@ export default function Accommodations() {
         </Card>
       </div>
 
-      {/* Filters */}
-      <AccommodationFilters filters={filters} onChange={setFilters} />
+      <Tabs defaultValue="map" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="map">Mapa</TabsTrigger>
+          <TabsTrigger value="occupancy">Obsadenosť</TabsTrigger>
+          {isAdmin && <TabsTrigger value="reconciliation">Zúčtovanie</TabsTrigger>}
+        </TabsList>
 
-      {/* Map + Sidebar */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-        <div className="lg:col-span-2">
-          <Suspense fallback={<div className="h-[500px] bg-muted rounded-lg flex items-center justify-center"><Loader2 className="h-6 w-6 animate-spin" /></div>}>
-            <AccommodationMap
-              accommodations={filtered}
-              selectedId={selectedId}
-              onSelect={(id) => {
-                setSelectedId(id);
-                const sidebar = document.querySelector('.accommodation-sidebar');
-                if (sidebar) sidebar.scrollTo({ top: 0, behavior: 'smooth' });
-                window.scrollTo({ top: 0, behavior: 'smooth' });
-              }}
-            />
-          </Suspense>
-        </div>
-        <div className="space-y-3 max-h-[500px] overflow-y-auto accommodation-sidebar">
-          {selected ? (
-            <AccommodationDetailCard
-              accommodation={selected}
-              onClose={() => setSelectedId(null)}
-              onUpdated={fetchData}
-              onEdit={handleEditFromDetail}
-              onDeleted={handleDeleted}
-            />
-          ) : null}
-          {filtered.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <Home className="h-10 w-10 mx-auto mb-2 opacity-40" />
-              <p className="text-sm">Žiadne výsledky pre zadané filtre</p>
-            </div>
-          ) : (
-            filtered.map((acc) => (
-              <AccommodationListItem
-                key={acc.id}
-                accommodation={acc}
-                isSelected={acc.id === selectedId}
-                onClick={() => {
-                  setSelectedId(acc.id === selectedId ? null : acc.id);
-                  if (acc.id !== selectedId) {
-                    // Scroll sidebar to top so detail card is visible
+        <TabsContent value="map" className="space-y-4">
+          {/* Filters */}
+          <AccommodationFilters filters={filters} onChange={setFilters} />
+
+          {/* Map + Sidebar */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2">
+              <Suspense fallback={<div className="h-[500px] bg-muted rounded-lg flex items-center justify-center"><Loader2 className="h-6 w-6 animate-spin" /></div>}>
+                <AccommodationMap
+                  accommodations={filtered}
+                  selectedId={selectedId}
+                  onSelect={(id) => {
+                    setSelectedId(id);
                     const sidebar = document.querySelector('.accommodation-sidebar');
                     if (sidebar) sidebar.scrollTo({ top: 0, behavior: 'smooth' });
                     window.scrollTo({ top: 0, behavior: 'smooth' });
-                  }
-                }}
-              />
-            ))
-          )}
-        </div>
-      </div>
+                  }}
+                />
+              </Suspense>
+            </div>
+            <div className="space-y-3 max-h-[500px] overflow-y-auto accommodation-sidebar">
+              {selected ? (
+                <AccommodationDetailCard
+                  accommodation={selected}
+                  onClose={() => setSelectedId(null)}
+                  onUpdated={fetchData}
+                  onEdit={handleEditFromDetail}
+                  onDeleted={handleDeleted}
+                />
+              ) : null}
+              {filtered.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Home className="h-10 w-10 mx-auto mb-2 opacity-40" />
+                  <p className="text-sm">Žiadne výsledky pre zadané filtre</p>
+                </div>
+              ) : (
+                filtered.map((acc) => (
+                  <AccommodationListItem
+                    key={acc.id}
+                    accommodation={acc}
+                    isSelected={acc.id === selectedId}
+                    onClick={() => {
+                      setSelectedId(acc.id === selectedId ? null : acc.id);
+                      if (acc.id !== selectedId) {
+                        // Scroll sidebar to top so detail card is visible
+                        const sidebar = document.querySelector('.accommodation-sidebar');
+                        if (sidebar) sidebar.scrollTo({ top: 0, behavior: 'smooth' });
+                        window.scrollTo({ top: 0, behavior: 'smooth' });
+                      }
+                    }}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="occupancy">
+          <OccupancyPlanner canManage={canManage} />
+        </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="reconciliation">
+            <AccommodationReconciliation />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {isAdmin && <AccommodationPaymentsPanel onPaid={fetchData} />}
 
       <CreateAccommodationDialog
         open={showCreateDialog}
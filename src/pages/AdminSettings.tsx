@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,13 +8,15 @@ import { useToast } from "@/hooks/use-toast";
 import { Loader2, Database, Shield, FolderPlus, FileCheck, Download, Trash2, AlertTriangle } from "lucide-react";
 import { CreateAnnouncementCard } from "@/components/announcements/CreateAnnouncementCard";
 import { CompanySignatureUpload } from "@/components/admin/CompanySignatureUpload";
+import { CompanyManagement } from "@/components/admin/CompanyManagement";
+import { PermissionsManagement } from "@/components/admin/PermissionsManagement";
 import { Navigate } from "react-router-dom";
 import { addDays, format, startOfWeek, getISOWeek, getYear } from "date-fns";
 import { useQueryClient } from "@tanstack/react-query";
 
 export default function AdminSettings() {
   const { user } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { can, loading: roleLoading } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [seeding, setSeeding] = useState(false);
@@ -265,7 +267,7 @@ export default function AdminSettings() {
     );
   }
 
-  if (!isAdmin) {
+  if (!can("manage_settings")) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -400,8 +402,12 @@ export default function AdminSettings() {
       </div>
 
       {/* Company Settings */}
+      <CompanyManagement />
       <CompanySignatureUpload />
 
+      {/* Role permissions */}
+      <PermissionsManagement />
+
       {/* Announcement System */}
       <CreateAnnouncementCard />
 
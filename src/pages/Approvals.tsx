@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Navigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,12 +17,16 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Loader2, CheckCircle, RotateCcw, ChevronDown, ChevronUp, User, Undo2, PartyPopper } from "lucide-react";
+import { Loader2, CheckCircle, RotateCcw, ChevronDown, ChevronUp, User, Undo2, PartyPopper, MapPin, MapPinOff, AlertTriangle } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { sk } from "date-fns/locale";
 import { isDateInWeek } from "@/lib/dateUtils";
+import { formatDistance } from "@/lib/geofence";
+import type { RuleViolation } from "@/lib/timesheetRules";
+import type { Json } from "@/integrations/supabase/types";
+import { ValidationIssuesList } from "@/components/approvals/ValidationIssuesList";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 // Grace period removed — admins have unlimited undo access
 
@@ -39,6 +44,25 @@ interface PerformanceRecord {
   status: string;
   note: string | null;
   projects: { name: string } | null;
+  outside_geofence: boolean;
+  shift_sessions: { start_distance_m: number | null; end_distance_m: number | null; start_lat: number | null } | null;
+}
+
+/** Where a clocked shift was tapped relative to the site, for the approver */
+function geofenceDetail(record: PerformanceRecord): string {
+  const session = record.shift_sessions;
+  if (!session) return "Zapísané mimo staveniska";
+  if (session.start_lat == null) return "Smena bez určenia polohy";
+  const parts = [
+    session.start_distance_m != null && `príchod ${formatDistance(Number(session.start_distance_m))}`,
+    session.end_distance_m != null && `odchod ${formatDistance(Number(session.end_distance_m))}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Vzdialenosť od staveniska: ${parts.join(", ")}` : "Odchod bez určenia polohy";
+}
+
+/** Rule violations the worker confirmed when submitting the week */
+function validationIssuesOf(closing: WeeklyClosing): RuleViolation[] {
+  return Array.isArray(closing.validation_issues) ? (closing.validation_issues as unknown as RuleViolation[]) : [];
 }
 
 interface WeeklyClosing {
@@ -50,6 +74,7 @@ interface WeeklyClosing {
   approved_at?: string | null;
   approved_by?: string | null;
   return_comment?: string | null;
+  validation_issues?: Json;
   profiles?: Profile | null;
 }
 
@@ -61,7 +86,7 @@ interface PendingApproval {
 
 export default function Approvals() {
   const { user } = useAuth();
-  const { isAdmin, isManager } = useUserRole();
+  const { can, loading: permissionsLoading } = usePermissions();
   const { toast } = useToast();
   const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
   const [recentlyApproved, setRecentlyApproved] = useState<PendingApproval[]>([]);
@@ -116,7 +141,9 @@ export default function Approvals() {
       const profile = profiles?.find(p => p.user_id === closing.user_id);
       const { data: records } = await supabase
         .from("performance_records")
-        .select("id, date, time_from, time_to, total_hours, status, note, projects(name)")
+        .select(
+          "id, date, time_from, time_to, total_hours, status, note, outside_geofence, projects(name), shift_sessions!performance_records_shift_session_id_fkey(start_distance_m, end_distance_m, start_lat)"
+        )
         .eq("user_id", closing.user_id)
         .eq("status", "submitted")
         .order("date", { ascending: true })
@@ -144,7 +171,9 @@ export default function Approvals() {
       const profile = profiles?.find(p => p.user_id === closing.user_id);
       const { data: records } = await supabase
         .from("performance_records")
-        .select("id, date, time_from, time_to, total_hours, status, note, projects(name)")
+        .select(
+          "id, date, time_from, time_to, total_hours, status, note, outside_geofence, projects(name), shift_sessions!performance_records_shift_session_id_fkey(start_distance_m, end_distance_m, start_lat)"
+        )
         .eq("user_id", closing.user_id)
         .eq("status", "approved")
         .order("date", { ascending: true })
@@ -354,6 +383,10 @@ export default function Approvals() {
   const pendingGroups = useMemo(() => groupByWeek(pendingApprovals), [pendingApprovals]);
   const historyGroups = useMemo(() => groupByWeek(recentlyApproved), [recentlyApproved]);
 
+  if (!permissionsLoading && !can("approve_weeks")) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -365,6 +398,8 @@ export default function Approvals() {
   const renderApprovalCard = (approval: PendingApproval, isApproved = false) => {
     const isOpen = openItems.has(approval.closing.id);
     const canUndo = isApproved; // Admins always have unlimited undo access
+    const outsideCount = approval.records.filter((r) => r.outside_geofence).length;
+    const issues = validationIssuesOf(approval.closing);
 
     return (
       <Card key={approval.closing.id} className={isApproved ? "border-green-500/30 bg-green-50/5" : ""}>
@@ -395,6 +430,18 @@ export default function Approvals() {
                 </div>
               </div>
               <div className="flex items-center gap-2 flex-wrap">
+                {issues.length > 0 && (
+                  <Badge variant="outline" className="gap-1 border-orange-500/50 text-orange-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Upozornenia: {issues.length}
+                  </Badge>
+                )}
+                {outsideCount > 0 && (
+                  <Badge variant="destructive" className="gap-1">
+                    <MapPinOff className="h-3 w-3" />
+                    Mimo staveniska: {outsideCount}
+                  </Badge>
+                )}
                 <StatusBadge status={isApproved ? "approved" : "submitted"} />
                 {isApproved && canUndo && (
                     <Button
@@ -446,6 +493,12 @@ export default function Approvals() {
           </CardHeader>
           <CollapsibleContent>
             <CardContent className="pt-0">
+              {issues.length > 0 && (
+                <div className="mb-3 rounded-lg border border-orange-500/30 bg-orange-50/50 dark:bg-orange-950/10 p-3">
+                  <p className="text-sm font-medium mb-2">Kontrola výkazu pri odoslaní</p>
+                  <ValidationIssuesList violations={issues} />
+                </div>
+              )}
               <div className="space-y-2">
                 {approval.records.map((record) => (
                   <div key={record.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
@@ -454,11 +507,25 @@ export default function Approvals() {
                         <span className="font-medium">
                           {format(new Date(record.date), "EEEE, d. MMM", { locale: sk })}
                         </span>
+                        {record.outside_geofence ? (
+                          <Badge variant="destructive" className="gap-1" title={geofenceDetail(record)}>
+                            <MapPinOff className="h-3 w-3" />
+                            Mimo staveniska
+                          </Badge>
+                        ) : record.shift_sessions ? (
+                          <Badge variant="secondary" className="gap-1">
+                            <MapPin className="h-3 w-3" />
+                            GPS
+                          </Badge>
+                        ) : null}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {record.projects?.name || "—"} • {record.time_from} - {record.time_to}
                         {record.note && ` • ${record.note}`}
                       </p>
+                      {record.outside_geofence && (
+                        <p className="text-xs text-destructive">{geofenceDetail(record)}</p>
+                      )}
                     </div>
                     <div className="text-right">
                       <span className="font-semibold">{Number(record.total_hours) || 0}h</span>
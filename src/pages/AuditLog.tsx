@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { Navigate } from "react-router-dom";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAuditLog, type AuditLogEntry, type AuditLogFilters } from "@/hooks/useAuditLog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { sk } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { AUDIT_ACTION_LABELS, AUDITED_TABLES, diffAuditEntry, formatAuditValue } from "@/lib/auditDiff";
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  INSERT: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+};
+
+/** The worker a row belongs to, if the audited table has one */
+const subjectOf = (entry: AuditLogEntry): string | null => {
+  const data = (entry.new_data ?? entry.old_data) as Record<string, unknown> | null;
+  return typeof data?.user_id === "string" ? data.user_id : null;
+};
+
+export default function AuditLog() {
+  const { can, loading: roleLoading } = usePermissions();
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    table: "all",
+    changedBy: "all",
+    from: format(subDays(new Date(), 30), "yyyy-MM-dd"),
+    to: "",
+  });
+  const { entries, names, hasMore, loading } = useAuditLog(filters);
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  if (!roleLoading && !can("view_audit_log")) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const nameOf = (userId: string | null) => (userId ? names.get(userId) || "Neznámy" : "Systém");
+  const users = [...names.entries()].sort((a, b) => a[1].localeCompare(b[1], "sk"));
+  const diff = selected ? diffAuditEntry(selected.old_data, selected.new_data) : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold tracking-tight flex items-center gap-3">
+          <History className="h-7 w-7 text-primary" />
+          História zmien
+        </h1>
+        <p className="text-muted-foreground">Kto a kedy zmenil faktúry, uzávierky, záznamy, sankcie, zálohy, sadzby a roly</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Entita</Label>
+              <Select value={filters.table} onValueChange={(table) => setFilters({ ...filters, table })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Všetky</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Zmenil</Label>
+              <Select value={filters.changedBy} onValueChange={(changedBy) => setFilters({ ...filters, changedBy })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Ktokoľvek</SelectItem>
+                  {users.map(([userId, name]) => (
+                    <SelectItem key={userId} value={userId}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">Od</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">Do</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Zmeny</CardTitle>
+          <CardDescription>
+            {hasMore ? `Zobrazených posledných ${entries.length} zmien – zúžte filter` : `${entries.length} zmien`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>Žiadne zmeny pre zadaný filter.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Čas</TableHead>
+                    <TableHead>Entita</TableHead>
+                    <TableHead>Akcia</TableHead>
+                    <TableHead>Zmenil</TableHead>
+                    <TableHead>Týka sa</TableHead>
+                    <TableHead>Polia</TableHead>
+                    <TableHead className="text-right" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const subject = subjectOf(entry);
+                    return (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(entry.changed_at), "d. MMM yyyy HH:mm:ss", { locale: sk })}
+                        </TableCell>
+                        <TableCell>{AUDITED_TABLES[entry.table_name] ?? entry.table_name}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action] ?? "secondary"}>
+                            {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{nameOf(entry.changed_by)}</TableCell>
+                        <TableCell className="text-muted-foreground">{subject ? nameOf(subject) : "—"}</TableCell>
+                        <TableCell className="max-w-[240px] truncate text-xs text-muted-foreground">
+                          {entry.changed_fields?.join(", ") ?? ""}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="outline" onClick={() => setSelected(entry)}>
+                            Detail
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selected && `${AUDITED_TABLES[selected.table_name] ?? selected.table_name} – ${AUDIT_ACTION_LABELS[selected.action] ?? selected.action}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `${nameOf(selected.changed_by)} • ${format(new Date(selected.changed_at), "d. MMM yyyy HH:mm:ss", { locale: sk })} • ID ${selected.record_id ?? "—"}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pole</TableHead>
+                  <TableHead>Pôvodná hodnota</TableHead>
+                  <TableHead>Nová hodnota</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.map((change) => (
+                  <TableRow key={change.field} className={cn(!change.changed && "text-muted-foreground")}>
+                    <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                    <TableCell
+                      className={cn(
+                        "font-mono text-xs break-all",
+                        change.changed && selected.action !== "INSERT" && "bg-destructive/10 line-through"
+                      )}
+                    >
+                      {formatAuditValue(change.oldValue)}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "font-mono text-xs break-all",
+                        change.changed && selected.action !== "DELETE" && "bg-green-500/10 font-medium"
+                      )}
+                    >
+                      {formatAuditValue(change.newValue)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
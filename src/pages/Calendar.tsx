@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { CalendarDays, Clock, MapPin, FileText, Navigation } from "lucide-react";
 import { format, startOfMonth, endOfMonth, isSameDay, isWeekend, parseISO } from "date-fns";
 import { sk } from "date-fns/locale";
+import { getHolidays, holidayCalendarLabel, projectHolidayCalendar, type Holiday } from "@/lib/holidays";
 
 interface WorkRecord {
   id: string;
@@ -27,6 +28,8 @@ interface AssignedProject {
   name: string;
   address: string | null;
   location: string | null;
+  holiday_country: string;
+  holiday_region: string | null;
 }
 
 export default function CalendarPage() {
@@ -44,7 +47,7 @@ export default function CalendarPage() {
       if (!user) return;
       const { data } = await supabase
         .from("project_assignments")
-        .select("project_id, projects:projects(id, name, address, location)")
+        .select("project_id, projects:projects(id, name, address, location, holiday_country, holiday_region)")
         .eq("user_id", user.id);
 
       // Pick the first assigned project that is NOT the external coordinator entity
@@ -109,6 +112,19 @@ export default function CalendarPage() {
     return dayRecords.reduce((sum, r) => sum + (Number(r.total_hours) || 0), 0);
   };
 
+  // Public holidays of the site the user is assigned to
+  const holidayCalendar = useMemo(() => projectHolidayCalendar(assignedProject), [assignedProject]);
+  const holidaysByDate = useMemo(() => {
+    const map = new Map<string, Holiday>();
+    getHolidays(currentMonth.getFullYear(), holidayCalendar).forEach((h) => map.set(h.date, h));
+    return map;
+  }, [currentMonth, holidayCalendar]);
+
+  const holidayDates = useMemo(
+    () => Array.from(holidaysByDate.values()).filter((h) => h.dayOff).map((h) => parseISO(h.date)),
+    [holidaysByDate]
+  );
+
   // Get all dates that have work records
   const workedDates = useMemo(() => {
     return Array.from(recordsByDate.keys()).map((d) => parseISO(d));
@@ -120,6 +136,8 @@ export default function CalendarPage() {
     setDetailOpen(true);
   };
 
+  const selectedHoliday = selectedDate ? holidaysByDate.get(format(selectedDate, "yyyy-MM-dd")) : undefined;
+
   const selectedDateRecords = selectedDate
     ? recordsByDate.get(format(selectedDate, "yyyy-MM-dd")) || []
     : [];
@@ -128,9 +146,14 @@ export default function CalendarPage() {
   const modifiers = {
     worked: workedDates,
     weekend: (date: Date) => isWeekend(date),
+    holiday: holidayDates,
   };
 
   const modifiersStyles = {
+    holiday: {
+      backgroundColor: "hsl(var(--destructive) / 0.12)",
+      color: "hsl(var(--destructive))",
+    },
     worked: {
       backgroundColor: "hsl(var(--primary) / 0.2)",
       color: "hsl(var(--primary))",
@@ -252,8 +275,12 @@ export default function CalendarPage() {
                 components={{
                   DayContent: ({ date }) => {
                     const hours = getHoursForDate(date);
+                    const holiday = holidaysByDate.get(format(date, "yyyy-MM-dd"));
                     return (
-                      <div className="relative w-full h-full flex flex-col items-center justify-center">
+                      <div
+                        className="relative w-full h-full flex flex-col items-center justify-center"
+                        title={holiday?.name}
+                      >
                         <span>{date.getDate()}</span>
                         {hours > 0 && (
                           <span className="absolute -bottom-1 text-[9px] font-medium text-primary">
@@ -271,7 +298,7 @@ export default function CalendarPage() {
       </Card>
 
       {/* Legend */}
-      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded bg-primary/20" />
           <span>Odpracovaný deň</span>
@@ -280,6 +307,10 @@ export default function CalendarPage() {
           <div className="w-4 h-4 rounded bg-muted" />
           <span>Bez záznamu</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded bg-destructive/15" />
+          <span>Sviatok ({holidayCalendarLabel(holidayCalendar)})</span>
+        </div>
       </div>
 
       {/* Day Detail Dialog */}
@@ -290,6 +321,12 @@ export default function CalendarPage() {
               {selectedDate && format(selectedDate, "EEEE, d. MMMM yyyy", { locale: sk })}
             </DialogTitle>
             <DialogDescription>
+              {selectedHoliday && (
+                <span className="block text-destructive font-medium">
+                  {selectedHoliday.name}
+                  {!selectedHoliday.dayOff && " (krajinský sviatok, nie je dňom pracovného voľna)"}
+                </span>
+              )}
               {selectedDateRecords.length === 0
                 ? "Žiadne záznamy pre tento deň"
                 : `${selectedDateRecords.length} záznam${selectedDateRecords.length > 1 ? "y" : ""}`}
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SignaturePad } from "@/components/SignaturePad";
+import { Footer } from "@/components/Footer";
+import { Building2, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { fetchClientSignoffSummary, submitClientSignoff } from "@/hooks/useClientSignoff";
+import { parseLocalDate } from "@/lib/dateUtils";
+import type { ClientSignoffSummary } from "@/lib/clientSignoff";
+
+const formatDate = (date: string) => format(parseLocalDate(date), "dd.MM.yyyy");
+
+/**
+ * Public page behind a signing link: read-only hours of a project week on
+ * which the client's site manager confirms the week with their signature.
+ */
+export default function ClientSignoff() {
+  const { token } = useParams<{ token: string }>();
+  const [summary, setSummary] = useState<ClientSignoffSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signerName, setSignerName] = useState("");
+
+  const loadSummary = useCallback(async () => {
+    if (!token) return;
+    try {
+      setSummary(await fetchClientSignoffSummary(token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setLoading(false);
+  }, [token]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const handleSign = async (dataUrl: string) => {
+    if (!signerName.trim()) {
+      throw new Error("Zadajte svoje meno / Bitte geben Sie Ihren Namen ein.");
+    }
+    try {
+      await submitClientSignoff(token!, signerName.trim(), dataUrl, summary!.summary_hash);
+    } catch (err) {
+      // The hours may have changed meanwhile; show the current ones
+      await loadSummary();
+      throw err;
+    }
+    return dataUrl;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <div className="flex-1 p-4 sm:p-6">
+        <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-12 h-12 rounded-2xl bg-primary mb-3">
+              <Building2 className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground">Leistungsnachweis</h1>
+            <p className="text-muted-foreground mt-1">Potvrdenie odpracovaných hodín / Bestätigung der Arbeitsstunden</p>
+          </div>
+
+          {error || !summary ? (
+            <Card>
+              <CardContent className="text-center py-8">
+                <XCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+                <p className="text-foreground font-medium">{error || "Odkaz na podpis je neplatný."}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {summary.project.name} – KW {summary.calendar_week}/{summary.year}
+                  </CardTitle>
+                  <CardDescription>
+                    {summary.project.client}
+                    {summary.project.location && ` · ${summary.project.location}`}
+                    {" · "}
+                    {formatDate(summary.week_start)} – {formatDate(summary.week_end)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {summary.workers.map((worker) => (
+                    <div key={worker.user_id ?? worker.worker_name} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-medium">{worker.worker_name}</h3>
+                        <span className="text-sm font-medium">{Number(worker.total_hours).toFixed(2)} h</span>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Dátum / Datum</TableHead>
+                            <TableHead>Od / Von</TableHead>
+                            <TableHead>Do / Bis</TableHead>
+                            <TableHead className="text-right">Hodiny / Stunden</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {worker.days.map((day, index) => (
+                            <TableRow key={`${day.date}-${index}`}>
+                              <TableCell>{formatDate(day.date)}</TableCell>
+                              <TableCell>{day.time_from.slice(0, 5)}</TableCell>
+                              <TableCell>{day.time_to.slice(0, 5)}</TableCell>
+                              <TableCell className="text-right">{Number(day.total_hours).toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between border-t pt-4 font-semibold">
+                    <span>Spolu / Gesamt</span>
+                    <span>{Number(summary.total_hours).toFixed(2)} h</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {summary.signed_at ? (
+                <Card>
+                  <CardContent className="text-center py-8">
+                    <CheckCircle className="h-12 w-12 text-primary mx-auto mb-4" />
+                    <p className="text-foreground font-medium">Týždeň potvrdený / Woche bestätigt</p>
+                    <p className="text-muted-foreground text-sm mt-2">
+                      {summary.signer_name}, {format(new Date(summary.signed_at), "dd.MM.yyyy HH:mm")}
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signer-name">Meno stavbyvedúceho / Name des Bauleiters</Label>
+                    <Input
+                      id="signer-name"
+                      value={signerName}
+                      onChange={(e) => setSignerName(e.target.value)}
+                      maxLength={200}
+                    />
+                  </div>
+                  <SignaturePad
+                    currentSignatureUrl={null}
+                    onSave={handleSign}
+                    onSignatureSaved={loadSummary}
+                    title="Podpis stavbyvedúceho / Unterschrift Bauleiter"
+                    description="Podpisom potvrdzujete uvedené hodiny / Mit Ihrer Unterschrift bestätigen Sie die aufgeführten Stunden"
+                    saveLabel="Potvrdiť týždeň / Woche bestätigen"
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
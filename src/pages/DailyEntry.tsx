@@ -9,13 +9,27 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Save, Info, Edit, Trash2, Clock, AlertTriangle } from "lucide-react";
+import { Loader2, Save, Info, Edit, Trash2, Clock, AlertTriangle, CloudOff, CloudUpload } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { format } from "date-fns";
 import { sk } from "date-fns/locale";
 import { StatusBadge } from "@/components/StatusBadge";
-import { getISOWeekLocal, getISOWeekYear, parseLocalDate } from "@/lib/dateUtils";
+import { MobileRecordCard } from "@/components/mobile/MobileRecordCard";
+import { SyncStatusBadge } from "@/components/mobile/SyncStatusBadge";
+import { findLockedWeek, savePerformanceRecord, useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { useShiftClock } from "@/hooks/useShiftClock";
+import { validateEntry } from "@/hooks/useTimesheetRules";
+import {
+  hasBlockingViolation,
+  validateTimesheet,
+  NEW_ENTRY_ID,
+  type RuleViolation,
+  type TimesheetEntry,
+} from "@/lib/timesheetRules";
+import { ShiftClockPanel } from "@/components/shifts/ShiftClockPanel";
+import { isNetworkError, loadLookup, saveLookup, type QueuedEntry } from "@/lib/offlineQueue";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +47,17 @@ interface Project {
   name: string;
   client: string;
   standard_hours: number | null;
+  holiday_country: string;
+  holiday_region: string | null;
+  lat: number | null;
+  lng: number | null;
+  geofence_radius_m: number | null;
+  default_time_from: string;
+  default_time_to: string | null;
+  default_break_start: string | null;
+  default_break_end: string | null;
+  default_break2_start: string | null;
+  default_break2_end: string | null;
 }
 
 interface AccommodationOption {
@@ -42,6 +67,54 @@ interface AccommodationOption {
   price_per_person: number | null;
 }
 
+const PROJECT_COLUMNS =
+  "id, name, client, standard_hours, lat, lng, geofence_radius_m, holiday_country, holiday_region, default_time_from, default_time_to, default_break_start, default_break_end, default_break2_start, default_break2_end";
+
+interface ShiftTimes {
+  timeFrom: string;
+  timeTo: string;
+  breakStart: string;
+  breakEnd: string;
+  break2Start: string;
+  break2End: string;
+}
+
+const hhmm = (time: string | null | undefined) => time?.slice(0, 5) ?? "";
+
+const minutesOf = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Times pre-filled for a project: its default shift, which without an end
+ * time ends after the standard hours plus the breaks. Null when the project
+ * has neither an end time nor standard hours.
+ */
+function projectShiftTimes(project: Project | undefined): ShiftTimes | null {
+  if (!project?.default_time_from) return null;
+  const stdHours = project.standard_hours ?? 0;
+  if (!project.default_time_to && stdHours <= 0) return null;
+
+  const times = {
+    timeFrom: hhmm(project.default_time_from),
+    timeTo: hhmm(project.default_time_to),
+    breakStart: hhmm(project.default_break_start),
+    breakEnd: hhmm(project.default_break_end),
+    break2Start: hhmm(project.default_break2_start),
+    break2End: hhmm(project.default_break2_end),
+  };
+  if (!times.timeTo) {
+    const breaks = [
+      [times.breakStart, times.breakEnd],
+      [times.break2Start, times.break2End],
+    ].reduce((sum, [start, end]) => (start && end ? sum + minutesOf(end) - minutesOf(start) : sum), 0);
+    const end = (minutesOf(times.timeFrom) + stdHours * 60 + breaks) % (24 * 60);
+    times.timeTo = `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+  }
+  return times;
+}
+
 interface TodayRecord {
   id: string;
   date: string;
@@ -71,6 +144,8 @@ export default function DailyEntry() {
   const [saving, setSaving] = useState(false);
   const [todayRecords, setTodayRecords] = useState<TodayRecord[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
+  // Offline entry being corrected; replaced in the queue when saved
+  const [editingQueued, setEditingQueued] = useState<QueuedEntry | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   // Grace period state removed
@@ -169,7 +244,8 @@ export default function DailyEntry() {
   const handleBreak2EndChange = (value: string) => { setBreak2End(value); setIsManualOverride(false); };
 
   const fetchTodayRecords = useCallback(async () => {
-    if (!user) return;
+    // Keep the last loaded list while offline
+    if (!user || !navigator.onLine) return;
     const today = format(new Date(), "yyyy-MM-dd");
     const selectCols = "id, date, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, status, note, created_at, project_id, accommodation_id, projects(name)";
 
@@ -197,15 +273,31 @@ export default function DailyEntry() {
     setTodayRecords([...todayData, ...returnedData]);
   }, [user]);
 
+  const offlineQueue = useOfflineQueue(user?.id, fetchTodayRecords);
+  const shiftClock = useShiftClock(user?.id);
+  const [entryMode, setEntryMode] = useState<"manual" | "clock">("manual");
+
+  // A running shift opens the clock view
+  useEffect(() => {
+    if (shiftClock.activeShift) setEntryMode("clock");
+  }, [shiftClock.activeShift]);
+
   useEffect(() => {
     async function fetchProjects() {
       if (!user) return;
 
+      // Without signal, offer the projects loaded last time
+      if (!navigator.onLine) {
+        setProjects((await loadLookup<Project[]>(`projects:${user.id}`)) || []);
+        setLoading(false);
+        return;
+      }
+
       if (isAdmin) {
         // Admins see all active projects
         const { data, error } = await supabase
           .from("projects")
-          .select("id, name, client, standard_hours")
+          .select(PROJECT_COLUMNS)
           .eq("is_active", true)
           .is("deleted_at", null)
           .order("name");
@@ -213,6 +305,7 @@ export default function DailyEntry() {
           console.error("Error fetching projects:", error);
         } else {
           setProjects(data || []);
+          saveLookup(`projects:${user.id}`, data || []);
         }
       } else {
         // Monters/others: only see assigned projects
@@ -231,7 +324,7 @@ export default function DailyEntry() {
           } else {
             const { data, error } = await supabase
               .from("projects")
-              .select("id, name, client, standard_hours")
+              .select(PROJECT_COLUMNS)
               .eq("is_active", true)
               .is("deleted_at", null)
               .in("id", assignedIds)
@@ -242,6 +335,7 @@ export default function DailyEntry() {
               console.error("Error fetching projects:", error);
             } else {
               setProjects(data || []);
+              saveLookup(`projects:${user.id}`, data || []);
             }
           }
         }
@@ -252,6 +346,10 @@ export default function DailyEntry() {
     fetchTodayRecords();
     // Fetch accommodations
     async function fetchAccommodations() {
+      if (!navigator.onLine) {
+        setAccommodations((await loadLookup<AccommodationOption[]>("accommodations")) || []);
+        return;
+      }
       const { data } = await supabase
         .from("accommodations")
         .select("id, name, address, price_per_person")
@@ -259,6 +357,7 @@ export default function DailyEntry() {
         .is("deleted_at", null)
         .order("name");
       setAccommodations(data || []);
+      if (data) saveLookup("accommodations", data);
     }
     fetchAccommodations();
   }, [fetchTodayRecords, user, isAdmin]);
@@ -277,10 +376,12 @@ export default function DailyEntry() {
     setBreakEnd("12:30");
     setAccommodationId("none");
     setEditingId(null);
+    setEditingQueued(null);
   };
 
   const handleEdit = (record: TodayRecord) => {
     setEditingId(record.id);
+    setEntryMode("manual");
     setProjectId(record.project_id);
     setDate(record.date);
     setTimeFrom(record.time_from);
@@ -297,6 +398,26 @@ export default function DailyEntry() {
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
+  const handleEditQueued = (entry: QueuedEntry) => {
+    const { data } = entry;
+    setEditingQueued(entry);
+    setEditingId(entry.recordId);
+    setEntryMode("manual");
+    setProjectId(data.project_id);
+    setDate(data.date);
+    setTimeFrom(data.time_from);
+    setTimeTo(data.time_to);
+    setBreakStart(data.break_start || "");
+    setBreakEnd(data.break_end || "");
+    setBreak2Start(data.break2_start || "");
+    setBreak2End(data.break2_end || "");
+    setNote(data.note || "");
+    setManualHours(String(data.total_hours));
+    setIsManualOverride(false);
+    setAccommodationId(data.accommodation_id || "none");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const handleDelete = async () => {
     if (!deletingId) return;
     const { error } = await supabase
@@ -314,42 +435,22 @@ export default function DailyEntry() {
     setDeletingId(null);
   };
 
-  /** Handle project selection — pre-fill times if standard_hours is set */
+  /** Handle project selection — pre-fill the project's shift times */
   const handleProjectChange = (value: string) => {
     setProjectId(value);
     const selected = projects.find((p) => p.id === value);
-    const stdHours = selected?.standard_hours ?? null;
-    setSelectedStandardHours(stdHours);
+    setSelectedStandardHours(selected?.standard_hours ?? null);
 
     // Pre-fill times based on project (only when not editing)
-    if (!editingId) {
-      const isRivaLiving = selected?.name?.toLowerCase().includes("riva living");
-
-      if (isRivaLiving) {
-        // Riva Living specific schedule
-        setTimeFrom("06:30");
-        setTimeTo("17:30");
-        setBreakStart("09:30");
-        setBreakEnd("10:00");
-        setBreak2Start("13:30");
-        setBreak2End("14:00");
-        setIsManualOverride(false);
-      } else if (stdHours && stdHours > 0) {
-        const startHour = 7;
-        const startMin = 0;
-        const breakDuration = 30; // 30 min default break
-        const totalMinutes = stdHours * 60 + breakDuration;
-        const endHour = Math.floor((startHour * 60 + startMin + totalMinutes) / 60);
-        const endMin = (startHour * 60 + startMin + totalMinutes) % 60;
-
-        setTimeFrom(`${String(startHour).padStart(2, "0")}:${String(startMin).padStart(2, "0")}`);
-        setTimeTo(`${String(endHour).padStart(2, "0")}:${String(endMin).padStart(2, "0")}`);
-        setBreakStart("12:00");
-        setBreakEnd("12:30");
-        setBreak2Start("");
-        setBreak2End("");
-        setIsManualOverride(false);
-      }
+    const times = editingId ? null : projectShiftTimes(selected);
+    if (times) {
+      setTimeFrom(times.timeFrom);
+      setTimeTo(times.timeTo);
+      setBreakStart(times.breakStart);
+      setBreakEnd(times.breakEnd);
+      setBreak2Start(times.break2Start);
+      setBreak2End(times.break2End);
+      setIsManualOverride(false);
     }
   };
 
@@ -363,40 +464,22 @@ export default function DailyEntry() {
       return;
     }
 
-    // Check if target date belongs to a locked week
-    if (editingId) {
-      const targetDate = parseLocalDate(date);
-      const targetWeek = getISOWeekLocal(targetDate);
-      const targetYear = getISOWeekYear(targetDate);
-
-      const { data: lockedClosing } = await supabase
-        .from("weekly_closings")
-        .select("id, status")
-        .eq("user_id", user.id)
-        .eq("calendar_week", targetWeek)
-        .eq("year", targetYear)
-        .eq("status", "locked")
-        .maybeSingle();
+    const isOnline = navigator.onLine;
 
-      if (lockedClosing) {
+    // Check if target date belongs to a locked week (offline entries are checked when they sync)
+    if (editingId && isOnline) {
+      const locked = await findLockedWeek(user.id, date).catch(() => null);
+      if (locked) {
         toast({
           variant: "destructive",
           title: "Uzamknutý týždeň",
-          description: `Tento týždeň (KW ${targetWeek}/${targetYear}) je už uzavretý. Záznam nie je možné presunúť.`,
+          description: `Tento týždeň (KW ${locked.week}/${locked.year}) je už uzavretý. Záznam nie je možné presunúť.`,
         });
         setSaving(false);
         return;
       }
     }
 
-    // Warn about standard hours mismatch but still allow submission
-    if (selectedStandardHours && selectedStandardHours > 0 && Math.abs(finalHours - selectedStandardHours) > 0.01) {
-      const confirmed = confirm(`Na tomto projekte je povolený len ${selectedStandardHours} hodinový úväzok. Napriek tomu chcete odoslať ${finalHours}h?`);
-      if (!confirmed) return;
-    }
-
-    setSaving(true);
-
     const recordData = {
       project_id: projectId,
       date,
@@ -411,52 +494,94 @@ export default function DailyEntry() {
       accommodation_id: accommodationId === "none" ? null : accommodationId,
     };
 
-    if (editingId) {
-      // Update existing record — reset returned/rejected status back to draft
-      const editingRecord = todayRecords.find(r => r.id === editingId);
-      const shouldResetStatus = editingRecord && (editingRecord.status === "returned" || editingRecord.status === "rejected");
-      const updateData = shouldResetStatus ? { ...recordData, status: "draft" as const } : recordData;
+    // Timesheet rules of the project; offline only the defaults against this entry can be checked
+    const candidate: TimesheetEntry = { ...recordData, id: editingId ?? NEW_ENTRY_ID };
+    const checkLocally = () =>
+      validateTimesheet([candidate], { projects: new Map(projects.map((p) => [p.id, p])), rules: new Map() });
+    let violations: RuleViolation[];
+    try {
+      violations = isOnline ? await validateEntry(user.id, candidate) : checkLocally();
+    } catch (error) {
+      // Only a lost connection falls back; other errors would silently skip the project's rules
+      if (!isNetworkError(error as { message?: string })) {
+        toast({
+          variant: "destructive",
+          title: "Chyba",
+          description: (error as { message?: string })?.message || "Záznam sa nepodarilo skontrolovať.",
+        });
+        return;
+      }
+      violations = checkLocally();
+    }
 
-      const { error } = await supabase
-        .from("performance_records")
-        .update(updateData)
-        .eq("id", editingId);
+    if (hasBlockingViolation(violations)) {
+      toast({
+        variant: "destructive",
+        title: "Záznam porušuje pravidlá projektu",
+        description: violations
+          .filter((v) => v.severity === "block")
+          .map((v) => v.message)
+          .join(" • "),
+      });
+      return;
+    }
+    if (violations.length > 0) {
+      const confirmed = confirm(
+        `${violations.map((v) => `• ${v.message}`).join("\n")}\n\nNapriek tomu chcete záznam uložiť?`
+      );
+      if (!confirmed) return;
+    }
 
-      if (error) {
-        toast({ variant: "destructive", title: "Chyba pri ukladaní", description: error.message });
-      } else {
-        // If we reset a returned/rejected record, also reset the parent weekly_closing to 'open'
-        if (shouldResetStatus && editingRecord) {
-          const recordDate = parseLocalDate(editingRecord.date);
-          const week = getISOWeekLocal(recordDate);
-          const year = getISOWeekYear(recordDate);
-          await supabase
-            .from("weekly_closings")
-            .update({ status: "open" as any, return_comment: null })
-            .eq("user_id", user.id)
-            .eq("calendar_week", week)
-            .eq("year", year)
-            .in("status", ["returned", "rejected"] as any);
-        }
-        toast({ title: "Záznam aktualizovaný", description: "Váš výkon bol úspešne upravený." });
-        resetForm();
-        await fetchTodayRecords();
-      }
-    } else {
-      // Insert new record
-      const { error } = await supabase.from("performance_records").insert({
-        user_id: user.id,
-        ...recordData,
-        status: "draft",
+    setSaving(true);
+
+    // Update existing record — reset returned/rejected status back to draft
+    const editingRecord = editingId ? todayRecords.find(r => r.id === editingId) : undefined;
+    const resetStatus = editingQueued
+      ? editingQueued.resetStatus
+      : !!editingRecord && (editingRecord.status === "returned" || editingRecord.status === "rejected");
+
+    // Id of a new record, kept when the save falls back to the offline queue
+    const localId = crypto.randomUUID();
+
+    const saveOffline = async () => {
+      await offlineQueue.enqueue({
+        localId,
+        recordId: editingId,
+        resetStatus,
+        data: recordData,
+        projectName: projects.find((p) => p.id === projectId)?.name ?? null,
+      });
+      if (editingQueued) await offlineQueue.discard(editingQueued.localId);
+      toast({
+        title: "Uložené offline",
+        description: "Záznam sa odošle automaticky, keď bude zariadenie online.",
       });
+      resetForm();
+    };
 
-      if (error) {
-        toast({ variant: "destructive", title: "Chyba pri ukladaní", description: error.message });
+    try {
+      if (!isOnline) {
+        await saveOffline();
       } else {
-        toast({ title: "Záznam uložený", description: "Váš výkon bol úspešne zaznamenaný." });
+        await savePerformanceRecord({ userId: user.id, recordId: editingId, localId, resetStatus, data: recordData });
+        if (editingQueued) await offlineQueue.discard(editingQueued.localId);
+        toast(editingId
+          ? { title: "Záznam aktualizovaný", description: "Váš výkon bol úspešne upravený." }
+          : { title: "Záznam uložený", description: "Váš výkon bol úspešne zaznamenaný." });
         resetForm();
         await fetchTodayRecords();
       }
+    } catch (error) {
+      if (isNetworkError(error as { message?: string })) {
+        // Signal dropped mid-request: keep the entry on the device instead of losing it
+        await saveOffline();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Chyba pri ukladaní",
+          description: error instanceof Error ? error.message : (error as { message?: string })?.message,
+        });
+      }
     }
     setSaving(false);
   };
@@ -474,6 +599,16 @@ export default function DailyEntry() {
         <p className="text-muted-foreground text-sm md:text-base">Zaznamenajte svoj výkon pre fakturáciu</p>
       </div>
 
+      {!offlineQueue.isOnline && (
+        <Alert>
+          <CloudOff className="h-4 w-4" />
+          <AlertTitle>Ste offline</AlertTitle>
+          <AlertDescription>
+            Záznamy sa uložia do zariadenia a odošlú sa automaticky po pripojení.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card>
         <CardHeader className="p-4 md:p-6">
           <CardTitle className="text-base md:text-lg">
@@ -484,155 +619,227 @@ export default function DailyEntry() {
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4 pt-0 md:p-6 md:pt-0">
-          <form onSubmit={handleSubmit} className="space-y-4 md:space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-              {/* Project selection */}
-              <div className="space-y-2">
-                <Label htmlFor="project">Projekt</Label>
-                {!isAdmin && projects.length === 0 ? (
-                  <Alert variant="destructive">
-                    <AlertTriangle className="h-4 w-4" />
-                    <AlertTitle>Žiadne projekty</AlertTitle>
-                    <AlertDescription>
-                      Nemáte pridelený žiadny projekt, kontaktujte admina.
-                    </AlertDescription>
-                  </Alert>
-                ) : (
-                  <Select value={projectId} onValueChange={handleProjectChange} required>
-                    <SelectTrigger id="project">
-                      <SelectValue placeholder="Vyberte projekt" />
+          <Tabs value={editingId || editingQueued ? "manual" : entryMode} onValueChange={(v) => setEntryMode(v as "manual" | "clock")}>
+            {!editingId && !editingQueued && (
+              <TabsList className="grid grid-cols-2 w-full mb-4">
+                <TabsTrigger value="manual">Ručný zápis</TabsTrigger>
+                <TabsTrigger value="clock">Smena (GPS)</TabsTrigger>
+              </TabsList>
+            )}
+            <TabsContent value="manual" className="mt-0">
+              <form onSubmit={handleSubmit} className="space-y-4 md:space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                  {/* Project selection */}
+                  <div className="space-y-2">
+                    <Label htmlFor="project">Projekt</Label>
+                    {!isAdmin && projects.length === 0 ? (
+                      <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Žiadne projekty</AlertTitle>
+                        <AlertDescription>
+                          Nemáte pridelený žiadny projekt, kontaktujte admina.
+                        </AlertDescription>
+                      </Alert>
+                    ) : (
+                      <Select value={projectId} onValueChange={handleProjectChange} required>
+                        <SelectTrigger id="project">
+                          <SelectValue placeholder="Vyberte projekt" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {projects.map(project => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {selectedStandardHours && selectedStandardHours > 0 && (
+                      <p className="text-xs text-primary font-medium">
+                        ⏱ Fixná smena: {selectedStandardHours}h — časy boli predvyplnené
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Date */}
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Dátum</Label>
+                    <Input id="date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                  </div>
+
+                  {/* Time From */}
+                  <div className="space-y-2">
+                    <Label htmlFor="timeFrom">Začiatok práce</Label>
+                    <Input id="timeFrom" type="time" value={timeFrom} onChange={e => handleTimeFromChange(e.target.value)} required />
+                  </div>
+
+                  {/* Time To */}
+                  <div className="space-y-2">
+                    <Label htmlFor="timeTo">Koniec práce</Label>
+                    <Input id="timeTo" type="time" value={timeTo} onChange={e => handleTimeToChange(e.target.value)} required />
+                  </div>
+
+                  {/* Break 1 */}
+                  <div className="space-y-2">
+                    <Label htmlFor="breakStart">1. prestávka – od</Label>
+                    <Input id="breakStart" type="time" value={breakStart} onChange={e => handleBreakStartChange(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="breakEnd">1. prestávka – do</Label>
+                    <Input id="breakEnd" type="time" value={breakEnd} onChange={e => handleBreakEndChange(e.target.value)} />
+                  </div>
+
+                  {/* Break 2 */}
+                  <div className="space-y-2">
+                    <Label htmlFor="break2Start">2. prestávka – od</Label>
+                    <div className="flex gap-2">
+                      <Input id="break2Start" type="time" value={break2Start} onChange={e => handleBreak2StartChange(e.target.value)} className="flex-1" />
+                      {break2Start && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => { setBreak2Start(""); setBreak2End(""); setIsManualOverride(false); }} className="px-2">✕</Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="break2End">2. prestávka – do</Label>
+                    <div className="flex gap-2">
+                      <Input id="break2End" type="time" value={break2End} onChange={e => handleBreak2EndChange(e.target.value)} className="flex-1" />
+                      {break2End && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => { setBreak2Start(""); setBreak2End(""); setIsManualOverride(false); }} className="px-2">✕</Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Total hours */}
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="totalHours">Odpracované hodiny</Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent side="top" className="max-w-xs">
+                            <p>Automaticky vypočítané. V prípade potreby upravte manuálne.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Input id="totalHours" type="number" step="0.01" min="0" placeholder="0.00" value={manualHours} onChange={e => handleManualHoursChange(e.target.value)} className={isManualOverride ? "border-primary ring-1 ring-primary" : ""} />
+                    {isManualOverride && calculatedHours > 0 && (
+                      <p className="text-xs text-muted-foreground">Vypočítané: {calculatedHours} h</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Accommodation selection */}
+                <div className="space-y-2">
+                  <Label htmlFor="accommodation">Ubytovanie <span className="text-destructive">*</span></Label>
+                  <Select value={accommodationId} onValueChange={setAccommodationId} required>
+                    <SelectTrigger id="accommodation" className={accommodationId === "" ? "border-destructive" : ""}>
+                      <SelectValue placeholder="Vyberte ubytovanie" />
                     </SelectTrigger>
                     <SelectContent>
-                      {projects.map(project => (
-                        <SelectItem key={project.id} value={project.id}>
-                          {project.name}
+                      <SelectItem value="none">
+                        Vlastné ubytovanie / Bez firemného ubytovania (0 €)
+                      </SelectItem>
+                      {accommodations.map(acc => (
+                        <SelectItem key={acc.id} value={acc.id}>
+                          {acc.name || acc.address} ({acc.price_per_person ?? 0} €/noc)
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
-                )}
-                {selectedStandardHours && selectedStandardHours > 0 && (
-                  <p className="text-xs text-primary font-medium">
-                    ⏱ Fixná smena: {selectedStandardHours}h — časy boli predvyplnené
-                  </p>
-                )}
-              </div>
-
-              {/* Date */}
-              <div className="space-y-2">
-                <Label htmlFor="date">Dátum</Label>
-                <Input id="date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
-              </div>
-
-              {/* Time From */}
-              <div className="space-y-2">
-                <Label htmlFor="timeFrom">Začiatok práce</Label>
-                <Input id="timeFrom" type="time" value={timeFrom} onChange={e => handleTimeFromChange(e.target.value)} required />
-              </div>
-
-              {/* Time To */}
-              <div className="space-y-2">
-                <Label htmlFor="timeTo">Koniec práce</Label>
-                <Input id="timeTo" type="time" value={timeTo} onChange={e => handleTimeToChange(e.target.value)} required />
-              </div>
-
-              {/* Break 1 */}
-              <div className="space-y-2">
-                <Label htmlFor="breakStart">1. prestávka – od</Label>
-                <Input id="breakStart" type="time" value={breakStart} onChange={e => handleBreakStartChange(e.target.value)} />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="breakEnd">1. prestávka – do</Label>
-                <Input id="breakEnd" type="time" value={breakEnd} onChange={e => handleBreakEndChange(e.target.value)} />
-              </div>
+                </div>
 
-              {/* Break 2 */}
-              <div className="space-y-2">
-                <Label htmlFor="break2Start">2. prestávka – od</Label>
-                <div className="flex gap-2">
-                  <Input id="break2Start" type="time" value={break2Start} onChange={e => handleBreak2StartChange(e.target.value)} className="flex-1" />
-                  {break2Start && (
-                    <Button type="button" variant="ghost" size="sm" onClick={() => { setBreak2Start(""); setBreak2End(""); setIsManualOverride(false); }} className="px-2">✕</Button>
-                  )}
+                {/* Note */}
+                <div className="space-y-2">
+                  <Label htmlFor="note">Poznámka (voliteľné)</Label>
+                  <Textarea id="note" placeholder="Popis vykonaných prác..." value={note} onChange={e => setNote(e.target.value)} rows={3} />
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="break2End">2. prestávka – do</Label>
-                <div className="flex gap-2">
-                  <Input id="break2End" type="time" value={break2End} onChange={e => handleBreak2EndChange(e.target.value)} className="flex-1" />
-                  {break2End && (
-                    <Button type="button" variant="ghost" size="sm" onClick={() => { setBreak2Start(""); setBreak2End(""); setIsManualOverride(false); }} className="px-2">✕</Button>
+
+                <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm} className="h-12 md:h-10 text-base md:text-sm">
+                      Zrušiť úpravu
+                    </Button>
                   )}
+                  <Button type="submit" disabled={saving || !projectId} className="h-12 md:h-10 text-base md:text-sm">
+                    {saving ? (
+                      <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Ukladám...</>
+                    ) : editingId ? (
+                      <><Edit className="mr-2 h-4 w-4" />Uložiť zmeny</>
+                    ) : (
+                      <><Save className="mr-2 h-4 w-4" />Uložiť záznam</>
+                    )}
+                  </Button>
                 </div>
-              </div>
+              </form>
+            </TabsContent>
+            <TabsContent value="clock" className="mt-0">
+              <ShiftClockPanel
+                projects={projects}
+                accommodations={accommodations}
+                activeShift={shiftClock.activeShift}
+                processing={shiftClock.processing}
+                isOnline={offlineQueue.isOnline}
+                onStart={shiftClock.startShift}
+                onEnd={async (breaks, shiftNote) => {
+                  const ended = await shiftClock.endShift(breaks, shiftNote);
+                  if (ended) await fetchTodayRecords();
+                  return ended;
+                }}
+                onCancel={shiftClock.cancelShift}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
 
-              {/* Total hours */}
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="totalHours">Odpracované hodiny</Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Info className="h-4 w-4 text-muted-foreground cursor-help" />
-                      </TooltipTrigger>
-                      <TooltipContent side="top" className="max-w-xs">
-                        <p>Automaticky vypočítané. V prípade potreby upravte manuálne.</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-                <Input id="totalHours" type="number" step="0.01" min="0" placeholder="0.00" value={manualHours} onChange={e => handleManualHoursChange(e.target.value)} className={isManualOverride ? "border-primary ring-1 ring-primary" : ""} />
-                {isManualOverride && calculatedHours > 0 && (
-                  <p className="text-xs text-muted-foreground">Vypočítané: {calculatedHours} h</p>
-                )}
+      {/* Entries saved on the device, waiting for sync or resolution */}
+      {offlineQueue.entries.length > 0 && (
+        <Card>
+          <CardHeader className="p-4 md:p-6">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                  <CloudUpload className="h-5 w-5" />
+                  Offline záznamy
+                </CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Uložené v zariadení – odošlú sa po pripojení
+                </CardDescription>
               </div>
-            </div>
-
-            {/* Accommodation selection */}
-            <div className="space-y-2">
-              <Label htmlFor="accommodation">Ubytovanie <span className="text-destructive">*</span></Label>
-              <Select value={accommodationId} onValueChange={setAccommodationId} required>
-                <SelectTrigger id="accommodation" className={accommodationId === "" ? "border-destructive" : ""}>
-                  <SelectValue placeholder="Vyberte ubytovanie" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">
-                    Vlastné ubytovanie / Bez firemného ubytovania (0 €)
-                  </SelectItem>
-                  {accommodations.map(acc => (
-                    <SelectItem key={acc.id} value={acc.id}>
-                      {acc.name || acc.address} ({acc.price_per_person ?? 0} €/noc)
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Note */}
-            <div className="space-y-2">
-              <Label htmlFor="note">Poznámka (voliteľné)</Label>
-              <Textarea id="note" placeholder="Popis vykonaných prác..." value={note} onChange={e => setNote(e.target.value)} rows={3} />
-            </div>
-
-            <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
-              {editingId && (
-                <Button type="button" variant="outline" onClick={resetForm} className="h-12 md:h-10 text-base md:text-sm">
-                  Zrušiť úpravu
+              {offlineQueue.isOnline && (
+                <Button size="sm" variant="outline" onClick={() => offlineQueue.sync()} disabled={offlineQueue.syncing}>
+                  {offlineQueue.syncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Synchronizovať
                 </Button>
               )}
-              <Button type="submit" disabled={saving || !projectId} className="h-12 md:h-10 text-base md:text-sm">
-                {saving ? (
-                  <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Ukladám...</>
-                ) : editingId ? (
-                  <><Edit className="mr-2 h-4 w-4" />Uložiť zmeny</>
-                ) : (
-                  <><Save className="mr-2 h-4 w-4" />Uložiť záznam</>
-                )}
-              </Button>
             </div>
-          </form>
-        </CardContent>
-      </Card>
+          </CardHeader>
+          <CardContent className="px-4 pb-4 md:px-6 md:pb-6 pt-0">
+            {offlineQueue.entries.map((entry) => (
+              <MobileRecordCard
+                key={entry.localId}
+                id={entry.localId}
+                date={entry.data.date + "T12:00:00"}
+                projectName={entry.projectName}
+                timeFrom={entry.data.time_from}
+                timeTo={entry.data.time_to}
+                totalHours={entry.data.total_hours}
+                status="draft"
+                note={entry.data.note}
+                syncStatus={entry.status === "conflict" ? "conflict" : offlineQueue.isOnline ? "pending" : "offline"}
+                syncError={entry.error}
+                showActions
+                onEdit={() => handleEditQueued(entry)}
+                onDelete={() => offlineQueue.discard(entry.localId)}
+                onRetry={entry.status === "conflict" && offlineQueue.isOnline ? () => offlineQueue.retry(entry) : undefined}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
 
       {/* Today's Records with Grace Period */}
       {todayRecords.length > 0 && (
@@ -675,6 +882,7 @@ export default function DailyEntry() {
                           {record.projects?.name || "—"}
                         </span>
                         <StatusBadge status={record.status as any} />
+                        {offlineQueue.syncedRecordIds.has(record.id) && <SyncStatusBadge status="synced" />}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {record.time_from} - {record.time_to} • {Number(record.total_hours) || 0}h
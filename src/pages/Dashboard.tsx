@@ -3,19 +3,26 @@ import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
 import { supabase } from "@/integrations/supabase/client";
-import { addDays, addMonths } from "date-fns";
+import { addDays } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/StatusBadge";
 import { MobileRecordCard } from "@/components/mobile/MobileRecordCard";
 import { StickyActionButton } from "@/components/mobile/StickyActionButton";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { Calendar, ClipboardList, FolderOpen, Plus, Home, Users, MapPin, Euro, CheckCircle2, Receipt } from "lucide-react";
+import { Calendar, ClipboardList, FolderOpen, Plus, Home, Users, MapPin, Euro, CheckCircle2, Receipt, Banknote } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format, getWeek, getYear } from "date-fns";
 import { sk } from "date-fns/locale";
 import { getISOWeekLocal } from "@/lib/dateUtils";
 import { useInvoiceGeneration } from "@/hooks/useInvoiceGeneration";
+import { fetchRetainerProfiles } from "@/hooks/useBillingProfile";
+import { useOutstandingDeductions } from "@/hooks/useDeductions";
+import {
+  generateAccommodationPayments,
+  markAccommodationPaymentPaid,
+  PAYMENT_FREQUENCY_LABELS,
+} from "@/hooks/useAccommodationPayments";
 
 
 interface WeeklyClosing {
@@ -52,17 +59,21 @@ interface MyAccommodation {
 
 interface PaymentDue {
   id: string;
-  name: string;
-  address: string;
-  next_payment_date: string;
-  payment_frequency: string;
+  due_date: string;
+  amount: number;
+  accommodation: {
+    name: string;
+    address: string;
+    payment_frequency: string | null;
+  } | null;
 }
 
-interface ViktorUnpaidInvoice {
+interface RetainerUnpaidInvoice {
   id: string;
   invoice_number: string;
   total_amount: number;
   due_date: string;
+  supplier_name: string;
 }
 
 export default function Dashboard() {
@@ -70,8 +81,11 @@ export default function Dashboard() {
   const { role, isManager, isAdmin } = useUserRole();
   const { toast } = useToast();
   
-  const { generateViktorRetainer, checkRetainerExists } = useInvoiceGeneration();
+  const { generateRetainerInvoice, checkRetainerExists } = useInvoiceGeneration();
   const retainerGenRan = useRef(false);
+  const { deductions } = useOutstandingDeductions(user?.id);
+  const openAdvances = deductions.filter((d) => d.kind === "advance");
+  const advanceDebt = openAdvances.reduce((sum, d) => sum + Number(d.outstanding), 0);
   
   const isMobile = useIsMobile();
   const location = useLocation();
@@ -80,7 +94,7 @@ export default function Dashboard() {
   const [currentAccommodations, setCurrentAccommodations] = useState<AccommodationInfo[]>([]);
   const [myAccommodation, setMyAccommodation] = useState<MyAccommodation | null>(null);
   const [paymentsDue, setPaymentsDue] = useState<PaymentDue[]>([]);
-  const [viktorUnpaidInvoices, setViktorUnpaidInvoices] = useState<ViktorUnpaidInvoice[]>([]);
+  const [retainerUnpaidInvoices, setRetainerUnpaidInvoices] = useState<RetainerUnpaidInvoice[]>([]);
   const [stats, setStats] = useState({ monthlyHours: 0, activeProjects: 0 });
   const [loading, setLoading] = useState(true);
 
@@ -168,45 +182,51 @@ export default function Dashboard() {
       );
       setCurrentAccommodations(enrichedAssignments);
 
-      // Fetch upcoming payment dues (within 3 days or overdue)
+      // Fetch landlord payments due within 3 days or overdue
       const threeDaysFromNow = addDays(new Date(), 3).toISOString().split("T")[0];
-      const { data: dueAccommodations } = await supabase
-        .from("accommodations")
-        .select("id, name, address, next_payment_date, payment_frequency")
-        .is("deleted_at", null)
-        .not("next_payment_date", "is", null)
-        .lte("next_payment_date", threeDaysFromNow);
+      try {
+        await generateAccommodationPayments();
+      } catch (error) {
+        console.warn("Could not generate accommodation payments:", error);
+      }
+      const { data: duePayments } = await supabase
+        .from("accommodation_payments")
+        .select("id, due_date, amount, accommodation:accommodations(name, address, payment_frequency)")
+        .eq("status", "pending")
+        .lte("due_date", threeDaysFromNow)
+        .order("due_date", { ascending: true });
 
-      setPaymentsDue((dueAccommodations as any[]) || []);
+      setPaymentsDue((duePayments as PaymentDue[]) || []);
 
-      // Sunday payment notification for Ing. Viktor Dolhý
+      // Sunday payment notification for suppliers on a fixed retainer
       const dayOfWeek = new Date().getDay(); // 0 = Sunday
       if (dayOfWeek === 0) {
-        // Find Viktor's profile
-        const { data: viktorProfile } = await supabase
-          .from("profiles")
-          .select("user_id")
-          .is("deleted_at", null)
-          .eq("full_name", "Ing. Viktor Dolhý")
-          .limit(1);
-
-        if (viktorProfile && viktorProfile.length > 0) {
-          const vikId = viktorProfile[0].user_id;
-          // Find unpaid invoices for Viktor
+        const retainerProfiles = await fetchRetainerProfiles();
+
+        if (retainerProfiles.length > 0) {
+          const nameMap = new Map(retainerProfiles.map((p) => [p.user_id, p.full_name]));
           const { data: unpaidInvoices } = await supabase
             .from("invoices")
-            .select("id, invoice_number, total_amount, due_date")
-            .eq("user_id", vikId)
+            .select("id, user_id, invoice_number, total_amount, due_date")
+            .in("user_id", retainerProfiles.map((p) => p.user_id))
             .is("deleted_at", null)
             .neq("status", "paid")
             .neq("status", "void");
 
-          setViktorUnpaidInvoices((unpaidInvoices as ViktorUnpaidInvoice[]) || []);
+          setRetainerUnpaidInvoices(
+            (unpaidInvoices || []).map((inv) => ({
+              id: inv.id,
+              invoice_number: inv.invoice_number,
+              total_amount: inv.total_amount,
+              due_date: inv.due_date,
+              supplier_name: nameMap.get(inv.user_id) || "",
+            }))
+          );
         } else {
-          setViktorUnpaidInvoices([]);
+          setRetainerUnpaidInvoices([]);
         }
       } else {
-        setViktorUnpaidInvoices([]);
+        setRetainerUnpaidInvoices([]);
       }
     }
 
@@ -238,29 +258,20 @@ export default function Dashboard() {
     setLoading(false);
   };
 
-  const handleMarkAsPaid = async (acc: PaymentDue) => {
-    let newDate: Date;
-    const oldDate = new Date(acc.next_payment_date);
-    switch (acc.payment_frequency) {
-      case "biweekly":
-        newDate = addDays(oldDate, 14);
-        break;
-      case "monthly":
-        newDate = addMonths(oldDate, 1);
-        break;
-      default: // weekly
-        newDate = addDays(oldDate, 7);
-        break;
-    }
-    const { error } = await supabase
-      .from("accommodations")
-      .update({ next_payment_date: format(newDate, "yyyy-MM-dd") } as any)
-      .eq("id", acc.id);
-    if (error) {
-      toast({ title: "Chyba", description: error.message, variant: "destructive" });
-    } else {
-      toast({ title: "Zaplatené", description: `Ďalšia platba: ${format(newDate, "d.M.yyyy")}` });
-      setPaymentsDue((prev) => prev.filter((p) => p.id !== acc.id));
+  const handleMarkAsPaid = async (payment: PaymentDue) => {
+    try {
+      const nextDate = await markAccommodationPaymentPaid(payment.id);
+      toast({
+        title: "Zaplatené",
+        description: nextDate ? `Ďalšia platba: ${format(new Date(nextDate), "d.M.yyyy")}` : "Platba bola označená ako uhradená",
+      });
+      setPaymentsDue((prev) => prev.filter((p) => p.id !== payment.id));
+    } catch (error) {
+      toast({
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Nepodarilo sa označiť platbu",
+        variant: "destructive",
+      });
     }
   };
 
@@ -290,7 +301,7 @@ export default function Dashboard() {
 
   // KW9 fix moved to FinancialDashboard
 
-  // Silent Sunday auto-generation: Viktor retainer invoice
+  // Silent Sunday auto-generation: retainer invoices from billing profiles
   useEffect(() => {
     if (!isAdmin || !user || retainerGenRan.current) return;
     const now = new Date();
@@ -302,23 +313,19 @@ export default function Dashboard() {
 
     (async () => {
       try {
-        const { data: profile } = await supabase
-          .from("profiles")
-          .select("user_id")
-          .eq("full_name", "Ing. Viktor Dolhý")
-          .is("deleted_at", null)
-          .maybeSingle();
-        if (!profile) return;
-
-        const exists = await checkRetainerExists(profile.user_id, kw, yr);
-        if (exists) return;
-
-        await generateViktorRetainer(profile.user_id, kw, yr);
+        const retainerProfiles = await fetchRetainerProfiles();
+
+        for (const profile of retainerProfiles) {
+          const exists = await checkRetainerExists(profile.user_id, kw, yr);
+          if (exists) continue;
+
+          await generateRetainerInvoice(profile.user_id, profile.full_name, kw, yr);
+        }
       } catch {
         // silent
       }
     })();
-  }, [isAdmin, user, generateViktorRetainer, checkRetainerExists]);
+  }, [isAdmin, user, generateRetainerInvoice, checkRetainerExists]);
 
 
   const currentWeek = getWeek(new Date(), { weekStartsOn: 1 });
@@ -429,39 +436,43 @@ export default function Dashboard() {
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-4 md:px-6 md:pb-6 pt-0 space-y-2">
-            {paymentsDue.map((acc) => (
-              <div key={acc.id} className="flex items-center justify-between p-3 rounded-lg bg-background border">
-                <div className="min-w-0 flex-1">
-                  <p className="font-medium text-sm truncate">{acc.name || acc.address}</p>
-                  <p className="text-xs text-muted-foreground">
-                    Dátum: {format(new Date(acc.next_payment_date), "d.M.yyyy")} •{" "}
-                    {acc.payment_frequency === "weekly" ? "Týždenne" : acc.payment_frequency === "biweekly" ? "Dvojtýždenne" : "Mesačne"}
-                  </p>
+            {paymentsDue.map((payment) => {
+              const isOverdue = payment.due_date < format(new Date(), "yyyy-MM-dd");
+              return (
+                <div key={payment.id} className="flex items-center justify-between p-3 rounded-lg bg-background border">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-sm truncate">{payment.accommodation?.name || payment.accommodation?.address}</p>
+                    <p className={`text-xs ${isOverdue ? "text-destructive font-medium" : "text-muted-foreground"}`}>
+                      {isOverdue ? "Po splatnosti" : "Dátum"}: {format(new Date(payment.due_date), "d.M.yyyy")} •{" "}
+                      {Number(payment.amount).toFixed(2)} € •{" "}
+                      {PAYMENT_FREQUENCY_LABELS[payment.accommodation?.payment_frequency ?? ""] ?? "Mesačne"}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" className="shrink-0 ml-2 text-xs border-green-500 text-green-700 hover:bg-green-50 dark:text-green-400 dark:hover:bg-green-950" onClick={() => handleMarkAsPaid(payment)}>
+                    <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                    Zaplatené
+                  </Button>
                 </div>
-                <Button size="sm" variant="outline" className="shrink-0 ml-2 text-xs border-green-500 text-green-700 hover:bg-green-50 dark:text-green-400 dark:hover:bg-green-950" onClick={() => handleMarkAsPaid(acc)}>
-                  <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
-                  Zaplatené
-                </Button>
-              </div>
-            ))}
+              );
+            })}
           </CardContent>
         </Card>
       )}
 
-      {/* Viktor Sunday Payment Alert - Admin only */}
-      {isAdmin && viktorUnpaidInvoices.length > 0 && (
+      {/* Retainer Sunday Payment Alert - Admin only */}
+      {isAdmin && retainerUnpaidInvoices.length > 0 && (
         <Card className="border-destructive/30 bg-destructive/5">
           <CardHeader className="pb-2 p-4 md:p-6">
             <CardTitle className="flex items-center gap-2 text-base md:text-lg text-destructive">
               <Receipt className="h-5 w-5" />
-              ⚠️ UHRADIŤ DNES - Ing. Viktor Dolhý
+              ⚠️ UHRADIŤ DNES - paušálne faktúry
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-4 md:px-6 md:pb-6 pt-0 space-y-2">
-            {viktorUnpaidInvoices.map((inv) => (
+            {retainerUnpaidInvoices.map((inv) => (
               <div key={inv.id} className="flex items-center justify-between p-3 rounded-lg bg-background border">
                 <div className="min-w-0 flex-1">
-                  <p className="font-medium text-sm">Faktúra {inv.invoice_number}</p>
+                  <p className="font-medium text-sm">Faktúra {inv.invoice_number} • {inv.supplier_name}</p>
                   <p className="text-xs text-muted-foreground">
                     Suma: {inv.total_amount}€ • Splatnosť: {format(new Date(inv.due_date), "d.M.yyyy")}
                   </p>
@@ -479,7 +490,7 @@ export default function Dashboard() {
                       toast({ title: "Chyba", description: error.message, variant: "destructive" });
                     } else {
                       toast({ title: "Uhradené", description: `Faktúra ${inv.invoice_number} označená ako zaplatená.` });
-                      setViktorUnpaidInvoices((prev) => prev.filter((i) => i.id !== inv.id));
+                      setRetainerUnpaidInvoices((prev) => prev.filter((i) => i.id !== inv.id));
                     }
                   }}
                 >
@@ -507,6 +518,23 @@ export default function Dashboard() {
         </Card>
       )}
 
+      {!isAdmin && advanceDebt > 0 && (
+        <Card className="border-amber-500/30 bg-amber-500/5">
+          <CardContent className="p-4 md:p-6 flex items-center gap-3">
+            <Banknote className="h-5 w-5 text-amber-600 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm md:text-base">Zostáva splatiť zo záloh: {advanceDebt.toFixed(2)} €</p>
+              <p className="text-xs text-muted-foreground">
+                {openAdvances.length === 1 ? "1 záloha" : `${openAdvances.length} ${openAdvances.length < 5 ? "zálohy" : "záloh"}`} • odpočítava sa z vašich faktúr
+              </p>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/weekly-closings">Detail</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Open closings alert */}
       {openClosings.some((c) => c.status === "returned") && (
         <Card className="border-destructive/30 bg-destructive/5">
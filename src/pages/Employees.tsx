@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useCompany } from "@/hooks/useCompany";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -45,7 +46,8 @@ interface Employee {
 }
 
 export default function Employees() {
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { can, loading: roleLoading } = usePermissions();
+  const { company } = useCompany();
   const { toast } = useToast();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
@@ -444,7 +446,7 @@ export default function Employees() {
     );
   };
 
-  if (!roleLoading && !isAdmin) {
+  if (!roleLoading && !can("manage_users")) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -515,7 +517,7 @@ export default function Employees() {
               <Building2 className="h-5 w-5 text-primary-foreground" />
             </div>
             <div>
-              <span className="font-semibold">TKJD s.r.o.</span>
+              <span className="font-semibold">{company?.name ?? "TKJD s.r.o."}</span>
               <p className="text-sm text-muted-foreground">Hlavná spoločnosť</p>
             </div>
           </div>
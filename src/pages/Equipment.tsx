@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -68,10 +68,10 @@ function EquipmentStatusBadge({ status }: { status: EquipmentStatus }) {
 
 export default function EquipmentPage() {
   const { user } = useAuth();
-  const { isAdmin, isManager } = useUserRole();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const isMobile = useIsMobile();
-  const canManage = isAdmin || isManager;
+  const canManage = can("manage_equipment");
 
   const [equipment, setEquipment] = useState<Equipment[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
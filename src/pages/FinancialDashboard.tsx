@@ -1,22 +1,27 @@
 import { useState } from "react";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useFinancialData } from "@/hooks/useFinancialData";
 import { FinancialMetricsCards } from "@/components/financial/FinancialMetricsCards";
 import { InvoicesTrafficTable } from "@/components/financial/InvoicesTrafficTable";
 import { AdvancesManagement } from "@/components/financial/AdvancesManagement";
+import { PaymentBatchesManagement } from "@/components/financial/PaymentBatchesManagement";
+import { BankStatementImport } from "@/components/financial/BankStatementImport";
 import { UrgentActionBanner } from "@/components/financial/UrgentActionBanner";
+import { ClientsManagement } from "@/components/financial/ClientsManagement";
+import { ClientInvoicesSection } from "@/components/financial/ClientInvoicesSection";
+import { ProjectMarginTable } from "@/components/financial/ProjectMarginTable";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RefreshCw } from "lucide-react";
 import { Navigate } from "react-router-dom";
 
 export default function FinancialDashboard() {
-  const { isAdmin, isAccountant, loading: roleLoading } = useUserRole();
+  const { can, loading: roleLoading } = usePermissions();
   const { invoices, allProjects, metrics, loading, refetch, markAsPaid } = useFinancialData();
   const [isUrgentFilterActive, setIsUrgentFilterActive] = useState(false);
 
-  // Only Admin and Accountant can access financial dashboard
-  const hasAccess = isAdmin || isAccountant;
+  const hasAccess = can("view_financials");
+  const canManageInvoices = can("manage_invoices");
 
   // Redirect unauthorized users
   if (!roleLoading && !hasAccess) {
@@ -52,7 +57,9 @@ export default function FinancialDashboard() {
       <Tabs defaultValue="invoices" className="space-y-4">
         <TabsList>
           <TabsTrigger value="invoices">Faktúry</TabsTrigger>
+          <TabsTrigger value="payments">Platby</TabsTrigger>
           <TabsTrigger value="advances">Zálohy</TabsTrigger>
+          <TabsTrigger value="clients">Klienti</TabsTrigger>
         </TabsList>
         
         <TabsContent value="invoices">
@@ -67,9 +74,20 @@ export default function FinancialDashboard() {
           />
         </TabsContent>
         
+        <TabsContent value="payments" className="space-y-4">
+          <BankStatementImport invoices={invoices} onRefresh={refetch} />
+          <PaymentBatchesManagement invoices={invoices} onRefresh={refetch} />
+        </TabsContent>
+
         <TabsContent value="advances">
           <AdvancesManagement />
         </TabsContent>
+
+        <TabsContent value="clients" className="space-y-4">
+          <ClientInvoicesSection canEdit={canManageInvoices} />
+          <ProjectMarginTable />
+          <ClientsManagement canEdit={canManageInvoices} />
+        </TabsContent>
       </Tabs>
     </div>
   );
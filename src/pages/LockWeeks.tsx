@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -28,7 +28,18 @@ import { generateInvoicePDF } from "@/lib/invoiceGenerator";
 import { ProjectExportSection } from "@/components/approvals/ProjectExportSection";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getCompanySignatureBase64 } from "@/hooks/useCompanySignature";
+import { fetchCurrentCompany } from "@/hooks/useCompany";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { surchargesForRecords } from "@/hooks/useSurchargeRules";
+import { loadRateResolver } from "@/hooks/useRateHistory";
+import { buildWorkLines, fromInvoiceLineRows, INVOICE_LINE_COLUMNS } from "@/lib/invoiceLines";
+import { downloadInvoicePdf, INVOICE_ARCHIVE_COLUMNS } from "@/hooks/useInvoiceArchive";
+import { fetchBillingProfile } from "@/hooks/useBillingProfile";
+import { parseInvoiceSupplier, requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
 import { exportStundenzettelToExcel } from "@/lib/stundenzettelExport";
+import { fetchWeekClientSignoff } from "@/hooks/useClientSignoff";
+import { clientSignoffForRecords } from "@/lib/clientSignoff";
+import { projectHolidayCalendar } from "@/lib/holidays";
 import { getSignatureBase64 } from "@/lib/signatureUtils";
 
 interface Profile {
@@ -48,6 +59,7 @@ interface Profile {
 interface PerformanceRecord {
   id: string;
   date: string;
+  project_id: string | null;
   time_from: string;
   time_to: string;
   break_start: string | null;
@@ -57,7 +69,14 @@ interface PerformanceRecord {
   total_hours: number;
   status: string;
   note: string | null;
-  projects: { name: string; client: string; address: string | null; location: string | null } | null;
+  projects: {
+    name: string;
+    client: string;
+    address: string | null;
+    location: string | null;
+    holiday_country: string;
+    holiday_region: string | null;
+  } | null;
 }
 
 interface WeeklyClosing {
@@ -97,7 +116,7 @@ function getWeekDateRange(week: number, year: number): string {
 
 export default function LockWeeks() {
   const { user } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { can, loading: roleLoading } = usePermissions();
   const { toast } = useToast();
   const [approvedWeeks, setApprovedWeeks] = useState<ApprovedWeek[]>([]);
   const [loading, setLoading] = useState(true);
@@ -139,7 +158,7 @@ export default function LockWeeks() {
       const { data: records } = await supabase
         .from("performance_records")
         .select(
-          "id, date, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, status, note, projects(name, client, address, location)",
+          "id, date, project_id, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, status, note, projects(name, client, address, location, holiday_country, holiday_region)",
         )
         .eq("user_id", closing.user_id)
         .eq("status", "approved")
@@ -277,7 +296,8 @@ export default function LockWeeks() {
   };
 
   const handleExport = async (week: ApprovedWeek) => {
-    const firstProject = week.records.find((r) => r.projects)?.projects;
+    const firstRecord = week.records.find((r) => r.projects);
+    const firstProject = firstRecord?.projects;
 
     const projectName = firstProject?.name || "Neznámy projekt";
     const projectClient = firstProject?.client || "";
@@ -286,6 +306,13 @@ export default function LockWeeks() {
     try {
       const companySignatureBase64 = await getCompanySignatureBase64();
       const employeeSignatureBase64 = await getSignatureBase64(week.closing.profiles?.signature_url || null);
+      // Only the hours are printed, so the rate does not matter here
+      const surcharges = await surchargesForRecords(week.records, 0);
+      const clientSignoff = clientSignoffForRecords(
+        await fetchWeekClientSignoff(firstRecord?.project_id, week.closing.year, week.closing.calendar_week),
+        week.closing.user_id,
+        week.records
+      );
 
       await exportStundenzettelToExcel({
         records: week.records.map((r) => ({
@@ -302,11 +329,14 @@ export default function LockWeeks() {
         projectName,
         projectClient,
         projectLocation,
+        holidayCalendar: projectHolidayCalendar(firstProject),
+        surcharges,
         workerName: week.closing.profiles?.full_name || "Neznámy používateľ",
         calendarWeek: week.closing.calendar_week,
         year: week.closing.year,
         companySignatureBase64,
         employeeSignatureBase64,
+        clientSignoff,
       });
 
       toast({
@@ -323,21 +353,66 @@ export default function LockWeeks() {
   };
 
   const handleGenerateInvoice = async (week: ApprovedWeek) => {
-    const profile = week.closing.profiles;
-    if (!profile || !profile.hourly_rate || profile.hourly_rate <= 0) {
-      toast({
-        variant: "destructive",
-        title: "Chýbajú fakturačné údaje používateľa",
-        description: "Používateľ nemá nastavenú hodinovú sadzbu alebo chýbajú fakturačné údaje v profile.",
-      });
-      return;
-    }
-
     setGeneratingInvoice(week.closing.id);
     try {
       const projectNames = [...new Set(week.records.map((r) => r.projects?.name).filter(Boolean))];
       const projectName = projectNames.join(", ") || "Projekt";
 
+      // An issued invoice is served from the archive exactly as it was issued
+      const { data: existingInvoice, error: invoiceError } = await supabase
+        .from("invoices")
+        .select(`id, invoice_number, issue_date, delivery_date, due_date, total_hours, hourly_rate, advance_deduction, sanctions_deduction, is_reverse_charge, supplier_snapshot, ${INVOICE_ARCHIVE_COLUMNS}, invoice_lines(${INVOICE_LINE_COLUMNS}), companies(${COMPANY_COLUMNS})`)
+        .eq("week_closing_id", week.closing.id)
+        .is("deleted_at", null)
+        .neq("status", "void")
+        .maybeSingle();
+      if (invoiceError) throw invoiceError;
+
+      if (existingInvoice) {
+        await downloadInvoicePdf(existingInvoice, async () => ({
+          ...supplierInvoiceData(
+            requireInvoiceSupplier(existingInvoice.supplier_snapshot, existingInvoice.invoice_number)
+          ),
+          hourlyRate: existingInvoice.hourly_rate,
+          isReverseCharge: existingInvoice.is_reverse_charge,
+          projectName,
+          calendarWeek: week.closing.calendar_week,
+          year: week.closing.year,
+          totalHours: existingInvoice.total_hours,
+          ...fromInvoiceLineRows(existingInvoice.invoice_lines),
+          invoiceNumber: existingInvoice.invoice_number,
+          odberatelId: existingInvoice.id,
+          advanceDeduction: existingInvoice.advance_deduction ?? 0,
+          sanctionsDeduction: existingInvoice.sanctions_deduction,
+          historicalIssueDate: existingInvoice.issue_date,
+          historicalDeliveryDate: existingInvoice.delivery_date,
+          historicalDueDate: existingInvoice.due_date,
+          customer: companyCustomerParty(existingInvoice.companies),
+        }));
+        toast({
+          title: "PDF stiahnuté",
+          description: `Faktúra ${existingInvoice.invoice_number} bola stiahnutá z archívu.`,
+        });
+        return;
+      }
+
+      // Not invoiced yet: preview with the supplier data and pricing the invoice would get
+      const [{ data: snapshot, error: snapshotError }, billing] = await Promise.all([
+        supabase.rpc("supplier_snapshot", { p_user_id: week.closing.user_id }),
+        fetchBillingProfile(week.closing.user_id),
+      ]);
+      if (snapshotError) throw snapshotError;
+      const supplier = parseInvoiceSupplier(snapshot);
+      const profileRate = week.closing.profiles?.hourly_rate ?? 0;
+      if (!supplier || (billing.mode !== "fixed_wage" && profileRate <= 0)) {
+        toast({
+          variant: "destructive",
+          title: "Chýbajú fakturačné údaje používateľa",
+          description: "Používateľ nemá nastavenú hodinovú sadzbu alebo chýbajú fakturačné údaje v profile.",
+        });
+        return;
+      }
+
       // Calculate historical dates from the week data
       // Delivery date = last recorded working day in this week
       const workDates = week.records
@@ -352,36 +427,43 @@ export default function LockWeeks() {
       const mondayAfterWeek = addDays(weekStart, week.closing.calendar_week * 7);
       const historicalIssueDate = format(mondayAfterWeek, "yyyy-MM-dd");
       const historicalDeliveryDate = lastWorkDay || historicalIssueDate;
-      const historicalDueDate = format(addDays(mondayAfterWeek, 21), "yyyy-MM-dd");
+      const historicalDueDate = format(addDays(mondayAfterWeek, billing.due_days), "yyyy-MM-dd");
+
+      // Hours are priced at the rate effective on each record's date; a fixed
+      // wage is spread over the hours and surcharges only apply to hourly billing
+      const fixedAmount = billing.mode === "fixed_wage" ? Number(billing.retainer_amount) || 0 : undefined;
+      const rateOn = await loadRateResolver(week.closing.user_id, profileRate);
+      const hourlyRate = fixedAmount == null
+        ? rateOn(lastWorkDay || historicalIssueDate)
+        : week.totalHours > 0
+          ? Math.round((fixedAmount / week.totalHours) * 100) / 100
+          : fixedAmount;
+      const rate = fixedAmount == null ? rateOn : hourlyRate;
+      const surcharges = billing.mode === "hourly" ? await surchargesForRecords(week.records, rateOn) : [];
+      const company = await fetchCurrentCompany();
 
       await generateInvoicePDF({
-        supplierName: profile.full_name,
-        supplierCompany: profile.company_name,
-        supplierAddress: profile.billing_address,
-        supplierCountry: (profile as any).country,
-        supplierIco: profile.ico,
-        supplierDic: profile.dic,
-        supplierIban: profile.iban,
-        supplierSwiftBic: profile.swift_bic,
-        signatureUrl: profile.signature_url,
-        hourlyRate: profile.hourly_rate,
-        isVatPayer: profile.is_vat_payer ?? false,
-        vatNumber: profile.vat_number,
+        ...supplierInvoiceData(supplier),
+        hourlyRate,
         isReverseCharge: false,
         projectName,
         calendarWeek: week.closing.calendar_week,
         year: week.closing.year,
         totalHours: week.totalHours,
+        lines: buildWorkLines(week.records, rate, fixedAmount),
+        surcharges,
         odberatelId: week.closing.id,
         historicalIssueDate,
         historicalDeliveryDate,
         historicalDueDate,
+        customer: companyCustomerParty(company),
       });
       toast({ title: "Faktúra vygenerovaná", description: "PDF faktúra bola stiahnutá." });
     } catch (error: any) {
       toast({ variant: "destructive", title: "Chyba", description: error.message });
+    } finally {
+      setGeneratingInvoice(null);
     }
-    setGeneratingInvoice(null);
   };
 
   if (roleLoading) {
@@ -392,7 +474,7 @@ export default function LockWeeks() {
     );
   }
 
-  if (!isAdmin) {
+  if (!can("lock_weeks")) {
     return <Navigate to="/dashboard" replace />;
   }
 
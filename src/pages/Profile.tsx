@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useBillingProfile } from "@/hooks/useBillingProfile";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -36,6 +37,7 @@ type FieldErrors = Partial<Record<string, string>>;
 export default function Profile() {
   const { user } = useAuth();
   const { isAdmin } = useUserRole();
+  const { billingProfile } = useBillingProfile(user?.id);
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -233,8 +235,8 @@ export default function Profile() {
                 {renderError("company_name")}
               </div>
 
-              {/* Hide contract number for Ing. Viktor Dolhý */}
-              {profile.full_name !== "Ing. Viktor Dolhý" && (
+              {/* Retainer contracts are invoiced without a contract number */}
+              {billingProfile?.mode !== "fixed_retainer" && (
                 <div className="space-y-2">
                   <Label htmlFor="contractNumber">Číslo zmluvy *</Label>
                   <Input
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,11 +32,25 @@ interface Project {
   is_active: boolean;
   created_at: string;
   standard_hours: number | null;
+  lat: number | null;
+  lng: number | null;
+  geofence_radius_m: number | null;
+  holiday_country: string;
+  holiday_region: string | null;
+  client_id: string | null;
+  client_hourly_rate: number | null;
+  default_time_from: string;
+  default_time_to: string | null;
+  default_break_start: string | null;
+  default_break_end: string | null;
+  default_break2_start: string | null;
+  default_break2_end: string | null;
 }
 
 export default function Projects() {
   const { user } = useAuth();
-  const { isAdmin, isManager, loading: roleLoading } = useUserRole();
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { can, loading: permissionsLoading } = usePermissions();
   const { toast } = useToast();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
@@ -112,7 +127,7 @@ export default function Projects() {
     setDetailOpen(true);
   };
 
-  if (roleLoading) {
+  if (roleLoading || permissionsLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -120,7 +135,7 @@ export default function Projects() {
     );
   }
 
-  if (!isAdmin && !isManager) {
+  if (!can("manage_projects")) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useUserRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -39,7 +39,7 @@ interface User {
 
 export default function Sanctions() {
   const { user } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { can, loading: roleLoading } = usePermissions();
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const [sanctions, setSanctions] = useState<Sanction[]>([]);
@@ -202,7 +202,7 @@ export default function Sanctions() {
     }
   };
 
-  if (!roleLoading && !isAdmin) {
+  if (!roleLoading && !can("manage_sanctions")) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole, AppRole } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -53,7 +54,8 @@ const roleBadgeVariants: Record<AppRole, "default" | "secondary" | "destructive"
 
 export default function Users() {
   const { user } = useAuth();
-  const { isAdmin, isDirector, loading: roleLoading } = useUserRole();
+  const { isDirector, loading: roleLoading } = useUserRole();
+  const { can, loading: permissionsLoading } = usePermissions();
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const [users, setUsers] = useState<UserWithRole[]>([]);
@@ -105,32 +107,20 @@ export default function Users() {
   const handleRoleChange = async (userId: string, newRole: AppRole) => {
     setUpdating(userId);
 
-    // Delete existing role and insert new one
-    const { error: deleteError } = await supabase
+    // One update, so a change the policies refuse leaves the old role in place
+    const { data: updatedRoles, error: updateError } = await supabase
       .from("user_roles")
-      .delete()
-      .eq("user_id", userId);
+      .update({ role: newRole })
+      .eq("user_id", userId)
+      .select("user_id");
 
-    if (deleteError) {
+    if (updateError || !updatedRoles?.length) {
       toast({
         variant: "destructive",
         title: "Chyba",
-        description: deleteError.message,
-      });
-      setUpdating(null);
-      return;
-    }
-
-    const { error: insertError } = await supabase.from("user_roles").insert({
-      user_id: userId,
-      role: newRole,
-    });
-
-    if (insertError) {
-      toast({
-        variant: "destructive",
-        title: "Chyba",
-        description: insertError.message,
+        description:
+          updateError?.message ??
+          "Túto rolu nemôžete zmeniť. Prideliť môžete iba roly, ktorých oprávnenia sami máte.",
       });
     } else {
       toast({
@@ -197,7 +187,7 @@ export default function Users() {
     setUpdating(null);
   };
 
-  if (roleLoading) {
+  if (roleLoading || permissionsLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -205,7 +195,7 @@ export default function Users() {
     );
   }
 
-  if (!isAdmin) {
+  if (!can("manage_users")) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useBillingProfile } from "@/hooks/useBillingProfile";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,7 +25,7 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { format } from "date-fns";
 import { sk } from "date-fns/locale";
-import { parseLocalDate, getISOWeekLocal, getISOWeekYear } from "@/lib/dateUtils";
+import { parseLocalDate, getISOWeekLocal, getISOWeekYear, getWeekDates } from "@/lib/dateUtils";
 import { useNavigate } from "react-router-dom";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import {
@@ -45,10 +46,22 @@ import {
 } from "@/components/ui/alert-dialog";
 import { exportWeeklyRecordsToExcel } from "@/lib/excelExport";
 import { exportStundenzettelToExcel } from "@/lib/stundenzettelExport";
+import { projectHolidayCalendar } from "@/lib/holidays";
 import { getCompanySignatureBase64 } from "@/hooks/useCompanySignature";
+import { surchargesForRecords } from "@/hooks/useSurchargeRules";
 import { useInvoiceGeneration } from "@/hooks/useInvoiceGeneration";
-import { generateInvoicePDF } from "@/lib/invoiceGenerator";
+import { useOutstandingDeductions } from "@/hooks/useDeductions";
+import { OutstandingDeductionsCard } from "@/components/financial/OutstandingDeductionsCard";
+import { downloadInvoicePdf, INVOICE_ARCHIVE_COLUMNS } from "@/hooks/useInvoiceArchive";
+import { INVOICE_LINE_COLUMNS, fromInvoiceLineRows } from "@/lib/invoiceLines";
+import { COMPANY_COLUMNS, companyCustomerParty } from "@/lib/company";
+import { requireInvoiceSupplier, supplierInvoiceData } from "@/lib/invoiceSupplier";
 import { getSignatureBase64 } from "@/lib/signatureUtils";
+import { fetchWeekClientSignoff } from "@/hooks/useClientSignoff";
+import { clientSignoffForRecords } from "@/lib/clientSignoff";
+import { hasBlockingViolation, validateTimesheet, type RuleViolation } from "@/lib/timesheetRules";
+import { loadValidationContext } from "@/hooks/useTimesheetRules";
+import { ValidationIssuesList } from "@/components/approvals/ValidationIssuesList";
 
 interface PerformanceRecord {
   id: string;
@@ -62,7 +75,15 @@ interface PerformanceRecord {
   total_hours: number;
   status: string;
   note: string | null;
-  projects: { name: string; client: string; location: string | null; address: string | null } | null;
+  project_id: string | null;
+  projects: {
+    name: string;
+    client: string;
+    location: string | null;
+    address: string | null;
+    holiday_country: string;
+    holiday_region: string | null;
+  } | null;
 }
 
 interface WeekGroup {
@@ -88,6 +109,10 @@ export default function WeeklyClosings() {
   const [openWeeks, setOpenWeeks] = useState<Set<string>>(new Set());
   const [deleteRecordId, setDeleteRecordId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  // Rule violations found when submitting a week, confirmed (warnings) or fixed (blocking) by the worker
+  const [validationReview, setValidationReview] = useState<{ group: WeekGroup; violations: RuleViolation[] } | null>(
+    null
+  );
   const [userProfile, setUserProfile] = useState<{
     full_name: string;
     company_name: string | null;
@@ -102,6 +127,10 @@ export default function WeeklyClosings() {
     dic: string | null;
   } | null>(null);
   const { generateAndSaveInvoice, generating: generatingInvoice } = useInvoiceGeneration();
+  const { billingProfile } = useBillingProfile(user?.id);
+  const outstanding = useOutstandingDeductions(user?.id);
+  // Fixed-wage suppliers invoice a flat amount, so no hourly rate is needed
+  const requiresHourlyRate = billingProfile?.mode !== "fixed_wage";
   const [generatingKey, setGeneratingKey] = useState<string | null>(null);
 
   // Grace period tick removed
@@ -162,7 +191,7 @@ export default function WeeklyClosings() {
     const { data: records, error: recordsError } = await supabase
       .from("performance_records")
       .select(
-        "id, date, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, status, note, projects(name, client, location, address)",
+        "id, date, time_from, time_to, break_start, break_end, break2_start, break2_end, total_hours, status, note, project_id, projects(name, client, location, address, holiday_country, holiday_region)",
       )
       .eq("user_id", user.id)
       .is("deleted_at", null)
@@ -228,44 +257,45 @@ export default function WeeklyClosings() {
     fetchData();
   }, [user]);
 
+  /** Check the week against the projects' timesheet rules before submitting it */
   const handleSubmitWeek = async (group: WeekGroup) => {
     if (!user) return;
 
     const key = `${group.year}-${group.week}`;
     setSubmitting(key);
 
+    let violations: RuleViolation[];
     try {
-      // Update all draft/returned records in this week to submitted
-      const recordIds = group.records.filter((r) => r.status === "draft" || r.status === "returned").map((r) => r.id);
+      const context = await loadValidationContext(group.records.map((r) => r.project_id));
+      violations = validateTimesheet(group.records, context, getWeekDates(group.week, group.year));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Chyba",
+        description: error instanceof Error ? error.message : "Výkaz sa nepodarilo skontrolovať",
+      });
+      setSubmitting(null);
+      return;
+    }
 
-      if (recordIds.length > 0) {
-        const { error: updateError } = await supabase
-          .from("performance_records")
-          .update({ status: "submitted" })
-          .in("id", recordIds);
+    if (violations.length > 0) {
+      setValidationReview({ group, violations });
+      setSubmitting(null);
+      return;
+    }
+    await submitWeek(group);
+  };
 
-        if (updateError) throw updateError;
-      }
+  /** The database checks the rules again, refuses blocking ones and stores the rest for the approver */
+  const submitWeek = async (group: WeekGroup) => {
+    if (!user) return;
 
-      // Create or update weekly closing
-      if (group.closingId) {
-        const { error: closingError } = await supabase
-          .from("weekly_closings")
-          .update({ status: "submitted", submitted_at: new Date().toISOString() })
-          .eq("id", group.closingId);
-
-        if (closingError) throw closingError;
-      } else {
-        const { error: insertError } = await supabase.from("weekly_closings").insert({
-          user_id: user.id,
-          calendar_week: group.week,
-          year: group.year,
-          status: "submitted",
-          submitted_at: new Date().toISOString(),
-        });
+    const key = `${group.year}-${group.week}`;
+    setSubmitting(key);
 
-        if (insertError) throw insertError;
-      }
+    try {
+      const { error } = await supabase.rpc("submit_week", { p_year: group.year, p_week: group.week });
+      if (error) throw error;
 
       toast({
         title: "Týždeň odoslaný",
@@ -339,7 +369,8 @@ export default function WeeklyClosings() {
   };
 
   const handleExportLeistungsnachweis = async (group: WeekGroup) => {
-    const firstProject = group.records.find((r) => r.projects)?.projects;
+    const firstRecord = group.records.find((r) => r.projects);
+    const firstProject = firstRecord?.projects;
 
     const projectName = firstProject?.name || "Neznámy projekt";
     const projectClient = firstProject?.client || "";
@@ -348,6 +379,12 @@ export default function WeeklyClosings() {
     try {
       const companySignatureBase64 = await getCompanySignatureBase64();
       const employeeSignatureBase64 = await getSignatureBase64(userProfile?.signature_url || null);
+      const surcharges = await surchargesForRecords(group.records, 0);
+      const clientSignoff = clientSignoffForRecords(
+        await fetchWeekClientSignoff(firstRecord?.project_id, group.year, group.week),
+        user!.id,
+        group.records
+      );
 
       await exportStundenzettelToExcel({
         records: group.records.map((r) => ({
@@ -364,11 +401,14 @@ export default function WeeklyClosings() {
         projectName,
         projectClient,
         projectLocation,
+        holidayCalendar: projectHolidayCalendar(firstProject),
+        surcharges,
         workerName: userProfile?.full_name || "Neznámy používateľ",
         calendarWeek: group.week,
         year: group.year,
         companySignatureBase64,
         employeeSignatureBase64,
+        clientSignoff,
       });
 
       toast({
@@ -386,7 +426,8 @@ export default function WeeklyClosings() {
 
   const handleExportStundenzettel = async (group: WeekGroup) => {
     // Get project info for this week
-    const firstProject = group.records.find((r) => r.projects)?.projects;
+    const firstRecord = group.records.find((r) => r.projects);
+    const firstProject = firstRecord?.projects;
     const projectName = firstProject?.name || "Neznámy projekt";
     const projectClient = firstProject?.client || "";
     const projectLocation = firstProject?.location || null;
@@ -400,6 +441,12 @@ export default function WeeklyClosings() {
       // Fetch company signature for PDF
       const companySignatureBase64 = await getCompanySignatureBase64();
       const employeeSignatureBase64 = await getSignatureBase64(userProfile?.signature_url || null);
+      const surcharges = await surchargesForRecords(group.records, 0);
+      const clientSignoff = clientSignoffForRecords(
+        await fetchWeekClientSignoff(firstRecord?.project_id, group.year, group.week),
+        user!.id,
+        group.records
+      );
 
       await exportStundenzettelToExcel({
         records: group.records.map((r) => ({
@@ -416,11 +463,14 @@ export default function WeeklyClosings() {
         projectName,
         projectClient,
         projectLocation,
+        holidayCalendar: projectHolidayCalendar(firstProject),
+        surcharges,
         workerName: userProfile?.full_name || "Neznámy používateľ",
         calendarWeek: group.week,
         year: group.year,
         companySignatureBase64,
         employeeSignatureBase64,
+        clientSignoff,
       });
 
       toast({
@@ -441,14 +491,14 @@ export default function WeeklyClosings() {
   };
 
   const getInvoiceDisabledReason = (): string | null => {
-    if (!userProfile?.hourly_rate || userProfile.hourly_rate <= 0) return "Doplňte si hodinovú sadzbu v profile.";
+    if (requiresHourlyRate && (!userProfile?.hourly_rate || userProfile.hourly_rate <= 0)) return "Doplňte si hodinovú sadzbu v profile.";
     if (!userProfile?.iban) return "Doplňte si IBAN v profile.";
     if (!userProfile?.billing_address) return "Doplňte si fakturačnú adresu v profile.";
     return null;
   };
 
   const handleGenerateInvoice = async (group: WeekGroup) => {
-    if (!userProfile || !userProfile.hourly_rate || userProfile.hourly_rate <= 0) {
+    if (!userProfile || (requiresHourlyRate && (!userProfile.hourly_rate || userProfile.hourly_rate <= 0))) {
       toast({
         variant: "destructive",
         title: "Chýbajú fakturačné údaje používateľa",
@@ -465,7 +515,7 @@ export default function WeeklyClosings() {
       if (group.closingId) {
         const { data: existingInvoice } = await supabase
           .from("invoices")
-          .select("id, invoice_number, issue_date, delivery_date, due_date, total_hours, hourly_rate, subtotal, vat_amount, total_amount, advance_deduction, accommodation_deduction, is_reverse_charge")
+          .select(`id, invoice_number, issue_date, delivery_date, due_date, total_hours, hourly_rate, subtotal, vat_amount, total_amount, advance_deduction, sanctions_deduction, accommodation_deduction, is_reverse_charge, supplier_snapshot, ${INVOICE_ARCHIVE_COLUMNS}, invoice_lines(${INVOICE_LINE_COLUMNS}), companies(${COMPANY_COLUMNS})`)
           .eq("week_closing_id", group.closingId)
           .eq("user_id", user!.id)
           .is("deleted_at", null)
@@ -473,38 +523,35 @@ export default function WeeklyClosings() {
           .maybeSingle();
 
         if (existingInvoice) {
-          // Invoice exists — just regenerate PDF from DB data (no INSERT)
+          // Invoice exists — download the archived PDF (no INSERT); invoices
+          // issued before the archive are rendered from DB data once
           const projectNames = [...new Set(group.records.map((r) => r.projects?.name).filter(Boolean))];
           const projectName = projectNames.join(", ") || "Projekt";
 
-          await generateInvoicePDF({
-            supplierName: userProfile.full_name,
-            supplierCompany: userProfile.company_name,
-            supplierAddress: userProfile.billing_address,
-            supplierIco: userProfile.ico,
-            supplierDic: userProfile.dic,
-            supplierIban: userProfile.iban,
-            supplierSwiftBic: userProfile.swift_bic,
-            signatureUrl: userProfile.signature_url,
+          await downloadInvoicePdf(existingInvoice, async () => ({
+            ...supplierInvoiceData(
+              requireInvoiceSupplier(existingInvoice.supplier_snapshot, existingInvoice.invoice_number)
+            ),
             hourlyRate: existingInvoice.hourly_rate,
-            isVatPayer: userProfile.is_vat_payer ?? false,
-            vatNumber: userProfile.vat_number,
             isReverseCharge: existingInvoice.is_reverse_charge,
             projectName,
             calendarWeek: group.week,
             year: group.year,
             totalHours: existingInvoice.total_hours,
+            ...fromInvoiceLineRows(existingInvoice.invoice_lines),
             invoiceNumber: existingInvoice.invoice_number,
             odberatelId: existingInvoice.id,
             advanceDeduction: existingInvoice.advance_deduction ?? 0,
+            sanctionsDeduction: existingInvoice.sanctions_deduction,
             historicalIssueDate: existingInvoice.issue_date,
             historicalDeliveryDate: existingInvoice.delivery_date,
             historicalDueDate: existingInvoice.due_date,
-          });
+            customer: companyCustomerParty(existingInvoice.companies),
+          }));
 
           toast({
             title: "PDF stiahnuté",
-            description: `Faktúra ${existingInvoice.invoice_number} bola znovu vygenerovaná.`,
+            description: `Faktúra ${existingInvoice.invoice_number} bola stiahnutá z archívu.`,
           });
           setGeneratingKey(null);
           return;
@@ -540,7 +587,7 @@ export default function WeeklyClosings() {
       });
 
       if (result.success) {
-        await fetchData();
+        await Promise.all([fetchData(), outstanding.refetch()]);
       }
     } catch (error: any) {
       toast({
@@ -568,6 +615,8 @@ export default function WeeklyClosings() {
         <p className="text-muted-foreground text-sm md:text-base">Prehľad a odoslanie vašich výkonov po týždňoch</p>
       </div>
 
+      <OutstandingDeductionsCard deductions={outstanding.deductions} total={outstanding.total} />
+
       {weekGroups.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
@@ -880,6 +929,40 @@ export default function WeeklyClosings() {
         </div>
       )}
 
+      {/* Timesheet rule violations before submitting a week */}
+      <AlertDialog open={!!validationReview} onOpenChange={(open) => !open && setValidationReview(null)}>
+        <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {validationReview && hasBlockingViolation(validationReview.violations)
+                ? "Týždeň nie je možné odoslať"
+                : "Kontrola výkazu"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {validationReview && hasBlockingViolation(validationReview.violations)
+                ? "Opravte záznamy označené ako blokujúce a odošlite týždeň znova."
+                : "Výkaz obsahuje upozornenia. Schvaľovateľ ich uvidí spolu s týždňom."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {validationReview && <ValidationIssuesList violations={validationReview.violations} />}
+          <AlertDialogFooter>
+            <AlertDialogCancel>
+              {validationReview && hasBlockingViolation(validationReview.violations) ? "Zavrieť" : "Zrušiť"}
+            </AlertDialogCancel>
+            {validationReview && !hasBlockingViolation(validationReview.violations) && (
+              <AlertDialogAction
+                onClick={() => {
+                  submitWeek(validationReview.group);
+                  setValidationReview(null);
+                }}
+              >
+                Odoslať napriek upozorneniam
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={!!deleteRecordId} onOpenChange={(open) => !open && setDeleteRecordId(null)}>
         <AlertDialogContent>
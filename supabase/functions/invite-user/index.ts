@@ -73,12 +73,18 @@ Deno.serve(async (req) => {
     const validRoles = ["monter", "manager", "admin", "accountant", "director"];
     const assignRole = validRoles.includes(role) ? role : "monter";
 
+    // New users join the company the inviting admin currently works in
+    const { data: companyId, error: companyError } = await callerClient.rpc("current_company_id");
+    if (companyError) throw companyError;
+
     // Create the auth user with service role (bypasses signup restrictions)
     const { data: newUser, error: createError } = await adminClient.auth.admin.createUser({
       email,
       password: temporary_password,
       email_confirm: true,
       user_metadata: { full_name },
+      // Only the service role can set app metadata; handle_new_user reads the company from it
+      app_metadata: { company_id: companyId },
     });
 
     if (createError) {
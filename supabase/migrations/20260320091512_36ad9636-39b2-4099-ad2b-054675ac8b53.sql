@@ -0,0 +1,102 @@
+
+-- Named invoice number series (replaces the hard-coded 7-digit / 8-digit split)
+CREATE TABLE public.invoice_series (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  padding integer NOT NULL DEFAULT 3 CHECK (padding BETWEEN 1 AND 8),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.invoice_series (code, name, padding) VALUES
+  ('standard', 'Štandardná séria (YYYYNNN)', 3),
+  ('retainer', 'Paušálna séria (YYYYNNNN)', 4);
+
+ALTER TABLE public.invoice_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view invoice series"
+ON public.invoice_series FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and directors can manage invoice series"
+ON public.invoice_series FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+-- Per-supplier counters, one row per user + year + series
+CREATE TABLE public.invoice_sequences (
+  user_id uuid NOT NULL,
+  year integer NOT NULL CHECK (year >= 2020 AND year <= 2100),
+  series text NOT NULL REFERENCES public.invoice_series(code) ON UPDATE CASCADE,
+  last_value integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, year, series)
+);
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Counters are only advanced through next_invoice_number(); direct access is read-only
+CREATE POLICY "Admins and directors can view invoice sequences"
+ON public.invoice_sequences FOR SELECT
+TO authenticated
+USING (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Users can view own invoice sequences"
+ON public.invoice_sequences FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Seed counters from invoices issued before the sequence table existed
+INSERT INTO public.invoice_sequences (user_id, year, series, last_value)
+SELECT
+  user_id,
+  left(invoice_number, 4)::integer,
+  CASE WHEN length(invoice_number) = 8 THEN 'retainer' ELSE 'standard' END,
+  MAX(substring(invoice_number FROM 5)::integer)
+FROM public.invoices
+WHERE invoice_number ~ '^20[0-9]{5,6}$'
+GROUP BY user_id, left(invoice_number, 4), length(invoice_number)
+ON CONFLICT (user_id, year, series) DO NOTHING;
+
+-- Atomically hand out the next invoice number for a supplier
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_user_id uuid, p_year integer, p_series text DEFAULT 'standard')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_padding integer;
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL
+     OR (auth.uid() <> p_user_id AND NOT is_admin_or_director(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to allocate invoice numbers for this user';
+  END IF;
+
+  SELECT padding INTO v_padding
+  FROM invoice_series
+  WHERE code = p_series;
+
+  IF v_padding IS NULL THEN
+    RAISE EXCEPTION 'Unknown invoice series: %', p_series;
+  END IF;
+
+  -- Row lock on conflict serialises concurrent callers for the same counter
+  INSERT INTO invoice_sequences (user_id, year, series, last_value)
+  VALUES (p_user_id, p_year, p_series, 1)
+  ON CONFLICT (user_id, year, series)
+  DO UPDATE SET last_value = invoice_sequences.last_value + 1,
+                updated_at = now()
+  RETURNING last_value INTO v_next;
+
+  -- lpad() truncates, so never shorten a counter that outgrew its padding
+  IF length(v_next::text) >= v_padding THEN
+    RETURN p_year::text || v_next::text;
+  END IF;
+
+  RETURN p_year::text || lpad(v_next::text, v_padding, '0');
+END;
+$$;
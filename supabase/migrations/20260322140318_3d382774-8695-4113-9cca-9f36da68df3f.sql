@@ -0,0 +1,73 @@
+
+-- How a supplier is invoiced (replaces recognising special users by name)
+CREATE TYPE public.billing_mode AS ENUM ('hourly', 'fixed_retainer', 'fixed_wage');
+
+CREATE TABLE public.billing_profiles (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL UNIQUE REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  mode public.billing_mode NOT NULL DEFAULT 'hourly',
+  retainer_hours numeric,
+  retainer_amount numeric,
+  due_days integer NOT NULL DEFAULT 21,
+  invoice_series text NOT NULL DEFAULT 'standard' REFERENCES public.invoice_series(code) ON UPDATE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.billing_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage billing profiles"
+ON public.billing_profiles FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view billing profiles"
+ON public.billing_profiles FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE POLICY "Users can view own billing profile"
+ON public.billing_profiles FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.validate_billing_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.due_days < 0 OR NEW.due_days > 180 THEN
+    RAISE EXCEPTION 'due_days must be between 0 and 180';
+  END IF;
+
+  IF NEW.mode = 'fixed_retainer'
+     AND (COALESCE(NEW.retainer_hours, 0) <= 0 OR COALESCE(NEW.retainer_amount, 0) <= 0) THEN
+    RAISE EXCEPTION 'Fixed retainer requires positive retainer_hours and retainer_amount';
+  END IF;
+
+  IF NEW.mode = 'fixed_wage' AND COALESCE(NEW.retainer_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Fixed wage requires a positive retainer_amount';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_billing_profile_trigger
+BEFORE INSERT OR UPDATE ON public.billing_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_billing_profile();
+
+CREATE TRIGGER update_billing_profiles_updated_at
+BEFORE UPDATE ON public.billing_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Carry over the one retainer contract that used to be hard-coded in the client
+INSERT INTO public.billing_profiles (user_id, mode, retainer_hours, retainer_amount, due_days, invoice_series)
+SELECT user_id, 'fixed_retainer', 50, 1000, 7, 'retainer'
+FROM public.profiles
+WHERE full_name = 'Ing. Viktor Dolhý'
+ON CONFLICT (user_id) DO NOTHING;
@@ -0,0 +1,143 @@
+
+-- Series can carry a prefix so non-invoice documents get distinguishable numbers
+ALTER TABLE public.invoice_series ADD COLUMN prefix text NOT NULL DEFAULT '';
+
+INSERT INTO public.invoice_series (code, name, padding, prefix) VALUES
+  ('credit_note', 'Dobropisy (DBYYYYNNN)', 3, 'DB');
+
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_user_id uuid, p_year integer, p_series text DEFAULT 'standard')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_padding integer;
+  v_prefix text;
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL
+     OR (auth.uid() <> p_user_id AND NOT is_admin_or_director(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to allocate invoice numbers for this user';
+  END IF;
+
+  SELECT padding, prefix INTO v_padding, v_prefix
+  FROM invoice_series
+  WHERE code = p_series;
+
+  IF v_padding IS NULL THEN
+    RAISE EXCEPTION 'Unknown invoice series: %', p_series;
+  END IF;
+
+  -- Row lock on conflict serialises concurrent callers for the same counter
+  INSERT INTO invoice_sequences (user_id, year, series, last_value)
+  VALUES (p_user_id, p_year, p_series, 1)
+  ON CONFLICT (user_id, year, series)
+  DO UPDATE SET last_value = invoice_sequences.last_value + 1,
+                updated_at = now()
+  RETURNING last_value INTO v_next;
+
+  -- lpad() truncates, so never shorten a counter that outgrew its padding
+  IF length(v_next::text) >= v_padding THEN
+    RETURN v_prefix || p_year::text || v_next::text;
+  END IF;
+
+  RETURN v_prefix || p_year::text || lpad(v_next::text, v_padding, '0');
+END;
+$$;
+
+-- Credit notes (dobropisy) reversing all or part of an issued invoice
+CREATE TABLE public.credit_notes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_number text NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  user_id uuid NOT NULL,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  reason text NOT NULL,
+  subtotal numeric NOT NULL,
+  vat_amount numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT credit_notes_user_id_credit_note_number_key UNIQUE (user_id, credit_note_number)
+);
+
+CREATE INDEX idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage credit notes"
+ON public.credit_notes FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view credit notes"
+ON public.credit_notes FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE POLICY "Users can view own credit notes"
+ON public.credit_notes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Amounts are stored positive; the credited total may never exceed the invoice
+CREATE OR REPLACE FUNCTION public.validate_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice record;
+  v_credited_subtotal numeric;
+  v_credited_vat numeric;
+BEGIN
+  SELECT user_id, subtotal, vat_amount INTO v_invoice
+  FROM invoices
+  WHERE id = NEW.invoice_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % does not exist', NEW.invoice_id;
+  END IF;
+
+  NEW.user_id := v_invoice.user_id;
+
+  IF NEW.subtotal <= 0 OR NEW.vat_amount < 0 THEN
+    RAISE EXCEPTION 'Credit note amounts must be positive';
+  END IF;
+
+  IF length(trim(NEW.reason)) = 0 THEN
+    RAISE EXCEPTION 'Credit note reason is required';
+  END IF;
+
+  NEW.total_amount := NEW.subtotal + NEW.vat_amount;
+
+  SELECT COALESCE(SUM(subtotal), 0), COALESCE(SUM(vat_amount), 0)
+  INTO v_credited_subtotal, v_credited_vat
+  FROM credit_notes
+  WHERE invoice_id = NEW.invoice_id
+    AND id <> NEW.id;
+
+  IF v_credited_subtotal + NEW.subtotal > COALESCE(v_invoice.subtotal, 0) THEN
+    RAISE EXCEPTION 'Credited subtotal exceeds the invoice subtotal';
+  END IF;
+
+  IF v_credited_vat + NEW.vat_amount > COALESCE(v_invoice.vat_amount, 0) THEN
+    RAISE EXCEPTION 'Credited VAT exceeds the invoice VAT amount';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_credit_note_trigger
+BEFORE INSERT OR UPDATE ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_credit_note();
+
+CREATE TRIGGER update_credit_notes_updated_at
+BEFORE UPDATE ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
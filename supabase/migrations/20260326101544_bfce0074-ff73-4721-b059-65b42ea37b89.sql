@@ -0,0 +1,140 @@
+
+-- SEPA payment batches (pain.001.001.03) for paying supplier invoices in bulk
+CREATE TYPE public.payment_batch_status AS ENUM ('exported', 'executed', 'cancelled');
+
+CREATE TABLE public.payment_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id text NOT NULL UNIQUE,
+  status public.payment_batch_status NOT NULL DEFAULT 'exported',
+  requested_execution_date date NOT NULL,
+  debtor_name text NOT NULL,
+  debtor_iban text NOT NULL,
+  debtor_bic text,
+  total_amount numeric NOT NULL DEFAULT 0,
+  item_count integer NOT NULL DEFAULT 0,
+  created_by uuid,
+  executed_at timestamp with time zone,
+  executed_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.payment_batch_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id uuid NOT NULL REFERENCES public.payment_batches(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  amount numeric NOT NULL CHECK (amount > 0),
+  creditor_name text NOT NULL,
+  creditor_iban text NOT NULL,
+  creditor_bic text,
+  remittance_info text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_batch_items_batch_id_invoice_id_key UNIQUE (batch_id, invoice_id)
+);
+
+CREATE INDEX idx_payment_batch_items_invoice_id ON public.payment_batch_items(invoice_id);
+
+ALTER TABLE public.payment_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage payment batches"
+ON public.payment_batches FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can manage payment batches"
+ON public.payment_batches FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role))
+WITH CHECK (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE POLICY "Admins and directors can manage payment batch items"
+ON public.payment_batch_items FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can manage payment batch items"
+ON public.payment_batch_items FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role))
+WITH CHECK (has_role(auth.uid(), 'accountant'::app_role));
+
+-- An invoice may only sit in one open (not cancelled) batch at a time
+CREATE OR REPLACE FUNCTION public.validate_payment_batch_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM payment_batch_items i
+    JOIN payment_batches b ON b.id = i.batch_id
+    WHERE i.invoice_id = NEW.invoice_id
+      AND i.id <> NEW.id
+      AND b.status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'Invoice % is already part of another payment batch', NEW.invoice_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoices WHERE id = NEW.invoice_id AND status IN ('paid', 'void')) THEN
+    RAISE EXCEPTION 'Invoice % is already paid or void', NEW.invoice_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payment_batch_item_trigger
+BEFORE INSERT OR UPDATE ON public.payment_batch_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_payment_batch_item();
+
+CREATE TRIGGER update_payment_batches_updated_at
+BEFORE UPDATE ON public.payment_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mark every invoice of an exported batch as paid in one transaction
+CREATE OR REPLACE FUNCTION public.mark_payment_batch_executed(p_batch_id uuid, p_paid_at timestamp with time zone DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_status payment_batch_status;
+  v_count integer;
+BEGIN
+  IF NOT (is_admin_or_director(auth.uid()) OR has_role(auth.uid(), 'accountant'::app_role)) THEN
+    RAISE EXCEPTION 'Not allowed to execute payment batches';
+  END IF;
+
+  SELECT status INTO v_status
+  FROM payment_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Payment batch % does not exist', p_batch_id;
+  END IF;
+
+  IF v_status <> 'exported' THEN
+    RAISE EXCEPTION 'Payment batch % is already %', p_batch_id, v_status;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'paid', paid_at = p_paid_at
+  WHERE id IN (SELECT invoice_id FROM payment_batch_items WHERE batch_id = p_batch_id)
+    AND status <> 'void';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE payment_batches
+  SET status = 'executed', executed_at = p_paid_at, executed_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN v_count;
+END;
+$$;
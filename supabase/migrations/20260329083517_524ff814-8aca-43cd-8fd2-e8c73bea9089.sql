@@ -0,0 +1,156 @@
+-- Recurring rent obligations for accommodations, generated from
+-- payment_frequency / next_payment_date and settled by an admin
+CREATE TYPE public.accommodation_payment_status AS ENUM ('pending', 'paid');
+
+CREATE TABLE public.accommodation_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  accommodation_id uuid NOT NULL REFERENCES public.accommodations(id) ON DELETE CASCADE,
+  due_date date NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  status public.accommodation_payment_status NOT NULL DEFAULT 'pending',
+  paid_at timestamp with time zone,
+  paid_by uuid,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT accommodation_payments_accommodation_id_due_date_key UNIQUE (accommodation_id, due_date)
+);
+
+CREATE INDEX idx_accommodation_payments_status_due_date ON public.accommodation_payments(status, due_date);
+
+ALTER TABLE public.accommodation_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage accommodation payments"
+ON public.accommodation_payments FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view accommodation payments"
+ON public.accommodation_payments FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE TRIGGER update_accommodation_payments_updated_at
+BEFORE UPDATE ON public.accommodation_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Due date following p_date for the given payment_frequency (weekly is the default)
+CREATE OR REPLACE FUNCTION public.next_accommodation_payment_date(p_date date, p_frequency text)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'monthly' THEN (p_date + interval '1 month')::date
+    WHEN 'biweekly' THEN p_date + 14
+    ELSE p_date + 7
+  END;
+$$;
+
+-- Create the pending obligations falling due within the horizon.
+-- The rent is company_price (what the company actually pays) or price_total.
+CREATE OR REPLACE FUNCTION public.generate_accommodation_payments(p_horizon_days integer DEFAULT 31)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_acc record;
+  v_due date;
+  v_next date;
+  v_amount numeric;
+  v_created integer := 0;
+  v_inserted integer;
+BEGIN
+  IF NOT is_admin_or_director(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to generate accommodation payments';
+  END IF;
+
+  FOR v_acc IN
+    SELECT a.id, a.payment_frequency, a.next_payment_date,
+           COALESCE(NULLIF(a.company_price, 0), a.price_total, 0) AS rent,
+           (SELECT max(p.due_date) FROM accommodation_payments p WHERE p.accommodation_id = a.id) AS last_due
+    FROM accommodations a
+    WHERE a.deleted_at IS NULL
+      AND a.is_active
+      AND a.payment_frequency IS NOT NULL
+      AND a.next_payment_date IS NOT NULL
+  LOOP
+    v_amount := v_acc.rent;
+    CONTINUE WHEN v_amount <= 0;
+
+    v_due := CASE
+      WHEN v_acc.last_due IS NULL THEN v_acc.next_payment_date
+      ELSE next_accommodation_payment_date(v_acc.last_due, v_acc.payment_frequency)
+    END;
+
+    WHILE v_due <= current_date + p_horizon_days LOOP
+      v_next := next_accommodation_payment_date(v_due, v_acc.payment_frequency);
+
+      INSERT INTO accommodation_payments (accommodation_id, due_date, period_start, period_end, amount)
+      VALUES (v_acc.id, v_due, v_due, v_next - 1, v_amount)
+      ON CONFLICT (accommodation_id, due_date) DO NOTHING;
+      GET DIAGNOSTICS v_inserted = ROW_COUNT;
+      v_created := v_created + v_inserted;
+
+      v_due := v_next;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Settle an obligation and move the accommodation's next_payment_date to the
+-- earliest one still open (or past the settled period when none is left)
+CREATE OR REPLACE FUNCTION public.mark_accommodation_payment_paid(p_payment_id uuid, p_paid_at timestamp with time zone DEFAULT now())
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment accommodation_payments%ROWTYPE;
+  v_next date;
+BEGIN
+  IF NOT is_admin_or_director(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to settle accommodation payments';
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM accommodation_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Accommodation payment % does not exist', p_payment_id;
+  END IF;
+
+  IF v_payment.status = 'paid' THEN
+    RAISE EXCEPTION 'Accommodation payment % is already paid', p_payment_id;
+  END IF;
+
+  UPDATE accommodation_payments
+  SET status = 'paid', paid_at = p_paid_at, paid_by = auth.uid()
+  WHERE id = p_payment_id;
+
+  SELECT COALESCE(
+    (SELECT min(due_date) FROM accommodation_payments
+     WHERE accommodation_id = v_payment.accommodation_id AND status = 'pending'),
+    (SELECT max(period_end) + 1 FROM accommodation_payments
+     WHERE accommodation_id = v_payment.accommodation_id)
+  ) INTO v_next;
+
+  UPDATE accommodations
+  SET next_payment_date = v_next
+  WHERE id = v_payment.accommodation_id;
+
+  RETURN v_next;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Project site coordinates, used to suggest nearby accommodation with free beds
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS lat numeric,
+  ADD COLUMN IF NOT EXISTS lng numeric;
+
+CREATE INDEX IF NOT EXISTS idx_accommodation_assignments_stay
+  ON public.accommodation_assignments(accommodation_id, check_in, check_out)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,38 @@
+-- Admin-set accommodation deduction for a worker's week. When present it
+-- replaces the deduction computed from performance_records on the invoice.
+CREATE TABLE public.accommodation_deduction_overrides (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  year integer NOT NULL,
+  calendar_week integer NOT NULL CHECK (calendar_week BETWEEN 1 AND 53),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  reason text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT accommodation_deduction_overrides_user_week_key UNIQUE (user_id, year, calendar_week)
+);
+
+ALTER TABLE public.accommodation_deduction_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage accommodation deduction overrides"
+ON public.accommodation_deduction_overrides FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+-- Workers generate their own invoices and need to read the override
+CREATE POLICY "Users can view own accommodation deduction overrides"
+ON public.accommodation_deduction_overrides FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Accountants can view accommodation deduction overrides"
+ON public.accommodation_deduction_overrides FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE TRIGGER update_accommodation_deduction_overrides_updated_at
+BEFORE UPDATE ON public.accommodation_deduction_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,97 @@
+-- Generic audit trail for financial and approval data. Rows are written only
+-- by the audit_row_change() trigger; nobody can edit or delete them.
+CREATE TABLE public.audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name text NOT NULL,
+  record_id uuid,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  changed_by uuid,
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[]
+);
+
+CREATE INDEX idx_audit_log_changed_at ON public.audit_log(changed_at DESC);
+CREATE INDEX idx_audit_log_table_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_changed_by ON public.audit_log(changed_by);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can view audit log"
+ON public.audit_log FOR SELECT
+TO authenticated
+USING (is_admin_or_director(auth.uid()));
+
+-- Record the old and new row. Updates that only touch updated_at are skipped.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_changed text[];
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    IF v_changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, changed_by, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(v_new, v_old) ->> 'id')::uuid,
+    TG_OP,
+    auth.uid(),
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_invoices
+AFTER INSERT OR UPDATE OR DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_weekly_closings
+AFTER INSERT OR UPDATE OR DELETE ON public.weekly_closings
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_performance_records
+AFTER INSERT OR UPDATE OR DELETE ON public.performance_records
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_sanctions
+AFTER INSERT OR UPDATE OR DELETE ON public.sanctions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_advances
+AFTER INSERT OR UPDATE OR DELETE ON public.advances
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_rate_history
+AFTER INSERT OR UPDATE OR DELETE ON public.rate_history
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_user_roles
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
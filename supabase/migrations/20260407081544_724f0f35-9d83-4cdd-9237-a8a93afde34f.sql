@@ -0,0 +1,58 @@
+-- Geofence of a project site: lat/lng (added with the occupancy planner) plus a radius
+ALTER TABLE public.projects
+  ADD COLUMN geofence_radius_m integer CHECK (geofence_radius_m > 0);
+
+-- A shift clocked in/out on site. The open shift (ended_at IS NULL) lives here;
+-- ending it creates the performance_records row it points to.
+CREATE TABLE public.shift_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  project_id uuid NOT NULL REFERENCES public.projects(id),
+  accommodation_id uuid REFERENCES public.accommodations(id),
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  start_lat numeric,
+  start_lng numeric,
+  start_accuracy_m numeric,
+  -- Distance from the project's geofence centre; NULL when the project has no fence or no location was given
+  start_distance_m numeric,
+  ended_at timestamp with time zone,
+  end_lat numeric,
+  end_lng numeric,
+  end_accuracy_m numeric,
+  end_distance_m numeric,
+  outside_geofence boolean NOT NULL DEFAULT false,
+  performance_record_id uuid REFERENCES public.performance_records(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_shift_sessions_one_open_per_user ON public.shift_sessions(user_id) WHERE ended_at IS NULL;
+
+ALTER TABLE public.shift_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own shift sessions"
+ON public.shift_sessions FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins and directors can manage shift sessions"
+ON public.shift_sessions FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Managers can view shift sessions"
+ON public.shift_sessions FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_shift_sessions_updated_at
+BEFORE UPDATE ON public.shift_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Flag for the approver: the record came from a shift clocked outside the fence
+ALTER TABLE public.performance_records
+  ADD COLUMN shift_session_id uuid REFERENCES public.shift_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN outside_geofence boolean NOT NULL DEFAULT false;
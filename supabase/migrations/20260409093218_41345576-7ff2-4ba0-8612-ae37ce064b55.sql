@@ -0,0 +1,42 @@
+-- Timesheet validation rules configured per project. Projects without a row for
+-- a rule use the application defaults (see src/lib/timesheetRules.ts).
+CREATE TABLE public.project_validation_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  rule text NOT NULL CHECK (rule IN (
+    'max_daily_hours',
+    'break_after_6h',
+    'overlapping_entries',
+    'sunday_holiday',
+    'above_standard_hours',
+    'missing_days'
+  )),
+  enabled boolean NOT NULL DEFAULT true,
+  severity text NOT NULL DEFAULT 'warn' CHECK (severity IN ('warn', 'block')),
+  -- Rule parameter, e.g. the hour limit for max_daily_hours; NULL uses the default
+  threshold numeric,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (project_id, rule)
+);
+
+ALTER TABLE public.project_validation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view validation rules"
+ON public.project_validation_rules FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and directors can manage validation rules"
+ON public.project_validation_rules FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE TRIGGER update_project_validation_rules_updated_at
+BEFORE UPDATE ON public.project_validation_rules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Violations the worker acknowledged when submitting the week, shown to the approver
+ALTER TABLE public.weekly_closings
+  ADD COLUMN validation_issues jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Public holiday calendar of a project site: country plus German/Austrian federal state
+-- (see src/lib/holidays.ts for the codes). Existing projects keep the Slovak calendar.
+ALTER TABLE public.projects
+  ADD COLUMN holiday_country text NOT NULL DEFAULT 'SK' CHECK (holiday_country IN ('SK', 'DE', 'AT')),
+  ADD COLUMN holiday_region text;
@@ -0,0 +1,48 @@
+-- Surcharges the client pays on top of the hourly rate (weekend, night, overtime)
+-- and that are passed on to subcontractors as separate invoice lines.
+-- Evaluated against performance_records in src/lib/surcharges.ts.
+CREATE TABLE public.project_surcharge_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- ISO weekdays (1 = Monday … 7 = Sunday); empty matches every day
+  weekdays smallint[] NOT NULL DEFAULT '{}',
+  -- Also match public holidays of the project's holiday calendar
+  include_holidays boolean NOT NULL DEFAULT false,
+  -- Time window of the day; a window ending before it starts runs past midnight
+  time_from time,
+  time_to time,
+  -- Only hours above this weekly total qualify (overtime)
+  weekly_threshold_hours numeric CHECK (weekly_threshold_hours IS NULL OR weekly_threshold_hours >= 0),
+  -- multiplier: value × hourly rate (1.25 adds 25 %), fixed: value EUR per hour
+  kind text NOT NULL DEFAULT 'multiplier' CHECK (kind IN ('multiplier', 'fixed')),
+  value numeric NOT NULL CHECK (value >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((time_from IS NULL) = (time_to IS NULL))
+);
+
+CREATE INDEX idx_project_surcharge_rules_project ON public.project_surcharge_rules(project_id);
+
+ALTER TABLE public.project_surcharge_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view surcharge rules"
+ON public.project_surcharge_rules FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and directors can manage surcharge rules"
+ON public.project_surcharge_rules FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE TRIGGER update_project_surcharge_rules_updated_at
+BEFORE UPDATE ON public.project_surcharge_rules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Surcharge lines billed on the invoice; subtotal already includes surcharge_amount
+ALTER TABLE public.invoices
+  ADD COLUMN surcharge_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN surcharge_lines jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,75 @@
+-- Invoice line items. A worker who moves between sites mid-week gets one work
+-- line per project, followed by the project surcharge lines, so revenue and cost
+-- can be attributed to the right project. invoices.project_id keeps the project
+-- with the most hours.
+CREATE TABLE public.invoice_lines (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  kind text NOT NULL DEFAULT 'work' CHECK (kind IN ('work', 'surcharge')),
+  project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 0,
+  unit_price numeric NOT NULL DEFAULT 0,
+  amount numeric NOT NULL DEFAULT 0,
+  -- Surcharge rule the line was billed from (kind = 'surcharge')
+  surcharge_rule_id uuid REFERENCES public.project_surcharge_rules(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, position)
+);
+
+CREATE INDEX idx_invoice_lines_project ON public.invoice_lines(project_id);
+
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+
+-- Visibility follows the invoice: the subquery is itself subject to the invoices policies
+CREATE POLICY "Users can view lines of visible invoices"
+ON public.invoice_lines FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id));
+
+CREATE POLICY "Users can insert lines of own invoices"
+ON public.invoice_lines FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid()));
+
+CREATE POLICY "Admins and directors can manage invoice lines"
+ON public.invoice_lines FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE TRIGGER audit_invoice_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Existing invoices: one work line for the invoice's project ...
+INSERT INTO public.invoice_lines (invoice_id, position, kind, project_id, description, quantity, unit_price, amount)
+SELECT
+  i.id,
+  1,
+  'work',
+  i.project_id,
+  COALESCE(p.name, 'Práca'),
+  COALESCE(i.total_hours, 0),
+  COALESCE(i.hourly_rate, 0),
+  COALESCE(i.subtotal, 0) - COALESCE(i.surcharge_amount, 0)
+FROM public.invoices i
+LEFT JOIN public.projects p ON p.id = i.project_id;
+
+-- ... followed by the surcharge lines stored on the invoice so far
+INSERT INTO public.invoice_lines (invoice_id, position, kind, project_id, description, quantity, unit_price, amount, surcharge_rule_id)
+SELECT
+  i.id,
+  1 + s.ordinality::integer,
+  'surcharge',
+  (SELECT p.id FROM public.projects p WHERE p.id::text = s.line ->> 'projectId'),
+  s.line ->> 'label',
+  COALESCE((s.line ->> 'hours')::numeric, 0),
+  COALESCE((s.line ->> 'ratePerHour')::numeric, 0),
+  COALESCE((s.line ->> 'amount')::numeric, 0),
+  (SELECT r.id FROM public.project_surcharge_rules r WHERE r.id::text = s.line ->> 'ruleId')
+FROM public.invoices i
+CROSS JOIN LATERAL jsonb_array_elements(i.surcharge_lines) WITH ORDINALITY AS s(line, ordinality);
+
+ALTER TABLE public.invoices DROP COLUMN surcharge_lines;
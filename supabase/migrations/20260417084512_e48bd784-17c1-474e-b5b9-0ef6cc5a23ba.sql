@@ -0,0 +1,6 @@
+-- Date-aware pricing: work lines are split by project and by the rate effective
+-- on each record's date, so a rate change inside an invoiced week shows up as
+-- separate lines. The period says which days a line covers.
+ALTER TABLE public.invoice_lines
+  ADD COLUMN period_from date,
+  ADD COLUMN period_to date;
@@ -0,0 +1,185 @@
+-- Client billing: TKJD invoices its clients (the general contractors behind
+-- projects.client) for the approved hours of their projects, at a client rate
+-- per project. Subcontractor invoices (invoices) stay as they are.
+CREATE TABLE public.clients (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  address text,
+  country text,
+  ico text,
+  dic text,
+  vat_number text,
+  email text,
+  payment_terms_days integer NOT NULL DEFAULT 30 CHECK (payment_terms_days BETWEEN 0 AND 365),
+  -- EU clients outside Slovakia: no VAT, "prenesenie daňovej povinnosti"
+  is_reverse_charge boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage clients"
+ON public.clients FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view clients"
+ON public.clients FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE TRIGGER update_clients_updated_at
+BEFORE UPDATE ON public.clients
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_clients
+AFTER INSERT OR UPDATE OR DELETE ON public.clients
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Projects point at their client; projects.client keeps the name for existing screens
+ALTER TABLE public.projects
+  ADD COLUMN client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  ADD COLUMN client_hourly_rate numeric CHECK (client_hourly_rate IS NULL OR client_hourly_rate >= 0);
+
+INSERT INTO public.clients (name)
+SELECT DISTINCT trim(client)
+FROM public.projects
+WHERE deleted_at IS NULL
+  AND trim(client) NOT IN ('', 'N/A')
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.projects p
+SET client_id = c.id
+FROM public.clients c
+WHERE c.name = trim(p.client);
+
+-- Outgoing invoices to clients
+CREATE TABLE public.client_invoices (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number text NOT NULL UNIQUE,
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE RESTRICT,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE RESTRICT,
+  -- Billed weeks, Monday of the first to Sunday of the last
+  period_from date NOT NULL,
+  period_to date NOT NULL,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  delivery_date date NOT NULL,
+  due_date date NOT NULL,
+  total_hours numeric NOT NULL DEFAULT 0,
+  hourly_rate numeric NOT NULL DEFAULT 0,
+  subtotal numeric NOT NULL DEFAULT 0,
+  vat_amount numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL DEFAULT 0,
+  is_reverse_charge boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid', 'void')),
+  paid_at timestamp with time zone,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (period_to >= period_from)
+);
+
+CREATE INDEX idx_client_invoices_project ON public.client_invoices(project_id, period_from);
+
+CREATE TABLE public.client_invoice_lines (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_invoice_id uuid NOT NULL REFERENCES public.client_invoices(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  kind text NOT NULL DEFAULT 'work' CHECK (kind IN ('work', 'surcharge')),
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 0,
+  unit_price numeric NOT NULL DEFAULT 0,
+  amount numeric NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (client_invoice_id, position)
+);
+
+ALTER TABLE public.client_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and directors can manage client invoices"
+ON public.client_invoices FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view client invoices"
+ON public.client_invoices FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+CREATE POLICY "Admins and directors can manage client invoice lines"
+ON public.client_invoice_lines FOR ALL
+TO authenticated
+USING (is_admin_or_director(auth.uid()))
+WITH CHECK (is_admin_or_director(auth.uid()));
+
+CREATE POLICY "Accountants can view client invoice lines"
+ON public.client_invoice_lines FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'accountant'::app_role));
+
+-- A project week is billed to the client once; voided invoices free their weeks again
+CREATE OR REPLACE FUNCTION public.validate_client_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status <> 'void' AND EXISTS (
+    SELECT 1 FROM client_invoices
+    WHERE project_id = NEW.project_id
+      AND id <> NEW.id
+      AND status <> 'void'
+      AND period_from <= NEW.period_to
+      AND period_to >= NEW.period_from
+  ) THEN
+    RAISE EXCEPTION 'Project is already billed to the client for part of this period';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_client_invoice_trigger
+BEFORE INSERT OR UPDATE ON public.client_invoices
+FOR EACH ROW EXECUTE FUNCTION public.validate_client_invoice();
+
+CREATE TRIGGER update_client_invoices_updated_at
+BEFORE UPDATE ON public.client_invoices
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_client_invoices
+AFTER INSERT OR UPDATE OR DELETE ON public.client_invoices
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Client invoices are numbered by the company, not by a supplier: the counter
+-- lives in invoice_sequences under the nil uuid
+INSERT INTO public.invoice_series (code, name, padding, prefix) VALUES
+  ('client', 'Odberateľské faktúry (VFYYYYNNNN)', 4, 'VF');
+
+CREATE OR REPLACE FUNCTION public.next_client_invoice_number(p_year integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin_or_director(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to allocate client invoice numbers';
+  END IF;
+
+  INSERT INTO invoice_sequences (user_id, year, series, last_value)
+  VALUES ('00000000-0000-0000-0000-000000000000', p_year, 'client', 1)
+  ON CONFLICT (user_id, year, series)
+  DO UPDATE SET last_value = invoice_sequences.last_value + 1,
+                updated_at = now()
+  RETURNING last_value INTO v_next;
+
+  RETURN 'VF' || p_year::text || lpad(v_next::text, greatest(4, length(v_next::text)), '0');
+END;
+$$;
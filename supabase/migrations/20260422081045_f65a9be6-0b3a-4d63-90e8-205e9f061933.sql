@@ -0,0 +1,357 @@
+-- Multi-company: the legal entity that receives the subcontractor invoices,
+-- bills the clients and pays the SEPA batches is no longer hard-coded TKJD.
+-- Every user works in one company at a time; RLS scopes the data to it.
+CREATE TABLE public.companies (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  street text NOT NULL DEFAULT '',
+  country text NOT NULL DEFAULT 'Slovenská Republika',
+  ico text,
+  dic text,
+  vat_number text,
+  iban text,
+  swift_bic text,
+  -- Paths in the company-assets bucket
+  logo_path text,
+  signature_path text,
+  -- Fallback for users created without a company; exactly one
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX companies_single_default ON public.companies (is_default) WHERE is_default;
+
+-- Which companies a user may switch into (directors running several companies)
+CREATE TABLE public.company_memberships (
+  user_id uuid NOT NULL,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, company_id)
+);
+
+ALTER TABLE public.profiles
+  ADD COLUMN company_id uuid REFERENCES public.companies(id),
+  ADD COLUMN active_company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL;
+
+-- TKJD becomes the default company, taking over the loose company_settings
+INSERT INTO public.companies (name, street, country, ico, dic, vat_number, iban, swift_bic, signature_path, is_default)
+SELECT
+  'TKJD, s. r. o.',
+  'Žalobín 114, 094 03 Žalobín',
+  'Slovenská Republika',
+  '47417528',
+  '2023943845',
+  'SK2023943845',
+  COALESCE(
+    (SELECT nullif(value, '') FROM public.company_settings WHERE key = 'payment_debtor_iban'),
+    (SELECT nullif(value, '') FROM public.company_settings WHERE key = 'company_iban')
+  ),
+  (SELECT nullif(value, '') FROM public.company_settings WHERE key = 'payment_debtor_bic'),
+  (SELECT nullif(value, '') FROM public.company_settings WHERE key = 'company_signature_path'),
+  true;
+
+DELETE FROM public.company_settings
+WHERE key IN ('payment_debtor_name', 'payment_debtor_iban', 'payment_debtor_bic', 'company_iban', 'company_signature_path');
+
+UPDATE public.profiles SET company_id = (SELECT id FROM public.companies WHERE is_default);
+ALTER TABLE public.profiles ALTER COLUMN company_id SET NOT NULL;
+
+INSERT INTO public.company_memberships (user_id, company_id)
+SELECT user_id, company_id FROM public.profiles;
+
+-- The company the current user works in: the active one if they are a
+-- member of it, otherwise their own
+CREATE OR REPLACE FUNCTION public.current_company_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT p.active_company_id
+     FROM profiles p
+     JOIN company_memberships m ON m.user_id = p.user_id AND m.company_id = p.active_company_id
+     WHERE p.user_id = auth.uid()),
+    (SELECT company_id FROM profiles WHERE user_id = auth.uid())
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.default_company_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT id FROM companies WHERE is_default
+$$;
+
+-- Whether a user belongs to the current user's company
+CREATE OR REPLACE FUNCTION public.in_current_company(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE user_id = _user_id AND company_id = current_company_id()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.switch_company(p_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM company_memberships WHERE user_id = auth.uid() AND company_id = p_company_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this company';
+  END IF;
+
+  UPDATE profiles SET active_company_id = p_company_id WHERE user_id = auth.uid();
+END;
+$$;
+
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their companies"
+ON public.companies FOR SELECT
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.company_memberships m WHERE m.company_id = companies.id AND m.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Directors can create companies"
+ON public.companies FOR INSERT
+TO authenticated
+WITH CHECK (has_role(auth.uid(), 'director'::app_role));
+
+CREATE POLICY "Admins and directors can update the current company"
+ON public.companies FOR UPDATE
+TO authenticated
+USING (is_admin_or_director(auth.uid()) AND id = current_company_id())
+WITH CHECK (is_admin_or_director(auth.uid()) AND id = current_company_id());
+
+CREATE POLICY "Users can view own company memberships"
+ON public.company_memberships FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_companies_updated_at
+BEFORE UPDATE ON public.companies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_companies
+AFTER INSERT OR UPDATE OR DELETE ON public.companies
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- The director founding a company becomes its member
+CREATE OR REPLACE FUNCTION public.add_company_creator_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO company_memberships (user_id, company_id)
+    VALUES (NEW.created_by, NEW.id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_company_creator_membership
+AFTER INSERT ON public.companies
+FOR EACH ROW EXECUTE FUNCTION public.add_company_creator_membership();
+
+-- A user's own company is always one of their memberships; moving a user
+-- to another company takes the old one away
+CREATE OR REPLACE FUNCTION public.sync_profile_company_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.company_id IS DISTINCT FROM NEW.company_id THEN
+    DELETE FROM company_memberships WHERE user_id = NEW.user_id AND company_id = OLD.company_id;
+  END IF;
+  INSERT INTO company_memberships (user_id, company_id)
+  VALUES (NEW.user_id, NEW.company_id)
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_company_membership
+AFTER INSERT OR UPDATE OF company_id ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.sync_profile_company_membership();
+
+-- Moving a user between companies: the profile policies only let admins
+-- write users of the company they are working in
+CREATE OR REPLACE FUNCTION public.set_user_company(p_user_id uuid, p_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR NOT is_admin_or_director(auth.uid())
+     OR NOT in_current_company(p_user_id)
+     OR NOT EXISTS (
+       SELECT 1 FROM company_memberships WHERE user_id = auth.uid() AND company_id = p_company_id
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to move this user to the company';
+  END IF;
+
+  UPDATE profiles SET company_id = p_company_id, active_company_id = NULL WHERE user_id = p_user_id;
+END;
+$$;
+
+-- New users join the company they were invited into (user metadata), else the default one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_company_id uuid;
+BEGIN
+    SELECT id INTO v_company_id
+    FROM public.companies
+    WHERE id::text = NEW.raw_user_meta_data->>'company_id';
+
+    INSERT INTO public.profiles (user_id, full_name, company_name, company_id)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', 'New User'),
+        NEW.raw_user_meta_data->>'company_name',
+        COALESCE(v_company_id, public.default_company_id())
+    );
+
+    -- Default role is 'monter' for new users
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'monter');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Company-owned tables get the company of whoever creates the row
+CREATE OR REPLACE FUNCTION public.set_company_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  NEW.company_id := COALESCE(NEW.company_id, current_company_id(), default_company_id());
+  RETURN NEW;
+END;
+$$;
+
+-- Subcontractor invoices are addressed to the supplier's company
+CREATE OR REPLACE FUNCTION public.set_invoice_company_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  NEW.company_id := COALESCE(
+    NEW.company_id,
+    (SELECT company_id FROM profiles WHERE user_id = NEW.user_id),
+    default_company_id()
+  );
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['projects', 'invoices', 'clients', 'client_invoices', 'payment_batches'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN company_id uuid REFERENCES public.companies(id)', t);
+    EXECUTE format('UPDATE public.%I SET company_id = public.default_company_id()', t);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN company_id SET NOT NULL', t);
+    EXECUTE format('CREATE INDEX %I ON public.%I (company_id)', 'idx_' || t || '_company_id', t);
+    EXECUTE format(
+      'CREATE TRIGGER set_%s_company_id BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.%I()',
+      t, t, CASE WHEN t = 'invoices' THEN 'set_invoice_company_id' ELSE 'set_company_id' END
+    );
+    EXECUTE format(
+      'CREATE POLICY "Rows are scoped to the current company" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (company_id = public.current_company_id()) WITH CHECK (company_id = public.current_company_id())',
+      t
+    );
+  END LOOP;
+
+  -- Per-user data follows the company of its user
+  FOREACH t IN ARRAY ARRAY['performance_records', 'weekly_closings', 'advances', 'sanctions', 'credit_notes'] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Rows are scoped to the current company" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (user_id = auth.uid() OR public.in_current_company(user_id)) '
+      'WITH CHECK (user_id = auth.uid() OR public.in_current_company(user_id))',
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Profiles are scoped to the current company"
+ON public.profiles
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid() OR company_id = current_company_id())
+WITH CHECK (user_id = auth.uid() OR company_id = current_company_id());
+
+-- Client names and invoice numbers are unique per company
+ALTER TABLE public.clients DROP CONSTRAINT clients_name_key;
+ALTER TABLE public.clients ADD CONSTRAINT clients_company_id_name_key UNIQUE (company_id, name);
+ALTER TABLE public.client_invoices DROP CONSTRAINT client_invoices_invoice_number_key;
+ALTER TABLE public.client_invoices
+  ADD CONSTRAINT client_invoices_company_id_invoice_number_key UNIQUE (company_id, invoice_number);
+
+-- The client invoice counter moves from the nil uuid to the company
+UPDATE public.invoice_sequences
+SET user_id = public.default_company_id()
+WHERE user_id = '00000000-0000-0000-0000-000000000000' AND series = 'client';
+
+CREATE OR REPLACE FUNCTION public.next_client_invoice_number(p_year integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_company_id uuid := current_company_id();
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin_or_director(auth.uid()) OR v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to allocate client invoice numbers';
+  END IF;
+
+  INSERT INTO invoice_sequences (user_id, year, series, last_value)
+  VALUES (v_company_id, p_year, 'client', 1)
+  ON CONFLICT (user_id, year, series)
+  DO UPDATE SET last_value = invoice_sequences.last_value + 1,
+                updated_at = now()
+  RETURNING last_value INTO v_next;
+
+  RETURN 'VF' || p_year::text || lpad(v_next::text, greatest(4, length(v_next::text)), '0');
+END;
+$$;
@@ -0,0 +1,391 @@
+-- Granular permissions: what a user may do is no longer read off the five fixed
+-- app_role values. Named permissions are granted to roles (role_permissions)
+-- and on top of that to individual users (user_permissions); has_permission()
+-- answers for both and replaces the role checks in the policies below.
+CREATE TYPE public.app_permission AS ENUM (
+  'approve_weeks',
+  'lock_weeks',
+  'manage_invoices',
+  'manage_payments',
+  'view_financials',
+  'view_rates',
+  'manage_projects',
+  'manage_accommodations',
+  'manage_equipment',
+  'manage_sanctions',
+  'manage_users',
+  'view_audit_log',
+  'manage_settings'
+);
+
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+-- Grants to a single user in addition to those of their role
+CREATE TABLE public.user_permissions (
+  user_id uuid NOT NULL,
+  permission app_permission NOT NULL,
+  granted_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+-- The role defaults reproduce what the role checks allowed so far
+INSERT INTO public.role_permissions (role, permission)
+SELECT role::app_role, permission::app_permission
+FROM (VALUES
+  ('manager', 'approve_weeks'),
+  ('manager', 'manage_projects'),
+  ('manager', 'manage_accommodations'),
+  ('manager', 'manage_equipment'),
+  ('accountant', 'manage_payments'),
+  ('accountant', 'view_financials'),
+  ('accountant', 'view_rates')
+) AS p(role, permission)
+UNION ALL
+SELECT 'admin'::app_role, unnest(enum_range(NULL::app_permission));
+
+-- Directors always hold every permission, so nobody can lock the company out
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id uuid, _permission app_permission)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE
+    WHEN _user_id IS NULL THEN false
+    ELSE EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = _user_id
+        AND (ur.role = 'director'
+             OR EXISTS (SELECT 1 FROM role_permissions rp
+                        WHERE rp.role = ur.role AND rp.permission = _permission))
+    ) OR EXISTS (
+      SELECT 1 FROM user_permissions up
+      WHERE up.user_id = _user_id AND up.permission = _permission
+    )
+  END
+$$;
+
+-- Everything the signed-in user may do, for the sidebar and page guards
+CREATE OR REPLACE FUNCTION public.current_user_permissions()
+RETURNS SETOF app_permission
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT p FROM unnest(enum_range(NULL::app_permission)) AS p
+  WHERE has_permission(auth.uid(), p)
+$$;
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "User managers can manage role permissions"
+ON public.role_permissions FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (has_permission(auth.uid(), 'manage_users'));
+
+CREATE POLICY "Users can view own permissions"
+ON public.user_permissions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "User managers can manage user permissions"
+ON public.user_permissions FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users') AND in_current_company(user_id))
+WITH CHECK (has_permission(auth.uid(), 'manage_users') AND in_current_company(user_id));
+
+CREATE TRIGGER audit_role_permissions
+AFTER INSERT OR UPDATE OR DELETE ON public.role_permissions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_user_permissions
+AFTER INSERT OR UPDATE OR DELETE ON public.user_permissions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- ---------------------------------------------------------------------------
+-- Policies: role checks become permission checks. Duplicates left behind by
+-- earlier migrations are folded into one policy per permission.
+-- ---------------------------------------------------------------------------
+
+-- Weekly approvals and closings
+DROP POLICY IF EXISTS "Admins can view all closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Managers can view all closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Accountants can view all closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Accountants can view all weekly closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Privileged users can view all weekly closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Managers can update closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Managers can update all weekly closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Admins and directors can insert weekly closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Admins and directors can update all weekly closings" ON public.weekly_closings;
+DROP POLICY IF EXISTS "Admins and directors can delete weekly_closings" ON public.weekly_closings;
+
+CREATE POLICY "Privileged users can view all weekly closings"
+ON public.weekly_closings FOR SELECT
+TO authenticated
+USING (
+  has_permission(auth.uid(), 'approve_weeks')
+  OR has_permission(auth.uid(), 'lock_weeks')
+  OR has_permission(auth.uid(), 'view_financials')
+);
+
+CREATE POLICY "Approvers can update weekly closings"
+ON public.weekly_closings FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'approve_weeks'))
+WITH CHECK (has_permission(auth.uid(), 'approve_weeks'));
+
+CREATE POLICY "Lockers can manage weekly closings"
+ON public.weekly_closings FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'lock_weeks'))
+WITH CHECK (has_permission(auth.uid(), 'lock_weeks'));
+
+DROP POLICY IF EXISTS "Admins can view all records" ON public.performance_records;
+DROP POLICY IF EXISTS "Accountants can view records" ON public.performance_records;
+DROP POLICY IF EXISTS "Accountants can view all records" ON public.performance_records;
+DROP POLICY IF EXISTS "Managers can update record status" ON public.performance_records;
+DROP POLICY IF EXISTS "Managers can view assigned project records" ON public.performance_records;
+DROP POLICY IF EXISTS "Managers can update assigned project records" ON public.performance_records;
+
+CREATE POLICY "Financial viewers can view all records"
+ON public.performance_records FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_financials'));
+
+CREATE POLICY "Approvers can update record status"
+ON public.performance_records FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'approve_weeks'));
+
+CREATE POLICY "Approvers can view assigned project records"
+ON public.performance_records FOR SELECT
+TO authenticated
+USING (
+  has_permission(auth.uid(), 'approve_weeks')
+  AND EXISTS (
+    SELECT 1 FROM public.project_assignments pa
+    WHERE pa.project_id = performance_records.project_id
+      AND pa.user_id = auth.uid()
+  )
+);
+
+-- Invoicing
+DROP POLICY IF EXISTS "Admins and directors have full access to invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Accountants can view invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Accountants can update invoice payment status" ON public.invoices;
+DROP POLICY IF EXISTS "Managers can view assigned team invoices" ON public.invoices;
+
+CREATE POLICY "Invoice managers have full access to invoices"
+ON public.invoices FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_invoices'))
+WITH CHECK (has_permission(auth.uid(), 'manage_invoices'));
+
+CREATE POLICY "Financial viewers can view invoices"
+ON public.invoices FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_financials'));
+
+CREATE POLICY "Payment managers can update invoice payment status"
+ON public.invoices FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_payments'))
+WITH CHECK (has_permission(auth.uid(), 'manage_payments'));
+
+CREATE POLICY "Approvers can view assigned team invoices"
+ON public.invoices FOR SELECT
+TO authenticated
+USING (
+  has_permission(auth.uid(), 'approve_weeks')
+  AND EXISTS (
+    SELECT 1
+    FROM public.project_assignments pa1
+    JOIN public.project_assignments pa2 ON pa1.project_id = pa2.project_id
+    WHERE pa1.user_id = auth.uid()
+      AND pa2.user_id = invoices.user_id
+  )
+);
+
+-- Tables where admins/directors managed and accountants read
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['credit_notes', 'clients', 'client_invoices', 'client_invoice_lines'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %L ON public.%I', 'Admins and directors can manage ' || replace(t, '_', ' '), t);
+    EXECUTE format('DROP POLICY IF EXISTS %L ON public.%I', 'Accountants can view ' || replace(t, '_', ' '), t);
+    EXECUTE format(
+      'CREATE POLICY "Invoice managers can manage %s" ON public.%I FOR ALL TO authenticated '
+      'USING (has_permission(auth.uid(), ''manage_invoices'')) '
+      'WITH CHECK (has_permission(auth.uid(), ''manage_invoices''))',
+      replace(t, '_', ' '), t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Financial viewers can view %s" ON public.%I FOR SELECT TO authenticated '
+      'USING (has_permission(auth.uid(), ''view_financials''))',
+      replace(t, '_', ' '), t
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Admins and directors can manage invoice lines" ON public.invoice_lines;
+
+CREATE POLICY "Invoice managers can manage invoice lines"
+ON public.invoice_lines FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_invoices'))
+WITH CHECK (has_permission(auth.uid(), 'manage_invoices'));
+
+DROP POLICY IF EXISTS "Admins and directors can manage payment batches" ON public.payment_batches;
+DROP POLICY IF EXISTS "Accountants can manage payment batches" ON public.payment_batches;
+DROP POLICY IF EXISTS "Admins and directors can manage payment batch items" ON public.payment_batch_items;
+DROP POLICY IF EXISTS "Accountants can manage payment batch items" ON public.payment_batch_items;
+
+CREATE POLICY "Payment managers can manage payment batches"
+ON public.payment_batches FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_payments'))
+WITH CHECK (has_permission(auth.uid(), 'manage_payments'));
+
+CREATE POLICY "Payment managers can manage payment batch items"
+ON public.payment_batch_items FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_payments'))
+WITH CHECK (has_permission(auth.uid(), 'manage_payments'));
+
+-- Rates
+DROP POLICY IF EXISTS "Accountants can view rate_history" ON public.rate_history;
+DROP POLICY IF EXISTS "Admins and directors can manage rate_history" ON public.rate_history;
+DROP POLICY IF EXISTS "Accountants can view billing profiles" ON public.billing_profiles;
+DROP POLICY IF EXISTS "Admins and directors can manage billing profiles" ON public.billing_profiles;
+
+CREATE POLICY "Rate viewers can view rate_history"
+ON public.rate_history FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_rates'));
+
+CREATE POLICY "User managers can manage rate_history"
+ON public.rate_history FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (has_permission(auth.uid(), 'manage_users'));
+
+CREATE POLICY "Rate viewers can view billing profiles"
+ON public.billing_profiles FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_rates'));
+
+CREATE POLICY "User managers can manage billing profiles"
+ON public.billing_profiles FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (has_permission(auth.uid(), 'manage_users'));
+
+-- Users
+DROP POLICY IF EXISTS "Admins and directors have full access to profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins and directors have full access to roles" ON public.user_roles;
+
+CREATE POLICY "User managers have full access to profiles"
+ON public.profiles FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (has_permission(auth.uid(), 'manage_users'));
+
+CREATE POLICY "User managers have full access to roles"
+ON public.user_roles FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (has_permission(auth.uid(), 'manage_users'));
+
+-- Projects, accommodations and equipment, shared by admins and managers so far
+DROP POLICY IF EXISTS "Admins and directors can manage projects" ON public.projects;
+DROP POLICY IF EXISTS "Managers can manage projects" ON public.projects;
+DROP POLICY IF EXISTS "Admins and directors can manage project_assignments" ON public.project_assignments;
+DROP POLICY IF EXISTS "Managers can manage project_assignments" ON public.project_assignments;
+DROP POLICY IF EXISTS "Admins and directors can manage accommodations" ON public.accommodations;
+DROP POLICY IF EXISTS "Managers can manage accommodations" ON public.accommodations;
+DROP POLICY IF EXISTS "Admins and directors can manage project_accommodations" ON public.project_accommodations;
+DROP POLICY IF EXISTS "Managers can manage project_accommodations" ON public.project_accommodations;
+DROP POLICY IF EXISTS "Admins and directors can manage equipment" ON public.equipment;
+DROP POLICY IF EXISTS "Managers can manage equipment" ON public.equipment;
+
+CREATE POLICY "Project managers can manage projects"
+ON public.projects FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_projects'))
+WITH CHECK (has_permission(auth.uid(), 'manage_projects'));
+
+CREATE POLICY "Project managers can manage project_assignments"
+ON public.project_assignments FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_projects'))
+WITH CHECK (has_permission(auth.uid(), 'manage_projects'));
+
+CREATE POLICY "Accommodation managers can manage accommodations"
+ON public.accommodations FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_accommodations'))
+WITH CHECK (has_permission(auth.uid(), 'manage_accommodations'));
+
+CREATE POLICY "Accommodation managers can manage project_accommodations"
+ON public.project_accommodations FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_accommodations'))
+WITH CHECK (has_permission(auth.uid(), 'manage_accommodations'));
+
+CREATE POLICY "Equipment managers can manage equipment"
+ON public.equipment FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_equipment'))
+WITH CHECK (has_permission(auth.uid(), 'manage_equipment'));
+
+-- Sanctions, audit log and settings
+DROP POLICY IF EXISTS "Admins and directors can manage all sanctions" ON public.sanctions;
+DROP POLICY IF EXISTS "Admins and directors can view audit log" ON public.audit_log;
+DROP POLICY IF EXISTS "Admins can manage company settings" ON public.company_settings;
+DROP POLICY IF EXISTS "Admins and directors can manage invoice series" ON public.invoice_series;
+DROP POLICY IF EXISTS "Admins and directors can update the current company" ON public.companies;
+
+CREATE POLICY "Sanction managers can manage all sanctions"
+ON public.sanctions FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_sanctions'))
+WITH CHECK (has_permission(auth.uid(), 'manage_sanctions'));
+
+CREATE POLICY "Auditors can view audit log"
+ON public.audit_log FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_audit_log'));
+
+CREATE POLICY "Settings managers can manage company settings"
+ON public.company_settings FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_settings'))
+WITH CHECK (has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can manage invoice series"
+ON public.invoice_series FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_settings'))
+WITH CHECK (has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update the current company"
+ON public.companies FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_settings') AND id = current_company_id())
+WITH CHECK (has_permission(auth.uid(), 'manage_settings') AND id = current_company_id());
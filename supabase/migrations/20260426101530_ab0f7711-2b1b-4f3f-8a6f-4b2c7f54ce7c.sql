@@ -0,0 +1,218 @@
+-- Settle open sanctions and unused advances into the supplier's next invoice.
+-- Each settled amount is recorded in invoice_settlements; a sanction or advance
+-- is linked to the invoice (sanctions.invoice_id / advances.used_in_invoice_id)
+-- once it is paid off in full. Deductions never push an invoice below zero,
+-- whatever does not fit stays open for the next one.
+ALTER TABLE public.invoices
+  ADD COLUMN sanctions_deduction numeric NOT NULL DEFAULT 0;
+
+CREATE TABLE public.invoice_settlements (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  advance_id uuid REFERENCES public.advances(id) ON DELETE CASCADE,
+  sanction_id uuid REFERENCES public.sanctions(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  -- This settlement paid the row off and linked it to the invoice
+  settles_fully boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((advance_id IS NULL) <> (sanction_id IS NULL))
+);
+
+CREATE INDEX idx_invoice_settlements_invoice ON public.invoice_settlements(invoice_id);
+CREATE INDEX idx_invoice_settlements_advance ON public.invoice_settlements(advance_id) WHERE advance_id IS NOT NULL;
+CREATE INDEX idx_invoice_settlements_sanction ON public.invoice_settlements(sanction_id) WHERE sanction_id IS NOT NULL;
+
+ALTER TABLE public.invoice_settlements ENABLE ROW LEVEL SECURITY;
+
+-- Written only by settle_invoice_deductions()
+CREATE POLICY "Users can view settlements of visible invoices"
+ON public.invoice_settlements FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id));
+
+CREATE POLICY "Invoice managers can manage invoice settlements"
+ON public.invoice_settlements FOR ALL
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_invoices'))
+WITH CHECK (has_permission(auth.uid(), 'manage_invoices'));
+
+CREATE TRIGGER audit_invoice_settlements
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_settlements
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Advances and sanctions of a supplier not yet paid off, oldest first.
+-- Sanctions in hours are valued at p_hourly_rate (the profile rate by default);
+-- settlements on void or deleted invoices do not count.
+CREATE OR REPLACE FUNCTION public.outstanding_deductions(p_user_id uuid, p_hourly_rate numeric DEFAULT NULL)
+RETURNS TABLE(kind text, id uuid, date date, description text, value numeric, settled numeric, outstanding numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF NOT (p_user_id = auth.uid() OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to view deductions of another supplier';
+  END IF;
+
+  v_rate := COALESCE(p_hourly_rate, (SELECT hourly_rate FROM profiles WHERE user_id = p_user_id), 0);
+
+  RETURN QUERY
+  WITH active_settlements AS (
+    SELECT s.advance_id, s.sanction_id, s.amount
+    FROM invoice_settlements s
+    JOIN invoices i ON i.id = s.invoice_id
+    WHERE i.status <> 'void' AND i.deleted_at IS NULL
+  ),
+  rows AS (
+    SELECT 'advance'::text AS kind, a.id, a.date, COALESCE(a.note, 'Záloha') AS description,
+           round(a.amount, 2) AS value,
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.advance_id = a.id), 0) AS settled
+    FROM advances a
+    WHERE a.user_id = p_user_id
+      AND a.deleted_at IS NULL
+      AND a.used_in_invoice_id IS NULL
+    UNION ALL
+    SELECT 'sanction'::text, sn.id, sn.sanction_date, sn.reason,
+           round(COALESCE(sn.amount, COALESCE(sn.hours_deducted, 0) * v_rate), 2),
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.sanction_id = sn.id), 0)
+    FROM sanctions sn
+    WHERE sn.user_id = p_user_id
+      AND sn.deleted_at IS NULL
+      AND sn.invoice_id IS NULL
+  )
+  SELECT r.kind, r.id, r.date, r.description, r.value, r.settled, r.value - r.settled
+  FROM rows r
+  WHERE r.value - r.settled >= 0.01
+  ORDER BY (r.kind = 'sanction'), r.date, r.id;
+END;
+$$;
+
+-- Deduct the outstanding advances (first) and sanctions from a freshly saved
+-- invoice, capped at its payable amount, and link what was paid off in full
+CREATE OR REPLACE FUNCTION public.settle_invoice_deductions(p_invoice_id uuid)
+RETURNS TABLE(advance_deduction numeric, sanctions_deduction numeric, total_amount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_row record;
+  v_cap numeric;
+  v_take numeric;
+  v_full boolean;
+  v_advances numeric := 0;
+  v_sanctions numeric := 0;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE invoices.id = p_invoice_id FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % does not exist', p_invoice_id;
+  END IF;
+
+  IF NOT (v_invoice.user_id = auth.uid() OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to settle deductions of invoice %', p_invoice_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoice_settlements s WHERE s.invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Invoice % is already settled', p_invoice_id;
+  END IF;
+
+  -- Serialise concurrent settlements of the same supplier
+  PERFORM 1 FROM advances a WHERE a.user_id = v_invoice.user_id FOR UPDATE;
+  PERFORM 1 FROM sanctions sn WHERE sn.user_id = v_invoice.user_id FOR UPDATE;
+
+  -- total_amount is already net of VAT and the accommodation deduction
+  v_cap := greatest(v_invoice.total_amount, 0);
+
+  FOR v_row IN SELECT * FROM outstanding_deductions(v_invoice.user_id, v_invoice.hourly_rate) LOOP
+    EXIT WHEN v_cap < 0.01;
+
+    v_take := least(v_row.outstanding, v_cap);
+    v_full := v_take >= v_row.outstanding;
+
+    INSERT INTO invoice_settlements (invoice_id, advance_id, sanction_id, amount, settles_fully)
+    VALUES (
+      p_invoice_id,
+      CASE WHEN v_row.kind = 'advance' THEN v_row.id END,
+      CASE WHEN v_row.kind = 'sanction' THEN v_row.id END,
+      v_take,
+      v_full
+    );
+
+    IF v_row.kind = 'advance' THEN
+      v_advances := v_advances + v_take;
+      IF v_full THEN
+        UPDATE advances SET used_in_invoice_id = p_invoice_id WHERE advances.id = v_row.id;
+      END IF;
+    ELSE
+      v_sanctions := v_sanctions + v_take;
+      IF v_full THEN
+        UPDATE sanctions SET invoice_id = p_invoice_id WHERE sanctions.id = v_row.id;
+      END IF;
+    END IF;
+
+    v_cap := v_cap - v_take;
+  END LOOP;
+
+  v_total := v_invoice.total_amount - v_advances - v_sanctions;
+
+  UPDATE invoices
+  SET advance_deduction = COALESCE(invoices.advance_deduction, 0) + v_advances,
+      sanctions_deduction = v_sanctions,
+      total_amount = v_total,
+      transaction_tax_amount = ceil(v_total * COALESCE(invoices.transaction_tax_rate, 0.4)) / 100
+  WHERE invoices.id = p_invoice_id
+  RETURNING invoices.advance_deduction, invoices.sanctions_deduction, invoices.total_amount
+  INTO advance_deduction, sanctions_deduction, total_amount;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Voiding or deleting an invoice releases its sanctions and advances; restoring
+-- it links them again unless another invoice has settled them in the meantime
+CREATE OR REPLACE FUNCTION public.sync_invoice_settlement_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_was_active boolean := OLD.status <> 'void' AND OLD.deleted_at IS NULL;
+  v_is_active boolean := NEW.status <> 'void' AND NEW.deleted_at IS NULL;
+BEGIN
+  IF v_was_active AND NOT v_is_active THEN
+    UPDATE sanctions SET invoice_id = NULL WHERE invoice_id = NEW.id;
+    UPDATE advances SET used_in_invoice_id = NULL WHERE used_in_invoice_id = NEW.id;
+  ELSIF v_is_active AND NOT v_was_active THEN
+    IF EXISTS (
+      SELECT 1
+      FROM invoice_settlements s
+      JOIN invoice_settlements other
+        ON (other.advance_id = s.advance_id OR other.sanction_id = s.sanction_id)
+       AND other.invoice_id <> s.invoice_id
+       AND other.created_at > s.created_at
+      JOIN invoices i ON i.id = other.invoice_id
+      WHERE s.invoice_id = NEW.id
+        AND i.status <> 'void' AND i.deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Zrážky faktúry % už boli zúčtované inou faktúrou', NEW.invoice_number;
+    END IF;
+
+    UPDATE sanctions SET invoice_id = NEW.id
+    WHERE id IN (SELECT sanction_id FROM invoice_settlements WHERE invoice_id = NEW.id AND settles_fully);
+    UPDATE advances SET used_in_invoice_id = NEW.id
+    WHERE id IN (SELECT advance_id FROM invoice_settlements WHERE invoice_id = NEW.id AND settles_fully);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_settlement_links
+AFTER UPDATE OF status, deleted_at ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_settlement_links();
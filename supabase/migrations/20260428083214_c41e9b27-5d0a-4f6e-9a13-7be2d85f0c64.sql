@@ -0,0 +1,168 @@
+-- Repayment plans: an advance can be recovered in instalments instead of by
+-- the next invoice in one go. Each invoice from the start week on deducts one
+-- instalment, either a fixed amount or a percentage of the invoice.
+ALTER TABLE public.advances
+  ADD COLUMN instalment_amount numeric CHECK (instalment_amount > 0),
+  ADD COLUMN instalment_percent numeric CHECK (instalment_percent > 0 AND instalment_percent <= 100),
+  ADD COLUMN repayment_start_year integer,
+  ADD COLUMN repayment_start_week integer CHECK (repayment_start_week BETWEEN 1 AND 53),
+  ADD CONSTRAINT advances_single_instalment_kind CHECK (instalment_amount IS NULL OR instalment_percent IS NULL),
+  ADD CONSTRAINT advances_repayment_start_complete CHECK ((repayment_start_year IS NULL) = (repayment_start_week IS NULL));
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION public.outstanding_deductions(uuid, numeric);
+
+CREATE FUNCTION public.outstanding_deductions(p_user_id uuid, p_hourly_rate numeric DEFAULT NULL)
+RETURNS TABLE(
+  kind text, id uuid, date date, description text, value numeric, settled numeric, outstanding numeric,
+  instalment_amount numeric, instalment_percent numeric, repayment_starts_on date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF NOT (p_user_id = auth.uid() OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to view deductions of another supplier';
+  END IF;
+
+  v_rate := COALESCE(p_hourly_rate, (SELECT hourly_rate FROM profiles WHERE user_id = p_user_id), 0);
+
+  RETURN QUERY
+  WITH active_settlements AS (
+    SELECT s.advance_id, s.sanction_id, s.amount
+    FROM invoice_settlements s
+    JOIN invoices i ON i.id = s.invoice_id
+    WHERE i.status <> 'void' AND i.deleted_at IS NULL
+  ),
+  rows AS (
+    SELECT 'advance'::text AS kind, a.id, a.date, COALESCE(a.note, 'Záloha') AS description,
+           round(a.amount, 2) AS value,
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.advance_id = a.id), 0) AS settled,
+           a.instalment_amount, a.instalment_percent,
+           -- Monday of the ISO start week
+           to_date(a.repayment_start_year || '-' || a.repayment_start_week || '-1', 'IYYY-IW-ID') AS repayment_starts_on
+    FROM advances a
+    WHERE a.user_id = p_user_id
+      AND a.deleted_at IS NULL
+      AND a.used_in_invoice_id IS NULL
+    UNION ALL
+    SELECT 'sanction'::text, sn.id, sn.sanction_date, sn.reason,
+           round(COALESCE(sn.amount, COALESCE(sn.hours_deducted, 0) * v_rate), 2),
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.sanction_id = sn.id), 0),
+           NULL::numeric, NULL::numeric, NULL::date
+    FROM sanctions sn
+    WHERE sn.user_id = p_user_id
+      AND sn.deleted_at IS NULL
+      AND sn.invoice_id IS NULL
+  )
+  SELECT r.kind, r.id, r.date, r.description, r.value, r.settled, r.value - r.settled,
+         r.instalment_amount, r.instalment_percent, r.repayment_starts_on
+  FROM rows r
+  WHERE r.value - r.settled >= 0.01
+  ORDER BY (r.kind = 'sanction'), r.date, r.id;
+END;
+$$;
+
+-- As before, but an advance on a repayment plan only gives up its instalment,
+-- and nothing before the plan's start week
+CREATE OR REPLACE FUNCTION public.settle_invoice_deductions(p_invoice_id uuid)
+RETURNS TABLE(advance_deduction numeric, sanctions_deduction numeric, total_amount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_row record;
+  v_week_start date;
+  v_cap numeric;
+  v_take numeric;
+  v_full boolean;
+  v_advances numeric := 0;
+  v_sanctions numeric := 0;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE invoices.id = p_invoice_id FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % does not exist', p_invoice_id;
+  END IF;
+
+  IF NOT (v_invoice.user_id = auth.uid() OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to settle deductions of invoice %', p_invoice_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoice_settlements s WHERE s.invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Invoice % is already settled', p_invoice_id;
+  END IF;
+
+  -- Serialise concurrent settlements of the same supplier
+  PERFORM 1 FROM advances a WHERE a.user_id = v_invoice.user_id FOR UPDATE;
+  PERFORM 1 FROM sanctions sn WHERE sn.user_id = v_invoice.user_id FOR UPDATE;
+
+  -- The invoiced week: that of its weekly closing, else of the delivery date
+  SELECT to_date(wc.year || '-' || wc.calendar_week || '-1', 'IYYY-IW-ID') INTO v_week_start
+  FROM weekly_closings wc
+  WHERE wc.id = v_invoice.week_closing_id;
+  v_week_start := COALESCE(v_week_start, date_trunc('week', v_invoice.delivery_date)::date);
+
+  -- total_amount is already net of VAT and the accommodation deduction
+  v_cap := greatest(v_invoice.total_amount, 0);
+
+  FOR v_row IN SELECT * FROM outstanding_deductions(v_invoice.user_id, v_invoice.hourly_rate) LOOP
+    EXIT WHEN v_cap < 0.01;
+
+    IF v_row.repayment_starts_on IS NOT NULL AND v_week_start < v_row.repayment_starts_on THEN
+      CONTINUE;
+    END IF;
+
+    v_take := least(
+      v_row.outstanding,
+      v_cap,
+      COALESCE(v_row.instalment_amount, round(v_invoice.total_amount * v_row.instalment_percent / 100, 2), v_row.outstanding)
+    );
+    CONTINUE WHEN v_take < 0.01;
+    v_full := v_take >= v_row.outstanding;
+
+    INSERT INTO invoice_settlements (invoice_id, advance_id, sanction_id, amount, settles_fully)
+    VALUES (
+      p_invoice_id,
+      CASE WHEN v_row.kind = 'advance' THEN v_row.id END,
+      CASE WHEN v_row.kind = 'sanction' THEN v_row.id END,
+      v_take,
+      v_full
+    );
+
+    IF v_row.kind = 'advance' THEN
+      v_advances := v_advances + v_take;
+      IF v_full THEN
+        UPDATE advances SET used_in_invoice_id = p_invoice_id WHERE advances.id = v_row.id;
+      END IF;
+    ELSE
+      v_sanctions := v_sanctions + v_take;
+      IF v_full THEN
+        UPDATE sanctions SET invoice_id = p_invoice_id WHERE sanctions.id = v_row.id;
+      END IF;
+    END IF;
+
+    v_cap := v_cap - v_take;
+  END LOOP;
+
+  v_total := v_invoice.total_amount - v_advances - v_sanctions;
+
+  UPDATE invoices
+  SET advance_deduction = COALESCE(invoices.advance_deduction, 0) + v_advances,
+      sanctions_deduction = v_sanctions,
+      total_amount = v_total,
+      transaction_tax_amount = ceil(v_total * COALESCE(invoices.transaction_tax_rate, 0.4)) / 100
+  WHERE invoices.id = p_invoice_id
+  RETURNING invoices.advance_deduction, invoices.sanctions_deduction, invoices.total_amount
+  INTO advance_deduction, sanctions_deduction, total_amount;
+
+  RETURN NEXT;
+END;
+$$;
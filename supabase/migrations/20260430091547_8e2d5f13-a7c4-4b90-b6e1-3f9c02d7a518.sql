@@ -0,0 +1,109 @@
+-- Archive of issued invoice PDFs. The PDF produced at issue time is stored in
+-- the private invoice-archive bucket under <invoice_id>/<sha256>/<filename>,
+-- its SHA-256 is recorded on the invoice together with a frozen snapshot of
+-- the supplier and customer data that went into it. Neither the stored object
+-- nor the recorded hash can be changed afterwards.
+ALTER TABLE public.invoices
+  ADD COLUMN pdf_path text,
+  ADD COLUMN pdf_sha256 text CHECK (pdf_sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN pdf_archived_at timestamp with time zone,
+  ADD COLUMN issue_snapshot jsonb;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoice-archive', 'invoice-archive', false);
+
+-- Anyone who can see the invoice can read its archived PDF
+CREATE POLICY "Users can view archived PDFs of visible invoices"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'invoice-archive'
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id::text = (storage.foldername(name))[1]
+  )
+);
+
+-- Uploading is allowed once per invoice, before the hash is recorded.
+-- There are no UPDATE or DELETE policies: archived PDFs are immutable.
+CREATE POLICY "Users can archive PDFs of their visible invoices"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'invoice-archive'
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id::text = (storage.foldername(name))[1]
+      AND i.pdf_sha256 IS NULL
+      AND (i.user_id = auth.uid() OR public.has_permission(auth.uid(), 'manage_invoices'))
+  )
+);
+
+-- Record the archived PDF of an invoice; only possible once
+CREATE OR REPLACE FUNCTION public.archive_invoice_pdf(
+  p_invoice_id uuid,
+  p_path text,
+  p_sha256 text,
+  p_snapshot jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % does not exist', p_invoice_id;
+  END IF;
+
+  IF NOT (v_invoice.user_id = auth.uid() OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to archive invoice %', p_invoice_id;
+  END IF;
+
+  IF v_invoice.pdf_sha256 IS NOT NULL THEN
+    RAISE EXCEPTION 'Invoice % is already archived', v_invoice.invoice_number;
+  END IF;
+
+  IF split_part(p_path, '/', 1) <> p_invoice_id::text OR split_part(p_path, '/', 2) <> p_sha256 THEN
+    RAISE EXCEPTION 'Archive path % does not belong to invoice %', p_path, v_invoice.invoice_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'invoice-archive' AND name = p_path) THEN
+    RAISE EXCEPTION 'Archived PDF % was not uploaded', p_path;
+  END IF;
+
+  UPDATE invoices
+  SET pdf_path = p_path,
+      pdf_sha256 = p_sha256,
+      pdf_archived_at = now(),
+      issue_snapshot = p_snapshot
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Once archived, the PDF reference, hash and snapshot are frozen
+CREATE OR REPLACE FUNCTION public.protect_invoice_archive()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF OLD.pdf_sha256 IS NOT NULL AND (
+    NEW.pdf_path IS DISTINCT FROM OLD.pdf_path
+    OR NEW.pdf_sha256 IS DISTINCT FROM OLD.pdf_sha256
+    OR NEW.pdf_archived_at IS DISTINCT FROM OLD.pdf_archived_at
+    OR NEW.issue_snapshot IS DISTINCT FROM OLD.issue_snapshot
+  ) THEN
+    RAISE EXCEPTION 'Archived PDF of invoice % cannot be changed', OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_invoice_archive
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.protect_invoice_archive();
@@ -0,0 +1,86 @@
+-- Freeze the supplier's billing data on each invoice when it is created, so
+-- later profile changes (bank account, address, VAT status) do not rewrite
+-- historical invoices. Viewers and re-exports read invoices.supplier_snapshot.
+ALTER TABLE public.invoices
+  ADD COLUMN supplier_snapshot jsonb;
+
+-- The billing fields of a supplier's profile as stored on their invoices
+CREATE OR REPLACE FUNCTION public.supplier_snapshot(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'full_name', p.full_name,
+    'company_name', p.company_name,
+    'billing_address', p.billing_address,
+    'country', p.country,
+    'ico', p.ico,
+    'dic', p.dic,
+    'iban', p.iban,
+    'swift_bic', p.swift_bic,
+    'is_vat_payer', p.is_vat_payer,
+    'vat_number', p.vat_number,
+    'contract_number', p.contract_number,
+    'signature_url', p.signature_url
+  )
+  FROM profiles p
+  WHERE p.user_id = p_user_id
+$$;
+
+-- Always taken from the profile, whatever the client sends
+CREATE OR REPLACE FUNCTION public.set_invoice_supplier_snapshot()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  NEW.supplier_snapshot := supplier_snapshot(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_invoice_supplier_snapshot
+BEFORE INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_invoice_supplier_snapshot();
+
+CREATE OR REPLACE FUNCTION public.protect_invoice_supplier_snapshot()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF OLD.supplier_snapshot IS NOT NULL AND NEW.supplier_snapshot IS DISTINCT FROM OLD.supplier_snapshot THEN
+    RAISE EXCEPTION 'Supplier data of invoice % cannot be changed', OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_invoice_supplier_snapshot
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.protect_invoice_supplier_snapshot();
+
+-- Existing invoices: the data printed on the archived PDF where there is one,
+-- otherwise the current profile as the best available record
+UPDATE public.invoices i
+SET supplier_snapshot = CASE
+  WHEN i.issue_snapshot ? 'supplier' THEN jsonb_build_object(
+    'full_name', i.issue_snapshot #>> '{supplier,supplierName}',
+    'company_name', i.issue_snapshot #>> '{supplier,supplierCompany}',
+    'billing_address', i.issue_snapshot #>> '{supplier,supplierAddress}',
+    'country', i.issue_snapshot #>> '{supplier,supplierCountry}',
+    'ico', i.issue_snapshot #>> '{supplier,supplierIco}',
+    'dic', i.issue_snapshot #>> '{supplier,supplierDic}',
+    'iban', i.issue_snapshot #>> '{supplier,supplierIban}',
+    'swift_bic', i.issue_snapshot #>> '{supplier,supplierSwiftBic}',
+    'is_vat_payer', (i.issue_snapshot #>> '{supplier,isVatPayer}')::boolean,
+    'vat_number', i.issue_snapshot #>> '{supplier,vatNumber}',
+    'contract_number', i.issue_snapshot #>> '{supplier,contractNumber}',
+    'signature_url', supplier_snapshot(i.user_id) ->> 'signature_url'
+  )
+  ELSE supplier_snapshot(i.user_id)
+END
+WHERE i.supplier_snapshot IS NULL;
@@ -0,0 +1,232 @@
+-- Client sign-off of the weekly Leistungsnachweis. A signing link (random
+-- token) per project and calendar week opens a read-only summary of the
+-- week's hours, on which the client's site manager signs. The signature,
+-- signer name and time are stored together with the summary they signed,
+-- which marks the week client-confirmed and is embedded in the exports.
+CREATE TABLE public.client_signoffs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  calendar_week integer NOT NULL CHECK (calendar_week BETWEEN 1 AND 53),
+  year integer NOT NULL,
+  token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  expires_at timestamp with time zone NOT NULL DEFAULT now() + interval '30 days',
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  signer_name text,
+  -- PNG data URL drawn on the signing page
+  signature_data text CHECK (signature_data LIKE 'data:image/png;base64,%'),
+  signed_at timestamp with time zone,
+  -- The hours as shown to the signer
+  signed_summary jsonb,
+  UNIQUE (project_id, year, calendar_week),
+  CHECK ((signed_at IS NULL) = (signature_data IS NULL) AND (signed_at IS NULL) = (signer_name IS NULL))
+);
+
+ALTER TABLE public.client_signoffs ENABLE ROW LEVEL SECURITY;
+
+-- Links are created by create_client_signoff_link() and signed through
+-- submit_client_signoff(); workers read the signature via week_client_signoff()
+CREATE POLICY "Week approvers can view client sign-offs"
+ON public.client_signoffs FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks'));
+
+CREATE TRIGGER audit_client_signoffs
+AFTER INSERT OR UPDATE OR DELETE ON public.client_signoffs
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Hours of a project week per worker, as shown on the signing page
+CREATE OR REPLACE FUNCTION public.client_signoff_week(p_project_id uuid, p_year integer, p_week integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH records AS (
+    SELECT pr.user_id, pr.date, pr.time_from, pr.time_to, COALESCE(pr.total_hours, 0) AS total_hours
+    FROM performance_records pr
+    WHERE pr.project_id = p_project_id
+      AND pr.deleted_at IS NULL
+      AND pr.status <> 'rejected'
+      AND to_char(pr.date, 'IYYY')::integer = p_year
+      AND to_char(pr.date, 'IW')::integer = p_week
+  ),
+  workers AS (
+    SELECT COALESCE(p.full_name, 'Neznámy') AS worker_name,
+           sum(r.total_hours) AS total_hours,
+           jsonb_agg(jsonb_build_object(
+             'date', r.date,
+             'time_from', r.time_from,
+             'time_to', r.time_to,
+             'total_hours', r.total_hours
+           ) ORDER BY r.date, r.time_from) AS days
+    FROM records r
+    LEFT JOIN profiles p ON p.user_id = r.user_id
+    GROUP BY r.user_id, p.full_name
+  )
+  SELECT jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('name', pj.name, 'client', pj.client, 'location', pj.location, 'address', pj.address)
+      FROM projects pj WHERE pj.id = p_project_id
+    ),
+    'calendar_week', p_week,
+    'year', p_year,
+    'week_start', to_date(p_year || '-' || p_week || '-1', 'IYYY-IW-ID'),
+    'week_end', to_date(p_year || '-' || p_week || '-7', 'IYYY-IW-ID'),
+    'total_hours', COALESCE((SELECT sum(w.total_hours) FROM workers w), 0),
+    'workers', COALESCE((SELECT jsonb_agg(to_jsonb(w) ORDER BY w.worker_name) FROM workers w), '[]'::jsonb)
+  )
+$$;
+
+-- The signing link of a project week. An open link is reused, an expired one
+-- gets a fresh token; a week the client has signed cannot be re-issued.
+CREATE OR REPLACE FUNCTION public.create_client_signoff_link(p_project_id uuid, p_year integer, p_week integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+BEGIN
+  IF NOT (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks')) THEN
+    RAISE EXCEPTION 'Not allowed to create client sign-off links';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM performance_records pr
+    WHERE pr.project_id = p_project_id
+      AND pr.deleted_at IS NULL
+      AND to_char(pr.date, 'IYYY')::integer = p_year
+      AND to_char(pr.date, 'IW')::integer = p_week
+  ) THEN
+    RAISE EXCEPTION 'Project has no records in week %/%', p_week, p_year;
+  END IF;
+
+  SELECT * INTO v_signoff
+  FROM client_signoffs
+  WHERE project_id = p_project_id AND year = p_year AND calendar_week = p_week
+  FOR UPDATE;
+
+  IF v_signoff.id IS NULL THEN
+    INSERT INTO client_signoffs (project_id, year, calendar_week)
+    VALUES (p_project_id, p_year, p_week)
+    RETURNING * INTO v_signoff;
+  ELSIF v_signoff.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% is already confirmed by the client', p_week, p_year;
+  ELSIF v_signoff.expires_at <= now() THEN
+    UPDATE client_signoffs
+    SET token = DEFAULT, expires_at = DEFAULT, created_by = auth.uid(), created_at = now()
+    WHERE id = v_signoff.id
+    RETURNING * INTO v_signoff;
+  END IF;
+
+  RETURN v_signoff.token;
+END;
+$$;
+
+-- Read-only summary behind a signing link; callable without logging in.
+-- A signed week shows what was signed.
+CREATE OR REPLACE FUNCTION public.client_signoff_summary(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_signoff FROM client_signoffs WHERE token = p_token;
+
+  IF v_signoff.id IS NULL OR (v_signoff.signed_at IS NULL AND v_signoff.expires_at <= now()) THEN
+    RAISE EXCEPTION 'Signing link is invalid or expired';
+  END IF;
+
+  RETURN COALESCE(v_signoff.signed_summary, client_signoff_week(v_signoff.project_id, v_signoff.year, v_signoff.calendar_week))
+    || jsonb_build_object(
+      'signer_name', v_signoff.signer_name,
+      'signed_at', v_signoff.signed_at,
+      'expires_at', v_signoff.expires_at
+    );
+END;
+$$;
+
+-- Sign a week through its link; only possible once
+CREATE OR REPLACE FUNCTION public.submit_client_signoff(p_token text, p_signer_name text, p_signature text)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+  v_name text := btrim(p_signer_name);
+BEGIN
+  SELECT * INTO v_signoff FROM client_signoffs WHERE token = p_token FOR UPDATE;
+
+  IF v_signoff.id IS NULL OR (v_signoff.signed_at IS NULL AND v_signoff.expires_at <= now()) THEN
+    RAISE EXCEPTION 'Signing link is invalid or expired';
+  END IF;
+
+  IF v_signoff.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% is already confirmed by the client', v_signoff.calendar_week, v_signoff.year;
+  END IF;
+
+  IF v_name IS NULL OR length(v_name) = 0 OR length(v_name) > 200 THEN
+    RAISE EXCEPTION 'Signer name is required';
+  END IF;
+
+  IF p_signature IS NULL OR p_signature NOT LIKE 'data:image/png;base64,%' OR length(p_signature) > 500000 THEN
+    RAISE EXCEPTION 'Signature must be a PNG image';
+  END IF;
+
+  UPDATE client_signoffs
+  SET signer_name = v_name,
+      signature_data = p_signature,
+      signed_at = now(),
+      signed_summary = client_signoff_week(project_id, year, calendar_week)
+  WHERE id = v_signoff.id;
+
+  RETURN now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.client_signoff_summary(text) TO anon;
+GRANT EXECUTE ON FUNCTION public.submit_client_signoff(text, text, text) TO anon;
+
+-- The client's signature of a project week for exports: week approvers and
+-- the workers with records in that week. Returns no row until it is signed.
+CREATE OR REPLACE FUNCTION public.week_client_signoff(p_project_id uuid, p_year integer, p_week integer)
+RETURNS TABLE(signer_name text, signature_data text, signed_at timestamp with time zone)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT (
+    has_permission(auth.uid(), 'approve_weeks')
+    OR has_permission(auth.uid(), 'lock_weeks')
+    OR EXISTS (
+      SELECT 1 FROM performance_records pr
+      WHERE pr.user_id = auth.uid()
+        AND pr.project_id = p_project_id
+        AND pr.deleted_at IS NULL
+        AND to_char(pr.date, 'IYYY')::integer = p_year
+        AND to_char(pr.date, 'IW')::integer = p_week
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view the client sign-off of this week';
+  END IF;
+
+  RETURN QUERY
+  SELECT cs.signer_name, cs.signature_data, cs.signed_at
+  FROM client_signoffs cs
+  WHERE cs.project_id = p_project_id
+    AND cs.year = p_year
+    AND cs.calendar_week = p_week
+    AND cs.signed_at IS NOT NULL;
+END;
+$$;
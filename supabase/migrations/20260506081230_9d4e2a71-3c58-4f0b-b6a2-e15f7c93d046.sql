@@ -0,0 +1,631 @@
+-- Keep companies apart on every company-owned table, not just the ones that
+-- carry company_id directly. Child rows follow their parent row, per-user
+-- rows the company of their user; accommodations, equipment, announcements,
+-- the audit log and the settings get a company of their own. SECURITY
+-- DEFINER functions that take a row id check its company as well.
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  -- Company-owned tables without a company so far
+  FOREACH t IN ARRAY ARRAY['accommodations', 'equipment', 'announcements', 'audit_log', 'company_settings'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN company_id uuid REFERENCES public.companies(id)', t);
+    EXECUTE format('UPDATE public.%I SET company_id = public.default_company_id()', t);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN company_id SET NOT NULL', t);
+    EXECUTE format('CREATE INDEX %I ON public.%I (company_id)', 'idx_' || t || '_company_id', t);
+    EXECUTE format(
+      'CREATE TRIGGER set_%s_company_id BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.set_company_id()',
+      t, t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Rows are scoped to the current company" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (company_id = public.current_company_id()) WITH CHECK (company_id = public.current_company_id())',
+      t
+    );
+  END LOOP;
+
+  -- Per-user data follows the company of its user
+  FOREACH t IN ARRAY ARRAY[
+    'rate_history', 'billing_profiles', 'shift_sessions', 'accommodation_assignments',
+    'accommodation_deduction_overrides', 'project_assignments', 'announcement_reads',
+    'user_roles', 'user_permissions'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Rows are scoped to the current company" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (user_id = auth.uid() OR public.in_current_company(user_id)) '
+      'WITH CHECK (user_id = auth.uid() OR public.in_current_company(user_id))',
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+-- Settings keys are unique per company
+ALTER TABLE public.company_settings DROP CONSTRAINT company_settings_key_key;
+ALTER TABLE public.company_settings ADD CONSTRAINT company_settings_company_id_key_key UNIQUE (company_id, key);
+
+-- Counters belong to a supplier or, for client invoices, to the company
+CREATE POLICY "Rows are scoped to the current company"
+ON public.invoice_sequences
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid() OR user_id = current_company_id() OR in_current_company(user_id))
+WITH CHECK (user_id = auth.uid() OR user_id = current_company_id() OR in_current_company(user_id));
+
+-- Child rows follow their parent
+CREATE POLICY "Rows are scoped to the current company"
+ON public.invoice_lines
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.company_id = current_company_id()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.company_id = current_company_id()));
+
+CREATE POLICY "Rows are scoped to the current company"
+ON public.invoice_settlements
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.company_id = current_company_id()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.company_id = current_company_id()));
+
+CREATE POLICY "Rows are scoped to the current company"
+ON public.client_invoice_lines
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.client_invoices ci WHERE ci.id = client_invoice_id AND ci.company_id = current_company_id()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.client_invoices ci WHERE ci.id = client_invoice_id AND ci.company_id = current_company_id()
+));
+
+CREATE POLICY "Rows are scoped to the current company"
+ON public.payment_batch_items
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.payment_batches b WHERE b.id = batch_id AND b.company_id = current_company_id()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.payment_batches b WHERE b.id = batch_id AND b.company_id = current_company_id()));
+
+CREATE POLICY "Rows are scoped to the current company"
+ON public.accommodation_payments
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.accommodations a WHERE a.id = accommodation_id AND a.company_id = current_company_id()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.accommodations a WHERE a.id = accommodation_id AND a.company_id = current_company_id()
+));
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'project_validation_rules', 'project_surcharge_rules', 'project_accommodations', 'client_signoffs'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Rows are scoped to the current company" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.company_id = public.current_company_id())) '
+      'WITH CHECK (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.company_id = public.current_company_id()))',
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- SECURITY DEFINER functions taking a row id
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.mark_payment_batch_executed(p_batch_id uuid, p_paid_at timestamp with time zone DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_batch payment_batches%ROWTYPE;
+  v_count integer;
+BEGIN
+  IF NOT (is_admin_or_director(auth.uid()) OR has_role(auth.uid(), 'accountant'::app_role)) THEN
+    RAISE EXCEPTION 'Not allowed to execute payment batches';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM payment_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF v_batch.id IS NULL OR v_batch.company_id IS DISTINCT FROM current_company_id() THEN
+    RAISE EXCEPTION 'Payment batch % does not exist', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'exported' THEN
+    RAISE EXCEPTION 'Payment batch % is already %', p_batch_id, v_batch.status;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'paid', paid_at = p_paid_at
+  WHERE id IN (SELECT invoice_id FROM payment_batch_items WHERE batch_id = p_batch_id)
+    AND status <> 'void';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE payment_batches
+  SET status = 'executed', executed_at = p_paid_at, executed_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_accommodation_payment_paid(p_payment_id uuid, p_paid_at timestamp with time zone DEFAULT now())
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment accommodation_payments%ROWTYPE;
+  v_next date;
+BEGIN
+  IF NOT is_admin_or_director(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to settle accommodation payments';
+  END IF;
+
+  SELECT ap.* INTO v_payment
+  FROM accommodation_payments ap
+  JOIN accommodations a ON a.id = ap.accommodation_id
+  WHERE ap.id = p_payment_id
+    AND a.company_id = current_company_id()
+  FOR UPDATE OF ap;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Accommodation payment % does not exist', p_payment_id;
+  END IF;
+
+  IF v_payment.status = 'paid' THEN
+    RAISE EXCEPTION 'Accommodation payment % is already paid', p_payment_id;
+  END IF;
+
+  UPDATE accommodation_payments
+  SET status = 'paid', paid_at = p_paid_at, paid_by = auth.uid()
+  WHERE id = p_payment_id;
+
+  SELECT COALESCE(
+    (SELECT min(due_date) FROM accommodation_payments
+     WHERE accommodation_id = v_payment.accommodation_id AND status = 'pending'),
+    (SELECT max(period_end) + 1 FROM accommodation_payments
+     WHERE accommodation_id = v_payment.accommodation_id)
+  ) INTO v_next;
+
+  UPDATE accommodations
+  SET next_payment_date = v_next
+  WHERE id = v_payment.accommodation_id;
+
+  RETURN v_next;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_effective_rate(p_user_id uuid, p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT rate FROM public.rate_history
+     WHERE user_id = p_user_id
+       AND valid_from <= p_date
+       AND (valid_to IS NULL OR valid_to >= p_date)
+     ORDER BY valid_from DESC
+     LIMIT 1),
+    (SELECT hourly_rate FROM public.profiles
+     WHERE user_id = p_user_id AND deleted_at IS NULL
+     LIMIT 1)
+  )
+  WHERE p_user_id = auth.uid() OR in_current_company(p_user_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_team_profiles_safe(target_user_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  company_name text,
+  is_active boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.user_id, p.full_name, p.company_name, p.is_active
+  FROM public.profiles p
+  WHERE p.deleted_at IS NULL
+    AND (p.user_id = auth.uid() OR p.company_id = current_company_id())
+    AND (
+      -- Admin/Director/Accountant: can see all profiles (limited columns only through this function)
+      is_admin_or_director(auth.uid())
+      OR has_role(auth.uid(), 'accountant'::app_role)
+      -- Manager: scoped to users sharing at least one project assignment
+      OR (
+        has_role(auth.uid(), 'manager'::app_role)
+        AND EXISTS (
+          SELECT 1 FROM public.project_assignments pa1
+          JOIN public.project_assignments pa2 ON pa1.project_id = pa2.project_id
+          WHERE pa1.user_id = auth.uid()
+            AND pa2.user_id = p.user_id
+        )
+      )
+      -- Users can always see their own profile
+      OR p.user_id = auth.uid()
+    )
+    AND (target_user_ids IS NULL OR p.user_id = ANY(target_user_ids))
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_user_id uuid, p_year integer, p_series text DEFAULT 'standard')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_padding integer;
+  v_prefix text;
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL
+     OR (auth.uid() <> p_user_id AND NOT (is_admin_or_director(auth.uid()) AND in_current_company(p_user_id))) THEN
+    RAISE EXCEPTION 'Not allowed to allocate invoice numbers for this user';
+  END IF;
+
+  SELECT padding, prefix INTO v_padding, v_prefix
+  FROM invoice_series
+  WHERE code = p_series;
+
+  IF v_padding IS NULL THEN
+    RAISE EXCEPTION 'Unknown invoice series: %', p_series;
+  END IF;
+
+  -- Row lock on conflict serialises concurrent callers for the same counter
+  INSERT INTO invoice_sequences (user_id, year, series, last_value)
+  VALUES (p_user_id, p_year, p_series, 1)
+  ON CONFLICT (user_id, year, series)
+  DO UPDATE SET last_value = invoice_sequences.last_value + 1,
+                updated_at = now()
+  RETURNING last_value INTO v_next;
+
+  -- lpad() truncates, so never shorten a counter that outgrew its padding
+  IF length(v_next::text) >= v_padding THEN
+    RETURN v_prefix || p_year::text || v_next::text;
+  END IF;
+
+  RETURN v_prefix || p_year::text || lpad(v_next::text, v_padding, '0');
+END;
+$$;
+
+-- Only the supplier and invoice managers of their company see the billing data
+CREATE OR REPLACE FUNCTION public.supplier_snapshot(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'full_name', p.full_name,
+    'company_name', p.company_name,
+    'billing_address', p.billing_address,
+    'country', p.country,
+    'ico', p.ico,
+    'dic', p.dic,
+    'iban', p.iban,
+    'swift_bic', p.swift_bic,
+    'is_vat_payer', p.is_vat_payer,
+    'vat_number', p.vat_number,
+    'contract_number', p.contract_number,
+    'signature_url', p.signature_url
+  )
+  FROM profiles p
+  WHERE p.user_id = p_user_id
+    AND (
+      p.user_id = auth.uid()
+      OR (has_permission(auth.uid(), 'manage_invoices') AND p.company_id = current_company_id())
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.archive_invoice_pdf(
+  p_invoice_id uuid,
+  p_path text,
+  p_sha256 text,
+  p_snapshot jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % does not exist', p_invoice_id;
+  END IF;
+
+  IF NOT (
+    v_invoice.user_id = auth.uid()
+    OR (has_permission(auth.uid(), 'manage_invoices') AND v_invoice.company_id = current_company_id())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to archive invoice %', p_invoice_id;
+  END IF;
+
+  IF v_invoice.pdf_sha256 IS NOT NULL THEN
+    RAISE EXCEPTION 'Invoice % is already archived', v_invoice.invoice_number;
+  END IF;
+
+  IF split_part(p_path, '/', 1) <> p_invoice_id::text OR split_part(p_path, '/', 2) <> p_sha256 THEN
+    RAISE EXCEPTION 'Archive path % does not belong to invoice %', p_path, v_invoice.invoice_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'invoice-archive' AND name = p_path) THEN
+    RAISE EXCEPTION 'Archived PDF % was not uploaded', p_path;
+  END IF;
+
+  UPDATE invoices
+  SET pdf_path = p_path,
+      pdf_sha256 = p_sha256,
+      pdf_archived_at = now(),
+      issue_snapshot = p_snapshot
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.outstanding_deductions(p_user_id uuid, p_hourly_rate numeric DEFAULT NULL)
+RETURNS TABLE(
+  kind text, id uuid, date date, description text, value numeric, settled numeric, outstanding numeric,
+  instalment_amount numeric, instalment_percent numeric, repayment_starts_on date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF NOT (
+    p_user_id = auth.uid()
+    OR (has_permission(auth.uid(), 'manage_invoices') AND in_current_company(p_user_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view deductions of another supplier';
+  END IF;
+
+  v_rate := COALESCE(p_hourly_rate, (SELECT hourly_rate FROM profiles WHERE user_id = p_user_id), 0);
+
+  RETURN QUERY
+  WITH active_settlements AS (
+    SELECT s.advance_id, s.sanction_id, s.amount
+    FROM invoice_settlements s
+    JOIN invoices i ON i.id = s.invoice_id
+    WHERE i.status <> 'void' AND i.deleted_at IS NULL
+  ),
+  rows AS (
+    SELECT 'advance'::text AS kind, a.id, a.date, COALESCE(a.note, 'Záloha') AS description,
+           round(a.amount, 2) AS value,
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.advance_id = a.id), 0) AS settled,
+           a.instalment_amount, a.instalment_percent,
+           -- Monday of the ISO start week
+           to_date(a.repayment_start_year || '-' || a.repayment_start_week || '-1', 'IYYY-IW-ID') AS repayment_starts_on
+    FROM advances a
+    WHERE a.user_id = p_user_id
+      AND a.deleted_at IS NULL
+      AND a.used_in_invoice_id IS NULL
+    UNION ALL
+    SELECT 'sanction'::text, sn.id, sn.sanction_date, sn.reason,
+           round(COALESCE(sn.amount, COALESCE(sn.hours_deducted, 0) * v_rate), 2),
+           COALESCE((SELECT sum(x.amount) FROM active_settlements x WHERE x.sanction_id = sn.id), 0),
+           NULL::numeric, NULL::numeric, NULL::date
+    FROM sanctions sn
+    WHERE sn.user_id = p_user_id
+      AND sn.deleted_at IS NULL
+      AND sn.invoice_id IS NULL
+  )
+  SELECT r.kind, r.id, r.date, r.description, r.value, r.settled, r.value - r.settled,
+         r.instalment_amount, r.instalment_percent, r.repayment_starts_on
+  FROM rows r
+  WHERE r.value - r.settled >= 0.01
+  ORDER BY (r.kind = 'sanction'), r.date, r.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_invoice_deductions(p_invoice_id uuid)
+RETURNS TABLE(advance_deduction numeric, sanctions_deduction numeric, total_amount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_row record;
+  v_week_start date;
+  v_cap numeric;
+  v_take numeric;
+  v_full boolean;
+  v_advances numeric := 0;
+  v_sanctions numeric := 0;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE invoices.id = p_invoice_id FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % does not exist', p_invoice_id;
+  END IF;
+
+  IF NOT (
+    v_invoice.user_id = auth.uid()
+    OR (has_permission(auth.uid(), 'manage_invoices') AND v_invoice.company_id = current_company_id())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle deductions of invoice %', p_invoice_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoice_settlements s WHERE s.invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Invoice % is already settled', p_invoice_id;
+  END IF;
+
+  -- Serialise concurrent settlements of the same supplier
+  PERFORM 1 FROM advances a WHERE a.user_id = v_invoice.user_id FOR UPDATE;
+  PERFORM 1 FROM sanctions sn WHERE sn.user_id = v_invoice.user_id FOR UPDATE;
+
+  -- The invoiced week: that of its weekly closing, else of the delivery date
+  SELECT to_date(wc.year || '-' || wc.calendar_week || '-1', 'IYYY-IW-ID') INTO v_week_start
+  FROM weekly_closings wc
+  WHERE wc.id = v_invoice.week_closing_id;
+  v_week_start := COALESCE(v_week_start, date_trunc('week', v_invoice.delivery_date)::date);
+
+  -- total_amount is already net of VAT and the accommodation deduction
+  v_cap := greatest(v_invoice.total_amount, 0);
+
+  FOR v_row IN SELECT * FROM outstanding_deductions(v_invoice.user_id, v_invoice.hourly_rate) LOOP
+    EXIT WHEN v_cap < 0.01;
+
+    IF v_row.repayment_starts_on IS NOT NULL AND v_week_start < v_row.repayment_starts_on THEN
+      CONTINUE;
+    END IF;
+
+    v_take := least(
+      v_row.outstanding,
+      v_cap,
+      COALESCE(v_row.instalment_amount, round(v_invoice.total_amount * v_row.instalment_percent / 100, 2), v_row.outstanding)
+    );
+    CONTINUE WHEN v_take < 0.01;
+    v_full := v_take >= v_row.outstanding;
+
+    INSERT INTO invoice_settlements (invoice_id, advance_id, sanction_id, amount, settles_fully)
+    VALUES (
+      p_invoice_id,
+      CASE WHEN v_row.kind = 'advance' THEN v_row.id END,
+      CASE WHEN v_row.kind = 'sanction' THEN v_row.id END,
+      v_take,
+      v_full
+    );
+
+    IF v_row.kind = 'advance' THEN
+      v_advances := v_advances + v_take;
+      IF v_full THEN
+        UPDATE advances SET used_in_invoice_id = p_invoice_id WHERE advances.id = v_row.id;
+      END IF;
+    ELSE
+      v_sanctions := v_sanctions + v_take;
+      IF v_full THEN
+        UPDATE sanctions SET invoice_id = p_invoice_id WHERE sanctions.id = v_row.id;
+      END IF;
+    END IF;
+
+    v_cap := v_cap - v_take;
+  END LOOP;
+
+  v_total := v_invoice.total_amount - v_advances - v_sanctions;
+
+  UPDATE invoices
+  SET advance_deduction = COALESCE(invoices.advance_deduction, 0) + v_advances,
+      sanctions_deduction = v_sanctions,
+      total_amount = v_total,
+      transaction_tax_amount = ceil(v_total * COALESCE(invoices.transaction_tax_rate, 0.4)) / 100
+  WHERE invoices.id = p_invoice_id
+  RETURNING invoices.advance_deduction, invoices.sanctions_deduction, invoices.total_amount
+  INTO advance_deduction, sanctions_deduction, total_amount;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_client_signoff_link(p_project_id uuid, p_year integer, p_week integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+BEGIN
+  IF NOT (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks'))
+     OR NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND company_id = current_company_id()) THEN
+    RAISE EXCEPTION 'Not allowed to create client sign-off links';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM performance_records pr
+    WHERE pr.project_id = p_project_id
+      AND pr.deleted_at IS NULL
+      AND to_char(pr.date, 'IYYY')::integer = p_year
+      AND to_char(pr.date, 'IW')::integer = p_week
+  ) THEN
+    RAISE EXCEPTION 'Project has no records in week %/%', p_week, p_year;
+  END IF;
+
+  SELECT * INTO v_signoff
+  FROM client_signoffs
+  WHERE project_id = p_project_id AND year = p_year AND calendar_week = p_week
+  FOR UPDATE;
+
+  IF v_signoff.id IS NULL THEN
+    INSERT INTO client_signoffs (project_id, year, calendar_week)
+    VALUES (p_project_id, p_year, p_week)
+    RETURNING * INTO v_signoff;
+  ELSIF v_signoff.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% is already confirmed by the client', p_week, p_year;
+  ELSIF v_signoff.expires_at <= now() THEN
+    UPDATE client_signoffs
+    SET token = DEFAULT, expires_at = DEFAULT, created_by = auth.uid(), created_at = now()
+    WHERE id = v_signoff.id
+    RETURNING * INTO v_signoff;
+  END IF;
+
+  RETURN v_signoff.token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.week_client_signoff(p_project_id uuid, p_year integer, p_week integer)
+RETURNS TABLE(signer_name text, signature_data text, signed_at timestamp with time zone)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT (
+    (
+      (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks'))
+      AND EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND company_id = current_company_id())
+    )
+    OR EXISTS (
+      SELECT 1 FROM performance_records pr
+      WHERE pr.user_id = auth.uid()
+        AND pr.project_id = p_project_id
+        AND pr.deleted_at IS NULL
+        AND to_char(pr.date, 'IYYY')::integer = p_year
+        AND to_char(pr.date, 'IW')::integer = p_week
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view the client sign-off of this week';
+  END IF;
+
+  RETURN QUERY
+  SELECT cs.signer_name, cs.signature_data, cs.signed_at
+  FROM client_signoffs cs
+  WHERE cs.project_id = p_project_id
+    AND cs.year = p_year
+    AND cs.calendar_week = p_week
+    AND cs.signed_at IS NOT NULL;
+END;
+$$;
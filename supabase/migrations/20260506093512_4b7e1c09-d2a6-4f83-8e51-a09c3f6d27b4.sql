@@ -0,0 +1,54 @@
+-- Create an invoice with its lines and settle its deductions in one
+-- transaction, so a failed step can no longer leave an invoice without lines
+-- or with open advances and sanctions behind.
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_lines jsonb DEFAULT '[]'::jsonb)
+RETURNS TABLE(invoice_id uuid, advance_deduction numeric, sanctions_deduction numeric, total_amount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_id uuid;
+BEGIN
+  v_invoice := jsonb_populate_record(NULL::invoices, p_invoice);
+
+  IF v_invoice.user_id IS NULL OR NOT (
+    v_invoice.user_id = auth.uid()
+    OR (has_permission(auth.uid(), 'manage_invoices') AND in_current_company(v_invoice.user_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to create invoices for this supplier';
+  END IF;
+
+  INSERT INTO invoices (
+    invoice_number, user_id, project_id, week_closing_id, total_hours, hourly_rate,
+    subtotal, surcharge_amount, vat_amount, total_amount, advance_deduction, accommodation_deduction,
+    issue_date, delivery_date, due_date, status, is_reverse_charge,
+    transaction_tax_rate, transaction_tax_amount, tax_payment_status
+  )
+  VALUES (
+    v_invoice.invoice_number, v_invoice.user_id, v_invoice.project_id, v_invoice.week_closing_id,
+    v_invoice.total_hours, v_invoice.hourly_rate,
+    v_invoice.subtotal, COALESCE(v_invoice.surcharge_amount, 0), COALESCE(v_invoice.vat_amount, 0),
+    v_invoice.total_amount, COALESCE(v_invoice.advance_deduction, 0), COALESCE(v_invoice.accommodation_deduction, 0),
+    v_invoice.issue_date, v_invoice.delivery_date, v_invoice.due_date, 'pending', COALESCE(v_invoice.is_reverse_charge, false),
+    COALESCE(v_invoice.transaction_tax_rate, 0.4), v_invoice.transaction_tax_amount, 'pending'
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO invoice_lines (
+    invoice_id, position, kind, project_id, description, quantity, unit_price, amount,
+    surcharge_rule_id, period_from, period_to
+  )
+  SELECT v_id, l.position, l.kind, l.project_id, l.description, l.quantity, l.unit_price, l.amount,
+         l.surcharge_rule_id, l.period_from, l.period_to
+  FROM jsonb_to_recordset(p_lines) AS l(
+    position integer, kind text, project_id uuid, description text, quantity numeric, unit_price numeric,
+    amount numeric, surcharge_rule_id uuid, period_from date, period_to date
+  );
+
+  RETURN QUERY
+  SELECT v_id, s.advance_deduction, s.sanctions_deduction, s.total_amount
+  FROM settle_invoice_deductions(v_id) s;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Suppliers no longer write invoice lines themselves: create_invoice() adds
+-- them together with the invoice, and a line added to an issued invoice
+-- would change what was billed.
+DROP POLICY "Users can insert lines of own invoices" ON public.invoice_lines;
@@ -0,0 +1,232 @@
+-- A client signature must cover exactly the hours that end up billed:
+-- signing links are only issued for weeks whose records are all approved,
+-- the signing page sends back a hash of the summary it showed and the
+-- signature is refused when the week changed since, and exports get the
+-- signed summary to check the exported records against.
+
+-- Only approved hours are shown to the client
+CREATE OR REPLACE FUNCTION public.client_signoff_week(p_project_id uuid, p_year integer, p_week integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH records AS (
+    SELECT pr.user_id, pr.date, pr.time_from, pr.time_to, COALESCE(pr.total_hours, 0) AS total_hours
+    FROM performance_records pr
+    WHERE pr.project_id = p_project_id
+      AND pr.deleted_at IS NULL
+      AND pr.status = 'approved'
+      AND to_char(pr.date, 'IYYY')::integer = p_year
+      AND to_char(pr.date, 'IW')::integer = p_week
+  ),
+  workers AS (
+    SELECT COALESCE(p.full_name, 'Neznámy') AS worker_name,
+           sum(r.total_hours) AS total_hours,
+           jsonb_agg(jsonb_build_object(
+             'date', r.date,
+             'time_from', r.time_from,
+             'time_to', r.time_to,
+             'total_hours', r.total_hours
+           ) ORDER BY r.date, r.time_from) AS days
+    FROM records r
+    LEFT JOIN profiles p ON p.user_id = r.user_id
+    GROUP BY r.user_id, p.full_name
+  )
+  SELECT jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('name', pj.name, 'client', pj.client, 'location', pj.location, 'address', pj.address)
+      FROM projects pj WHERE pj.id = p_project_id
+    ),
+    'calendar_week', p_week,
+    'year', p_year,
+    'week_start', to_date(p_year || '-' || p_week || '-1', 'IYYY-IW-ID'),
+    'week_end', to_date(p_year || '-' || p_week || '-7', 'IYYY-IW-ID'),
+    'total_hours', COALESCE((SELECT sum(w.total_hours) FROM workers w), 0),
+    'workers', COALESCE((SELECT jsonb_agg(to_jsonb(w) ORDER BY w.worker_name) FROM workers w), '[]'::jsonb)
+  )
+$$;
+
+-- Whether all records of a project week are decided and at least one approved
+CREATE OR REPLACE FUNCTION public.client_signoff_week_approved(p_project_id uuid, p_year integer, p_week integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT bool_and(pr.status IN ('approved', 'rejected')) AND bool_or(pr.status = 'approved')
+  FROM performance_records pr
+  WHERE pr.project_id = p_project_id
+    AND pr.deleted_at IS NULL
+    AND to_char(pr.date, 'IYYY')::integer = p_year
+    AND to_char(pr.date, 'IW')::integer = p_week
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_client_signoff_link(p_project_id uuid, p_year integer, p_week integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+BEGIN
+  IF NOT (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks'))
+     OR NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND company_id = current_company_id()) THEN
+    RAISE EXCEPTION 'Not allowed to create client sign-off links';
+  END IF;
+
+  IF NOT COALESCE(client_signoff_week_approved(p_project_id, p_year, p_week), false) THEN
+    RAISE EXCEPTION 'Week %/% of this project is not approved yet', p_week, p_year;
+  END IF;
+
+  SELECT * INTO v_signoff
+  FROM client_signoffs
+  WHERE project_id = p_project_id AND year = p_year AND calendar_week = p_week
+  FOR UPDATE;
+
+  IF v_signoff.id IS NULL THEN
+    INSERT INTO client_signoffs (project_id, year, calendar_week)
+    VALUES (p_project_id, p_year, p_week)
+    RETURNING * INTO v_signoff;
+  ELSIF v_signoff.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% is already confirmed by the client', p_week, p_year;
+  ELSIF v_signoff.expires_at <= now() THEN
+    UPDATE client_signoffs
+    SET token = DEFAULT, expires_at = DEFAULT, created_by = auth.uid(), created_at = now()
+    WHERE id = v_signoff.id
+    RETURNING * INTO v_signoff;
+  END IF;
+
+  RETURN v_signoff.token;
+END;
+$$;
+
+-- summary_hash identifies the hours shown; submit_client_signoff() expects it back
+CREATE OR REPLACE FUNCTION public.client_signoff_summary(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+  v_week jsonb;
+BEGIN
+  SELECT * INTO v_signoff FROM client_signoffs WHERE token = p_token;
+
+  IF v_signoff.id IS NULL OR (v_signoff.signed_at IS NULL AND v_signoff.expires_at <= now()) THEN
+    RAISE EXCEPTION 'Signing link is invalid or expired';
+  END IF;
+
+  v_week := COALESCE(v_signoff.signed_summary, client_signoff_week(v_signoff.project_id, v_signoff.year, v_signoff.calendar_week));
+
+  RETURN v_week
+    || jsonb_build_object(
+      'signer_name', v_signoff.signer_name,
+      'signed_at', v_signoff.signed_at,
+      'expires_at', v_signoff.expires_at,
+      'summary_hash', md5(v_week::text)
+    );
+END;
+$$;
+
+DROP FUNCTION public.submit_client_signoff(text, text, text);
+
+-- Sign a week through its link; only possible once and only for the hours
+-- the signer was shown
+CREATE FUNCTION public.submit_client_signoff(p_token text, p_signer_name text, p_signature text, p_summary_hash text)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_signoff client_signoffs%ROWTYPE;
+  v_name text := btrim(p_signer_name);
+  v_week jsonb;
+BEGIN
+  SELECT * INTO v_signoff FROM client_signoffs WHERE token = p_token FOR UPDATE;
+
+  IF v_signoff.id IS NULL OR (v_signoff.signed_at IS NULL AND v_signoff.expires_at <= now()) THEN
+    RAISE EXCEPTION 'Signing link is invalid or expired';
+  END IF;
+
+  IF v_signoff.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% is already confirmed by the client', v_signoff.calendar_week, v_signoff.year;
+  END IF;
+
+  IF v_name IS NULL OR length(v_name) = 0 OR length(v_name) > 200 THEN
+    RAISE EXCEPTION 'Signer name is required';
+  END IF;
+
+  IF p_signature IS NULL OR p_signature NOT LIKE 'data:image/png;base64,%' OR length(p_signature) > 500000 THEN
+    RAISE EXCEPTION 'Signature must be a PNG image';
+  END IF;
+
+  -- Lock the week's records so they cannot change between the check and the signature
+  PERFORM 1 FROM performance_records pr
+  WHERE pr.project_id = v_signoff.project_id
+    AND to_char(pr.date, 'IYYY')::integer = v_signoff.year
+    AND to_char(pr.date, 'IW')::integer = v_signoff.calendar_week
+  FOR SHARE;
+
+  v_week := client_signoff_week(v_signoff.project_id, v_signoff.year, v_signoff.calendar_week);
+
+  IF NOT COALESCE(client_signoff_week_approved(v_signoff.project_id, v_signoff.year, v_signoff.calendar_week), false)
+     OR p_summary_hash IS DISTINCT FROM md5(v_week::text) THEN
+    RAISE EXCEPTION 'The hours of week %/% changed, please reload the page', v_signoff.calendar_week, v_signoff.year;
+  END IF;
+
+  UPDATE client_signoffs
+  SET signer_name = v_name,
+      signature_data = p_signature,
+      signed_at = now(),
+      signed_summary = v_week
+  WHERE id = v_signoff.id;
+
+  RETURN now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_client_signoff(text, text, text, text) TO anon;
+
+DROP FUNCTION public.week_client_signoff(uuid, integer, integer);
+
+-- The client's signature of a project week with the hours it covers, so that
+-- exports can leave it out when their records differ
+CREATE FUNCTION public.week_client_signoff(p_project_id uuid, p_year integer, p_week integer)
+RETURNS TABLE(signer_name text, signature_data text, signed_at timestamp with time zone, signed_summary jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT (
+    (
+      (has_permission(auth.uid(), 'approve_weeks') OR has_permission(auth.uid(), 'lock_weeks'))
+      AND EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND company_id = current_company_id())
+    )
+    OR EXISTS (
+      SELECT 1 FROM performance_records pr
+      WHERE pr.user_id = auth.uid()
+        AND pr.project_id = p_project_id
+        AND pr.deleted_at IS NULL
+        AND to_char(pr.date, 'IYYY')::integer = p_year
+        AND to_char(pr.date, 'IW')::integer = p_week
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view the client sign-off of this week';
+  END IF;
+
+  RETURN QUERY
+  SELECT cs.signer_name, cs.signature_data, cs.signed_at, cs.signed_summary
+  FROM client_signoffs cs
+  WHERE cs.project_id = p_project_id
+    AND cs.year = p_year
+    AND cs.calendar_week = p_week
+    AND cs.signed_at IS NOT NULL;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- The role → permission matrix applies to every company, so only directors
+-- may change it. User managers hand out no more than they hold themselves
+-- and never to themselves, neither as single permissions nor through a role.
+
+-- Whether a user holds every permission that a role carries
+CREATE OR REPLACE FUNCTION public.holds_role_permissions(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE
+    WHEN _role = 'director' THEN has_role(_user_id, 'director')
+    ELSE NOT EXISTS (
+      SELECT 1 FROM role_permissions rp
+      WHERE rp.role = _role AND NOT has_permission(_user_id, rp.permission)
+    )
+  END
+$$;
+
+DROP POLICY "User managers can manage role permissions" ON public.role_permissions;
+
+CREATE POLICY "Directors can manage role permissions"
+ON public.role_permissions FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'director'))
+WITH CHECK (has_role(auth.uid(), 'director'));
+
+DROP POLICY "User managers can manage user permissions" ON public.user_permissions;
+
+CREATE POLICY "User managers can manage user permissions"
+ON public.user_permissions FOR ALL
+TO authenticated
+USING (
+  has_permission(auth.uid(), 'manage_users')
+  AND in_current_company(user_id)
+  AND user_id <> auth.uid()
+  AND has_permission(auth.uid(), permission)
+)
+WITH CHECK (
+  has_permission(auth.uid(), 'manage_users')
+  AND in_current_company(user_id)
+  AND user_id <> auth.uid()
+  AND has_permission(auth.uid(), permission)
+);
+
+DROP POLICY "User managers have full access to roles" ON public.user_roles;
+
+CREATE POLICY "User managers can view roles"
+ON public.user_roles FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'manage_users'));
+
+CREATE POLICY "User managers can manage roles of others"
+ON public.user_roles FOR ALL
+TO authenticated
+USING (
+  has_permission(auth.uid(), 'manage_users')
+  AND user_id <> auth.uid()
+  AND holds_role_permissions(auth.uid(), role)
+)
+WITH CHECK (
+  has_permission(auth.uid(), 'manage_users')
+  AND user_id <> auth.uid()
+  AND holds_role_permissions(auth.uid(), role)
+);
@@ -0,0 +1,181 @@
+-- The geofence flag is decided by the database, not the browser: starting and
+-- ending a shift go through start_shift() and end_shift(), which measure the
+-- distance to the site themselves, and only approvers may change the flag or
+-- the shift link of a record afterwards. Ending a shift writes the record and
+-- closes the session in one transaction.
+
+-- Metres from the project's geofence centre; NULL without a fence or a position
+CREATE OR REPLACE FUNCTION public.geofence_distance_m(p_project_id uuid, p_lat numeric, p_lng numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT round(2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_lat - pj.lat) / 2), 2)
+    + cos(radians(pj.lat)) * cos(radians(p_lat)) * power(sin(radians(p_lng - pj.lng) / 2), 2)
+  )))
+  FROM projects pj
+  WHERE pj.id = p_project_id
+    AND pj.lat IS NOT NULL
+    AND pj.lng IS NOT NULL
+    AND pj.geofence_radius_m IS NOT NULL
+    AND p_lat IS NOT NULL
+    AND p_lng IS NOT NULL
+$$;
+
+-- A fenced project clocked without a position, or further than the radius
+CREATE OR REPLACE FUNCTION public.is_outside_geofence(p_project_id uuid, p_distance_m numeric)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE((
+    SELECT p_distance_m IS NULL OR p_distance_m > pj.geofence_radius_m
+    FROM projects pj
+    WHERE pj.id = p_project_id
+      AND pj.lat IS NOT NULL
+      AND pj.lng IS NOT NULL
+      AND pj.geofence_radius_m IS NOT NULL
+  ), false)
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_shift(
+  p_project_id uuid,
+  p_accommodation_id uuid,
+  p_lat numeric,
+  p_lng numeric,
+  p_accuracy_m numeric
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_distance numeric;
+  v_id uuid;
+BEGIN
+  IF auth.uid() IS NULL
+     OR NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND company_id = current_company_id()) THEN
+    RAISE EXCEPTION 'Not allowed to start a shift on this project';
+  END IF;
+
+  v_distance := geofence_distance_m(p_project_id, p_lat, p_lng);
+
+  INSERT INTO shift_sessions (
+    user_id, project_id, accommodation_id, start_lat, start_lng, start_accuracy_m, start_distance_m, outside_geofence
+  )
+  VALUES (
+    auth.uid(), p_project_id, p_accommodation_id, p_lat, p_lng, round(p_accuracy_m), v_distance,
+    is_outside_geofence(p_project_id, v_distance)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Close the signed-in user's open shift and record it as a draft. The times,
+-- breaks and hours come from the device, the flag from the positions.
+CREATE OR REPLACE FUNCTION public.end_shift(
+  p_session_id uuid,
+  p_lat numeric,
+  p_lng numeric,
+  p_accuracy_m numeric,
+  p_record jsonb
+)
+RETURNS TABLE(record_id uuid, worked_hours numeric, outside boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_session shift_sessions%ROWTYPE;
+  v_record performance_records%ROWTYPE;
+  v_distance numeric;
+  v_outside boolean;
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_session
+  FROM shift_sessions
+  WHERE id = p_session_id AND user_id = auth.uid() AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Shift % is not open', p_session_id;
+  END IF;
+
+  v_distance := geofence_distance_m(v_session.project_id, p_lat, p_lng);
+  v_outside := v_session.outside_geofence OR is_outside_geofence(v_session.project_id, v_distance);
+  v_record := jsonb_populate_record(NULL::performance_records, p_record);
+
+  INSERT INTO performance_records (
+    user_id, project_id, accommodation_id, date, time_from, time_to,
+    break_start, break_end, break2_start, break2_end, total_hours, note, status,
+    shift_session_id, outside_geofence
+  )
+  VALUES (
+    v_session.user_id, v_session.project_id, v_session.accommodation_id, v_record.date, v_record.time_from, v_record.time_to,
+    v_record.break_start, v_record.break_end, v_record.break2_start, v_record.break2_end, v_record.total_hours, v_record.note, 'draft',
+    v_session.id, v_outside
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE shift_sessions
+  SET ended_at = now(),
+      end_lat = p_lat,
+      end_lng = p_lng,
+      end_accuracy_m = round(p_accuracy_m),
+      end_distance_m = v_distance,
+      outside_geofence = v_outside,
+      performance_record_id = v_id
+  WHERE id = v_session.id;
+
+  RETURN QUERY SELECT v_id, v_record.total_hours, v_outside;
+END;
+$$;
+
+-- Workers read and cancel their open shift; starting and ending go through the functions
+DROP POLICY "Users can manage own shift sessions" ON public.shift_sessions;
+
+CREATE POLICY "Users can view own shift sessions"
+ON public.shift_sessions FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can cancel own open shift"
+ON public.shift_sessions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND ended_at IS NULL);
+
+-- Only end_shift() and approvers set the geofence flag and shift link of a
+-- record. Inside a SECURITY DEFINER function current_user is its owner, while
+-- requests from the app run as the API roles.
+CREATE OR REPLACE FUNCTION public.protect_shift_flags()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR has_permission(auth.uid(), 'approve_weeks') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.shift_session_id IS NOT NULL OR NEW.outside_geofence THEN
+      RAISE EXCEPTION 'Shift records are created by ending the shift';
+    END IF;
+  ELSIF NEW.shift_session_id IS DISTINCT FROM OLD.shift_session_id
+     OR NEW.outside_geofence IS DISTINCT FROM OLD.outside_geofence THEN
+    RAISE EXCEPTION 'Only approvers can change the geofence flag of a record';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_shift_flags
+BEFORE INSERT OR UPDATE ON public.performance_records
+FOR EACH ROW EXECUTE FUNCTION public.protect_shift_flags();
@@ -0,0 +1,19 @@
+-- Shift times that the daily entry form pre-fills for a project. Without an
+-- end time the shift ends after the project's standard hours plus its breaks.
+ALTER TABLE public.projects
+  ADD COLUMN default_time_from time NOT NULL DEFAULT '07:00',
+  ADD COLUMN default_time_to time,
+  ADD COLUMN default_break_start time DEFAULT '12:00',
+  ADD COLUMN default_break_end time DEFAULT '12:30',
+  ADD COLUMN default_break2_start time,
+  ADD COLUMN default_break2_end time;
+
+-- The schedule the form used to derive from the project name
+UPDATE public.projects
+SET default_time_from = '06:30',
+    default_time_to = '17:30',
+    default_break_start = '09:30',
+    default_break_end = '10:00',
+    default_break2_start = '13:30',
+    default_break2_end = '14:00'
+WHERE lower(name) LIKE '%riva living%';
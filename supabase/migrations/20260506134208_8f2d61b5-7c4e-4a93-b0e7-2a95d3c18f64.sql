@@ -0,0 +1,44 @@
+-- Issue a client invoice with its number and lines in one transaction, so a
+-- failed step can no longer leave an invoice without lines or use up a number.
+CREATE OR REPLACE FUNCTION public.create_client_invoice(p_invoice jsonb, p_lines jsonb)
+RETURNS TABLE(invoice_id uuid, invoice_number text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice client_invoices%ROWTYPE;
+  v_number text;
+  v_id uuid;
+BEGIN
+  v_invoice := jsonb_populate_record(NULL::client_invoices, p_invoice);
+
+  IF NOT is_admin_or_director(auth.uid())
+     OR NOT EXISTS (SELECT 1 FROM projects WHERE id = v_invoice.project_id AND company_id = current_company_id())
+     OR NOT EXISTS (SELECT 1 FROM clients WHERE id = v_invoice.client_id AND company_id = current_company_id()) THEN
+    RAISE EXCEPTION 'Not allowed to issue client invoices for this project';
+  END IF;
+
+  v_number := next_client_invoice_number(extract(year FROM v_invoice.issue_date)::integer);
+
+  INSERT INTO client_invoices (
+    invoice_number, client_id, project_id, period_from, period_to,
+    issue_date, delivery_date, due_date, total_hours, hourly_rate,
+    subtotal, vat_amount, total_amount, is_reverse_charge, created_by
+  )
+  VALUES (
+    v_number, v_invoice.client_id, v_invoice.project_id, v_invoice.period_from, v_invoice.period_to,
+    v_invoice.issue_date, v_invoice.delivery_date, v_invoice.due_date, v_invoice.total_hours, v_invoice.hourly_rate,
+    v_invoice.subtotal, v_invoice.vat_amount, v_invoice.total_amount, v_invoice.is_reverse_charge, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO client_invoice_lines (client_invoice_id, position, kind, description, quantity, unit_price, amount)
+  SELECT v_id, l.position, l.kind, l.description, l.quantity, l.unit_price, l.amount
+  FROM jsonb_to_recordset(p_lines) AS l(
+    position integer, kind text, description text, quantity numeric, unit_price numeric, amount numeric
+  );
+
+  RETURN QUERY SELECT v_id, v_number;
+END;
+$$;
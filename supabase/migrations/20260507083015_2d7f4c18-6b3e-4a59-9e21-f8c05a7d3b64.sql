@@ -0,0 +1,382 @@
+-- Weeks are submitted through submit_week(), which checks the week against the
+-- projects' timesheet rules in the database, refuses blocking violations and
+-- stores the remaining ones for the approver. Workers can no longer write
+-- validation_issues or submit a closing directly. The rules and holiday
+-- calendars mirror src/lib/timesheetRules.ts and src/lib/holidays.ts.
+
+-- Easter Sunday (Gregorian, anonymous algorithm)
+CREATE OR REPLACE FUNCTION public.easter_sunday(p_year integer)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  a integer := p_year % 19;
+  b integer := p_year / 100;
+  c integer := p_year % 100;
+  d integer := b / 4;
+  e integer := b % 4;
+  f integer := (b + 8) / 25;
+  g integer := (b - f + 1) / 3;
+  h integer := (19 * a + b - d - g + 15) % 30;
+  i integer := c / 4;
+  k integer := c % 4;
+  l integer := (32 + 2 * e + 2 * i - h - k) % 7;
+  m integer := (a + 11 * h + 22 * l) / 451;
+BEGIN
+  RETURN make_date(p_year, (h + l - 7 * m + 114) / 31, (h + l - 7 * m + 114) % 31 + 1);
+END;
+$$;
+
+-- Public holidays of a year; unknown countries fall back to Slovakia
+CREATE OR REPLACE FUNCTION public.public_holidays(p_year integer, p_country text, p_region text)
+RETURNS TABLE(holiday_date date, name text, day_off boolean)
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  WITH calendar AS (
+    SELECT CASE WHEN p_country IN ('SK', 'DE', 'AT') THEN p_country ELSE 'SK' END AS country,
+           CASE WHEN p_country IN ('SK', 'DE', 'AT') THEN p_region END AS region
+  ),
+  rules(country, name, fixed, easter_offset, regions, day_off) AS (
+    VALUES
+      ('SK', 'Deň vzniku Slovenskej republiky', '01-01', NULL::integer, NULL::text[], true),
+      ('SK', 'Zjavenie Pána', '01-06', NULL, NULL, true),
+      ('SK', 'Veľký piatok', NULL, -2, NULL, true),
+      ('SK', 'Veľkonočný pondelok', NULL, 1, NULL, true),
+      ('SK', 'Sviatok práce', '05-01', NULL, NULL, true),
+      ('SK', 'Deň víťazstva nad fašizmom', '05-08', NULL, NULL, true),
+      ('SK', 'Sviatok sv. Cyrila a Metoda', '07-05', NULL, NULL, true),
+      ('SK', 'Výročie SNP', '08-29', NULL, NULL, true),
+      ('SK', 'Sedembolestná Panna Mária', '09-15', NULL, NULL, true),
+      ('SK', 'Sviatok všetkých svätých', '11-01', NULL, NULL, true),
+      ('SK', 'Deň boja za slobodu a demokraciu', '11-17', NULL, NULL, true),
+      ('SK', 'Štedrý deň', '12-24', NULL, NULL, true),
+      ('SK', 'Prvý sviatok vianočný', '12-25', NULL, NULL, true),
+      ('SK', 'Druhý sviatok vianočný', '12-26', NULL, NULL, true),
+      ('DE', 'Neujahr', '01-01', NULL, NULL, true),
+      ('DE', 'Heilige Drei Könige', '01-06', NULL, ARRAY['BW', 'BY', 'ST'], true),
+      ('DE', 'Internationaler Frauentag', '03-08', NULL, ARRAY['BE', 'MV'], true),
+      ('DE', 'Karfreitag', NULL, -2, NULL, true),
+      ('DE', 'Ostermontag', NULL, 1, NULL, true),
+      ('DE', 'Tag der Arbeit', '05-01', NULL, NULL, true),
+      ('DE', 'Christi Himmelfahrt', NULL, 39, NULL, true),
+      ('DE', 'Pfingstmontag', NULL, 50, NULL, true),
+      ('DE', 'Fronleichnam', NULL, 60, ARRAY['BW', 'BY', 'HE', 'NW', 'RP', 'SL'], true),
+      ('DE', 'Mariä Himmelfahrt', '08-15', NULL, ARRAY['SL'], true),
+      ('DE', 'Weltkindertag', '09-20', NULL, ARRAY['TH'], true),
+      ('DE', 'Tag der Deutschen Einheit', '10-03', NULL, NULL, true),
+      ('DE', 'Reformationstag', '10-31', NULL, ARRAY['BB', 'HB', 'HH', 'MV', 'NI', 'SN', 'ST', 'SH', 'TH'], true),
+      ('DE', 'Allerheiligen', '11-01', NULL, ARRAY['BW', 'BY', 'NW', 'RP', 'SL'], true),
+      ('DE', '1. Weihnachtstag', '12-25', NULL, NULL, true),
+      ('DE', '2. Weihnachtstag', '12-26', NULL, NULL, true),
+      ('AT', 'Neujahr', '01-01', NULL, NULL, true),
+      ('AT', 'Heilige Drei Könige', '01-06', NULL, NULL, true),
+      ('AT', 'Josef', '03-19', NULL, ARRAY['K', 'ST', 'T', 'V'], false),
+      ('AT', 'Ostermontag', NULL, 1, NULL, true),
+      ('AT', 'Staatsfeiertag', '05-01', NULL, NULL, true),
+      ('AT', 'Florian', '05-04', NULL, ARRAY['OÖ'], false),
+      ('AT', 'Christi Himmelfahrt', NULL, 39, NULL, true),
+      ('AT', 'Pfingstmontag', NULL, 50, NULL, true),
+      ('AT', 'Fronleichnam', NULL, 60, NULL, true),
+      ('AT', 'Mariä Himmelfahrt', '08-15', NULL, NULL, true),
+      ('AT', 'Rupert', '09-24', NULL, ARRAY['S'], false),
+      ('AT', 'Tag der Volksabstimmung', '10-10', NULL, ARRAY['K'], false),
+      ('AT', 'Nationalfeiertag', '10-26', NULL, NULL, true),
+      ('AT', 'Allerheiligen', '11-01', NULL, NULL, true),
+      ('AT', 'Martin', '11-11', NULL, ARRAY['B'], false),
+      ('AT', 'Leopold', '11-15', NULL, ARRAY['W', 'NÖ'], false),
+      ('AT', 'Mariä Empfängnis', '12-08', NULL, NULL, true),
+      ('AT', 'Christtag', '12-25', NULL, NULL, true),
+      ('AT', 'Stefanitag', '12-26', NULL, NULL, true)
+  )
+  SELECT CASE
+           WHEN r.fixed IS NOT NULL THEN to_date(p_year || '-' || r.fixed, 'YYYY-MM-DD')
+           ELSE easter_sunday(p_year) + r.easter_offset
+         END,
+         r.name,
+         r.day_off
+  FROM rules r, calendar cal
+  WHERE r.country = cal.country
+    AND (r.regions IS NULL OR cal.region = ANY (r.regions))
+  UNION ALL
+  -- Buß- und Bettag: the Wednesday before 23 November
+  SELECT make_date(p_year, 11, 22) - ((extract(dow FROM make_date(p_year, 11, 22))::integer + 4) % 7),
+         'Buß- und Bettag',
+         true
+  FROM calendar cal
+  WHERE cal.country = 'DE' AND cal.region = 'SN'
+$$;
+
+-- Effective timesheet rules of a project: stored overrides over the defaults
+CREATE OR REPLACE FUNCTION public.project_timesheet_rules(p_project_id uuid)
+RETURNS TABLE(rule text, rule_order integer, enabled boolean, severity text, threshold numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT d.rule, d.rule_order,
+         COALESCE(r.enabled, d.enabled),
+         COALESCE(r.severity, d.severity),
+         COALESCE(r.threshold, d.threshold)
+  FROM (
+    VALUES
+      ('max_daily_hours', 1, true, 'warn', 12::numeric),
+      ('break_after_6h', 2, true, 'warn', 6),
+      ('overlapping_entries', 3, true, 'block', NULL),
+      ('sunday_holiday', 4, true, 'warn', NULL),
+      ('above_standard_hours', 5, true, 'warn', NULL),
+      ('missing_days', 6, false, 'warn', NULL)
+  ) AS d(rule, rule_order, enabled, severity, threshold)
+  LEFT JOIN project_validation_rules r ON r.project_id = p_project_id AND r.rule = d.rule
+$$;
+
+-- Rule violations of a user's ISO week, in the shape of RuleViolation[].
+-- Day and week rules use the strictest config among the projects involved.
+CREATE OR REPLACE FUNCTION public.week_timesheet_violations(p_user_id uuid, p_year integer, p_week integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH week AS (
+    SELECT to_date(p_year || '-' || p_week || '-1', 'IYYY-IW-ID') AS monday
+  ),
+  entries AS (
+    SELECT pr.id, pr.date, pr.project_id, pr.time_from, pr.time_to,
+           COALESCE(pr.total_hours, 0) AS hours,
+           extract(epoch FROM pr.time_from) / 60 AS start_min,
+           extract(epoch FROM pr.time_to) / 60
+             + CASE WHEN pr.time_to <= pr.time_from THEN 24 * 60 ELSE 0 END AS end_min,
+           GREATEST(0,
+             COALESCE(extract(epoch FROM pr.break_end - pr.break_start) / 60, 0)
+             + COALESCE(extract(epoch FROM pr.break2_end - pr.break2_start) / 60, 0)
+           ) AS break_min,
+           pj.name AS project_name,
+           pj.standard_hours,
+           pj.holiday_country,
+           pj.holiday_region
+    FROM performance_records pr
+    CROSS JOIN week w
+    LEFT JOIN projects pj ON pj.id = pr.project_id
+    WHERE pr.user_id = p_user_id
+      AND pr.deleted_at IS NULL
+      AND pr.date BETWEEN w.monday AND w.monday + 6
+  ),
+  record_rules AS (
+    SELECT e.*, c.rule, c.rule_order, c.enabled, c.severity, c.threshold
+    FROM entries e
+    CROSS JOIN LATERAL project_timesheet_rules(e.project_id) c
+  ),
+  day_rules AS (
+    SELECT d.date, c.rule, c.rule_order,
+           bool_or(c.enabled) AS enabled,
+           CASE WHEN bool_or(c.enabled AND c.severity = 'block') THEN 'block' ELSE 'warn' END AS severity,
+           min(c.threshold) FILTER (WHERE c.enabled) AS threshold
+    FROM (SELECT DISTINCT date, project_id FROM entries) d
+    CROSS JOIN LATERAL project_timesheet_rules(d.project_id) c
+    GROUP BY d.date, c.rule, c.rule_order
+  ),
+  week_rules AS (
+    SELECT c.rule, c.rule_order,
+           bool_or(c.enabled) AS enabled,
+           CASE WHEN bool_or(c.enabled AND c.severity = 'block') THEN 'block' ELSE 'warn' END AS severity
+    FROM (SELECT DISTINCT project_id FROM entries) p
+    CROSS JOIN LATERAL project_timesheet_rules(p.project_id) c
+    GROUP BY c.rule, c.rule_order
+  ),
+  -- A week spread over several sites uses the calendar of the latest entry
+  week_calendar AS (
+    SELECT holiday_country, holiday_region FROM entries ORDER BY date DESC LIMIT 1
+  ),
+  violations AS (
+    SELECT d.rule, d.rule_order, d.severity,
+           trim_scale(round(sum(e.hours), 2)) || ' h za deň prekračuje limit '
+             || trim_scale(round(d.threshold, 2)) || ' h' AS message,
+           d.date,
+           array_agg(e.id) AS record_ids
+    FROM day_rules d
+    JOIN entries e ON e.date = d.date
+    WHERE d.rule = 'max_daily_hours' AND d.enabled AND d.threshold IS NOT NULL
+    GROUP BY d.rule, d.rule_order, d.severity, d.date, d.threshold
+    HAVING sum(e.hours) > d.threshold
+
+    UNION ALL
+    SELECT r.rule, r.rule_order, r.severity,
+           'Pri ' || trim_scale(round(r.hours, 2)) || ' h práce chýba prestávka aspoň 30 min (zapísané '
+             || round(r.break_min) || ' min)',
+           r.date,
+           ARRAY[r.id]
+    FROM record_rules r
+    WHERE r.rule = 'break_after_6h' AND r.enabled AND r.threshold IS NOT NULL
+      AND r.hours > r.threshold AND r.break_min < 30
+
+    UNION ALL
+    SELECT d.rule, d.rule_order, d.severity,
+           'Čas ' || left(a.time_from::text, 5) || '–' || left(a.time_to::text, 5)
+             || ' sa prekrýva s ' || left(b.time_from::text, 5) || '–' || left(b.time_to::text, 5),
+           d.date,
+           ARRAY[a.id, b.id]
+    FROM day_rules d
+    JOIN entries a ON a.date = d.date
+    JOIN entries b ON b.date = a.date AND (b.start_min, b.id) > (a.start_min, a.id) AND b.start_min < a.end_min
+    WHERE d.rule = 'overlapping_entries' AND d.enabled
+
+    UNION ALL
+    SELECT r.rule, r.rule_order, r.severity,
+           CASE WHEN extract(dow FROM r.date) = 0 THEN 'Záznam v nedeľu' ELSE 'Záznam vo sviatok (' || h.name || ')' END,
+           r.date,
+           ARRAY[r.id]
+    FROM record_rules r
+    LEFT JOIN LATERAL (
+      SELECT ph.name
+      FROM public_holidays(extract(year FROM r.date)::integer, r.holiday_country, r.holiday_region) ph
+      WHERE ph.holiday_date = r.date AND ph.day_off
+      LIMIT 1
+    ) h ON true
+    WHERE r.rule = 'sunday_holiday' AND r.enabled
+      AND (extract(dow FROM r.date) = 0 OR h.name IS NOT NULL)
+
+    UNION ALL
+    SELECT r.rule, r.rule_order, r.severity,
+           'Na projekte ' || COALESCE(r.project_name, '—') || ' je povolený len ' || trim_scale(r.standard_hours)
+             || ' hodinový úväzok, zapísaných ' || trim_scale(round(r.hours, 2)) || ' h',
+           r.date,
+           ARRAY[r.id]
+    FROM record_rules r
+    WHERE r.rule = 'above_standard_hours' AND r.enabled
+      AND r.standard_hours > 0 AND r.hours - r.standard_hours > 0.01
+
+    UNION ALL
+    SELECT w.rule, w.rule_order, w.severity, 'Pracovný deň bez záznamu', day::date, ARRAY[]::uuid[]
+    FROM week_rules w
+    CROSS JOIN week
+    CROSS JOIN week_calendar cal
+    CROSS JOIN generate_series(week.monday, week.monday + 6, interval '1 day') AS day
+    WHERE w.rule = 'missing_days' AND w.enabled
+      AND extract(isodow FROM day) <= 5
+      AND NOT EXISTS (SELECT 1 FROM entries e WHERE e.date = day::date)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public_holidays(extract(year FROM day)::integer, cal.holiday_country, cal.holiday_region) ph
+        WHERE ph.holiday_date = day::date AND ph.day_off
+      )
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'rule', v.rule,
+        'severity', v.severity,
+        'message', v.message,
+        'date', v.date,
+        'recordIds', to_jsonb(v.record_ids)
+      )
+      ORDER BY v.date, v.rule_order
+    ),
+    '[]'::jsonb
+  )
+  FROM violations v
+$$;
+
+-- Submit the signed-in user's week: refuses blocking violations, moves the
+-- draft and returned records to submitted and stores the other violations
+-- on the closing for the approver.
+CREATE OR REPLACE FUNCTION public.submit_week(p_year integer, p_week integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_monday date := to_date(p_year || '-' || p_week || '-1', 'IYYY-IW-ID');
+  v_closing weekly_closings%ROWTYPE;
+  v_issues jsonb;
+  v_blocking text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to submit weeks';
+  END IF;
+
+  SELECT * INTO v_closing
+  FROM weekly_closings
+  WHERE user_id = auth.uid() AND year = p_year AND calendar_week = p_week
+  FOR UPDATE;
+
+  IF v_closing.status IN ('submitted', 'approved', 'locked') THEN
+    RAISE EXCEPTION 'Week %/% is already submitted', p_week, p_year;
+  END IF;
+
+  -- Lock the week's records so they cannot change between the check and the submission
+  PERFORM 1 FROM performance_records
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NULL
+    AND date BETWEEN v_monday AND v_monday + 6
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week %/% has no records', p_week, p_year;
+  END IF;
+
+  v_issues := week_timesheet_violations(auth.uid(), p_year, p_week);
+
+  SELECT string_agg(v->>'message', ' • ') INTO v_blocking
+  FROM jsonb_array_elements(v_issues) AS v
+  WHERE v->>'severity' = 'block';
+
+  IF v_blocking IS NOT NULL THEN
+    RAISE EXCEPTION 'Week %/% breaks blocking project rules: %', p_week, p_year, v_blocking;
+  END IF;
+
+  UPDATE performance_records
+  SET status = 'submitted'
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NULL
+    AND date BETWEEN v_monday AND v_monday + 6
+    AND status IN ('draft', 'returned');
+
+  IF v_closing.id IS NULL THEN
+    INSERT INTO weekly_closings (user_id, calendar_week, year, status, submitted_at, validation_issues)
+    VALUES (auth.uid(), p_week, p_year, 'submitted', now(), v_issues);
+  ELSE
+    UPDATE weekly_closings
+    SET status = 'submitted', submitted_at = now(), validation_issues = v_issues
+    WHERE id = v_closing.id;
+  END IF;
+
+  RETURN v_issues;
+END;
+$$;
+
+-- Workers only reopen their closings; submitting goes through submit_week().
+-- Inside a SECURITY DEFINER function current_user is its owner, while
+-- requests from the app run as the API roles.
+CREATE OR REPLACE FUNCTION public.protect_week_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon')
+     OR has_permission(auth.uid(), 'approve_weeks')
+     OR has_permission(auth.uid(), 'lock_weeks') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'open' OR NEW.validation_issues <> '[]'::jsonb THEN
+      RAISE EXCEPTION 'Weeks are submitted through submit_week()';
+    END IF;
+  ELSIF NEW.validation_issues IS DISTINCT FROM OLD.validation_issues
+     OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'open') THEN
+    RAISE EXCEPTION 'Weeks are submitted through submit_week()';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_week_submission
+BEFORE INSERT OR UPDATE ON public.weekly_closings
+FOR EACH ROW EXECUTE FUNCTION public.protect_week_submission();
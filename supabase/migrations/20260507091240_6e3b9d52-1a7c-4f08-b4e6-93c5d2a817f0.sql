@@ -0,0 +1,70 @@
+-- Ending a shift cannot add a record to a locked week, like saving a daily
+-- entry in a locked week is refused.
+CREATE OR REPLACE FUNCTION public.end_shift(
+  p_session_id uuid,
+  p_lat numeric,
+  p_lng numeric,
+  p_accuracy_m numeric,
+  p_record jsonb
+)
+RETURNS TABLE(record_id uuid, worked_hours numeric, outside boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_session shift_sessions%ROWTYPE;
+  v_record performance_records%ROWTYPE;
+  v_distance numeric;
+  v_outside boolean;
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_session
+  FROM shift_sessions
+  WHERE id = p_session_id AND user_id = auth.uid() AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Shift % is not open', p_session_id;
+  END IF;
+
+  v_record := jsonb_populate_record(NULL::performance_records, p_record);
+
+  IF EXISTS (
+    SELECT 1 FROM weekly_closings
+    WHERE user_id = v_session.user_id
+      AND year = to_char(v_record.date, 'IYYY')::integer
+      AND calendar_week = to_char(v_record.date, 'IW')::integer
+      AND status = 'locked'
+  ) THEN
+    RAISE EXCEPTION 'Week %/% is locked', to_char(v_record.date, 'IW')::integer, to_char(v_record.date, 'IYYY')::integer;
+  END IF;
+
+  v_distance := geofence_distance_m(v_session.project_id, p_lat, p_lng);
+  v_outside := v_session.outside_geofence OR is_outside_geofence(v_session.project_id, v_distance);
+
+  INSERT INTO performance_records (
+    user_id, project_id, accommodation_id, date, time_from, time_to,
+    break_start, break_end, break2_start, break2_end, total_hours, note, status,
+    shift_session_id, outside_geofence
+  )
+  VALUES (
+    v_session.user_id, v_session.project_id, v_session.accommodation_id, v_record.date, v_record.time_from, v_record.time_to,
+    v_record.break_start, v_record.break_end, v_record.break2_start, v_record.break2_end, v_record.total_hours, v_record.note, 'draft',
+    v_session.id, v_outside
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE shift_sessions
+  SET ended_at = now(),
+      end_lat = p_lat,
+      end_lng = p_lng,
+      end_accuracy_m = round(p_accuracy_m),
+      end_distance_m = v_distance,
+      outside_geofence = v_outside,
+      performance_record_id = v_id
+  WHERE id = v_session.id;
+
+  RETURN QUERY SELECT v_id, v_record.total_hours, v_outside;
+END;
+$$;
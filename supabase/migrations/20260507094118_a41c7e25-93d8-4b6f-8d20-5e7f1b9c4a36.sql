@@ -0,0 +1,27 @@
+-- The company of a new user comes from the app metadata, which only the
+-- service role can set (the invite-user function). User metadata is filled
+-- in by the public sign-up, so it could be used to join any company.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_company_id uuid;
+BEGIN
+    SELECT id INTO v_company_id
+    FROM public.companies
+    WHERE id::text = NEW.raw_app_meta_data->>'company_id';
+
+    INSERT INTO public.profiles (user_id, full_name, company_name, company_id)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', 'New User'),
+        NEW.raw_user_meta_data->>'company_name',
+        COALESCE(v_company_id, public.default_company_id())
+    );
+
+    -- Default role is 'monter' for new users
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'monter');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,56 @@
+-- Credit notes of one invoice are checked against its amounts while the
+-- invoice is locked, so two concurrent credit notes cannot together credit
+-- more than the invoice. Void invoices cannot be credited.
+CREATE OR REPLACE FUNCTION public.validate_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_invoice record;
+  v_credited_subtotal numeric;
+  v_credited_vat numeric;
+BEGIN
+  -- Lock the invoice so concurrent credit notes are summed one after the other
+  SELECT user_id, subtotal, vat_amount, status INTO v_invoice
+  FROM invoices
+  WHERE id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % does not exist', NEW.invoice_id;
+  END IF;
+
+  IF v_invoice.status = 'void' THEN
+    RAISE EXCEPTION 'A void invoice cannot be credited';
+  END IF;
+
+  NEW.user_id := v_invoice.user_id;
+
+  IF NEW.subtotal <= 0 OR NEW.vat_amount < 0 THEN
+    RAISE EXCEPTION 'Credit note amounts must be positive';
+  END IF;
+
+  IF length(trim(NEW.reason)) = 0 THEN
+    RAISE EXCEPTION 'Credit note reason is required';
+  END IF;
+
+  NEW.total_amount := NEW.subtotal + NEW.vat_amount;
+
+  SELECT COALESCE(SUM(subtotal), 0), COALESCE(SUM(vat_amount), 0)
+  INTO v_credited_subtotal, v_credited_vat
+  FROM credit_notes
+  WHERE invoice_id = NEW.invoice_id
+    AND id <> NEW.id;
+
+  IF v_credited_subtotal + NEW.subtotal > COALESCE(v_invoice.subtotal, 0) THEN
+    RAISE EXCEPTION 'Credited subtotal exceeds the invoice subtotal';
+  END IF;
+
+  IF v_credited_vat + NEW.vat_amount > COALESCE(v_invoice.vat_amount, 0) THEN
+    RAISE EXCEPTION 'Credited VAT exceeds the invoice VAT amount';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
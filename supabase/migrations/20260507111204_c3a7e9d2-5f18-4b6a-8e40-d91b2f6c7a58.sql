@@ -0,0 +1,63 @@
+-- A payment batch is recorded in one transaction: create_payment_batch()
+-- writes the header and its items together, so a rejected item no longer
+-- leaves an empty batch behind. The SEPA message id comes from a sequence
+-- instead of the creation second, which two batches could share.
+CREATE SEQUENCE public.payment_batch_message_seq;
+
+CREATE OR REPLACE FUNCTION public.create_payment_batch(p_batch jsonb, p_items jsonb)
+RETURNS TABLE(batch_id uuid, message_id text, created_at timestamp with time zone)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_batch payment_batches%ROWTYPE;
+  v_count integer;
+BEGIN
+  v_batch := jsonb_populate_record(NULL::payment_batches, p_batch);
+
+  IF NOT has_permission(auth.uid(), 'manage_payments') THEN
+    RAISE EXCEPTION 'Not allowed to create payment batches';
+  END IF;
+
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A payment batch needs at least one payment';
+  END IF;
+
+  -- Hold the invoices so no other batch or payment takes them meanwhile
+  SELECT count(*) INTO v_count
+  FROM (
+    SELECT 1
+    FROM invoices
+    WHERE id IN (SELECT (item->>'invoice_id')::uuid FROM jsonb_array_elements(p_items) AS item)
+      AND company_id = current_company_id()
+    FOR UPDATE
+  ) AS locked;
+
+  IF v_count <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Not allowed to pay these invoices';
+  END IF;
+
+  INSERT INTO payment_batches (
+    message_id, requested_execution_date, debtor_name, debtor_iban, debtor_bic,
+    total_amount, item_count, created_by
+  )
+  SELECT
+    'PB-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('payment_batch_message_seq')::text, 6, '0'),
+    v_batch.requested_execution_date, v_batch.debtor_name, v_batch.debtor_iban, v_batch.debtor_bic,
+    round(sum(i.amount), 2), count(*), auth.uid()
+  FROM jsonb_to_recordset(p_items) AS i(amount numeric)
+  RETURNING payment_batches.id, payment_batches.message_id, payment_batches.created_at
+  INTO v_batch.id, v_batch.message_id, v_batch.created_at;
+
+  INSERT INTO payment_batch_items (
+    batch_id, invoice_id, amount, creditor_name, creditor_iban, creditor_bic, remittance_info
+  )
+  SELECT v_batch.id, i.invoice_id, i.amount, i.creditor_name, i.creditor_iban, i.creditor_bic, i.remittance_info
+  FROM jsonb_to_recordset(p_items) AS i(
+    invoice_id uuid, amount numeric, creditor_name text, creditor_iban text, creditor_bic text, remittance_info text
+  );
+
+  RETURN QUERY SELECT v_batch.id, v_batch.message_id, v_batch.created_at;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Bank statement reconciliation marks its invoices paid in one transaction.
+-- Each invoice is locked and re-checked first: one paid or voided since the
+-- statement was matched, or sitting in an exported payment batch, rejects
+-- the whole import instead of being paid twice.
+CREATE OR REPLACE FUNCTION public.mark_invoices_paid(p_payments jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment record;
+  v_invoice invoices%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  IF NOT (has_permission(auth.uid(), 'manage_payments') OR has_permission(auth.uid(), 'manage_invoices')) THEN
+    RAISE EXCEPTION 'Not allowed to mark invoices as paid';
+  END IF;
+
+  FOR v_payment IN
+    SELECT p.invoice_id, p.paid_at
+    FROM jsonb_to_recordset(p_payments) AS p(invoice_id uuid, paid_at timestamp with time zone)
+    ORDER BY p.invoice_id
+  LOOP
+    SELECT * INTO v_invoice
+    FROM invoices
+    WHERE id = v_payment.invoice_id
+    FOR UPDATE;
+
+    IF v_invoice.id IS NULL OR v_invoice.company_id IS DISTINCT FROM current_company_id() THEN
+      RAISE EXCEPTION 'Invoice % does not exist', v_payment.invoice_id;
+    END IF;
+
+    IF v_invoice.status IN ('paid', 'void') THEN
+      RAISE EXCEPTION 'Invoice % is already %', v_invoice.invoice_number, v_invoice.status;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM payment_batch_items i
+      JOIN payment_batches b ON b.id = i.batch_id
+      WHERE i.invoice_id = v_invoice.id
+        AND b.status = 'exported'
+    ) THEN
+      RAISE EXCEPTION 'Invoice % is part of an open payment batch', v_invoice.invoice_number;
+    END IF;
+
+    UPDATE invoices
+    SET status = 'paid', paid_at = v_payment.paid_at
+    WHERE id = v_invoice.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- Signed hours are matched to an export by worker id, not by the printed
+-- name: two workers of the same name, or a worker renaming their profile,
+-- must not pick up someone else's signature.
+CREATE OR REPLACE FUNCTION public.client_signoff_week(p_project_id uuid, p_year integer, p_week integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH records AS (
+    SELECT pr.user_id, pr.date, pr.time_from, pr.time_to, COALESCE(pr.total_hours, 0) AS total_hours
+    FROM performance_records pr
+    WHERE pr.project_id = p_project_id
+      AND pr.deleted_at IS NULL
+      AND pr.status = 'approved'
+      AND to_char(pr.date, 'IYYY')::integer = p_year
+      AND to_char(pr.date, 'IW')::integer = p_week
+  ),
+  workers AS (
+    SELECT r.user_id,
+           COALESCE(p.full_name, 'Neznámy') AS worker_name,
+           sum(r.total_hours) AS total_hours,
+           jsonb_agg(jsonb_build_object(
+             'date', r.date,
+             'time_from', r.time_from,
+             'time_to', r.time_to,
+             'total_hours', r.total_hours
+           ) ORDER BY r.date, r.time_from) AS days
+    FROM records r
+    LEFT JOIN profiles p ON p.user_id = r.user_id
+    GROUP BY r.user_id, p.full_name
+  )
+  SELECT jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('name', pj.name, 'client', pj.client, 'location', pj.location, 'address', pj.address)
+      FROM projects pj WHERE pj.id = p_project_id
+    ),
+    'calendar_week', p_week,
+    'year', p_year,
+    'week_start', to_date(p_year || '-' || p_week || '-1', 'IYYY-IW-ID'),
+    'week_end', to_date(p_year || '-' || p_week || '-7', 'IYYY-IW-ID'),
+    'total_hours', COALESCE((SELECT sum(w.total_hours) FROM workers w), 0),
+    'workers', COALESCE((SELECT jsonb_agg(to_jsonb(w) ORDER BY w.worker_name, w.user_id) FROM workers w), '[]'::jsonb)
+  )
+$$;
+
+-- Weeks signed before: a worker gets their id where the signed name belongs
+-- to exactly one worker of the project week; the others stay unmatched
+UPDATE public.client_signoffs cs
+SET signed_summary = jsonb_set(cs.signed_summary, '{workers}', (
+  SELECT COALESCE(jsonb_agg(
+    w.worker || COALESCE((
+      SELECT CASE WHEN count(DISTINCT pr.user_id) = 1 THEN jsonb_build_object('user_id', min(pr.user_id::text)) END
+      FROM public.performance_records pr
+      LEFT JOIN public.profiles p ON p.user_id = pr.user_id
+      WHERE pr.project_id = cs.project_id
+        AND pr.deleted_at IS NULL
+        AND pr.status = 'approved'
+        AND to_char(pr.date, 'IYYY')::integer = cs.year
+        AND to_char(pr.date, 'IW')::integer = cs.calendar_week
+        AND COALESCE(p.full_name, 'Neznámy') = w.worker->>'worker_name'
+    ), '{}'::jsonb)
+    ORDER BY w.position
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(cs.signed_summary->'workers') WITH ORDINALITY AS w(worker, position)
+))
+WHERE cs.signed_summary ? 'workers';
@@ -0,0 +1,91 @@
+-- Monthly rent no longer drifts towards the end of the month: adding a month
+-- to the previous due date turned 31.1. into 28.2. and then 28.3. Each due
+-- date is now the schedule's first due date plus n periods (31.1., 28.2., 31.3.).
+DROP FUNCTION public.next_accommodation_payment_date(date, text);
+
+-- The n-th due date of a schedule starting on p_start (weekly is the default)
+CREATE OR REPLACE FUNCTION public.accommodation_payment_due_date(p_start date, p_frequency text, p_n integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'monthly' THEN (p_start + make_interval(months => p_n))::date
+    WHEN 'biweekly' THEN p_start + 14 * p_n
+    ELSE p_start + 7 * p_n
+  END;
+$$;
+
+-- Create the pending obligations falling due within the horizon. The schedule
+-- starts at the first generated due date, or next_payment_date before that.
+-- The rent is company_price (what the company actually pays) or price_total.
+CREATE OR REPLACE FUNCTION public.generate_accommodation_payments(p_horizon_days integer DEFAULT 31)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_acc record;
+  v_start date;
+  v_n integer;
+  v_due date;
+  v_next date;
+  v_amount numeric;
+  v_created integer := 0;
+  v_inserted integer;
+BEGIN
+  IF NOT is_admin_or_director(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to generate accommodation payments';
+  END IF;
+
+  FOR v_acc IN
+    SELECT a.id, a.payment_frequency, a.next_payment_date,
+           COALESCE(NULLIF(a.company_price, 0), a.price_total, 0) AS rent,
+           (SELECT min(p.due_date) FROM accommodation_payments p WHERE p.accommodation_id = a.id) AS first_due,
+           (SELECT max(p.due_date) FROM accommodation_payments p WHERE p.accommodation_id = a.id) AS last_due
+    FROM accommodations a
+    WHERE a.deleted_at IS NULL
+      AND a.is_active
+      AND a.payment_frequency IS NOT NULL
+      AND a.next_payment_date IS NOT NULL
+  LOOP
+    v_amount := v_acc.rent;
+    CONTINUE WHEN v_amount <= 0;
+
+    v_start := COALESCE(v_acc.first_due, v_acc.next_payment_date);
+
+    -- First period after the last generated one
+    v_n := 0;
+    IF v_acc.last_due IS NOT NULL THEN
+      v_n := CASE v_acc.payment_frequency
+        WHEN 'monthly' THEN
+          (extract(year FROM age(v_acc.last_due, v_start)) * 12 + extract(month FROM age(v_acc.last_due, v_start)))::integer
+        WHEN 'biweekly' THEN (v_acc.last_due - v_start) / 14
+        ELSE (v_acc.last_due - v_start) / 7
+      END;
+      WHILE accommodation_payment_due_date(v_start, v_acc.payment_frequency, v_n) <= v_acc.last_due LOOP
+        v_n := v_n + 1;
+      END LOOP;
+    END IF;
+
+    v_due := accommodation_payment_due_date(v_start, v_acc.payment_frequency, v_n);
+
+    WHILE v_due <= current_date + p_horizon_days LOOP
+      v_next := accommodation_payment_due_date(v_start, v_acc.payment_frequency, v_n + 1);
+
+      INSERT INTO accommodation_payments (accommodation_id, due_date, period_start, period_end, amount)
+      VALUES (v_acc.id, v_due, v_due, v_next - 1, v_amount)
+      ON CONFLICT (accommodation_id, due_date) DO NOTHING;
+      GET DIAGNOSTICS v_inserted = ROW_COUNT;
+      v_created := v_created + v_inserted;
+
+      v_n := v_n + 1;
+      v_due := v_next;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;